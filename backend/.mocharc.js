@@ -0,0 +1,11 @@
+const path = require('path');
+
+// Compile the sources with the backend tsconfig (decorators, commonjs), not
+// with whichever tsconfig ts-node would find from the working directory
+process.env.TS_NODE_PROJECT = path.join(__dirname, 'tsconfig.json');
+
+module.exports = {
+  require: ['ts-node/register/transpile-only', 'reflect-metadata'],
+  spec: 'test/**/*.test.js',
+  timeout: 60000
+};
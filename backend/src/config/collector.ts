@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface CollectorConfig {
+  // Time between two probes of the same node
+  intervalMs: number;
+  // Fraction of the interval each run is randomly moved by, so nodes drift apart
+  jitter: number;
+  // Nodes probed at the same time
+  concurrency: number;
+  // Upper bound for the delay of a node that keeps failing
+  maxBackoffMs: number;
+}
+
+export const getCollectorConfig = (): CollectorConfig => ({
+  intervalMs: parseInt(process.env.METRICS_INTERVAL_MS || '3600000'), // 1 hour
+  jitter: Math.min(Math.max(parseFloat(process.env.METRICS_JITTER || '0.1'), 0), 1),
+  concurrency: Math.max(parseInt(process.env.METRICS_CONCURRENCY || '4'), 1),
+  maxBackoffMs: parseInt(process.env.METRICS_MAX_BACKOFF_MS || '21600000') // 6 hours
+});
@@ -0,0 +1,78 @@
+import { ethers } from 'ethers';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const CHAIN_ID = parseInt(process.env.CHAIN_ID || '11155111');
+
+// Only the methods and events the backend uses; the full ABIs live with the frontend
+export const VPN_REGISTRY_ABI = [
+  'function admin() view returns (address)',
+  'function isAdmin(address account) view returns (bool)',
+  'function canAccessNodes(uint256 tokenId) view returns (bool)',
+  'function nodes(address nodeAddress) view returns (string ipAddress, address owner, bool isApproved, bool isActive, uint256 timestamp, uint256 latency, uint256 bandwidth, uint256 uptime, uint256 reliability, uint256 totalScore)',
+  'function updateNodeMetrics(address nodeAddress, uint256 latency, uint256 bandwidth, uint256 uptime, uint256 reliability)',
+  'event NodeRegistered(address indexed nodeAddress, string ipAddress, address indexed owner)',
+  'event NodeApproved(address indexed nodeAddress)',
+  'event NodeDeactivated(address indexed nodeAddress)',
+  'event MetricsUpdated(address indexed nodeAddress, uint256 latency, uint256 bandwidth, uint256 uptime, uint256 reliability, uint256 totalScore)',
+  'event AdminAdded(address indexed newAdmin)',
+  'event AdminRemoved(address indexed removedAdmin)'
+];
+
+export const VPN_SUBSCRIPTION_ABI = [
+  'function hasActiveSubscription(address user) view returns (bool)',
+  'function isSubscriptionActive(uint256 tokenId) view returns (bool)',
+  'function subscriptionExpiry(uint256 tokenId) view returns (uint256)',
+  'function userLatestToken(address user) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function epochGenesis() view returns (uint256)',
+  'function EPOCH_DURATION() view returns (uint256)',
+  'function SETTLEMENT_DELAY() view returns (uint256)',
+  'function epochSettled(uint256 epoch) view returns (bool)',
+  'function settleEpoch(uint256 epoch, address[] nodeAddresses, uint256[] served)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+];
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+export const getProvider = (): ethers.JsonRpcProvider => {
+  if (!provider) {
+    if (!process.env.RPC_URL) {
+      throw new Error('RPC_URL is not configured');
+    }
+    provider = new ethers.JsonRpcProvider(process.env.RPC_URL, CHAIN_ID);
+  }
+  return provider;
+};
+
+// Read-only unless a signer is passed in
+export const getRegistryContract = (runner: ethers.ContractRunner = getProvider()): ethers.Contract => {
+  if (!process.env.VPN_REGISTRY_ADDRESS) {
+    throw new Error('VPN_REGISTRY_ADDRESS is not configured');
+  }
+  return new ethers.Contract(process.env.VPN_REGISTRY_ADDRESS, VPN_REGISTRY_ABI, runner);
+};
+
+export const getSubscriptionContract = (runner: ethers.ContractRunner = getProvider()): ethers.Contract => {
+  if (!process.env.VPN_SUBSCRIPTION_ADDRESS) {
+    throw new Error('VPN_SUBSCRIPTION_ADDRESS is not configured');
+  }
+  return new ethers.Contract(process.env.VPN_SUBSCRIPTION_ADDRESS, VPN_SUBSCRIPTION_ABI, runner);
+};
+
+// Admin key the metrics relayer signs VPNRegistry.updateNodeMetrics with
+export const getRelayerWallet = (): ethers.Wallet => {
+  if (!process.env.RELAYER_PRIVATE_KEY) {
+    throw new Error('RELAYER_PRIVATE_KEY is not configured');
+  }
+  return new ethers.Wallet(process.env.RELAYER_PRIVATE_KEY, getProvider());
+};
+
+// Owner key of VPNSubscription, which settleEpoch is restricted to
+export const getSettlementWallet = (): ethers.Wallet => {
+  if (!process.env.SETTLEMENT_PRIVATE_KEY) {
+    throw new Error('SETTLEMENT_PRIVATE_KEY is not configured');
+  }
+  return new ethers.Wallet(process.env.SETTLEMENT_PRIVATE_KEY, getProvider());
+};
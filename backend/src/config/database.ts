@@ -2,6 +2,14 @@ import { DataSource } from 'typeorm';
 import { VPNNode } from '../models/VPNNode';
 import { NodeMetrics } from '../models/NodeMetrics';
 import { Subscription } from '../models/Subscription';
+import { IpLease } from '../models/IpLease';
+import { MetricsSubmission } from '../models/MetricsSubmission';
+import { IndexerCheckpoint } from '../models/IndexerCheckpoint';
+import { IndexedBlock } from '../models/IndexedBlock';
+import { IndexerUndo } from '../models/IndexerUndo';
+import { RegistryAdmin } from '../models/RegistryAdmin';
+import { PeerUsage } from '../models/PeerUsage';
+import { NodeMetricsHourly, NodeMetricsDaily, NodeMetricsWeekly } from '../models/NodeMetricsRollup';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -15,7 +23,7 @@ export const AppDataSource = new DataSource({
   database: process.env.DB_NAME || 'dvpn_db',
   synchronize: process.env.NODE_ENV !== 'production',
   logging: process.env.NODE_ENV !== 'production',
-  entities: [VPNNode, NodeMetrics, Subscription],
+  entities: [VPNNode, NodeMetrics, NodeMetricsHourly, NodeMetricsDaily, NodeMetricsWeekly, Subscription, IpLease, MetricsSubmission, IndexerCheckpoint, IndexedBlock, IndexerUndo, RegistryAdmin, PeerUsage],
   migrations: ['src/migrations/*.ts'],
   subscribers: [],
 }); 
\ No newline at end of file
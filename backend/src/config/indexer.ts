@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface IndexerConfig {
+  enabled: boolean;
+  // Block the contracts were deployed at; nothing earlier is scanned
+  startBlock: number;
+  // Blocks behind the head that are considered final
+  confirmations: number;
+  // Blocks of applied history kept to roll back reorgs deeper than `confirmations`
+  reorgDepth: number;
+  // Blocks requested per eth_getLogs call
+  batchSize: number;
+  pollIntervalMs: number;
+}
+
+// For a local Hardhat node use RPC_URL=http://127.0.0.1:8545, CHAIN_ID=31337
+// and INDEXER_CONFIRMATIONS=0. Against a public network RPC_URL must be an
+// archive node unless INDEXER_START_BLOCK is within the last ~128 blocks,
+// since subscription expiries are read at the block they were minted in.
+export const getIndexerConfig = (): IndexerConfig => ({
+  enabled: process.env.INDEXER_ENABLED === 'true',
+  startBlock: parseInt(process.env.INDEXER_START_BLOCK || '0'),
+  confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '12'),
+  reorgDepth: Math.max(parseInt(process.env.INDEXER_REORG_DEPTH || '256'), 1),
+  batchSize: Math.max(parseInt(process.env.INDEXER_BATCH_SIZE || '2000'), 1),
+  pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000') // 15 seconds
+});
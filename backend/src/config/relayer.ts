@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface RelayerConfig {
+  enabled: boolean;
+  intervalMs: number;
+  // Relative change (percent) a metric needs before it is worth the gas
+  thresholdPercent: number;
+  // Smoothing factor for the exponential moving average of collected samples
+  smoothing: number;
+  maxRetries: number;
+  // Give up waiting for a receipt after this long and retry
+  confirmationTimeoutMs: number;
+}
+
+export const getRelayerConfig = (): RelayerConfig => ({
+  enabled: process.env.RELAYER_ENABLED === 'true',
+  intervalMs: parseInt(process.env.RELAYER_INTERVAL_MS || '21600000'), // 6 hours
+  thresholdPercent: parseFloat(process.env.RELAYER_THRESHOLD_PERCENT || '10'),
+  smoothing: Math.min(Math.max(parseFloat(process.env.RELAYER_SMOOTHING || '0.3'), 0.01), 1),
+  maxRetries: parseInt(process.env.RELAYER_MAX_RETRIES || '3'),
+  confirmationTimeoutMs: parseInt(process.env.RELAYER_CONFIRMATION_TIMEOUT_MS || '180000') // 3 minutes
+});
@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface RollupConfig {
+  // How often rollups are refreshed and old rows pruned
+  intervalMs: number;
+  // Raw NodeMetrics samples older than this are deleted, except those from the
+  // previous and current week, which the weekly rollup is rebuilt from
+  rawRetentionDays: number;
+  // Hourly rollups older than this are deleted; daily and weekly are kept
+  hourlyRetentionDays: number;
+}
+
+export const getRollupConfig = (): RollupConfig => ({
+  intervalMs: parseInt(process.env.METRICS_ROLLUP_INTERVAL_MS || '3600000'), // 1 hour
+  rawRetentionDays: parseInt(process.env.METRICS_RAW_RETENTION_DAYS || '14'),
+  hourlyRetentionDays: parseInt(process.env.METRICS_HOURLY_RETENTION_DAYS || '90')
+});
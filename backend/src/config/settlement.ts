@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// What a node's served amount is measured in when an epoch is settled
+export type ServedUnit = 'bytes' | 'sessions';
+
+export interface SettlementConfig {
+  enabled: boolean;
+  // How often the registry backend checks for epochs past their refund window
+  intervalMs: number;
+  // How often a node agent samples the WireGuard transfer counters
+  usageSampleIntervalMs: number;
+  servedUnit: ServedUnit;
+  confirmationTimeoutMs: number;
+}
+
+export const getSettlementConfig = (): SettlementConfig => ({
+  enabled: process.env.SETTLEMENT_ENABLED === 'true',
+  intervalMs: parseInt(process.env.SETTLEMENT_INTERVAL_MS || '3600000'), // 1 hour
+  usageSampleIntervalMs: parseInt(process.env.USAGE_SAMPLE_INTERVAL_MS || '60000'), // 1 minute
+  servedUnit: process.env.SETTLEMENT_SERVED_UNIT === 'sessions' ? 'sessions' : 'bytes',
+  confirmationTimeoutMs: parseInt(process.env.SETTLEMENT_CONFIRMATION_TIMEOUT_MS || '180000') // 3 minutes
+});
@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type ExecutorType = 'local' | 'ssh' | 'dry-run';
+
+export interface WireGuardConfig {
+  executor: ExecutorType;
+  interfaceName: string;
+  listenPort: number;
+  endpointHost: string;
+  useSudo: boolean;
+  // Tunnel addresses handed out to peers, and the one kept by the node itself
+  addressPool: string;
+  serverAddress: string;
+  // On-chain address of the node this backend provisions peers on
+  nodeAddress: string;
+  // How often `wg show dump` is polled for status, usage and metrics
+  pollIntervalMs: number;
+  ssh: {
+    host: string;
+    user: string;
+    port: number;
+    identityFile?: string;
+  };
+}
+
+export const getWireGuardConfig = (): WireGuardConfig => {
+  const sshHost = process.env.VPN_NODE_HOST || '';
+
+  return {
+    executor: (process.env.WG_EXECUTOR as ExecutorType) || (sshHost ? 'ssh' : 'local'),
+    interfaceName: process.env.WG_INTERFACE || 'wg0',
+    listenPort: parseInt(process.env.WG_LISTEN_PORT || '51820'),
+    // Clients connect to the node itself unless a separate public endpoint is given
+    endpointHost: process.env.WG_ENDPOINT_HOST || sshHost || '127.0.0.1',
+    useSudo: process.env.WG_USE_SUDO !== 'false',
+    addressPool: process.env.WG_ADDRESS_POOL || '10.0.0.0/24',
+    serverAddress: process.env.WG_SERVER_ADDRESS || '10.0.0.1',
+    nodeAddress: (process.env.VPN_NODE_ADDRESS || sshHost || 'local').toLowerCase(),
+    pollIntervalMs: parseInt(process.env.WG_POLL_INTERVAL_MS || '5000'),
+    ssh: {
+      host: sshHost,
+      user: process.env.VPN_NODE_USERNAME || '',
+      port: parseInt(process.env.VPN_NODE_PORT || '22'),
+      identityFile: process.env.VPN_NODE_SSH_KEY
+    }
+  };
+};
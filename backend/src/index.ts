@@ -4,10 +4,20 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { initializeDatabase } from './database/init';
+import authRoutes from './routes/auth';
 import { nodeRoutes } from './routes/nodes';
-import { metricsRoutes } from './routes/metrics';
+import { metricsRoutes, metricsRollups } from './routes/metrics';
 import nodeMetricsRoutes from './routes/node-metrics';
-import { ProductionMetricsCollector } from './services/ProductionMetricsCollector';
+import { collectorRoutes, metricsCollector } from './routes/collector';
+import { relayerRoutes, metricsRelayer } from './routes/relayer';
+import { settlementRoutes, revenueSettler } from './routes/settlement';
+import { prometheusRoutes } from './routes/prometheus';
+import { chainRoutes } from './routes/chain';
+import { getRelayerConfig } from './config/relayer';
+import { getSettlementConfig } from './config/settlement';
+import { getIndexerConfig } from './config/indexer';
+import { ChainIndexer } from './services/ChainIndexer';
+import { instrumentCollector } from './monitoring/metrics';
 
 // Load environment variables
 dotenv.config();
@@ -20,19 +30,45 @@ app.use(cors());
 app.use(helmet());
 app.use(express.json());
 
-// Initialize metrics collector
-export const metricsCollector = new ProductionMetricsCollector();
+instrumentCollector(metricsCollector);
 
 // API routes
+app.use('/api/auth', authRoutes);
 app.use('/api/nodes', nodeRoutes);
 app.use('/api/metrics', metricsRoutes);
+app.use('/api/collector', collectorRoutes);
+app.use('/api/relayer', relayerRoutes);
+app.use('/api/settlement', settlementRoutes);
+app.use('/api/chain', chainRoutes);
 app.use('/node', nodeMetricsRoutes); // Routes for node metrics collection
+app.use('/metrics', prometheusRoutes);
 
 const startServer = async () => {
   try {
     // Initialize database connection
     await initializeDatabase();
-    
+
+    // Mirror registry and subscription state from the chain
+    if (getIndexerConfig().enabled) {
+      new ChainIndexer().start();
+    }
+
+    // Probe every registered node on the configured cadence
+    await metricsCollector.start();
+
+    // Roll raw samples up into hourly/daily/weekly tables and prune old ones
+    metricsRollups.start();
+
+    // Push smoothed metrics on-chain when a relayer key is configured
+    if (getRelayerConfig().enabled) {
+      metricsRelayer.start();
+    }
+
+    // Split subscription revenue between operators once each epoch's refund window closes
+    if (getSettlementConfig().enabled) {
+      revenueSettler.start();
+    }
+
     // Start the server
     app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
@@ -2,17 +2,21 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 
-interface AuthenticatedRequest extends Request {
-  auth?: {
-    sessionId: string;
-    isAdmin: boolean;
-  };
+export interface SessionAuth {
+  sessionId: string;
+  address: string;
+  isAdmin: boolean;
+}
+
+export interface AuthenticatedRequest extends Request {
+  auth?: SessionAuth;
 }
 
 // Store nonces in memory with expiration
 const nonceStore = new Map<string, { nonce: string; expiry: number }>();
 
-// Clean up expired nonces periodically
+// Clean up expired nonces periodically; unref'd so the timer alone does not
+// keep the process (or a test run) alive
 setInterval(() => {
   const now = Date.now();
   for (const [address, data] of nonceStore.entries()) {
@@ -20,17 +24,40 @@ setInterval(() => {
       nonceStore.delete(address);
     }
   }
-}, 15 * 60 * 1000); // Clean every 15 minutes
+}, 15 * 60 * 1000).unref(); // Clean every 15 minutes
 
 export const generateNonce = (address: string): string => {
   const nonce = crypto.randomBytes(32).toString('hex');
-  nonceStore.set(address, {
+  nonceStore.set(address.toLowerCase(), {
     nonce,
     expiry: Date.now() + 5 * 60 * 1000 // 5 minutes expiry
   });
   return nonce;
 };
 
+// Nonces are single use: a matching nonce is removed from the store
+export const consumeNonce = (address: string, nonce: string): boolean => {
+  const key = address.toLowerCase();
+  const data = nonceStore.get(key);
+  if (!data || data.expiry < Date.now() || data.nonce !== nonce) {
+    return false;
+  }
+  nonceStore.delete(key);
+  return true;
+};
+
+// Throws if the token is missing a valid signature or has expired
+export const verifySessionToken = (token: string): SessionAuth => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default_secret') as SessionAuth;
+
+  // Only keep minimal session information
+  return {
+    sessionId: decoded.sessionId,
+    address: decoded.address,
+    isAdmin: decoded.isAdmin
+  };
+};
+
 export const authMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -43,17 +70,7 @@ export const authMiddleware = async (
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default_secret') as {
-      sessionId: string;
-      isAdmin: boolean;
-    };
-
-    // Only store minimal session information
-    req.auth = {
-      sessionId: decoded.sessionId,
-      isAdmin: decoded.isAdmin
-    };
-
+    req.auth = verifySessionToken(token);
     next();
   } catch (error) {
     // Don't log the error details, just return a generic message
@@ -76,11 +93,13 @@ export const adminMiddleware = (
 // Helper function to create JWT without storing sensitive data
 export const createSessionToken = (
   sessionId: string,
+  address: string,
   isAdmin: boolean = false
 ): string => {
   return jwt.sign(
     {
       sessionId,
+      address: address.toLowerCase(),
       isAdmin
     },
     process.env.JWT_SECRET || 'default_secret',
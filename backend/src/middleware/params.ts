@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express';
+import { ethers } from 'ethers';
+
+// Addresses are stored lowercase (see ChainIndexer), so route params are
+// normalised before lookups. Use with router.param('address', ...).
+export const lowercaseParam = (req: Request, res: Response, next: NextFunction, value: string, name: string): void => {
+  req.params[name] = value.toLowerCase();
+  next();
+};
+
+// User ids are wallet addresses, stored lowercase like the session address.
+// Anything else (e.g. an admin's test peer name) is kept as given.
+export const normaliseUserId = (userId: string): string =>
+  ethers.isAddress(userId) ? userId.toLowerCase() : userId;
@@ -0,0 +1,15 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+// Hash of a block the chain indexer applied events from or ended a batch at.
+// After a reorg, the newest of these still on the chain is where it rolls back to.
+@Entity()
+export class IndexedBlock {
+  @PrimaryColumn()
+  checkpointId: string;
+
+  @PrimaryColumn('integer')
+  blockNumber: number;
+
+  @Column()
+  blockHash: string;
+}
@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// Last block the chain indexer has fully applied, per chain and contract pair
+@Entity()
+export class IndexerCheckpoint {
+  @PrimaryColumn()
+  id: string;
+
+  @Column('integer')
+  blockNumber: number;
+
+  // Compared on the next run to detect a reorg below the confirmation depth
+  @Column()
+  blockHash: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
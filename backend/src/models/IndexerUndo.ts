@@ -0,0 +1,27 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+// A row as it was before the chain indexer applied one event to it, so the
+// event can be undone when its block is reorged away
+@Entity()
+@Index(['checkpointId', 'blockNumber'])
+export class IndexerUndo {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  checkpointId: string;
+
+  @Column('integer')
+  blockNumber: number;
+
+  // Entity name and primary key of the row the event touched
+  @Column()
+  entity: string;
+
+  @Column({ type: 'jsonb' })
+  key: Record<string, string>;
+
+  // Null when the event created the row
+  @Column({ type: 'jsonb', nullable: true })
+  previous: Record<string, unknown> | null;
+}
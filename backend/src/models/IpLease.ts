@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Unique } from 'typeorm';
+
+// A tunnel address leased to one user on one node. The unique constraints are
+// what keep two concurrent connects from being handed the same address.
+@Entity()
+@Unique(['nodeAddress', 'ipAddress'])
+@Unique(['nodeAddress', 'userId'])
+export class IpLease {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  nodeAddress: string;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  ipAddress: string;
+
+  // Set once the WireGuard peer has been added
+  @Column({ type: 'varchar', nullable: true })
+  publicKey: string | null;
+
+  // Subscription NFT paying for the lease; null for admin test peers
+  @Column({ type: 'varchar', nullable: true })
+  tokenId: string | null;
+
+  @Column()
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
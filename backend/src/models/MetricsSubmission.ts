@@ -0,0 +1,61 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export type SubmissionStatus = 'pending' | 'confirmed' | 'failed';
+
+// One attempt by the relayer to write a node's metrics to VPNRegistry
+@Entity()
+export class MetricsSubmission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  nodeAddress: string;
+
+  // Values as submitted on-chain (integers)
+  @Column('integer')
+  latency: number;
+
+  @Column('integer')
+  bandwidth: number;
+
+  @Column('integer')
+  uptime: number;
+
+  @Column('integer')
+  reliability: number;
+
+  // What the registry held before this submission
+  @Column({ type: 'jsonb', nullable: true })
+  previous: { latency: number; bandwidth: number; uptime: number; reliability: number } | null;
+
+  @Column()
+  relayer: string;
+
+  @Column({ type: 'integer', nullable: true })
+  nonce: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  txHash: string | null;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: SubmissionStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'integer', nullable: true })
+  blockNumber: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  gasUsed: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
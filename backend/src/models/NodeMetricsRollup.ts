@@ -0,0 +1,79 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index, Unique } from 'typeorm';
+
+// Aggregated NodeMetrics over one bucket. The raw table stores decimals; the
+// rollups use double precision so they come back from Postgres as numbers.
+export abstract class NodeMetricsRollup {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  nodeAddress: string;
+
+  // Start of the hour, day or ISO week (Monday) the row covers
+  @Column()
+  bucketStart: Date;
+
+  @Column('integer')
+  sampleCount: number;
+
+  @Column('double precision')
+  latencyMin: number;
+
+  @Column('double precision')
+  latencyAvg: number;
+
+  @Column('double precision')
+  latencyMax: number;
+
+  @Column('double precision')
+  latencyP95: number;
+
+  @Column('double precision')
+  bandwidthMin: number;
+
+  @Column('double precision')
+  bandwidthAvg: number;
+
+  @Column('double precision')
+  bandwidthMax: number;
+
+  @Column('double precision')
+  bandwidthP95: number;
+
+  @Column('double precision')
+  uptimeMin: number;
+
+  @Column('double precision')
+  uptimeAvg: number;
+
+  @Column('double precision')
+  uptimeMax: number;
+
+  @Column('double precision')
+  uptimeP95: number;
+
+  @Column('double precision')
+  reliabilityMin: number;
+
+  @Column('double precision')
+  reliabilityAvg: number;
+
+  @Column('double precision')
+  reliabilityMax: number;
+
+  @Column('double precision')
+  reliabilityP95: number;
+}
+
+@Entity()
+@Unique(['nodeAddress', 'bucketStart'])
+export class NodeMetricsHourly extends NodeMetricsRollup {}
+
+@Entity()
+@Unique(['nodeAddress', 'bucketStart'])
+export class NodeMetricsDaily extends NodeMetricsRollup {}
+
+@Entity()
+@Unique(['nodeAddress', 'bucketStart'])
+export class NodeMetricsWeekly extends NodeMetricsRollup {}
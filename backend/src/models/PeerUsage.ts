@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+// Traffic one leased peer moved through a node between two samples of its
+// WireGuard transfer counters. The settler sums these per node and epoch.
+@Entity()
+@Index(['nodeAddress', 'recordedAt'])
+@Index(['publicKey', 'recordedAt'])
+export class PeerUsage {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  nodeAddress: string;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  publicKey: string;
+
+  // Received plus sent since the previous sample of this peer
+  @Column('bigint')
+  bytes: string;
+
+  // The peer's cumulative counter at this sample, so the next delta survives a restart
+  @Column('bigint')
+  counter: string;
+
+  @Column()
+  recordedAt: Date;
+}
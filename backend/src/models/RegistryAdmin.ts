@@ -0,0 +1,14 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+// An address added through VPNRegistry.addAdmin and not removed since
+@Entity()
+export class RegistryAdmin {
+  @PrimaryColumn()
+  address: string;
+
+  @Column('integer')
+  addedAtBlock: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
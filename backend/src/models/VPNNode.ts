@@ -15,9 +15,25 @@ export class VPNNode {
   @Column()
   isActive: boolean;
 
+  @Column({ default: false })
+  isApproved: boolean;
+
   @Column()
   isRegistered: boolean;
 
+  // Last values written on-chain by VPNRegistry.updateNodeMetrics
+  @Column('integer', { default: 0 })
+  latency: number;
+
+  @Column('integer', { default: 0 })
+  bandwidth: number;
+
+  @Column('integer', { default: 0 })
+  uptime: number;
+
+  @Column('integer', { default: 0 })
+  reliability: number;
+
   @Column('decimal')
   totalScore: number;
 
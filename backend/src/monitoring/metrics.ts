@@ -0,0 +1,92 @@
+import { Counter, Gauge, Histogram, Registry } from './prometheus';
+import { ProductionMetricsCollector, MetricsResult } from '../services/ProductionMetricsCollector';
+import { PeerLeaseManager } from '../services/PeerLeaseManager';
+import { WireGuardMonitor } from '../wireguard/monitor';
+import { VPNStatusServer } from '../websocket/vpnStatusServer';
+
+// Each process exposes what it owns: index.ts the collector, server.ts
+// WireGuard and the status WebSocket. Prometheus scrapes both.
+export const registry = new Registry();
+
+const LATENCY_BUCKETS = [10, 25, 50, 100, 250, 500, 1000]; // ms; 1000 is the unanswered-ping penalty
+const BANDWIDTH_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000]; // Mbps
+
+export const instrumentCollector = (collector: ProductionMetricsCollector): void => {
+  const latency = registry.register(new Gauge('dvpn_node_latency_ms', 'Latest measured latency of a node', ['node']));
+  const bandwidth = registry.register(new Gauge('dvpn_node_bandwidth_mbps', 'Latest measured bandwidth of a node', ['node']));
+  const uptime = registry.register(new Gauge('dvpn_node_uptime_percent', 'Share of answered pings over the last day', ['node']));
+  const reliability = registry.register(new Gauge('dvpn_node_reliability_percent', 'Latest reliability score of a node', ['node']));
+  const score = registry.register(new Gauge('dvpn_node_score', 'Total score of a node, weighted as on-chain (0-100)', ['node']));
+  const consecutiveFailures = registry.register(
+    new Gauge('dvpn_collector_consecutive_failures', 'Failed probes of a node since its last success', ['node'])
+  );
+  const latencyHistogram = registry.register(
+    new Histogram('dvpn_node_probe_latency_ms', 'Latency measured by each probe', ['node'], LATENCY_BUCKETS)
+  );
+  const bandwidthHistogram = registry.register(
+    new Histogram('dvpn_node_probe_bandwidth_mbps', 'Bandwidth measured by each probe', ['node'], BANDWIDTH_BUCKETS)
+  );
+  const probes = registry.register(new Counter('dvpn_collector_probes_total', 'Node probes by result', ['node', 'result']));
+  const failures = registry.register(new Counter('dvpn_collector_probe_failures_total', 'Failed node probes', ['node']));
+
+  collector.on('metrics:collected', ({ nodeAddress, metrics }: { nodeAddress: string; metrics: MetricsResult }) => {
+    latencyHistogram.observe({ node: nodeAddress }, metrics.latency);
+    bandwidthHistogram.observe({ node: nodeAddress }, metrics.bandwidth);
+    probes.inc({ node: nodeAddress, result: 'success' });
+  });
+
+  collector.on('metrics:failed', ({ nodeAddress }: { nodeAddress: string }) => {
+    probes.inc({ node: nodeAddress, result: 'failure' });
+    failures.inc({ node: nodeAddress });
+  });
+
+  registry.addCollector(() => {
+    [latency, bandwidth, uptime, reliability, score, consecutiveFailures].forEach(gauge => gauge.reset());
+
+    collector.getCollectionStatus().forEach(status => {
+      const labels = { node: status.nodeAddress };
+      consecutiveFailures.set(labels, status.consecutiveFailures);
+
+      const latest = collector.getLatestMetrics(status.nodeAddress);
+      if (!latest) return;
+      latency.set(labels, latest.latency);
+      bandwidth.set(labels, latest.bandwidth);
+      uptime.set(labels, latest.uptime);
+      reliability.set(labels, latest.reliability);
+      score.set(labels, collector.getScore(status.nodeAddress) ?? 0);
+    });
+  });
+};
+
+// Interface totals only: per-peer series would expose each user's traffic and
+// grow with every user the node has served
+export const instrumentWireGuard = (monitor: WireGuardMonitor, leases: PeerLeaseManager): void => {
+  const peers = registry.register(new Gauge('dvpn_wireguard_peers', 'Peers configured on the interface', []));
+  const activeLeases = registry.register(new Gauge('dvpn_wireguard_leases', 'Peer leases currently held', []));
+  const received = registry.register(
+    new Gauge('dvpn_wireguard_received_bytes', 'Bytes received from the peers currently on the interface', [])
+  );
+  const sent = registry.register(
+    new Gauge('dvpn_wireguard_sent_bytes', 'Bytes sent to the peers currently on the interface', [])
+  );
+
+  registry.addCollector(async () => {
+    const [dump, held] = await Promise.all([monitor.getSnapshot(), leases.getActiveLeases()]);
+
+    peers.set({}, dump.peers.length);
+    activeLeases.set({}, held.length);
+    received.set({}, dump.peers.reduce((total, peer) => total + peer.transferRx, 0));
+    sent.set({}, dump.peers.reduce((total, peer) => total + peer.transferTx, 0));
+  });
+};
+
+export const instrumentStatusServer = (server: VPNStatusServer): void => {
+  const sockets = registry.register(new Gauge('dvpn_ws_clients', 'Open status WebSocket connections', []));
+  const users = registry.register(new Gauge('dvpn_ws_users', 'Users with at least one open status WebSocket', []));
+
+  registry.addCollector(() => {
+    const counts = server.getClientCounts();
+    sockets.set({}, counts.sockets);
+    users.set({}, counts.users);
+  });
+};
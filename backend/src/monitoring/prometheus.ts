@@ -0,0 +1,163 @@
+// Minimal Prometheus text exposition (format 0.0.4): counters, gauges and
+// histograms with labels, plus collectors that refresh values on scrape.
+
+export type Labels = Record<string, string>;
+
+type Collector = () => void | Promise<void>;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.keys(labels).map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+};
+
+// Label sets are keyed by their values in declared label order
+abstract class Metric<T> {
+  protected series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const missing = this.labelNames.filter(name => labels[name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Metric ${this.name} is missing labels: ${missing.join(', ')}`);
+    }
+
+    const ordered: Labels = {};
+    this.labelNames.forEach(name => {
+      ordered[name] = labels[name];
+    });
+
+    const key = JSON.stringify(this.labelNames.map(name => ordered[name]));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.value.counts[i]++;
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach(({ labels, value }) => {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    });
+    return lines;
+  }
+}
+
+export class Registry {
+  private metrics: Metric<any>[] = [];
+  private collectors: Collector[] = [];
+
+  register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  // Runs before every scrape, for values that are read rather than counted
+  addCollector(collector: Collector): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    // One failing source should not take the whole scrape down
+    await Promise.all(this.collectors.map(async collector => {
+      try {
+        await collector();
+      } catch (error) {
+        console.error('Error collecting Prometheus metrics:', error);
+      }
+    }));
+
+    return this.metrics.map(metric => metric.render().join('\n')).join('\n') + '\n';
+  }
+}
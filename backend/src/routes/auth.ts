@@ -0,0 +1,71 @@
+import express, { Router, RequestHandler } from 'express';
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { generateNonce, consumeNonce, createSessionToken } from '../middleware/auth';
+import { SiweService } from '../services/SiweService';
+
+interface NonceQuery {
+  address?: string;
+}
+
+interface VerifyRequest {
+  message: string;
+  signature: string;
+}
+
+const router: Router = express.Router();
+const siwe = new SiweService();
+
+// Issue a one-time nonce for the address to embed in its SIWE message
+const nonceHandler: RequestHandler<{}, any, any, NonceQuery> = async (req, res) => {
+  const { address } = req.query;
+  if (!address || !ethers.isAddress(address)) {
+    res.status(400).json({ error: 'A valid address is required' });
+    return;
+  }
+
+  res.json({ nonce: generateNonce(address) });
+};
+
+// Exchange a signed SIWE message for a session token
+const verifyHandler: RequestHandler<{}, any, VerifyRequest> = async (req, res) => {
+  const { message, signature } = req.body;
+  if (!message || !signature) {
+    res.status(400).json({ error: 'Message and signature are required' });
+    return;
+  }
+
+  let fields;
+  try {
+    fields = siwe.verify(message, signature);
+  } catch (error) {
+    console.error('SIWE verification failed:', error);
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  if (!consumeNonce(fields.address, fields.nonce)) {
+    res.status(401).json({ error: 'Invalid or expired nonce' });
+    return;
+  }
+
+  try {
+    const isAdmin = await siwe.isAdmin(fields.address);
+    const sessionId = crypto.randomBytes(16).toString('hex');
+    const token = createSessionToken(sessionId, fields.address, isAdmin);
+
+    res.json({
+      token,
+      address: fields.address.toLowerCase(),
+      isAdmin
+    });
+  } catch (error) {
+    console.error('Error creating session:', error);
+    res.status(500).json({ error: 'Failed to create session' });
+  }
+};
+
+router.get('/nonce', nonceHandler);
+router.post('/verify', verifyHandler);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { getRepository } from '../database/init';
+import { IndexerCheckpoint } from '../models/IndexerCheckpoint';
+import { RegistryAdmin } from '../models/RegistryAdmin';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// Registry admins as indexed from AdminAdded/AdminRemoved
+router.get('/admins', async (req, res) => {
+  try {
+    const admins = await getRepository<RegistryAdmin>(RegistryAdmin).find({
+      order: { addedAtBlock: 'ASC' }
+    });
+    res.json(admins);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch admins' });
+  }
+});
+
+// How far the chain indexer has got
+router.get('/status', async (req, res) => {
+  try {
+    const checkpoints = await getRepository<IndexerCheckpoint>(IndexerCheckpoint).find();
+    res.json(checkpoints);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch indexer status' });
+  }
+});
+
+export const chainRoutes = router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { ProductionMetricsCollector } from '../services/ProductionMetricsCollector';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import { lowercaseParam } from '../middleware/params';
+
+const router = Router();
+
+export const metricsCollector = new ProductionMetricsCollector();
+
+router.use(authMiddleware, adminMiddleware);
+router.param('address', lowercaseParam);
+
+// Collection status of every scheduled node
+router.get('/nodes', (req, res) => {
+  res.json(metricsCollector.getCollectionStatus());
+});
+
+// Collection status of one node
+router.get('/nodes/:address', (req, res) => {
+  const status = metricsCollector.getCollectionStatus(req.params.address);
+  if (!status) {
+    return res.status(404).json({ error: 'Node is not scheduled for collection' });
+  }
+  res.json(status);
+});
+
+// Start (or restart) collection for a node; probes it immediately
+router.post('/nodes/:address/start', async (req, res) => {
+  try {
+    const status = await metricsCollector.startCollecting(req.params.address);
+    if (!status) {
+      return res.status(404).json({ error: 'Node not found' });
+    }
+    res.json(status);
+  } catch (error) {
+    console.error('Error starting metrics collection:', error);
+    res.status(500).json({ error: 'Failed to start metrics collection' });
+  }
+});
+
+// Stop collection for a node
+router.post('/nodes/:address/stop', (req, res) => {
+  const status = metricsCollector.getCollectionStatus(req.params.address);
+  if (!status) {
+    return res.status(404).json({ error: 'Node is not scheduled for collection' });
+  }
+  metricsCollector.stopCollecting(req.params.address);
+  res.json(metricsCollector.getCollectionStatus(req.params.address));
+});
+
+export const collectorRoutes = router;
@@ -2,9 +2,28 @@ import { Router } from 'express';
 import { getRepository } from '../database/init';
 import { NodeMetrics } from '../models/NodeMetrics';
 import { VPNNode } from '../models/VPNNode';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import { lowercaseParam } from '../middleware/params';
+import { MetricsRollupService, Resolution } from '../services/MetricsRollupService';
 
 const router = Router();
 
+export const metricsRollups = new MetricsRollupService();
+
+const RESOLUTIONS = ['auto', 'raw', 'hour', 'day', 'week'];
+const DEFAULT_HISTORY = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Accepts ISO 8601 strings or milliseconds since the epoch
+const parseTime = (value: unknown, fallback: Date): Date | null => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || value === '') return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+router.use(authMiddleware);
+router.param('address', lowercaseParam);
+
 // Get metrics for a node
 router.get('/node/:address', async (req, res) => {
   try {
@@ -20,8 +39,36 @@ router.get('/node/:address', async (req, res) => {
   }
 });
 
+// Get aggregated metric history for a node.
+// Query: from, to (ISO or epoch ms) and resolution (auto|raw|hour|day|week).
+router.get('/node/:address/history', async (req, res) => {
+  try {
+    const to = parseTime(req.query.to, new Date());
+    const from = to && parseTime(req.query.from, new Date(to.getTime() - DEFAULT_HISTORY));
+    if (!from || !to || from >= to) {
+      return res.status(400).json({ error: 'Invalid time range' });
+    }
+
+    const resolution = (req.query.resolution as string) || 'auto';
+    if (!RESOLUTIONS.includes(resolution)) {
+      return res.status(400).json({ error: `Resolution must be one of ${RESOLUTIONS.join(', ')}` });
+    }
+
+    const history = await metricsRollups.query(
+      req.params.address,
+      from,
+      to,
+      resolution as Resolution | 'auto'
+    );
+    res.json({ from: from.toISOString(), to: to.toISOString(), ...history });
+  } catch (error) {
+    console.error('Error fetching metric history:', error);
+    res.status(500).json({ error: 'Failed to fetch metric history' });
+  }
+});
+
 // Add new metrics for a node
-router.post('/node/:address', async (req, res) => {
+router.post('/node/:address', adminMiddleware, async (req, res) => {
   try {
     const nodeRepository = getRepository<VPNNode>(VPNNode);
     const metricsRepository = getRepository<NodeMetrics>(NodeMetrics);
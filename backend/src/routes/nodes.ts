@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { getRepository } from '../database/init';
 import { VPNNode } from '../models/VPNNode';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+import { lowercaseParam } from '../middleware/params';
 
 const router = Router();
 
+router.use(authMiddleware);
+router.param('address', lowercaseParam);
+
 // Get all nodes
 router.get('/', async (req, res) => {
   try {
@@ -37,7 +42,7 @@ router.get('/:address', async (req, res) => {
 });
 
 // Update node status
-router.patch('/:address', async (req, res) => {
+router.patch('/:address', adminMiddleware, async (req, res) => {
   try {
     const nodeRepository = getRepository<VPNNode>(VPNNode);
     const { isActive } = req.body;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { registry } from '../monitoring/metrics';
+
+const router = Router();
+
+// Prometheus scrape endpoint, served only with METRICS_TOKEN as a bearer token
+router.get('/', async (req, res) => {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    return res.status(503).json({ error: 'Metrics are disabled: METRICS_TOKEN is not set' });
+  }
+  if (req.headers.authorization !== `Bearer ${expected}`) {
+    return res.status(401).json({ error: 'Authentication failed' });
+  }
+
+  try {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(await registry.render());
+  } catch (error) {
+    console.error('Error rendering Prometheus metrics:', error);
+    res.status(500).json({ error: 'Failed to render metrics' });
+  }
+});
+
+export const prometheusRoutes = router;
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { MetricsRelayer } from '../services/MetricsRelayer';
+import { metricsCollector } from './collector';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+export const metricsRelayer = new MetricsRelayer(metricsCollector);
+
+router.use(authMiddleware, adminMiddleware);
+
+// Audit log of on-chain metric submissions, newest first
+router.get('/submissions', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const node = typeof req.query.node === 'string' ? req.query.node : undefined;
+    res.json(await metricsRelayer.getSubmissions(node, limit));
+  } catch (error) {
+    console.error('Error fetching metric submissions:', error);
+    res.status(500).json({ error: 'Failed to fetch submissions' });
+  }
+});
+
+// Relay now instead of waiting for the next interval
+router.post('/run', async (req, res) => {
+  if (metricsRelayer.isRunning()) {
+    return res.status(409).json({ error: 'A relayer run is already in progress' });
+  }
+
+  try {
+    res.json(await metricsRelayer.runOnce());
+  } catch (error) {
+    console.error('Error running metrics relayer:', error);
+    res.status(500).json({ error: 'Failed to relay metrics' });
+  }
+});
+
+export const relayerRoutes = router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { RevenueSettler } from '../services/RevenueSettler';
+import { authMiddleware, adminMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+export const revenueSettler = new RevenueSettler();
+
+router.use(authMiddleware, adminMiddleware);
+
+// Served amount per node for a time range, as it would be submitted
+router.get('/served', async (req, res) => {
+  const from = new Date(req.query.from as string);
+  const to = new Date(req.query.to as string);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return res.status(400).json({ error: 'from and to must be dates' });
+  }
+
+  try {
+    res.json(await revenueSettler.getServed(from, to));
+  } catch (error) {
+    console.error('Error fetching served amounts:', error);
+    res.status(500).json({ error: 'Failed to fetch served amounts' });
+  }
+});
+
+// Settle ready epochs now instead of waiting for the next interval
+router.post('/run', async (req, res) => {
+  if (revenueSettler.isRunning()) {
+    return res.status(409).json({ error: 'A settlement run is already in progress' });
+  }
+
+  try {
+    res.json(await revenueSettler.runOnce());
+  } catch (error) {
+    console.error('Error running revenue settlement:', error);
+    res.status(500).json({ error: 'Failed to settle revenue' });
+  }
+});
+
+export const settlementRoutes = router;
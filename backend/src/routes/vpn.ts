@@ -1,124 +1,238 @@
-import express, { Request, Response, Router, RequestHandler } from 'express';
-import { WireGuardController } from '../wireguard/wireguard';
+import express, { Request, Router, RequestHandler } from 'express';
+import { isValidKey, WireGuardController, WireGuardValidationError } from '../wireguard/wireguard';
+import { authMiddleware, adminMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { SubscriptionVerifier } from '../services/SubscriptionVerifier';
+import { PeerLeaseManager } from '../services/PeerLeaseManager';
+import { IpAllocator } from '../services/IpAllocator';
+import { IpPoolExhaustedError } from '../wireguard/addressPool';
+import { normaliseUserId } from '../middleware/params';
 
 interface ConnectRequest {
-  user_id: string;
+  user_id?: string;
+  token_id?: string;
+  // The client's WireGuard public key; its private key never leaves the client
+  public_key?: string;
 }
 
 interface EndpointUpdateRequest {
-  user_id: string;
+  user_id?: string;
   endpoint: string;
 }
 
-const router: Router = express.Router();
-const wireguard = new WireGuardController();
+// Admin test peers are not tied to a subscription and expire on their own
+const TEST_LEASE_DURATION = 10 * 60 * 1000; // 10 minutes
 
-// Test activation endpoint
-const testActivationHandler: RequestHandler = async (req, res) => {
-  try {
-    const { user_address } = req.query;
-    if (!user_address) {
-      res.status(400).json({ error: 'User address is required' });
-      return;
-    }
+// Token ids are uint256, so only plain non-negative integers are accepted
+const TOKEN_ID_PATTERN = /^\d+$/;
 
-    // Step 1: Create and activate peer
-    console.log(`Creating peer for user address: ${user_address}`);
-    const connection = await wireguard.setupConnection(user_address as string);
-    
-    // Step 2: Wait a moment for activation
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Step 3: Check connection status
-    console.log('Checking connection status...');
-    const status = await wireguard.getStatus(user_address as string);
-    
-    // Step 4: Return comprehensive status
-    res.json({
-      success: true,
-      message: 'VPN connection test completed',
-      connection_details: connection,
-      status,
-      is_active: status && 'latestHandshake' in status,
-      allowed_ips: status && 'allowedIPs' in status ? status.allowedIPs : 'Not set'
-    });
-  } catch (error) {
-    console.error('Error testing VPN activation:', error);
-    res.status(500).json({ error: 'Failed to test VPN activation' });
+// Admins may act on any user's peer; everyone else only on their own
+const resolveUserId = (req: Request<any>, requested?: string): string | null => {
+  const auth = (req as AuthenticatedRequest).auth;
+  if (!auth) return null;
+  if (requested && requested.toLowerCase() !== auth.address) {
+    return auth.isAdmin ? normaliseUserId(requested) : null;
   }
+  return auth.address;
 };
 
-// Start VPN connection
-const connectHandler: RequestHandler<{}, any, ConnectRequest> = async (req, res) => {
-  try {
-    const { user_id } = req.body;
-    if (!user_id) {
-      res.status(400).json({ error: 'User ID is required' });
-      return;
+export interface VpnRouterDependencies {
+  wireguard: WireGuardController;
+  subscriptions: Pick<SubscriptionVerifier, 'getActiveSubscription'>;
+  leaseManager: PeerLeaseManager;
+}
+
+// Collaborators are passed in so the flow can run against a RecordingExecutor
+export const createVpnRouter = ({ wireguard, subscriptions, leaseManager }: VpnRouterDependencies): Router => {
+  // Test activation endpoint
+  const testActivationHandler: RequestHandler = async (req, res) => {
+    try {
+      const { user_address, public_key } = req.query;
+      if (!user_address) {
+        res.status(400).json({ error: 'User address is required' });
+        return;
+      }
+      if (typeof public_key !== 'string' || !isValidKey(public_key)) {
+        res.status(400).json({ error: 'public_key must be a WireGuard public key' });
+        return;
+      }
+
+      // Step 1: Create and activate peer
+      console.log(`Creating peer for user address: ${user_address}`);
+      const connection = await leaseManager.provision(
+        normaliseUserId(user_address as string),
+        public_key,
+        new Date(Date.now() + TEST_LEASE_DURATION),
+        null
+      );
+
+      // Step 2: Wait a moment for activation
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      // Step 3: Check connection status
+      console.log('Checking connection status...');
+      const status = await wireguard.getStatus(connection.peer.publicKey);
+
+      // Step 4: Return comprehensive status
+      res.json({
+        success: true,
+        message: 'VPN connection test completed',
+        connection_details: connection,
+        status,
+        is_active: status.latestHandshake !== null,
+        allowed_ips: status.allowedIPs.length > 0 ? status.allowedIPs : 'Not set'
+      });
+    } catch (error) {
+      console.error('Error testing VPN activation:', error);
+      res.status(500).json({ error: 'Failed to test VPN activation' });
     }
+  };
 
-    const connection = await wireguard.setupConnection(user_id);
-    res.json({
-      success: true,
-      message: 'VPN connection established',
-      ...connection
-    });
-  } catch (error) {
-    console.error('Error connecting to VPN:', error);
-    res.status(500).json({ error: 'Failed to establish VPN connection' });
-  }
-};
+  // Start VPN connection
+  const connectHandler: RequestHandler<{}, any, ConnectRequest> = async (req, res) => {
+    try {
+      const { token_id, public_key } = req.body;
+      if (token_id !== undefined && !TOKEN_ID_PATTERN.test(String(token_id))) {
+        res.status(400).json({ error: 'token_id must be a non-negative integer' });
+        return;
+      }
+      if (typeof public_key !== 'string' || !isValidKey(public_key)) {
+        res.status(400).json({ error: 'public_key must be a WireGuard public key' });
+        return;
+      }
+
+      const user_id = resolveUserId(req, req.body.user_id);
+      if (!user_id) {
+        res.status(403).json({ error: 'Not allowed to connect for this user' });
+        return;
+      }
+
+      const access = await subscriptions.getActiveSubscription(user_id, token_id !== undefined ? String(token_id) : undefined);
+      if (!access) {
+        res.status(403).json({ error: 'An active subscription is required' });
+        return;
+      }
 
-// Disconnect VPN
-const disconnectHandler: RequestHandler<{}, any, ConnectRequest> = async (req, res) => {
-  try {
-    const { user_id } = req.body;
-    if (!user_id) {
-      res.status(400).json({ error: 'User ID is required' });
-      return;
+      const { config, peer, lease } = await leaseManager.provision(user_id, public_key, access.expiresAt, access.tokenId);
+
+      res.json({
+        success: true,
+        message: 'VPN connection established',
+        config,
+        peer,
+        lease: {
+          tokenId: lease.tokenId,
+          address: lease.ipAddress,
+          expiresAt: lease.expiresAt.toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('Error connecting to VPN:', error);
+      if (error instanceof IpPoolExhaustedError) {
+        res.status(503).json({ error: 'No free addresses left on this node' });
+        return;
+      }
+      res.status(500).json({ error: 'Failed to establish VPN connection' });
     }
+  };
 
-    await wireguard.removeConnection(user_id);
-    res.json({ success: true, message: 'VPN connection terminated' });
-  } catch (error) {
-    console.error('Error disconnecting from VPN:', error);
-    res.status(500).json({ error: 'Failed to terminate VPN connection' });
-  }
-};
+  // Disconnect VPN
+  const disconnectHandler: RequestHandler<{}, any, ConnectRequest> = async (req, res) => {
+    try {
+      const user_id = resolveUserId(req, req.body.user_id);
+      if (!user_id) {
+        res.status(403).json({ error: 'Not allowed to disconnect this user' });
+        return;
+      }
 
-// Get VPN status
-const statusHandler: RequestHandler<{ userId?: string }> = async (req, res) => {
-  try {
-    const userId = req.params.userId;
-    const status = await wireguard.getStatus(userId);
-    res.json(status);
-  } catch (error) {
-    console.error('Error getting VPN status:', error);
-    res.status(500).json({ error: 'Failed to get VPN status' });
-  }
-};
+      const lease = await leaseManager.release(user_id);
+      if (!lease) {
+        res.status(404).json({ error: 'No active VPN connection found' });
+        return;
+      }
 
-// Update peer endpoint
-const updateEndpointHandler: RequestHandler<{}, any, EndpointUpdateRequest> = async (req, res) => {
-  try {
-    const { user_id, endpoint } = req.body;
-    if (!user_id || !endpoint) {
-      res.status(400).json({ error: 'User ID and endpoint are required' });
-      return;
+      res.json({ success: true, message: 'VPN connection terminated' });
+    } catch (error) {
+      console.error('Error disconnecting from VPN:', error);
+      res.status(500).json({ error: 'Failed to terminate VPN connection' });
     }
+  };
 
-    await wireguard.updatePeerEndpoint(user_id, endpoint);
-    res.json({ success: true, message: 'Peer endpoint updated' });
-  } catch (error) {
-    console.error('Error updating peer endpoint:', error);
-    res.status(500).json({ error: 'Failed to update peer endpoint' });
-  }
+  // Get VPN status
+  const statusHandler: RequestHandler<{ userId?: string }> = async (req, res) => {
+    try {
+      // The full interface dump is only for admins
+      const userId = req.params.userId
+        ? resolveUserId(req, req.params.userId)
+        : ((req as AuthenticatedRequest).auth?.isAdmin ? undefined : null);
+      if (userId === null) {
+        res.status(403).json({ error: 'Not allowed to view this status' });
+        return;
+      }
+
+      let publicKey: string | undefined;
+      if (userId) {
+        publicKey = (await leaseManager.getLease(userId))?.publicKey ?? undefined;
+        if (!publicKey) {
+          res.status(404).json({ error: 'No active VPN connection found' });
+          return;
+        }
+      }
+
+      const status = publicKey ? await wireguard.getStatus(publicKey) : await wireguard.getStatus();
+      res.json(status);
+    } catch (error) {
+      console.error('Error getting VPN status:', error);
+      res.status(500).json({ error: 'Failed to get VPN status' });
+    }
+  };
+
+  // Update peer endpoint
+  const updateEndpointHandler: RequestHandler<{}, any, EndpointUpdateRequest> = async (req, res) => {
+    try {
+      const { endpoint } = req.body;
+      if (!endpoint) {
+        res.status(400).json({ error: 'Endpoint is required' });
+        return;
+      }
+
+      const user_id = resolveUserId(req, req.body.user_id);
+      if (!user_id) {
+        res.status(403).json({ error: 'Not allowed to update this peer' });
+        return;
+      }
+
+      const lease = await leaseManager.getLease(user_id);
+      if (!lease?.publicKey) {
+        res.status(404).json({ error: 'No active VPN connection found' });
+        return;
+      }
+
+      await wireguard.updatePeerEndpoint(lease.publicKey, endpoint);
+      res.json({ success: true, message: 'Peer endpoint updated' });
+    } catch (error) {
+      if (error instanceof WireGuardValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error updating peer endpoint:', error);
+      res.status(500).json({ error: 'Failed to update peer endpoint' });
+    }
+  };
+
+  const router: Router = express.Router();
+  router.use(authMiddleware);
+
+  router.get('/test-activation', adminMiddleware, testActivationHandler);
+  router.post('/connect', connectHandler);
+  router.post('/disconnect', disconnectHandler);
+  router.get('/status/:userId?', statusHandler);
+  router.put('/endpoint', updateEndpointHandler);
+
+  return router;
 };
 
-router.get('/test-activation', testActivationHandler);
-router.post('/connect', connectHandler);
-router.post('/disconnect', disconnectHandler);
-router.get('/status/:userId?', statusHandler);
-router.put('/endpoint', updateEndpointHandler);
+export const wireguard = new WireGuardController();
+const subscriptions = new SubscriptionVerifier();
+export const leaseManager = new PeerLeaseManager(wireguard, subscriptions, new IpAllocator());
 
-export default router; 
\ No newline at end of file
+export default createVpnRouter({ wireguard, subscriptions, leaseManager });
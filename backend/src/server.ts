@@ -1,32 +1,67 @@
+import 'reflect-metadata';
 import express from 'express';
 import cors from 'cors';
 import http from 'http';
-import vpnRoutes from './routes/vpn';
+import authRoutes from './routes/auth';
+import vpnRoutes, { leaseManager, wireguard } from './routes/vpn';
 import { VPNStatusServer } from './websocket/vpnStatusServer';
+import { initializeDatabase } from './database/init';
+import { prometheusRoutes } from './routes/prometheus';
+import { instrumentStatusServer, instrumentWireGuard } from './monitoring/metrics';
+import { UsageRecorder } from './services/UsageRecorder';
+import { WireGuardMonitor } from './wireguard/monitor';
 
 const app = express();
 const server = http.createServer(app);
 
+// One `wg show dump` poll shared by status updates, usage and /metrics
+const wireguardMonitor = new WireGuardMonitor(wireguard);
+
 // Initialize WebSocket server
-const vpnStatusServer = new VPNStatusServer(server);
+const vpnStatusServer = new VPNStatusServer(server, leaseManager, wireguardMonitor);
+const usageRecorder = new UsageRecorder(wireguardMonitor, leaseManager);
+
+instrumentWireGuard(wireguardMonitor, leaseManager);
+instrumentStatusServer(vpnStatusServer);
 
 // Middleware
 app.use(cors());
 app.use(express.json());
 
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/vpn', vpnRoutes);
+app.use('/metrics', prometheusRoutes);
 
 const PORT = process.env.PORT || 5000;
 
-server.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
+const startServer = async () => {
+  try {
+    // Peer leases and their addresses are stored in the database
+    await initializeDatabase();
+    leaseManager.start();
+    wireguardMonitor.start();
+    // Served traffic per peer, summed by the registry backend when it settles revenue
+    usageRecorder.start();
+
+    server.listen(PORT, () => {
+      console.log(`Server running on port ${PORT}`);
+    });
+  } catch (error) {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  }
+};
+
+startServer();
 
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
   vpnStatusServer.stop();
+  wireguardMonitor.stop();
+  leaseManager.stop();
+  usageRecorder.stop();
   server.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -0,0 +1,438 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { DataSource, EntityManager, EntityTarget, LessThan, MoreThan, ObjectLiteral } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { CHAIN_ID, VPN_REGISTRY_ABI, VPN_SUBSCRIPTION_ABI, getProvider } from '../config/contracts';
+import { getIndexerConfig, IndexerConfig } from '../config/indexer';
+import { IndexerCheckpoint } from '../models/IndexerCheckpoint';
+import { IndexedBlock } from '../models/IndexedBlock';
+import { IndexerUndo } from '../models/IndexerUndo';
+import { RegistryAdmin } from '../models/RegistryAdmin';
+import { Subscription } from '../models/Subscription';
+import { VPNNode } from '../models/VPNNode';
+
+export type ChainEvent =
+  | { type: 'NodeRegistered'; nodeAddress: string; ipAddress: string; owner: string }
+  | { type: 'NodeApproved'; nodeAddress: string }
+  | { type: 'NodeDeactivated'; nodeAddress: string }
+  | {
+      type: 'MetricsUpdated';
+      nodeAddress: string;
+      latency: number;
+      bandwidth: number;
+      uptime: number;
+      reliability: number;
+      totalScore: number;
+    }
+  | { type: 'AdminAdded'; admin: string }
+  | { type: 'AdminRemoved'; admin: string }
+  | { type: 'Transfer'; from: string; to: string; tokenId: string };
+
+export interface IndexedEvent {
+  event: ChainEvent;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+}
+
+export interface ChainIndexerOptions {
+  provider?: ethers.Provider;
+  registryAddress?: string;
+  subscriptionAddress?: string;
+  config?: IndexerConfig;
+  dataSource?: DataSource;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  reorg: boolean;
+}
+
+// Tables events write to, by the entity name undo records refer to them with
+const UNDOABLE_ENTITIES: { [name: string]: EntityTarget<ObjectLiteral> } = { VPNNode, Subscription, RegistryAdmin };
+
+// Addresses are stored lowercase so they match session addresses and route params
+const normalize = (address: string): string => address.toLowerCase();
+
+// Follows VPNRegistry and VPNSubscription events into Postgres. Only blocks at
+// least `confirmations` deep are applied, so reorgs shallower than that never
+// reach the database. For deeper ones, the indexer keeps the hash of every
+// block it applied events from and each row as it was before every event, for
+// the last `reorgDepth` blocks. When the checkpoint block has been replaced it
+// rolls back to the newest kept block still on the chain, restoring the rows
+// that orphaned blocks changed, and replays the new chain from there.
+export class ChainIndexer extends EventEmitter {
+  private provider: ethers.Provider;
+  private registry: ethers.Contract;
+  private subscription: ethers.Contract;
+  private config: IndexerConfig;
+  private dataSource: DataSource;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(options: ChainIndexerOptions = {}) {
+    super();
+    this.config = options.config || getIndexerConfig();
+    this.provider = options.provider || getProvider();
+    this.dataSource = options.dataSource || AppDataSource;
+
+    const registryAddress = options.registryAddress || process.env.VPN_REGISTRY_ADDRESS;
+    const subscriptionAddress = options.subscriptionAddress || process.env.VPN_SUBSCRIPTION_ADDRESS;
+    if (!registryAddress || !subscriptionAddress) {
+      throw new Error('VPN_REGISTRY_ADDRESS and VPN_SUBSCRIPTION_ADDRESS must be configured');
+    }
+
+    this.registry = new ethers.Contract(registryAddress, VPN_REGISTRY_ABI, this.provider);
+    this.subscription = new ethers.Contract(subscriptionAddress, VPN_SUBSCRIPTION_ABI, this.provider);
+  }
+
+  start(): void {
+    if (this.pollInterval) return;
+
+    const tick = () => {
+      this.syncToHead()
+        .then(() => this.refreshLapsedSubscriptions())
+        .catch(error => {
+          console.error('Error indexing chain events:', error);
+        });
+    };
+    tick();
+    this.pollInterval = setInterval(tick, this.config.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  async getCheckpoint(): Promise<IndexerCheckpoint | null> {
+    return this.dataSource.getRepository(IndexerCheckpoint).findOne({ where: { id: await this.checkpointId() } });
+  }
+
+  // Applies batches until the confirmed head is reached
+  async syncToHead(): Promise<SyncResult[]> {
+    const results: SyncResult[] = [];
+    let result: SyncResult | null;
+    while ((result = await this.syncOnce())) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  // Applies at most one batch. Resolves to null when already at the confirmed head.
+  async syncOnce(): Promise<SyncResult | null> {
+    if (this.syncing) return null;
+    this.syncing = true;
+
+    try {
+      const head = await this.provider.getBlockNumber();
+      const confirmedHead = head - this.config.confirmations;
+
+      const checkpointId = await this.checkpointId();
+      let checkpoint = await this.getCheckpoint();
+      let reorg = false;
+
+      if (checkpoint) {
+        const block = await this.provider.getBlock(checkpoint.blockNumber);
+        if (!block || block.hash !== checkpoint.blockHash) {
+          reorg = true;
+          const orphaned = checkpoint.blockNumber;
+          checkpoint = await this.rollBack(checkpointId, checkpoint);
+          console.warn(
+            `Reorg deeper than ${this.config.confirmations} confirmations at block ${orphaned}, ` +
+            `rolled back to block ${checkpoint.blockNumber}`
+          );
+        }
+      }
+
+      const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : this.config.startBlock;
+
+      if (fromBlock > confirmedHead) return null;
+
+      const toBlock = Math.min(fromBlock + this.config.batchSize - 1, confirmedHead);
+      const events = await this.fetchEvents(fromBlock, toBlock);
+      const lastBlock = await this.provider.getBlock(toBlock);
+      if (!lastBlock || !lastBlock.hash) {
+        throw new Error(`Block ${toBlock} is not available`);
+      }
+
+      // Events, their undo records and the checkpoint commit together, so a
+      // crash never skips a range
+      await this.dataSource.transaction(async manager => {
+        for (const indexed of events) {
+          await this.recordUndo(manager, checkpointId, indexed);
+          await this.apply(manager, indexed);
+        }
+
+        const hashes = new Map(events.map(indexed => [indexed.blockNumber, indexed.blockHash]));
+        hashes.set(toBlock, lastBlock.hash!);
+        await manager.getRepository(IndexedBlock).save(
+          Array.from(hashes, ([blockNumber, blockHash]) => ({ checkpointId, blockNumber, blockHash }))
+        );
+
+        const horizon = LessThan(toBlock - this.config.reorgDepth);
+        await manager.getRepository(IndexedBlock).delete({ checkpointId, blockNumber: horizon });
+        await manager.getRepository(IndexerUndo).delete({ checkpointId, blockNumber: horizon });
+
+        await manager.getRepository(IndexerCheckpoint).save({
+          id: checkpointId,
+          blockNumber: toBlock,
+          blockHash: lastBlock.hash!
+        });
+      });
+
+      const result = { fromBlock, toBlock, events: events.length, reorg };
+      this.emit('synced', result);
+      return result;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // Decoded events from both contracts in [fromBlock, toBlock], in chain order
+  async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const [registryAddress, subscriptionAddress] = await Promise.all([
+      this.registry.getAddress(),
+      this.subscription.getAddress()
+    ]);
+    const logs = await this.provider.getLogs({
+      address: [registryAddress, subscriptionAddress],
+      fromBlock,
+      toBlock
+    });
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const contract = normalize(log.address) === normalize(registryAddress) ? this.registry : this.subscription;
+      const parsed = contract.interface.parseLog(log);
+      const event = parsed && this.toChainEvent(parsed);
+      if (event) {
+        events.push({ event, blockNumber: log.blockNumber, blockHash: log.blockHash, logIndex: log.index });
+      }
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  // Renewals emit no event, so subscriptions whose stored expiry has passed are
+  // re-read once: either the expiry moved or the subscription really lapsed.
+  async refreshLapsedSubscriptions(): Promise<number> {
+    const repository = this.dataSource.getRepository(Subscription);
+    const lapsed = await repository.find({
+      where: { isActive: true, expiryTimestamp: LessThan(new Date()) }
+    });
+
+    for (const subscription of lapsed) {
+      const expiry = await this.readExpiry(subscription.tokenId);
+      subscription.expiryTimestamp = expiry;
+      subscription.isActive = expiry.getTime() > Date.now();
+      await repository.save(subscription);
+    }
+    return lapsed.length;
+  }
+
+  // Undoes every event applied after the newest kept block that is still on
+  // the chain and moves the checkpoint back to that block
+  private async rollBack(checkpointId: string, checkpoint: IndexerCheckpoint): Promise<IndexerCheckpoint> {
+    const kept = await this.dataSource.getRepository(IndexedBlock).find({
+      where: { checkpointId, blockNumber: LessThan(checkpoint.blockNumber) },
+      order: { blockNumber: 'DESC' }
+    });
+
+    let ancestor: IndexedBlock | null = null;
+    for (const candidate of kept) {
+      const block = await this.provider.getBlock(candidate.blockNumber);
+      if (block && block.hash === candidate.blockHash) {
+        ancestor = candidate;
+        break;
+      }
+    }
+    if (!ancestor) {
+      throw new Error(
+        `Reorg at block ${checkpoint.blockNumber} is deeper than the ${this.config.reorgDepth} blocks of kept ` +
+        'history; rebuild the indexed tables from INDEXER_START_BLOCK'
+      );
+    }
+    const { blockNumber, blockHash } = ancestor;
+
+    await this.dataSource.transaction(async manager => {
+      const undos = await manager.getRepository(IndexerUndo).find({
+        where: { checkpointId, blockNumber: MoreThan(blockNumber) },
+        order: { id: 'DESC' }
+      });
+      for (const undo of undos) {
+        const repository = manager.getRepository(UNDOABLE_ENTITIES[undo.entity]);
+        if (undo.previous) {
+          await repository.save(undo.previous);
+        } else {
+          await repository.delete(undo.key);
+        }
+      }
+
+      await manager.getRepository(IndexerUndo).delete({ checkpointId, blockNumber: MoreThan(blockNumber) });
+      await manager.getRepository(IndexedBlock).delete({ checkpointId, blockNumber: MoreThan(blockNumber) });
+      await manager.getRepository(IndexerCheckpoint).save({ id: checkpointId, blockNumber, blockHash });
+    });
+
+    return (await this.getCheckpoint())!;
+  }
+
+  // Stores the row `indexed` is about to change as it is now
+  private async recordUndo(manager: EntityManager, checkpointId: string, indexed: IndexedEvent): Promise<void> {
+    const { entity, key } = this.target(indexed.event);
+    const previous = await manager.getRepository(UNDOABLE_ENTITIES[entity]).findOneBy(key);
+    await manager.getRepository(IndexerUndo).save({
+      checkpointId,
+      blockNumber: indexed.blockNumber,
+      entity,
+      key,
+      previous
+    });
+  }
+
+  // The one row each event writes
+  private target(event: ChainEvent): { entity: string; key: Record<string, string> } {
+    switch (event.type) {
+      case 'NodeRegistered':
+      case 'NodeApproved':
+      case 'NodeDeactivated':
+      case 'MetricsUpdated':
+        return { entity: 'VPNNode', key: { address: normalize(event.nodeAddress) } };
+      case 'AdminAdded':
+      case 'AdminRemoved':
+        return { entity: 'RegistryAdmin', key: { address: normalize(event.admin) } };
+      case 'Transfer':
+        return { entity: 'Subscription', key: { tokenId: event.tokenId } };
+    }
+  }
+
+  private async checkpointId(): Promise<string> {
+    const [registryAddress, subscriptionAddress] = await Promise.all([
+      this.registry.getAddress(),
+      this.subscription.getAddress()
+    ]);
+    return `${CHAIN_ID}:${normalize(registryAddress)}:${normalize(subscriptionAddress)}`;
+  }
+
+  private toChainEvent(parsed: ethers.LogDescription): ChainEvent | null {
+    const args = parsed.args;
+    switch (parsed.name) {
+      case 'NodeRegistered':
+        return { type: 'NodeRegistered', nodeAddress: args.nodeAddress, ipAddress: args.ipAddress, owner: args.owner };
+      case 'NodeApproved':
+        return { type: 'NodeApproved', nodeAddress: args.nodeAddress };
+      case 'NodeDeactivated':
+        return { type: 'NodeDeactivated', nodeAddress: args.nodeAddress };
+      case 'MetricsUpdated':
+        return {
+          type: 'MetricsUpdated',
+          nodeAddress: args.nodeAddress,
+          latency: Number(args.latency),
+          bandwidth: Number(args.bandwidth),
+          uptime: Number(args.uptime),
+          reliability: Number(args.reliability),
+          totalScore: Number(args.totalScore)
+        };
+      case 'AdminAdded':
+        return { type: 'AdminAdded', admin: args.newAdmin };
+      case 'AdminRemoved':
+        return { type: 'AdminRemoved', admin: args.removedAdmin };
+      case 'Transfer':
+        return { type: 'Transfer', from: args.from, to: args.to, tokenId: args.tokenId.toString() };
+      default:
+        return null;
+    }
+  }
+
+  private async apply(manager: EntityManager, { event, blockNumber }: IndexedEvent): Promise<void> {
+    const nodes = manager.getRepository(VPNNode);
+
+    switch (event.type) {
+      case 'NodeRegistered':
+        // Matches the initial struct written by VPNRegistry.registerNode
+        await nodes.save({
+          address: normalize(event.nodeAddress),
+          ipAddress: event.ipAddress,
+          owner: normalize(event.owner),
+          isActive: false,
+          isApproved: false,
+          isRegistered: true,
+          latency: 0,
+          bandwidth: 0,
+          uptime: 100,
+          reliability: 0,
+          totalScore: 0
+        });
+        break;
+
+      case 'NodeApproved':
+        await nodes.update({ address: normalize(event.nodeAddress) }, { isApproved: true, isActive: true });
+        break;
+
+      case 'NodeDeactivated':
+        await nodes.update({ address: normalize(event.nodeAddress) }, { isActive: false });
+        break;
+
+      case 'MetricsUpdated':
+        await nodes.update({ address: normalize(event.nodeAddress) }, {
+          latency: event.latency,
+          bandwidth: event.bandwidth,
+          uptime: event.uptime,
+          reliability: event.reliability,
+          totalScore: event.totalScore
+        });
+        break;
+
+      case 'AdminAdded':
+        await manager.getRepository(RegistryAdmin).save({ address: normalize(event.admin), addedAtBlock: blockNumber });
+        break;
+
+      case 'AdminRemoved':
+        await manager.getRepository(RegistryAdmin).delete({ address: normalize(event.admin) });
+        break;
+
+      case 'Transfer':
+        await this.applyTransfer(manager, event, blockNumber);
+        break;
+    }
+  }
+
+  private async applyTransfer(
+    manager: EntityManager,
+    event: Extract<ChainEvent, { type: 'Transfer' }>,
+    blockNumber: number
+  ): Promise<void> {
+    const subscriptions = manager.getRepository(Subscription);
+
+    // Burned by cancelSubscription
+    if (event.to === ethers.ZeroAddress) {
+      await subscriptions.update({ tokenId: event.tokenId }, { isActive: false });
+      return;
+    }
+
+    if (event.from === ethers.ZeroAddress) {
+      // The expiry is written in the same transaction as the mint
+      const expiry = await this.readExpiry(event.tokenId, blockNumber);
+      await subscriptions.save({
+        tokenId: event.tokenId,
+        userAddress: normalize(event.to),
+        expiryTimestamp: expiry,
+        isActive: expiry.getTime() > Date.now()
+      });
+      return;
+    }
+
+    await subscriptions.update({ tokenId: event.tokenId }, { userAddress: normalize(event.to) });
+  }
+
+  // Reading at a past blockTag needs state for that block. Full nodes prune
+  // state after ~128 blocks, so indexing history needs an archive node RPC.
+  private async readExpiry(tokenId: string, blockTag?: number): Promise<Date> {
+    const expiry: bigint = await this.subscription.subscriptionExpiry(BigInt(tokenId), { blockTag });
+    return new Date(Number(expiry) * 1000);
+  }
+}
@@ -0,0 +1,105 @@
+import { DataSource, EntityManager, LessThanOrEqual, QueryFailedError } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { getWireGuardConfig, WireGuardConfig } from '../config/wireguard';
+import { IpLease } from '../models/IpLease';
+import { AddressPool } from '../wireguard/addressPool';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof QueryFailedError && (error.driverError as { code?: string }).code === UNIQUE_VIOLATION;
+
+// Hands out tunnel addresses from the configured pool and persists them, so
+// addresses survive restarts and are never shared between two peers.
+export class IpAllocator {
+  private pool: AddressPool;
+  private nodeAddress: string;
+  private readonly MAX_ATTEMPTS = 5;
+
+  constructor(config: WireGuardConfig = getWireGuardConfig(), private dataSource: DataSource = AppDataSource) {
+    this.pool = new AddressPool(config.addressPool, config.serverAddress);
+    this.nodeAddress = config.nodeAddress;
+  }
+
+  // Returns the user's lease on this node, allocating the lowest free address
+  // if they have none. Two requests racing for the same address both insert;
+  // the loser hits a unique constraint and retries against the new state.
+  async lease(userId: string, expiresAt: Date, tokenId: string | null): Promise<IpLease> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.dataSource.transaction(manager => this.allocate(manager, userId, expiresAt, tokenId));
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= this.MAX_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async attachPeer(lease: IpLease, publicKey: string): Promise<IpLease> {
+    lease.publicKey = publicKey;
+    return this.repository.save(lease);
+  }
+
+  async extend(lease: IpLease, expiresAt: Date): Promise<IpLease> {
+    lease.expiresAt = expiresAt;
+    return this.repository.save(lease);
+  }
+
+  async findByUser(userId: string): Promise<IpLease | null> {
+    return this.repository.findOne({ where: { nodeAddress: this.nodeAddress, userId } });
+  }
+
+  async findAll(): Promise<IpLease[]> {
+    return this.repository.find({ where: { nodeAddress: this.nodeAddress } });
+  }
+
+  async findExpired(now: Date = new Date()): Promise<IpLease[]> {
+    return this.repository.find({
+      where: { nodeAddress: this.nodeAddress, expiresAt: LessThanOrEqual(now) }
+    });
+  }
+
+  // Returns the address to the pool. Callers remove the WireGuard peer first.
+  async release(lease: IpLease): Promise<void> {
+    await this.repository.delete({ id: lease.id });
+  }
+
+  private get repository() {
+    return this.dataSource.getRepository(IpLease);
+  }
+
+  private async allocate(
+    manager: EntityManager,
+    userId: string,
+    expiresAt: Date,
+    tokenId: string | null
+  ): Promise<IpLease> {
+    const repository = manager.getRepository(IpLease);
+
+    const existing = await repository.findOne({ where: { nodeAddress: this.nodeAddress, userId } });
+    if (existing) {
+      existing.expiresAt = expiresAt;
+      existing.tokenId = tokenId;
+      return repository.save(existing);
+    }
+
+    // Expired leases still count as used until their peer has been removed
+    const leases = await repository.find({ where: { nodeAddress: this.nodeAddress } });
+    const used = new Set(
+      leases
+        .filter(lease => this.pool.contains(lease.ipAddress))
+        .map(lease => this.pool.normalize(lease.ipAddress))
+    );
+
+    return repository.save(repository.create({
+      nodeAddress: this.nodeAddress,
+      userId,
+      ipAddress: this.pool.firstFree(used),
+      publicKey: null,
+      tokenId,
+      expiresAt
+    }));
+  }
+}
@@ -0,0 +1,291 @@
+import { ethers } from 'ethers';
+import { DataSource } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { getRegistryContract, getRelayerWallet } from '../config/contracts';
+import { getRelayerConfig, RelayerConfig } from '../config/relayer';
+import { MetricsSubmission } from '../models/MetricsSubmission';
+import { ProductionMetricsCollector } from './ProductionMetricsCollector';
+
+interface OnChainMetrics {
+  latency: number;
+  bandwidth: number;
+  uptime: number;
+  reliability: number;
+}
+
+export interface RelayerRunResult {
+  submitted: MetricsSubmission[];
+  skipped: { nodeAddress: string; reason: string }[];
+}
+
+export interface RelayerOptions {
+  // Must be a VPNRegistry admin; the registry is connected to it when not given
+  wallet?: ethers.Signer;
+  registry?: ethers.Contract;
+  config?: RelayerConfig;
+  dataSource?: DataSource;
+}
+
+const METRIC_KEYS: (keyof OnChainMetrics)[] = ['latency', 'bandwidth', 'uptime', 'reliability'];
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Same bounds VPNRegistry.updateNodeMetrics enforces, rounded to integers
+const toOnChain = (metrics: OnChainMetrics): OnChainMetrics => ({
+  latency: Math.max(0, Math.round(metrics.latency)),
+  bandwidth: Math.max(0, Math.round(metrics.bandwidth)),
+  uptime: Math.min(100, Math.max(0, Math.round(metrics.uptime))),
+  reliability: Math.min(100, Math.max(0, Math.round(metrics.reliability)))
+});
+
+// Pushes smoothed collector metrics to VPNRegistry.updateNodeMetrics from the
+// relayer's admin key. Submissions are sent one at a time so nonces stay in
+// order, and every attempt is stored as a MetricsSubmission for auditing.
+export class MetricsRelayer {
+  private relayInterval: NodeJS.Timeout | null = null;
+  private running = false;
+  private nextNonce: number | null = null;
+  private relayerWallet: ethers.Signer | null;
+  private registryContract: ethers.Contract | null;
+  private config: RelayerConfig;
+  private dataSource: DataSource;
+
+  constructor(private collector: ProductionMetricsCollector, options: RelayerOptions = {}) {
+    this.relayerWallet = options.wallet || null;
+    this.registryContract = options.registry || null;
+    this.config = options.config || getRelayerConfig();
+    this.dataSource = options.dataSource || AppDataSource;
+  }
+
+  start(): void {
+    if (this.relayInterval) return;
+    this.relayInterval = setInterval(() => {
+      this.runOnce().catch(error => {
+        console.error('Error relaying node metrics:', error);
+      });
+    }, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (this.relayInterval) {
+      clearInterval(this.relayInterval);
+      this.relayInterval = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Built on first use, so the routes load without a relayer key configured
+  private get wallet(): ethers.Signer {
+    if (!this.relayerWallet) {
+      this.relayerWallet = getRelayerWallet();
+    }
+    return this.relayerWallet;
+  }
+
+  private get registry(): ethers.Contract {
+    if (!this.registryContract) {
+      this.registryContract = getRegistryContract(this.wallet);
+    }
+    return this.registryContract;
+  }
+
+  async runOnce(): Promise<RelayerRunResult> {
+    if (this.running) {
+      throw new Error('A relayer run is already in progress');
+    }
+    this.running = true;
+
+    const result: RelayerRunResult = { submitted: [], skipped: [] };
+    try {
+      for (const { nodeAddress } of this.collector.getCollectionStatus()) {
+        const skip = (reason: string) => result.skipped.push({ nodeAddress, reason });
+
+        if (!ethers.isAddress(nodeAddress)) {
+          skip('not an Ethereum address');
+          continue;
+        }
+
+        const smoothed = this.smooth(nodeAddress);
+        if (!smoothed) {
+          skip('no collected metrics');
+          continue;
+        }
+
+        try {
+          const node = await this.registry.nodes(nodeAddress);
+          if (node.owner === ethers.ZeroAddress) {
+            skip('not registered on-chain');
+            continue;
+          }
+
+          const current: OnChainMetrics = {
+            latency: Number(node.latency),
+            bandwidth: Number(node.bandwidth),
+            uptime: Number(node.uptime),
+            reliability: Number(node.reliability)
+          };
+          if (!this.exceedsThreshold(smoothed, current)) {
+            skip('change below threshold');
+            continue;
+          }
+
+          result.submitted.push(await this.submit(nodeAddress, smoothed, current));
+        } catch (error) {
+          console.error(`Error relaying metrics for node ${nodeAddress}:`, error);
+          skip(errorMessage(error));
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Submissions store node addresses lowercased, so any casing finds them
+  async getSubmissions(nodeAddress?: string, limit: number = 50): Promise<MetricsSubmission[]> {
+    return this.dataSource.getRepository(MetricsSubmission).find({
+      where: nodeAddress ? { nodeAddress: nodeAddress.toLowerCase() } : {},
+      order: { createdAt: 'DESC' },
+      take: limit
+    });
+  }
+
+  // Exponential moving average over the collector's recent samples, so a single
+  // bad probe does not move the on-chain score
+  private smooth(nodeAddress: string): OnChainMetrics | null {
+    const history = this.collector.getAllMetrics(nodeAddress);
+    if (history.length === 0) return null;
+
+    const alpha = this.config.smoothing;
+    const average = history.slice(1).reduce<OnChainMetrics>((ema, sample) => ({
+      latency: alpha * sample.latency + (1 - alpha) * ema.latency,
+      bandwidth: alpha * sample.bandwidth + (1 - alpha) * ema.bandwidth,
+      uptime: alpha * sample.uptime + (1 - alpha) * ema.uptime,
+      reliability: alpha * sample.reliability + (1 - alpha) * ema.reliability
+    }), history[0]);
+
+    return toOnChain(average);
+  }
+
+  private exceedsThreshold(next: OnChainMetrics, current: OnChainMetrics): boolean {
+    return METRIC_KEYS.some(key => {
+      const diff = Math.abs(next[key] - current[key]);
+      if (current[key] === 0) return diff > 0;
+      return (diff * 100) / current[key] >= this.config.thresholdPercent;
+    });
+  }
+
+  private async reserveNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.wallet.getNonce('pending');
+    }
+    return this.nextNonce++;
+  }
+
+  // Fee overrides scaled by `bumpPercent`; a replacement must outbid the
+  // transaction it replaces
+  private async fees(bumpPercent: number): Promise<ethers.Overrides> {
+    const feeData = await this.wallet.provider!.getFeeData();
+    const bump = (value: bigint) => (value * BigInt(bumpPercent)) / BigInt(100);
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: bump(feeData.maxFeePerGas),
+        maxPriorityFeePerGas: bump(feeData.maxPriorityFeePerGas)
+      };
+    }
+    return feeData.gasPrice !== null ? { gasPrice: bump(feeData.gasPrice) } : {};
+  }
+
+  private async submit(nodeAddress: string, metrics: OnChainMetrics, previous: OnChainMetrics): Promise<MetricsSubmission> {
+    const repository = this.dataSource.getRepository(MetricsSubmission);
+    const submission = await repository.save(repository.create({
+      nodeAddress: nodeAddress.toLowerCase(),
+      ...metrics,
+      previous,
+      relayer: await this.wallet.getAddress(),
+      status: 'pending',
+      attempts: 0
+    }));
+
+    const sentHashes: string[] = [];
+    let nonce = await this.reserveNonce();
+    let bumpPercent = 100;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      submission.attempts = attempt;
+      submission.nonce = nonce;
+
+      try {
+        // Retries reuse the nonce, so a slow transaction is replaced rather than duplicated
+        const tx: ethers.ContractTransactionResponse = await this.registry.updateNodeMetrics(
+          nodeAddress,
+          metrics.latency,
+          metrics.bandwidth,
+          metrics.uptime,
+          metrics.reliability,
+          { nonce, ...(await this.fees(bumpPercent)) }
+        );
+        sentHashes.push(tx.hash);
+        submission.txHash = tx.hash;
+        await repository.save(submission);
+
+        const receipt = await tx.wait(1, this.config.confirmationTimeoutMs);
+        return repository.save(this.confirm(submission, receipt));
+      } catch (error) {
+        submission.error = errorMessage(error);
+
+        // A revert will not succeed on retry (not an admin, node removed, ...)
+        if (ethers.isError(error, 'CALL_EXCEPTION')) {
+          break;
+        }
+
+        if (ethers.isError(error, 'NONCE_EXPIRED')) {
+          // The nonce was used: either by one of our earlier attempts, or by
+          // another transaction from the same key
+          const mined = await this.findMinedReceipt(sentHashes);
+          if (mined) {
+            return repository.save(this.confirm(submission, mined));
+          }
+          this.nextNonce = null;
+          nonce = await this.reserveNonce();
+          sentHashes.length = 0;
+          bumpPercent = 100;
+        } else {
+          bumpPercent += 25;
+        }
+
+        await repository.save(submission);
+        console.error(`Metrics submission for ${nodeAddress} failed (attempt ${attempt}):`, error);
+      }
+    }
+
+    submission.status = 'failed';
+    // The reserved nonce may never have been broadcast; re-read it next time
+    this.nextNonce = null;
+    return repository.save(submission);
+  }
+
+  private confirm(submission: MetricsSubmission, receipt: ethers.TransactionReceipt | null): MetricsSubmission {
+    submission.status = receipt && receipt.status === 1 ? 'confirmed' : 'failed';
+    submission.txHash = receipt?.hash ?? submission.txHash;
+    submission.blockNumber = receipt?.blockNumber ?? null;
+    submission.gasUsed = receipt ? receipt.gasUsed.toString() : null;
+    if (submission.status === 'confirmed') {
+      submission.error = null;
+    }
+    return submission;
+  }
+
+  private async findMinedReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of hashes) {
+      const receipt = await this.wallet.provider!.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+}
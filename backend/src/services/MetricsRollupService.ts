@@ -0,0 +1,232 @@
+import { Between, DataSource } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { getRollupConfig, RollupConfig } from '../config/rollups';
+import { NodeMetrics } from '../models/NodeMetrics';
+import {
+  NodeMetricsRollup,
+  NodeMetricsHourly,
+  NodeMetricsDaily,
+  NodeMetricsWeekly
+} from '../models/NodeMetricsRollup';
+
+export type RollupResolution = 'hour' | 'day' | 'week';
+export type Resolution = 'raw' | RollupResolution;
+
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface MetricsPoint {
+  timestamp: string;
+  sampleCount: number;
+  latency: MetricSummary;
+  bandwidth: MetricSummary;
+  uptime: MetricSummary;
+  reliability: MetricSummary;
+}
+
+const METRIC_FIELDS = ['latency', 'bandwidth', 'uptime', 'reliability'] as const;
+
+type MetricField = typeof METRIC_FIELDS[number];
+
+// The min, avg, max and p95 columns of every metric, as rollup rows store them
+type SummaryColumns = { [K in `${MetricField}${'Min' | 'Avg' | 'Max' | 'P95'}`]: number | string };
+
+// One row of the rollup query. Postgres returns count(*) and the aggregates of
+// the raw decimal columns as strings.
+interface RollupQueryRow extends SummaryColumns {
+  nodeAddress: string;
+  bucketStart: Date;
+  sampleCount: string;
+}
+
+const ROLLUP_ENTITIES = {
+  hour: NodeMetricsHourly,
+  day: NodeMetricsDaily,
+  week: NodeMetricsWeekly
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Spans up to these lengths are answered from the given rollup
+const AUTO_RESOLUTION: [number, RollupResolution][] = [
+  [2 * DAY, 'hour'],
+  [62 * DAY, 'day']
+];
+
+const toSummary = (row: SummaryColumns, field: MetricField): MetricSummary => ({
+  min: Number(row[`${field}Min`]),
+  avg: Number(row[`${field}Avg`]),
+  max: Number(row[`${field}Max`]),
+  p95: Number(row[`${field}P95`])
+});
+
+// Builds hourly, daily and weekly rollups of NodeMetrics and prunes raw samples
+// once they are old enough to only be needed in aggregated form.
+export class MetricsRollupService {
+  private rollupInterval: NodeJS.Timeout | null = null;
+  private config: RollupConfig;
+  private dataSource: DataSource;
+
+  constructor(config: RollupConfig = getRollupConfig(), dataSource: DataSource = AppDataSource) {
+    this.config = config;
+    this.dataSource = dataSource;
+  }
+
+  start(): void {
+    if (this.rollupInterval) return;
+
+    const run = () => {
+      this.runOnce().catch(error => {
+        console.error('Error rolling up node metrics:', error);
+      });
+    };
+    run();
+    this.rollupInterval = setInterval(run, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (this.rollupInterval) {
+      clearInterval(this.rollupInterval);
+      this.rollupInterval = null;
+    }
+  }
+
+  // Refreshes the current and previous bucket of every resolution, then prunes.
+  // Rebuilding the previous bucket picks up samples that arrived late.
+  async runOnce(now: Date = new Date()): Promise<void> {
+    await this.rollup('hour', new Date(now.getTime() - 60 * 60 * 1000), now);
+    await this.rollup('day', new Date(now.getTime() - DAY), now);
+    await this.rollup('week', new Date(now.getTime() - 7 * DAY), now);
+    await this.prune(now);
+  }
+
+  // Recomputes every bucket of `resolution` that overlaps [from, to)
+  async rollup(resolution: RollupResolution, from: Date, to: Date): Promise<number> {
+    const rawTable = this.dataSource.getMetadata(NodeMetrics).tableName;
+    const aggregates = METRIC_FIELDS.map(field => `
+      min("${field}") AS "${field}Min",
+      avg("${field}") AS "${field}Avg",
+      max("${field}") AS "${field}Max",
+      percentile_cont(0.95) WITHIN GROUP (ORDER BY "${field}") AS "${field}P95"`).join(',');
+
+    const rows: RollupQueryRow[] = await this.dataSource.query(
+      `SELECT "nodeAddress",
+              date_trunc($1, "timestamp") AS "bucketStart",
+              count(*) AS "sampleCount",${aggregates}
+         FROM "${rawTable}"
+        WHERE "nodeAddress" IS NOT NULL
+          AND "timestamp" >= date_trunc($1, $2::timestamp)
+          AND "timestamp" < $3
+        GROUP BY 1, 2`,
+      [resolution, from, to]
+    );
+    if (rows.length === 0) return 0;
+
+    const rollups = rows.map(row => {
+      const rollup: Partial<NodeMetricsRollup> = {
+        nodeAddress: row.nodeAddress,
+        bucketStart: row.bucketStart,
+        sampleCount: Number(row.sampleCount)
+      };
+      METRIC_FIELDS.forEach(field => {
+        const summary = toSummary(row, field);
+        Object.assign(rollup, {
+          [`${field}Min`]: summary.min,
+          [`${field}Avg`]: summary.avg,
+          [`${field}Max`]: summary.max,
+          [`${field}P95`]: summary.p95
+        });
+      });
+      return rollup;
+    });
+
+    await this.dataSource
+      .getRepository<NodeMetricsRollup>(ROLLUP_ENTITIES[resolution])
+      .upsert(rollups, ['nodeAddress', 'bucketStart']);
+    return rollups.length;
+  }
+
+  // Deletes raw samples older than rawRetentionDays, but never any from the
+  // previous or current ISO week: runOnce rebuilds the previous week's rollup
+  // from them. Raw samples therefore live at least 7 to 14 days, depending on
+  // the weekday, however low rawRetentionDays is set.
+  async prune(now: Date = new Date()): Promise<void> {
+    const rawTable = this.dataSource.getMetadata(NodeMetrics).tableName;
+    const rawCutoff = new Date(now.getTime() - this.config.rawRetentionDays * DAY);
+
+    await this.dataSource.query(
+      `DELETE FROM "${rawTable}"
+        WHERE "timestamp" < LEAST($1::timestamp, date_trunc('week', $2::timestamp) - interval '7 days')`,
+      [rawCutoff, now]
+    );
+
+    const hourlyCutoff = new Date(now.getTime() - this.config.hourlyRetentionDays * DAY);
+    await this.dataSource
+      .getRepository(NodeMetricsHourly)
+      .createQueryBuilder()
+      .delete()
+      .where('"bucketStart" < :cutoff', { cutoff: hourlyCutoff })
+      .execute();
+  }
+
+  pickResolution(from: Date, to: Date): RollupResolution {
+    const span = to.getTime() - from.getTime();
+    const match = AUTO_RESOLUTION.find(([maxSpan]) => span <= maxSpan);
+    return match ? match[1] : 'week';
+  }
+
+  async query(
+    nodeAddress: string,
+    from: Date,
+    to: Date,
+    resolution: Resolution | 'auto' = 'auto'
+  ): Promise<{ resolution: Resolution; points: MetricsPoint[] }> {
+    const resolved = resolution === 'auto' ? this.pickResolution(from, to) : resolution;
+
+    if (resolved === 'raw') {
+      const samples = await this.dataSource.getRepository(NodeMetrics).find({
+        where: { node: { address: nodeAddress }, timestamp: Between(from, to) },
+        order: { timestamp: 'ASC' }
+      });
+
+      // A single sample is its own min, average, max and p95
+      const single = (value: number): MetricSummary => {
+        const n = Number(value);
+        return { min: n, avg: n, max: n, p95: n };
+      };
+
+      return {
+        resolution: resolved,
+        points: samples.map(sample => ({
+          timestamp: sample.timestamp.toISOString(),
+          sampleCount: 1,
+          latency: single(sample.latency),
+          bandwidth: single(sample.bandwidth),
+          uptime: single(sample.uptime),
+          reliability: single(sample.reliability)
+        }))
+      };
+    }
+
+    const rollups = await this.dataSource.getRepository<NodeMetricsRollup>(ROLLUP_ENTITIES[resolved]).find({
+      where: { nodeAddress, bucketStart: Between(from, to) },
+      order: { bucketStart: 'ASC' }
+    });
+
+    return {
+      resolution: resolved,
+      points: rollups.map(rollup => ({
+        timestamp: rollup.bucketStart.toISOString(),
+        sampleCount: rollup.sampleCount,
+        latency: toSummary(rollup, 'latency'),
+        bandwidth: toSummary(rollup, 'bandwidth'),
+        uptime: toSummary(rollup, 'uptime'),
+        reliability: toSummary(rollup, 'reliability')
+      }))
+    };
+  }
+}
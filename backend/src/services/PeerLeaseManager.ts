@@ -0,0 +1,146 @@
+import { EventEmitter } from 'events';
+import { WireGuardController, ProvisionedPeer } from '../wireguard/wireguard';
+import { IpLease } from '../models/IpLease';
+import { IpAllocator } from './IpAllocator';
+import { SubscriptionVerifier } from './SubscriptionVerifier';
+
+export interface ProvisionedConnection {
+  // Client config without the PrivateKey, which only the client has
+  config: string;
+  peer: ProvisionedPeer;
+  lease: IpLease;
+}
+
+// Tracks which WireGuard peer belongs to which subscription and removes
+// peers once the subscription that paid for them has expired. Leases are
+// stored with their tunnel address, so they outlive a backend restart.
+export class PeerLeaseManager extends EventEmitter {
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private readonly SWEEP_INTERVAL = 60 * 1000; // Check for expired leases every minute
+  // Tail of the queued lease changes per user
+  private userQueues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private wireguard: WireGuardController,
+    private verifier: SubscriptionVerifier,
+    private allocator: IpAllocator
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.sweepInterval) return;
+    this.sweepInterval = setInterval(() => {
+      this.sweepExpired().catch(error => {
+        console.error('Error sweeping expired peer leases:', error);
+      });
+    }, this.SWEEP_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  // Replaces any peer the user already has with the client's public key on a
+  // leased address. Calls for the same user run one after the other, so two
+  // concurrent connects cannot leave two peers on one address.
+  async provision(
+    userId: string,
+    publicKey: string,
+    expiresAt: Date,
+    tokenId: string | null
+  ): Promise<ProvisionedConnection> {
+    return this.forUser(userId, async () => {
+      await this.releaseLease(userId);
+
+      const lease = await this.allocator.lease(userId, expiresAt, tokenId);
+      try {
+        const { config, peer } = await this.wireguard.setupConnection(userId, lease.ipAddress, publicKey);
+        // Another backend provisioning on the same node may have attached its
+        // peer to this lease meanwhile; the last one to attach keeps it
+        const current = await this.allocator.findByUser(userId);
+        if (current?.publicKey && current.publicKey !== peer.publicKey) {
+          await this.wireguard.removeConnection(current.publicKey);
+        }
+        const granted = await this.allocator.attachPeer(lease, peer.publicKey);
+        this.emit('lease:granted', granted);
+        return { config, peer, lease: granted };
+      } catch (error) {
+        await this.allocator.release(lease);
+        throw error;
+      }
+    });
+  }
+
+  async getLease(userId: string): Promise<IpLease | null> {
+    return this.allocator.findByUser(userId);
+  }
+
+  async getActiveLeases(): Promise<IpLease[]> {
+    return this.allocator.findAll();
+  }
+
+  // Removes the user's peer from WireGuard and returns the address to the pool
+  async release(userId: string): Promise<IpLease | undefined> {
+    return this.forUser(userId, () => this.releaseLease(userId));
+  }
+
+  private async releaseLease(userId: string): Promise<IpLease | undefined> {
+    const lease = await this.allocator.findByUser(userId);
+    if (!lease) return undefined;
+
+    await this.removeLease(lease);
+    this.emit('lease:released', lease);
+    return lease;
+  }
+
+  // Runs `task` once every earlier task queued for the user has settled
+  private forUser<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.userQueues.get(userId) || Promise.resolve();
+    const result = previous.catch(() => undefined).then(task);
+    this.userQueues.set(userId, result);
+    const forget = () => {
+      if (this.userQueues.get(userId) === result) {
+        this.userQueues.delete(userId);
+      }
+    };
+    result.then(forget, forget);
+    return result;
+  }
+
+  private async removeLease(lease: IpLease): Promise<void> {
+    if (lease.publicKey) {
+      await this.wireguard.removeConnection(lease.publicKey);
+    }
+    await this.allocator.release(lease);
+  }
+
+  private async sweepExpired(): Promise<void> {
+    const now = new Date();
+
+    for (const lease of await this.allocator.findExpired(now)) {
+      if (lease.tokenId) {
+        try {
+          // The subscription may have been renewed on-chain since the lease was granted
+          const expiresAt = await this.verifier.getExpiry(lease.tokenId);
+          if (expiresAt > now) {
+            this.emit('lease:extended', await this.allocator.extend(lease, expiresAt));
+            continue;
+          }
+        } catch (error) {
+          console.error(`Could not re-check subscription ${lease.tokenId}, expiring lease:`, error);
+        }
+      }
+
+      try {
+        await this.forUser(lease.userId, () => this.removeLease(lease));
+        this.emit('lease:expired', lease);
+      } catch (error) {
+        console.error(`Failed to remove expired peer for user ${lease.userId}:`, error);
+      }
+    }
+  }
+}
@@ -3,8 +3,9 @@ import fetch from 'node-fetch';
 import { getRepository } from '../database/init';
 import { NodeMetrics } from '../models/NodeMetrics';
 import { VPNNode } from '../models/VPNNode';
+import { CollectorConfig, getCollectorConfig } from '../config/collector';
 
-interface MetricsResult {
+export interface MetricsResult {
   nodeAddress: string;
   timestamp: number;
   latency: number;
@@ -19,55 +20,280 @@ interface PingHistory {
   latency: number;
 }
 
+interface NodeSchedule {
+  nodeAddress: string;
+  host: string;
+  timer: NodeJS.Timeout | null;
+  nextRunAt: number | null;
+  queued: boolean;
+  running: boolean;
+  // Set when an admin stops the node, so a node sync does not restart it
+  stopped: boolean;
+  lastRunAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+export interface NodeCollectionStatus {
+  nodeAddress: string;
+  host: string;
+  state: 'scheduled' | 'queued' | 'running' | 'stopped';
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+const toIso = (timestamp: number | null): string | null =>
+  timestamp === null ? null : new Date(timestamp).toISOString();
+
 export class ProductionMetricsCollector extends EventEmitter {
   private metricsHistory: Map<string, MetricsResult[]> = new Map();
   private pingHistory: Map<string, PingHistory[]> = new Map();
-  private collectionInterval: NodeJS.Timer | null = null;
+  private schedules: Map<string, NodeSchedule> = new Map();
+  private queue: string[] = [];
+  private activeRuns = 0;
+  private syncInterval: NodeJS.Timeout | null = null;
+  private config: CollectorConfig;
   private readonly HISTORY_LENGTH = 24; // Keep 24 hours of history
   private readonly PING_SAMPLES = 5; // Number of ping samples to take
+  private readonly PING_PENALTY = 1000; // Latency recorded for an unanswered ping
   private readonly TEST_FILE_SIZE = 1024 * 1024; // 1MB test file for bandwidth
 
-  constructor() {
+  constructor(config: CollectorConfig = getCollectorConfig()) {
     super();
+    this.config = config;
   }
 
-  async startCollecting(nodeAddress: string): Promise<void> {
-    if (!this.metricsHistory.has(nodeAddress)) {
-      this.metricsHistory.set(nodeAddress, []);
+  // Schedules every VPNNode row and keeps picking up nodes added later
+  async start(): Promise<void> {
+    await this.syncNodes();
+
+    if (!this.syncInterval) {
+      this.syncInterval = setInterval(() => {
+        this.syncNodes().catch(error => {
+          console.error('Error syncing nodes for metrics collection:', error);
+        });
+      }, this.config.intervalMs);
     }
+  }
 
-    if (!this.pingHistory.has(nodeAddress)) {
-      this.pingHistory.set(nodeAddress, []);
+  // (Re)starts collection for one node and probes it straight away.
+  // Resolves to undefined if there is no such node.
+  async startCollecting(nodeAddress: string): Promise<NodeCollectionStatus | undefined> {
+    const node = await getRepository<VPNNode>(VPNNode).findOne({
+      where: { address: nodeAddress }
+    });
+    if (!node) {
+      return undefined;
     }
 
-    // Collect metrics every hour
-    this.collectionInterval = setInterval(async () => {
-      try {
-        const metrics = await this.collectMetrics(nodeAddress);
-        await this.saveMetrics(nodeAddress, metrics);
-        this.emit('metrics:collected', {
-          nodeAddress,
-          timestamp: Date.now(),
-          metrics
-        });
-      } catch (error) {
-        console.error(`Error collecting metrics for node ${nodeAddress}:`, error);
-        this.emit('error', error);
+    const schedule = this.getOrCreateSchedule(node);
+    schedule.stopped = false;
+    schedule.consecutiveFailures = 0;
+    this.clearTimer(schedule);
+    this.enqueue(schedule);
+
+    return this.toStatus(schedule);
+  }
+
+  // Stops one node, or every node and the node sync when no address is given.
+  // A probe that is already running finishes but is not rescheduled.
+  public stopCollecting(nodeAddress?: string): void {
+    if (!nodeAddress) {
+      if (this.syncInterval) {
+        clearInterval(this.syncInterval);
+        this.syncInterval = null;
       }
-    }, 3600000); // 1 hour interval
+      this.schedules.forEach(schedule => this.stopSchedule(schedule));
+      return;
+    }
 
-    // Initial collection
-    const metrics = await this.collectMetrics(nodeAddress);
-    await this.saveMetrics(nodeAddress, metrics);
+    const schedule = this.schedules.get(nodeAddress);
+    if (schedule) {
+      this.stopSchedule(schedule);
+    }
   }
 
-  private async measureLatency(nodeAddress: string): Promise<number> {
+  public getCollectionStatus(): NodeCollectionStatus[];
+  public getCollectionStatus(nodeAddress: string): NodeCollectionStatus | undefined;
+  public getCollectionStatus(nodeAddress?: string): NodeCollectionStatus[] | NodeCollectionStatus | undefined {
+    if (nodeAddress) {
+      const schedule = this.schedules.get(nodeAddress);
+      return schedule && this.toStatus(schedule);
+    }
+    return Array.from(this.schedules.values()).map(schedule => this.toStatus(schedule));
+  }
+
+  private async syncNodes(): Promise<void> {
+    const nodes = await getRepository<VPNNode>(VPNNode).find();
+    const addresses = new Set(nodes.map(node => node.address));
+
+    for (const node of nodes) {
+      if (this.schedules.has(node.address)) {
+        this.schedules.get(node.address)!.host = node.ipAddress;
+        continue;
+      }
+      // Spread the first probes out instead of hitting every node at once
+      const schedule = this.getOrCreateSchedule(node);
+      this.scheduleNext(schedule, Math.random() * this.config.intervalMs * this.config.jitter);
+    }
+
+    // Forget nodes whose rows have been deleted
+    this.schedules.forEach((schedule, address) => {
+      if (!addresses.has(address)) {
+        this.stopSchedule(schedule);
+        this.schedules.delete(address);
+      }
+    });
+  }
+
+  private getOrCreateSchedule(node: VPNNode): NodeSchedule {
+    let schedule = this.schedules.get(node.address);
+    if (!schedule) {
+      schedule = {
+        nodeAddress: node.address,
+        host: node.ipAddress,
+        timer: null,
+        nextRunAt: null,
+        queued: false,
+        running: false,
+        stopped: false,
+        lastRunAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        consecutiveFailures: 0
+      };
+      this.schedules.set(node.address, schedule);
+      this.metricsHistory.set(node.address, this.metricsHistory.get(node.address) || []);
+      this.pingHistory.set(node.address, this.pingHistory.get(node.address) || []);
+    }
+    schedule.host = node.ipAddress;
+    return schedule;
+  }
+
+  private stopSchedule(schedule: NodeSchedule): void {
+    schedule.stopped = true;
+    this.clearTimer(schedule);
+    if (schedule.queued) {
+      schedule.queued = false;
+      this.queue = this.queue.filter(address => address !== schedule.nodeAddress);
+    }
+  }
+
+  private clearTimer(schedule: NodeSchedule): void {
+    if (schedule.timer) {
+      clearTimeout(schedule.timer);
+      schedule.timer = null;
+    }
+    schedule.nextRunAt = null;
+  }
+
+  private scheduleNext(schedule: NodeSchedule, delay: number): void {
+    this.clearTimer(schedule);
+    schedule.nextRunAt = Date.now() + delay;
+    schedule.timer = setTimeout(() => {
+      schedule.timer = null;
+      schedule.nextRunAt = null;
+      this.enqueue(schedule);
+    }, delay);
+  }
+
+  // Failing nodes are probed less often: the interval doubles per consecutive
+  // failure up to maxBackoffMs. Every delay is jittered.
+  private nextDelay(schedule: NodeSchedule): number {
+    const { intervalMs, maxBackoffMs, jitter } = this.config;
+    const backoff = Math.min(intervalMs * 2 ** schedule.consecutiveFailures, Math.max(maxBackoffMs, intervalMs));
+    return backoff * (1 + (Math.random() * 2 - 1) * jitter);
+  }
+
+  private enqueue(schedule: NodeSchedule): void {
+    if (schedule.queued || schedule.running || schedule.stopped) return;
+    schedule.queued = true;
+    this.queue.push(schedule.nodeAddress);
+    this.drainQueue();
+  }
+
+  // Starts queued probes while fewer than `concurrency` are in flight
+  private drainQueue(): void {
+    while (this.activeRuns < this.config.concurrency && this.queue.length > 0) {
+      const schedule = this.schedules.get(this.queue.shift()!);
+      if (!schedule || !schedule.queued) continue;
+
+      schedule.queued = false;
+      this.runCollection(schedule);
+    }
+  }
+
+  private async runCollection(schedule: NodeSchedule): Promise<void> {
+    const { nodeAddress } = schedule;
+    this.activeRuns++;
+    schedule.running = true;
+    schedule.lastRunAt = Date.now();
+
+    try {
+      const metrics = await this.collectMetrics(nodeAddress, schedule.host);
+      // Unreachable nodes are still recorded, so their uptime reflects it
+      await this.saveMetrics(nodeAddress, metrics);
+      if (metrics.latency >= this.PING_PENALTY) {
+        throw new Error('Node did not answer any ping');
+      }
+
+      schedule.consecutiveFailures = 0;
+      schedule.lastError = null;
+      schedule.lastSuccessAt = Date.now();
+      this.emit('metrics:collected', {
+        nodeAddress,
+        timestamp: Date.now(),
+        metrics
+      });
+    } catch (error) {
+      schedule.consecutiveFailures++;
+      schedule.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Error collecting metrics for node ${nodeAddress}:`, error);
+      this.emit('metrics:failed', {
+        nodeAddress,
+        timestamp: Date.now(),
+        error: schedule.lastError,
+        consecutiveFailures: schedule.consecutiveFailures
+      });
+    } finally {
+      schedule.running = false;
+      this.activeRuns--;
+      if (!schedule.stopped) {
+        this.scheduleNext(schedule, this.nextDelay(schedule));
+      }
+      this.drainQueue();
+    }
+  }
+
+  private toStatus(schedule: NodeSchedule): NodeCollectionStatus {
+    let state: NodeCollectionStatus['state'] = 'scheduled';
+    if (schedule.running) state = 'running';
+    else if (schedule.queued) state = 'queued';
+    else if (schedule.stopped) state = 'stopped';
+
+    return {
+      nodeAddress: schedule.nodeAddress,
+      host: schedule.host,
+      state,
+      nextRunAt: toIso(schedule.nextRunAt),
+      lastRunAt: toIso(schedule.lastRunAt),
+      lastSuccessAt: toIso(schedule.lastSuccessAt),
+      lastError: schedule.lastError,
+      consecutiveFailures: schedule.consecutiveFailures
+    };
+  }
+
+  private async measureLatency(nodeAddress: string, host: string): Promise<number> {
     const results: number[] = [];
 
     for (let i = 0; i < this.PING_SAMPLES; i++) {
       const startTime = performance.now();
       try {
-        const response = await fetch(`http://${nodeAddress}/ping`, {
+        const response = await fetch(`http://${host}/ping`, {
           timeout: 5000 // 5 second timeout
         });
         
@@ -75,10 +301,10 @@ export class ProductionMetricsCollector extends EventEmitter {
           const endTime = performance.now();
           results.push(endTime - startTime);
         } else {
-          results.push(1000); // Penalty for failed ping
+          results.push(this.PING_PENALTY);
         }
       } catch (error) {
-        results.push(1000); // Penalty for failed ping
+        results.push(this.PING_PENALTY);
         console.error(`Ping failed for node ${nodeAddress}:`, error);
       }
 
@@ -97,7 +323,7 @@ export class ProductionMetricsCollector extends EventEmitter {
     const pingHistory = this.pingHistory.get(nodeAddress) || [];
     pingHistory.push({
       timestamp: Date.now(),
-      success: avgLatency < 1000,
+      success: avgLatency < this.PING_PENALTY,
       latency: avgLatency
     });
 
@@ -111,10 +337,10 @@ export class ProductionMetricsCollector extends EventEmitter {
     return avgLatency;
   }
 
-  private async measureBandwidth(nodeAddress: string): Promise<number> {
+  private async measureBandwidth(nodeAddress: string, host: string): Promise<number> {
     try {
       const startTime = performance.now();
-      const response = await fetch(`http://${nodeAddress}/speedtest`);
+      const response = await fetch(`http://${host}/speedtest`);
       
       if (!response.ok) {
         throw new Error('Speed test failed');
@@ -182,10 +408,10 @@ export class ProductionMetricsCollector extends EventEmitter {
     return Math.sqrt(squareDiffs.reduce((sum, val) => sum + val, 0) / values.length);
   }
 
-  private async collectMetrics(nodeAddress: string): Promise<MetricsResult> {
+  private async collectMetrics(nodeAddress: string, host: string): Promise<MetricsResult> {
     const [latency, bandwidth, uptime, reliability] = await Promise.all([
-      this.measureLatency(nodeAddress),
-      this.measureBandwidth(nodeAddress),
+      this.measureLatency(nodeAddress, host),
+      this.measureBandwidth(nodeAddress, host),
       this.calculateUptime(nodeAddress),
       this.calculateReliability(nodeAddress)
     ]);
@@ -243,14 +469,23 @@ export class ProductionMetricsCollector extends EventEmitter {
     return history?.[history.length - 1];
   }
 
-  public getAllMetrics(nodeAddress: string): MetricsResult[] {
-    return this.metricsHistory.get(nodeAddress) || [];
+  // Same weighting VPNRegistry.updateNodeMetrics applies on-chain (0-100)
+  public getScore(nodeAddress: string): number | undefined {
+    const metrics = this.getLatestMetrics(nodeAddress);
+    if (!metrics) return undefined;
+
+    const latencyScore = metrics.latency > 1000 ? 0 : ((1000 - metrics.latency) * 100) / 1000;
+    const bandwidthScore = metrics.bandwidth > 1000 ? 100 : (metrics.bandwidth * 100) / 1000;
+
+    return (
+      latencyScore * 30 +
+      bandwidthScore * 25 +
+      metrics.uptime * 25 +
+      metrics.reliability * 20
+    ) / 100;
   }
 
-  public stopCollecting(): void {
-    if (this.collectionInterval) {
-      clearInterval(this.collectionInterval);
-      this.collectionInterval = null;
-    }
+  public getAllMetrics(nodeAddress: string): MetricsResult[] {
+    return this.metricsHistory.get(nodeAddress) || [];
   }
 } 
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { ethers } from 'ethers';
+import { DataSource } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { getRegistryContract, getSettlementWallet, getSubscriptionContract } from '../config/contracts';
+import { getSettlementConfig, SettlementConfig } from '../config/settlement';
+import { PeerUsage } from '../models/PeerUsage';
+
+export interface ServedAmount {
+  nodeAddress: string;
+  // Bytes or sessions, as configured; a decimal string since byte sums exceed 2^53
+  served: string;
+}
+
+export interface EpochSettlement {
+  epoch: number;
+  nodes: ServedAmount[];
+  skipped: { nodeAddress: string; reason: string }[];
+  txHash: string;
+  blockNumber: number | null;
+}
+
+export interface SettlerOptions {
+  subscription?: ethers.Contract;
+  registry?: ethers.Contract;
+  config?: SettlementConfig;
+  dataSource?: DataSource;
+}
+
+// Non-addresses sort last; settle() skips them anyway
+const compareAddresses = (a: string, b: string): number => {
+  if (!ethers.isAddress(a) || !ethers.isAddress(b)) {
+    return Number(!ethers.isAddress(a)) - Number(!ethers.isAddress(b));
+  }
+  const [x, y] = [BigInt(a), BigInt(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+// Settles VPNSubscription revenue epochs from the usage node agents record.
+// Once an epoch's refund window (SETTLEMENT_DELAY) has passed on-chain, each
+// node's served bytes or sessions for the epoch are summed from PeerUsage and
+// submitted with settleEpoch from the subscription owner's key.
+export class RevenueSettler {
+  private settleInterval: NodeJS.Timeout | null = null;
+  private running = false;
+  // Every epoch below this one is known to be settled
+  private nextEpoch = 0;
+  private subscriptionContract: ethers.Contract | null;
+  private registryContract: ethers.Contract | null;
+  private config: SettlementConfig;
+  private dataSource: DataSource;
+
+  constructor(options: SettlerOptions = {}) {
+    this.config = options.config || getSettlementConfig();
+    this.subscriptionContract = options.subscription || null;
+    this.registryContract = options.registry || null;
+    this.dataSource = options.dataSource || AppDataSource;
+  }
+
+  start(): void {
+    if (this.settleInterval) return;
+    const tick = () => {
+      this.runOnce().catch(error => {
+        console.error('Error settling revenue epochs:', error);
+      });
+    };
+    tick();
+    this.settleInterval = setInterval(tick, this.config.intervalMs);
+  }
+
+  stop(): void {
+    if (this.settleInterval) {
+      clearInterval(this.settleInterval);
+      this.settleInterval = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Built on first use, so the routes load without a settlement key configured
+  private get subscription(): ethers.Contract {
+    if (!this.subscriptionContract) {
+      this.subscriptionContract = getSubscriptionContract(getSettlementWallet());
+    }
+    return this.subscriptionContract;
+  }
+
+  private get registry(): ethers.Contract {
+    if (!this.registryContract) {
+      this.registryContract = getRegistryContract();
+    }
+    return this.registryContract;
+  }
+
+  // Settles every finished epoch whose refund window has closed, oldest first
+  async runOnce(): Promise<EpochSettlement[]> {
+    if (this.running) {
+      throw new Error('A settlement run is already in progress');
+    }
+    this.running = true;
+
+    try {
+      const provider = this.subscription.runner?.provider;
+      if (!provider) {
+        throw new Error('Subscription contract has no provider');
+      }
+
+      const [genesis, duration, delay, latest] = await Promise.all([
+        this.subscription.epochGenesis(),
+        this.subscription.EPOCH_DURATION(),
+        this.subscription.SETTLEMENT_DELAY(),
+        provider.getBlock('latest')
+      ]);
+      if (!latest) {
+        throw new Error('Latest block is not available');
+      }
+
+      const settled: EpochSettlement[] = [];
+      for (let epoch = this.nextEpoch; ; epoch++) {
+        // Same readiness rule settleEpoch enforces, against chain time
+        const start = Number(genesis + BigInt(epoch) * duration);
+        const end = Number(genesis + BigInt(epoch + 1) * duration);
+        if (latest.timestamp < end + Number(delay)) break;
+
+        if (!(await this.subscription.epochSettled(epoch))) {
+          settled.push(await this.settle(epoch, new Date(start * 1000), new Date(end * 1000)));
+        }
+        this.nextEpoch = epoch + 1;
+      }
+      return settled;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Served amount per node between `from` (inclusive) and `to` (exclusive)
+  async getServed(from: Date, to: Date): Promise<ServedAmount[]> {
+    const served = this.config.servedUnit === 'sessions'
+      ? 'COUNT(DISTINCT peerUsage.publicKey)'
+      : 'SUM(peerUsage.bytes)';
+
+    const rows: { nodeAddress: string; served: string | number }[] = await this.dataSource
+      .getRepository(PeerUsage)
+      .createQueryBuilder('peerUsage')
+      .select('peerUsage.nodeAddress', 'nodeAddress')
+      .addSelect(served, 'served')
+      .where('peerUsage.recordedAt >= :from AND peerUsage.recordedAt < :to', { from, to })
+      .groupBy('peerUsage.nodeAddress')
+      .orderBy('peerUsage.nodeAddress')
+      .getRawMany();
+
+    return rows.map(row => ({ nodeAddress: row.nodeAddress, served: String(row.served) }));
+  }
+
+  private async settle(epoch: number, from: Date, to: Date): Promise<EpochSettlement> {
+    const nodes: ServedAmount[] = [];
+    const skipped: EpochSettlement['skipped'] = [];
+
+    // settleEpoch reverts on unregistered nodes, so only registered ones are sent,
+    // and it wants the addresses strictly ascending by numeric value
+    const served = (await this.getServed(from, to)).sort((a, b) => compareAddresses(a.nodeAddress, b.nodeAddress));
+    for (const amount of served) {
+      if (!ethers.isAddress(amount.nodeAddress)) {
+        skipped.push({ nodeAddress: amount.nodeAddress, reason: 'not an Ethereum address' });
+        continue;
+      }
+      const node = await this.registry.nodes(amount.nodeAddress);
+      if (node.owner === ethers.ZeroAddress) {
+        skipped.push({ nodeAddress: amount.nodeAddress, reason: 'not registered on-chain' });
+        continue;
+      }
+      nodes.push(amount);
+    }
+
+    const tx: ethers.ContractTransactionResponse = await this.subscription.settleEpoch(
+      epoch,
+      nodes.map(node => node.nodeAddress),
+      nodes.map(node => node.served)
+    );
+    const receipt = await tx.wait(1, this.config.confirmationTimeoutMs);
+    console.log(`Settled epoch ${epoch} for ${nodes.length} nodes in ${tx.hash}`);
+
+    return { epoch, nodes, skipped, txHash: tx.hash, blockNumber: receipt?.blockNumber ?? null };
+  }
+}
@@ -0,0 +1,128 @@
+import { ethers } from 'ethers';
+import { CHAIN_ID, getRegistryContract } from '../config/contracts';
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_NAMES: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId'
+};
+
+export class SiweService {
+  private readonly domain: string | undefined;
+
+  constructor() {
+    // When unset, any domain is accepted (useful for local development)
+    this.domain = process.env.SIWE_DOMAIN;
+  }
+
+  parseMessage(message: string): SiweMessage {
+    const lines = message.split('\n');
+
+    if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+      throw new Error('Invalid SIWE message header');
+    }
+    const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+
+    const address = lines[1]?.trim();
+    if (!address || !ethers.isAddress(address)) {
+      throw new Error('Invalid SIWE message address');
+    }
+
+    const parsed: Partial<Record<keyof SiweMessage, string>> = {};
+    const statementLines: string[] = [];
+
+    for (const line of lines.slice(2)) {
+      const separator = line.indexOf(': ');
+      const key = separator > 0 ? FIELD_NAMES[line.slice(0, separator)] : undefined;
+
+      if (key) {
+        parsed[key] = line.slice(separator + 2).trim();
+      } else if (!parsed.uri && line.trim()) {
+        // Anything before the URI field that isn't a field is the statement
+        statementLines.push(line.trim());
+      }
+    }
+
+    if (!parsed.uri || !parsed.version || !parsed.chainId || !parsed.nonce || !parsed.issuedAt) {
+      throw new Error('SIWE message is missing required fields');
+    }
+
+    return {
+      domain,
+      address,
+      statement: statementLines.length > 0 ? statementLines.join('\n') : undefined,
+      uri: parsed.uri,
+      version: parsed.version,
+      chainId: parseInt(parsed.chainId),
+      nonce: parsed.nonce,
+      issuedAt: parsed.issuedAt,
+      expirationTime: parsed.expirationTime,
+      notBefore: parsed.notBefore,
+      requestId: parsed.requestId
+    };
+  }
+
+  // Checks the signature and message constraints; nonce matching is left to the caller
+  verify(message: string, signature: string): SiweMessage {
+    const fields = this.parseMessage(message);
+
+    if (fields.version !== '1') {
+      throw new Error('Unsupported SIWE message version');
+    }
+
+    if (fields.chainId !== CHAIN_ID) {
+      throw new Error(`SIWE message is for chain ${fields.chainId}, expected ${CHAIN_ID}`);
+    }
+
+    if (this.domain && fields.domain !== this.domain) {
+      throw new Error('SIWE message domain mismatch');
+    }
+
+    const now = Date.now();
+    if (fields.expirationTime && new Date(fields.expirationTime).getTime() < now) {
+      throw new Error('SIWE message has expired');
+    }
+    if (fields.notBefore && new Date(fields.notBefore).getTime() > now) {
+      throw new Error('SIWE message is not yet valid');
+    }
+
+    const recovered = ethers.verifyMessage(message, signature);
+    if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+      throw new Error('SIWE signature does not match address');
+    }
+
+    return fields;
+  }
+
+  async isAdmin(address: string): Promise<boolean> {
+    try {
+      const registry = getRegistryContract();
+      return await registry.isAdmin(address);
+    } catch (error) {
+      console.error('Error checking admin status on VPNRegistry:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { getSubscriptionContract } from '../config/contracts';
+
+export interface SubscriptionAccess {
+  tokenId: string;
+  expiresAt: Date;
+}
+
+// Off-chain equivalent of VPNRegistry.canAccessNodes, read through ethers
+export class SubscriptionVerifier {
+  // Returns the subscription that grants access, or null if the user has none.
+  // RPC failures are thrown so callers can tell them apart from "no subscription".
+  async getActiveSubscription(userAddress: string, tokenId?: string): Promise<SubscriptionAccess | null> {
+    const subscription = getSubscriptionContract();
+
+    try {
+      let activeTokenId: bigint;
+
+      if (tokenId) {
+        activeTokenId = BigInt(tokenId);
+        const owner: string = await subscription.ownerOf(activeTokenId);
+        if (owner.toLowerCase() !== userAddress.toLowerCase()) {
+          return null;
+        }
+        if (!(await subscription.isSubscriptionActive(activeTokenId))) {
+          return null;
+        }
+      } else {
+        if (!(await subscription.hasActiveSubscription(userAddress))) {
+          return null;
+        }
+        activeTokenId = await subscription.userLatestToken(userAddress);
+      }
+
+      return {
+        tokenId: activeTokenId.toString(),
+        expiresAt: await this.getExpiry(activeTokenId.toString())
+      };
+    } catch (error) {
+      // Reverts (e.g. "Subscription does not exist") mean no access
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getExpiry(tokenId: string): Promise<Date> {
+    const subscription = getSubscriptionContract();
+    const expiry: bigint = await subscription.subscriptionExpiry(BigInt(tokenId));
+    return new Date(Number(expiry) * 1000);
+  }
+}
@@ -0,0 +1,81 @@
+import { DataSource } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { getSettlementConfig, SettlementConfig } from '../config/settlement';
+import { PeerUsage } from '../models/PeerUsage';
+import { WireGuardMonitor } from '../wireguard/monitor';
+import { PeerLeaseManager } from './PeerLeaseManager';
+
+// Meters what this node serves for revenue sharing. Each sample reads the
+// cumulative transfer counters from the monitor's latest `wg show dump` and
+// stores what every leased peer moved since its previous sample. Counters start
+// at zero when a peer is added, so a counter below the last sample means the
+// peer was re-added.
+export class UsageRecorder {
+  private sampleInterval: NodeJS.Timeout | null = null;
+  // Last counter seen per public key; falls back to the database after a restart
+  private counters = new Map<string, number>();
+
+  constructor(
+    private monitor: WireGuardMonitor,
+    private leases: PeerLeaseManager,
+    private config: SettlementConfig = getSettlementConfig(),
+    private dataSource: DataSource = AppDataSource
+  ) {}
+
+  start(): void {
+    if (this.sampleInterval) return;
+    this.sampleInterval = setInterval(() => {
+      this.recordOnce().catch(error => {
+        console.error('Error recording peer usage:', error);
+      });
+    }, this.config.usageSampleIntervalMs);
+  }
+
+  stop(): void {
+    if (this.sampleInterval) {
+      clearInterval(this.sampleInterval);
+      this.sampleInterval = null;
+    }
+  }
+
+  // Peers without a lease (e.g. added by hand) are not paid for and are skipped
+  async recordOnce(recordedAt: Date = new Date()): Promise<PeerUsage[]> {
+    const [dump, held] = await Promise.all([this.monitor.getSnapshot(), this.leases.getActiveLeases()]);
+    const peers = new Map(dump.peers.map(peer => [peer.publicKey, peer]));
+    const repository = this.dataSource.getRepository(PeerUsage);
+
+    const usage: PeerUsage[] = [];
+    for (const lease of held) {
+      const peer = lease.publicKey ? peers.get(lease.publicKey) : undefined;
+      if (!peer) continue;
+
+      const counter = peer.transferRx + peer.transferTx;
+      const previous = await this.previousCounter(peer.publicKey);
+      const bytes = previous !== null && counter >= previous ? counter - previous : counter;
+      this.counters.set(peer.publicKey, counter);
+      if (bytes === 0) continue;
+
+      usage.push(repository.create({
+        nodeAddress: lease.nodeAddress,
+        userId: lease.userId,
+        publicKey: peer.publicKey,
+        bytes: String(bytes),
+        counter: String(counter),
+        recordedAt
+      }));
+    }
+
+    return usage.length > 0 ? repository.save(usage) : usage;
+  }
+
+  private async previousCounter(publicKey: string): Promise<number | null> {
+    const cached = this.counters.get(publicKey);
+    if (cached !== undefined) return cached;
+
+    const last = await this.dataSource.getRepository(PeerUsage).findOne({
+      where: { publicKey },
+      order: { recordedAt: 'DESC' }
+    });
+    return last ? Number(last.counter) : null;
+  }
+}
@@ -1,80 +1,274 @@
 import WebSocket from 'ws';
-import { Server } from 'http';
-import { WireGuardController } from '../wireguard/wireguard';
+import { IncomingMessage, Server } from 'http';
+import { WireGuardMonitor, WireGuardSnapshot } from '../wireguard/monitor';
+import { WireGuardPeerStatus } from '../wireguard/dump';
+import { PeerLeaseManager } from '../services/PeerLeaseManager';
+import { IpLease } from '../models/IpLease';
+import { verifySessionToken } from '../middleware/auth';
+import { normaliseUserId } from '../middleware/params';
 
-interface StatusClient {
-  userId: string;
-  ws: WebSocket;
+export type StatusMessage =
+  | {
+      type: 'status';
+      connected: boolean;
+      address?: string;
+      leaseExpiresAt?: string;
+      peer?: WireGuardPeerStatus;
+    }
+  | { type: 'handshake'; latestHandshake: string; endpoint: string | null }
+  | {
+      type: 'transfer';
+      transferRx: number;
+      transferTx: number;
+      // Bytes since the previous update, and the time that covers
+      rxDelta: number;
+      txDelta: number;
+      intervalMs: number;
+    }
+  | { type: 'lease-expiring'; expiresAt: string }
+  | { type: 'disconnected'; reason: 'released' | 'expired' | 'peer-missing' };
+
+interface PeerSnapshot {
+  latestHandshake: number | null;
+  transferRx: number;
+  transferTx: number;
+  sampledAt: number;
 }
 
+// Pushes status changes to authenticated clients. Each WireGuard snapshot from
+// the monitor covers every subscribed user, however many sockets they have open.
 export class VPNStatusServer {
   private wss: WebSocket.Server;
-  private clients: Map<string, StatusClient> = new Map();
-  private statusInterval: NodeJS.Timeout | null = null;
-  private wireguard: WireGuardController;
+  private clients: Map<string, Set<WebSocket>> = new Map();
+  private snapshots: Map<string, PeerSnapshot> = new Map();
+  // Lease ids whose expiry warning has gone out, with the expiry it was for
+  private expiryWarnings: Map<number, number> = new Map();
+  private polling = false;
+  private readonly EXPIRY_WARNING = 10 * 60 * 1000; // Warn 10 minutes before a lease ends
 
-  constructor(server: Server) {
+  constructor(
+    server: Server,
+    private leases: PeerLeaseManager,
+    private monitor: WireGuardMonitor
+  ) {
     this.wss = new WebSocket.Server({ server });
-    this.wireguard = new WireGuardController();
     this.initialize();
   }
 
   private initialize() {
-    this.wss.on('connection', (ws: WebSocket, req: any) => {
-      const url = new URL(req.url, `http://${req.headers.host}`);
-      const userId = url.searchParams.get('userId');
-
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+      const userId = this.authenticate(req);
       if (!userId) {
-        ws.close(1008, 'User ID is required');
+        ws.close(1008, 'Authentication failed');
         return;
       }
 
-      // Store the client connection
-      this.clients.set(userId, { userId, ws });
-
-      // Send initial status
-      this.sendStatus(userId);
+      this.addClient(userId, ws);
+      this.sendInitialStatus(userId, ws);
 
       ws.on('close', () => {
-        this.clients.delete(userId);
+        this.removeClient(userId, ws);
       });
 
       ws.on('error', (error) => {
         console.error(`WebSocket error for user ${userId}:`, error);
-        this.clients.delete(userId);
+        this.removeClient(userId, ws);
       });
     });
 
-    // Start periodic status updates
-    this.startStatusUpdates();
+    this.leases.on('lease:granted', (lease: IpLease) => {
+      this.sendInitialStatus(lease.userId, undefined, true);
+    });
+    this.leases.on('lease:released', (lease: IpLease) => {
+      this.forgetLease(lease);
+      this.broadcast(lease.userId, { type: 'disconnected', reason: 'released' });
+    });
+    this.leases.on('lease:expired', (lease: IpLease) => {
+      this.forgetLease(lease);
+      this.broadcast(lease.userId, { type: 'disconnected', reason: 'expired' });
+    });
+
+    this.monitor.on('snapshot', this.onSnapshot);
   }
 
-  private async sendStatus(userId: string) {
+  // Browsers cannot set headers on a WebSocket, so the session token may also
+  // be passed as ?token=. Admins can watch another user with ?userId=.
+  private authenticate(req: IncomingMessage): string | null {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const token = url.searchParams.get('token') || req.headers.authorization?.split(' ')[1];
+    if (!token) return null;
+
     try {
-      const client = this.clients.get(userId);
-      if (!client) return;
+      const auth = verifySessionToken(token);
+      const requested = url.searchParams.get('userId');
+      if (requested && requested.toLowerCase() !== auth.address) {
+        return auth.isAdmin ? normaliseUserId(requested) : null;
+      }
+      return auth.address;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private addClient(userId: string, ws: WebSocket) {
+    const sockets = this.clients.get(userId) || new Set<WebSocket>();
+    sockets.add(ws);
+    this.clients.set(userId, sockets);
+  }
+
+  private removeClient(userId: string, ws: WebSocket) {
+    const sockets = this.clients.get(userId);
+    if (!sockets) return;
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      this.clients.delete(userId);
+    }
+  }
+
+  private send(ws: WebSocket, message: StatusMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  private broadcast(userId: string, message: StatusMessage) {
+    this.clients.get(userId)?.forEach(ws => this.send(ws, message));
+  }
+
+  private forgetLease(lease: IpLease) {
+    if (lease.publicKey) {
+      this.snapshots.delete(lease.publicKey);
+    }
+    this.expiryWarnings.delete(lease.id);
+  }
+
+  // Full snapshot for a newly opened socket, or for every socket of a user
+  // who has just been granted a peer; a new peer is only in a fresh dump
+  private async sendInitialStatus(userId: string, ws?: WebSocket, fresh = false) {
+    try {
+      const lease = await this.leases.getLease(userId);
+      let message: StatusMessage = { type: 'status', connected: false };
+
+      if (lease?.publicKey) {
+        const snapshot = await (fresh ? this.monitor.refresh() : this.monitor.getSnapshot());
+        const peer = snapshot.peers.find(p => p.publicKey === lease.publicKey);
+        message = {
+          type: 'status',
+          connected: Boolean(peer),
+          address: lease.ipAddress,
+          leaseExpiresAt: lease.expiresAt.toISOString(),
+          peer
+        };
+      }
 
-      const status = await this.wireguard.getStatus(userId);
-      client.ws.send(JSON.stringify(status));
+      if (ws) {
+        this.send(ws, message);
+      } else {
+        this.broadcast(userId, message);
+      }
     } catch (error) {
       console.error(`Error sending status to user ${userId}:`, error);
     }
   }
 
-  private startStatusUpdates() {
-    // Update status every 5 seconds
-    this.statusInterval = setInterval(() => {
-      this.clients.forEach((client) => {
-        this.sendStatus(client.userId);
+  private onSnapshot = (snapshot: WireGuardSnapshot) => {
+    this.publishSnapshot(snapshot);
+  };
+
+  private async publishSnapshot(snapshot: WireGuardSnapshot) {
+    // Skip the lease lookup while nobody is listening, and never overlap
+    if (this.clients.size === 0 || this.polling) return;
+    this.polling = true;
+
+    try {
+      const leases = await this.leases.getActiveLeases();
+      const peers = new Map(snapshot.peers.map(peer => [peer.publicKey, peer]));
+      const now = snapshot.sampledAt.getTime();
+
+      for (const lease of leases) {
+        if (!lease.publicKey || !this.clients.has(lease.userId)) continue;
+
+        const peer = peers.get(lease.publicKey);
+        if (!peer) {
+          if (this.snapshots.delete(lease.publicKey)) {
+            this.broadcast(lease.userId, { type: 'disconnected', reason: 'peer-missing' });
+          }
+          continue;
+        }
+
+        this.publishPeerChanges(lease.userId, peer, now);
+        this.checkExpiry(lease, now);
+      }
+
+      // Drop snapshots for peers that are gone from the interface
+      this.snapshots.forEach((_, publicKey) => {
+        if (!peers.has(publicKey)) {
+          this.snapshots.delete(publicKey);
+        }
       });
-    }, 5000);
+    } catch (error) {
+      console.error('Error publishing WireGuard status:', error);
+    } finally {
+      this.polling = false;
+    }
   }
 
-  public stop() {
-    if (this.statusInterval) {
-      clearInterval(this.statusInterval);
-      this.statusInterval = null;
+  private publishPeerChanges(userId: string, peer: WireGuardPeerStatus, now: number) {
+    const previous = this.snapshots.get(peer.publicKey);
+    const latestHandshake = peer.latestHandshake ? peer.latestHandshake.getTime() : null;
+
+    this.snapshots.set(peer.publicKey, {
+      latestHandshake,
+      transferRx: peer.transferRx,
+      transferTx: peer.transferTx,
+      sampledAt: now
+    });
+
+    if (peer.latestHandshake && latestHandshake !== previous?.latestHandshake) {
+      this.broadcast(userId, {
+        type: 'handshake',
+        latestHandshake: peer.latestHandshake.toISOString(),
+        endpoint: peer.endpoint
+      });
+    }
+
+    if (!previous || peer.transferRx !== previous.transferRx || peer.transferTx !== previous.transferTx) {
+      // Counters restart from zero when a peer is re-added
+      const delta = (current: number, before?: number) =>
+        before === undefined || current < before ? current : current - before;
+
+      this.broadcast(userId, {
+        type: 'transfer',
+        transferRx: peer.transferRx,
+        transferTx: peer.transferTx,
+        rxDelta: delta(peer.transferRx, previous?.transferRx),
+        txDelta: delta(peer.transferTx, previous?.transferTx),
+        intervalMs: previous ? now - previous.sampledAt : 0
+      });
     }
+  }
+
+  private checkExpiry(lease: IpLease, now: number) {
+    const expiresAt = lease.expiresAt.getTime();
+    if (expiresAt - now > this.EXPIRY_WARNING) return;
+    // A renewal moves the expiry, which earns a fresh warning
+    if (this.expiryWarnings.get(lease.id) === expiresAt) return;
+
+    this.expiryWarnings.set(lease.id, expiresAt);
+    this.broadcast(lease.userId, { type: 'lease-expiring', expiresAt: lease.expiresAt.toISOString() });
+  }
+
+  // Open sockets, and the distinct users they belong to
+  public getClientCounts(): { sockets: number; users: number } {
+    let sockets = 0;
+    this.clients.forEach(userSockets => {
+      sockets += userSockets.size;
+    });
+    return { sockets, users: this.clients.size };
+  }
+
+  public stop() {
+    this.monitor.off('snapshot', this.onSnapshot);
 
     this.wss.clients.forEach((client) => {
       client.close();
@@ -82,4 +276,4 @@ export class VPNStatusServer {
 
     this.wss.close();
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+import net from 'net';
+
+export class IpPoolExhaustedError extends Error {
+  constructor(cidr: string) {
+    super(`No free addresses left in ${cidr}`);
+    this.name = 'IpPoolExhaustedError';
+  }
+}
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+
+const ipv4ToBigInt = (address: string): bigint =>
+  address.split('.').reduce((value, octet) => (value << BigInt(8)) + BigInt(parseInt(octet, 10)), BigInt(0));
+
+const bigIntToIpv4 = (value: bigint): string => {
+  const octets: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    octets.unshift(Number(value & BigInt(0xff)));
+    value >>= BigInt(8);
+  }
+  return octets.join('.');
+};
+
+const ipv6ToBigInt = (address: string): bigint => {
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...Array(tail !== undefined ? missing : 0).fill('0'), ...tailGroups];
+
+  return groups.reduce((value, group) => (value << BigInt(16)) + BigInt(parseInt(group, 16)), BigInt(0));
+};
+
+// Compressed form (RFC 5952), as `wg` prints it
+const bigIntToIpv6 = (value: bigint): string => {
+  const groups: string[] = [];
+  for (let i = 0; i < 8; i++) {
+    groups.unshift((value & BigInt(0xffff)).toString(16));
+    value >>= BigInt(16);
+  }
+
+  // Find the longest run of zero groups to collapse
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== '0') {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  if (bestStart === -1) {
+    return groups.join(':');
+  }
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+};
+
+// A CIDR range that hands out single host addresses to WireGuard peers
+export class AddressPool {
+  readonly version: 4 | 6;
+  private readonly network: bigint;
+  private readonly size: bigint;
+  private readonly reserved: Set<string>;
+
+  constructor(readonly cidr: string, serverAddress: string) {
+    const [base, prefixText] = cidr.split('/');
+    const version = net.isIP(base);
+    if (version !== 4 && version !== 6) {
+      throw new Error(`Invalid address pool: ${cidr}`);
+    }
+
+    this.version = version;
+    const bits = version === 4 ? IPV4_BITS : IPV6_BITS;
+    const prefix = parseInt(prefixText, 10);
+    if (isNaN(prefix) || prefix < 0 || prefix > bits - 2) {
+      throw new Error(`Invalid prefix length in address pool: ${cidr}`);
+    }
+
+    const hostBits = BigInt(bits - prefix);
+    this.size = BigInt(1) << hostBits;
+    this.network = (this.toBigInt(base) >> hostBits) << hostBits;
+
+    if (!this.contains(serverAddress)) {
+      throw new Error(`Server address ${serverAddress} is outside ${cidr}`);
+    }
+    // Normalise so lookups match however the address was written
+    this.reserved = new Set([this.normalize(serverAddress)]);
+  }
+
+  contains(address: string): boolean {
+    if (net.isIP(address) !== this.version) return false;
+    const value = this.toBigInt(address);
+    return value >= this.network && value < this.network + this.size;
+  }
+
+  normalize(address: string): string {
+    return this.fromBigInt(this.toBigInt(address));
+  }
+
+  // Lowest address that is neither reserved nor in use. The network address is
+  // skipped, and for IPv4 so is the broadcast address.
+  firstFree(used: Set<string>): string {
+    const last = this.version === 4 ? this.size - BigInt(2) : this.size - BigInt(1);
+
+    for (let offset = BigInt(1); offset <= last; offset++) {
+      const candidate = this.fromBigInt(this.network + offset);
+      if (!this.reserved.has(candidate) && !used.has(candidate)) {
+        return candidate;
+      }
+    }
+    throw new IpPoolExhaustedError(this.cidr);
+  }
+
+  private toBigInt(address: string): bigint {
+    return this.version === 4 ? ipv4ToBigInt(address) : ipv6ToBigInt(address);
+  }
+
+  private fromBigInt(value: bigint): string {
+    return this.version === 4 ? bigIntToIpv4(value) : bigIntToIpv6(value);
+  }
+}
@@ -0,0 +1,96 @@
+// Parser for `wg show <interface> dump`.
+//
+// The first line describes the interface:
+//   private-key  public-key  listen-port  fwmark
+// Every following line describes one peer:
+//   public-key  preshared-key  endpoint  allowed-ips  latest-handshake  transfer-rx  transfer-tx  persistent-keepalive
+// Fields are tab separated; unset values are printed as "(none)" or "off".
+
+export interface WireGuardInterfaceStatus {
+  publicKey: string;
+  listenPort: number;
+  fwmark: number | null;
+}
+
+export interface WireGuardPeerStatus {
+  publicKey: string;
+  hasPresharedKey: boolean;
+  endpoint: string | null;
+  allowedIPs: string[];
+  latestHandshake: Date | null;
+  transferRx: number;
+  transferTx: number;
+  persistentKeepalive: number | null;
+}
+
+export interface WireGuardStatus {
+  interface: WireGuardInterfaceStatus;
+  peers: WireGuardPeerStatus[];
+}
+
+const INTERFACE_FIELDS = 4;
+const PEER_FIELDS = 8;
+
+const optional = (value: string): string | null =>
+  value === '(none)' || value === 'off' || value === '' ? null : value;
+
+const toInt = (value: string, field: string): number => {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${field} in wg dump: ${value}`);
+  }
+  return parsed;
+};
+
+const optionalInt = (value: string, field: string): number | null => {
+  const present = optional(value);
+  return present === null ? null : toInt(present, field);
+};
+
+export const parseInterfaceLine = (line: string): WireGuardInterfaceStatus => {
+  const fields = line.split('\t');
+  if (fields.length !== INTERFACE_FIELDS) {
+    throw new Error(`Expected ${INTERFACE_FIELDS} interface fields in wg dump, got ${fields.length}`);
+  }
+
+  // fields[0] is the private key and is deliberately dropped
+  return {
+    publicKey: fields[1],
+    listenPort: toInt(fields[2], 'listen-port'),
+    fwmark: optionalInt(fields[3], 'fwmark')
+  };
+};
+
+export const parsePeerLine = (line: string): WireGuardPeerStatus => {
+  const fields = line.split('\t');
+  if (fields.length !== PEER_FIELDS) {
+    throw new Error(`Expected ${PEER_FIELDS} peer fields in wg dump, got ${fields.length}`);
+  }
+
+  const [publicKey, presharedKey, endpoint, allowedIPs, handshake, rx, tx, keepalive] = fields;
+  const handshakeSeconds = toInt(handshake, 'latest-handshake');
+
+  return {
+    publicKey,
+    hasPresharedKey: optional(presharedKey) !== null,
+    endpoint: optional(endpoint),
+    allowedIPs: optional(allowedIPs)?.split(',') ?? [],
+    // 0 means the peer has never completed a handshake
+    latestHandshake: handshakeSeconds > 0 ? new Date(handshakeSeconds * 1000) : null,
+    transferRx: toInt(rx, 'transfer-rx'),
+    transferTx: toInt(tx, 'transfer-tx'),
+    persistentKeepalive: optionalInt(keepalive, 'persistent-keepalive')
+  };
+};
+
+export const parseWireGuardDump = (output: string): WireGuardStatus => {
+  const lines = output.split('\n').map(line => line.replace(/\r$/, '')).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    throw new Error('Empty wg dump output');
+  }
+
+  return {
+    interface: parseInterfaceLine(lines[0]),
+    peers: lines.slice(1).map(parsePeerLine)
+  };
+};
@@ -0,0 +1,218 @@
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import { WireGuardConfig } from '../config/wireguard';
+
+// Runs a single program with an argument array. Implementations must never
+// pass arguments through a local shell.
+export interface CommandExecutor {
+  run(command: string, args: string[], input?: string): Promise<string>;
+}
+
+export class CommandError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly args: string[],
+    public readonly stderr: string,
+    public readonly exitCode?: number | string
+  ) {
+    super(`Command failed: ${command} ${args.join(' ')}${stderr ? ` (${stderr.trim()})` : ''}`);
+    this.name = 'CommandError';
+  }
+}
+
+export class LocalExecutor implements CommandExecutor {
+  private readonly TIMEOUT = 15000; // 15 seconds
+
+  run(command: string, args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(command, args, { timeout: this.TIMEOUT }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new CommandError(command, args, stderr, error.code ?? undefined));
+          return;
+        }
+        resolve(stdout.trim());
+      });
+
+      // Secrets such as private keys go over stdin, never on the command line
+      child.stdin?.end(input);
+    });
+  }
+}
+
+// Quotes an argument for the remote POSIX shell that sshd hands the command to
+const shellQuote = (arg: string): string => `'${arg.replace(/'/g, `'\\''`)}'`;
+
+export class SshExecutor implements CommandExecutor {
+  private local = new LocalExecutor();
+
+  constructor(private config: WireGuardConfig['ssh']) {
+    if (!config.host || !config.user) {
+      throw new Error('SSH executor requires VPN_NODE_HOST and VPN_NODE_USERNAME');
+    }
+    // Guard against values that ssh would parse as options
+    if (config.host.startsWith('-') || config.user.startsWith('-')) {
+      throw new Error('Invalid SSH host or user');
+    }
+  }
+
+  run(command: string, args: string[], input?: string): Promise<string> {
+    const sshArgs = ['-p', String(this.config.port), '-o', 'BatchMode=yes'];
+    if (this.config.identityFile) {
+      sshArgs.push('-i', this.config.identityFile);
+    }
+
+    const remoteCommand = [command, ...args].map(shellQuote).join(' ');
+    sshArgs.push(`${this.config.user}@${this.config.host}`, '--', remoteCommand);
+
+    return this.local.run('ssh', sshArgs, input);
+  }
+}
+
+export interface RecordedCommand {
+  command: string;
+  args: string[];
+  input?: string;
+}
+
+interface FakePeer {
+  publicKey: string;
+  endpoint?: string;
+  allowedIPs?: string;
+  persistentKeepalive?: number;
+}
+
+// PKCS#8 DER prefix for a raw 32-byte X25519 private key
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+const generatePrivateKey = (): string => {
+  const { privateKey } = crypto.generateKeyPairSync('x25519');
+  const jwk = privateKey.export({ format: 'jwk' });
+  return Buffer.from(jwk.d as string, 'base64url').toString('base64');
+};
+
+const derivePublicKey = (privateKey: string): string => {
+  const key = crypto.createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(privateKey.trim(), 'base64')]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const jwk = crypto.createPublicKey(key).export({ format: 'jwk' });
+  return Buffer.from(jwk.x as string, 'base64url').toString('base64');
+};
+
+// In-memory stand-in for `wg` that records every call. Used for dry runs and
+// for exercising the /api/vpn flow on machines without WireGuard.
+export class RecordingExecutor implements CommandExecutor {
+  readonly calls: RecordedCommand[] = [];
+  private peers: Map<string, FakePeer> = new Map();
+  private readonly serverPrivateKey = generatePrivateKey();
+
+  constructor(private interfaceName: string = 'wg0', private listenPort: number = 51820) {}
+
+  async run(command: string, args: string[], input?: string): Promise<string> {
+    this.calls.push({ command, args: [...args], input });
+
+    if (command === 'sudo') {
+      [command, ...args] = args;
+    }
+    if (command !== 'wg') {
+      throw new CommandError(command, args, 'command not available in dry-run executor');
+    }
+
+    const [subcommand, iface, ...rest] = args;
+    switch (subcommand) {
+      case 'genkey':
+        return generatePrivateKey();
+      case 'pubkey':
+        return derivePublicKey(input || '');
+      case 'show':
+        this.assertInterface(args, iface);
+        return this.show(rest);
+      case 'set':
+        this.assertInterface(args, iface);
+        this.set(rest);
+        return '';
+      default:
+        throw new CommandError(command, args, `unsupported subcommand ${subcommand}`);
+    }
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.peers.clear();
+  }
+
+  private assertInterface(args: string[], iface: string): void {
+    if (iface !== this.interfaceName) {
+      throw new CommandError('wg', args, `Unable to access interface: ${iface}`);
+    }
+  }
+
+  private show(rest: string[]): string {
+    if (rest[0] === 'public-key') {
+      return derivePublicKey(this.serverPrivateKey);
+    }
+    if (rest[0] === 'dump') {
+      const lines = [
+        [this.serverPrivateKey, derivePublicKey(this.serverPrivateKey), this.listenPort, 'off'].join('\t')
+      ];
+      this.peers.forEach(peer => {
+        lines.push([
+          peer.publicKey,
+          '(none)',
+          peer.endpoint || '(none)',
+          peer.allowedIPs || '(none)',
+          0,
+          0,
+          0,
+          peer.persistentKeepalive || 'off'
+        ].join('\t'));
+      });
+      return lines.join('\n');
+    }
+    throw new CommandError('wg', ['show', this.interfaceName, ...rest], 'unsupported show option');
+  }
+
+  private set(rest: string[]): void {
+    if (rest[0] !== 'peer' || !rest[1]) {
+      throw new CommandError('wg', ['set', this.interfaceName, ...rest], 'expected peer <key>');
+    }
+
+    const publicKey = rest[1];
+    const options = rest.slice(2);
+    if (options[0] === 'remove') {
+      this.peers.delete(publicKey);
+      return;
+    }
+
+    const peer = this.peers.get(publicKey) || { publicKey };
+    for (let i = 0; i < options.length; i += 2) {
+      const value = options[i + 1];
+      switch (options[i]) {
+        case 'allowed-ips':
+          peer.allowedIPs = value;
+          break;
+        case 'endpoint':
+          peer.endpoint = value;
+          break;
+        case 'persistent-keepalive':
+          peer.persistentKeepalive = parseInt(value);
+          break;
+      }
+    }
+    this.peers.set(publicKey, peer);
+  }
+}
+
+export const createExecutor = (config: WireGuardConfig): CommandExecutor => {
+  switch (config.executor) {
+    case 'ssh':
+      return new SshExecutor(config.ssh);
+    case 'dry-run':
+      return new RecordingExecutor(config.interfaceName, config.listenPort);
+    case 'local':
+      return new LocalExecutor();
+    default:
+      throw new Error(`Unknown WireGuard executor: ${config.executor}`);
+  }
+};
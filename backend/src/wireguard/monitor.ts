@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import { getWireGuardConfig } from '../config/wireguard';
+import { WireGuardStatus } from './dump';
+import { WireGuardController } from './wireguard';
+
+export interface WireGuardSnapshot extends WireGuardStatus {
+  sampledAt: Date;
+}
+
+// The one place `wg show dump` is polled. Usage accounting, the Prometheus
+// collector and the status WebSocket all read the latest snapshot instead of
+// each running their own dump; concurrent reads share a single call.
+// Emits 'snapshot' with every new one.
+export class WireGuardMonitor extends EventEmitter {
+  private latest: WireGuardSnapshot | null = null;
+  private inFlight: Promise<WireGuardSnapshot> | null = null;
+  private pollInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private wireguard: WireGuardController,
+    private intervalMs: number = getWireGuardConfig().pollIntervalMs
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.pollInterval) return;
+    const poll = () => {
+      this.refresh().catch(error => {
+        console.error('Error polling WireGuard status:', error);
+      });
+    };
+    poll();
+    this.pollInterval = setInterval(poll, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  // The latest snapshot, or a fresh one once it is older than the poll interval
+  async getSnapshot(): Promise<WireGuardSnapshot> {
+    if (this.latest && Date.now() - this.latest.sampledAt.getTime() < this.intervalMs) {
+      return this.latest;
+    }
+    return this.refresh();
+  }
+
+  // Dumps the interface now, joining a dump that is already running
+  refresh(): Promise<WireGuardSnapshot> {
+    if (!this.inFlight) {
+      this.inFlight = this.wireguard.getDump()
+        .then(status => {
+          this.latest = { ...status, sampledAt: new Date() };
+          this.emit('snapshot', this.latest);
+          return this.latest;
+        })
+        .finally(() => {
+          this.inFlight = null;
+        });
+    }
+    return this.inFlight;
+  }
+}
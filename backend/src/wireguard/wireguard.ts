@@ -1,81 +1,84 @@
-import axios from 'axios';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-interface WireGuardPeer {
-  publicKey: string;
-  allowedIPs?: string;
-  endpoint?: string;
-  latestHandshake?: string;
-  persistentKeepalive?: number;
-  transfer?: {
-    received: string;
-    sent: string;
-  };
+import net from 'net';
+import { CommandExecutor, createExecutor } from './executor';
+import { getWireGuardConfig, WireGuardConfig } from '../config/wireguard';
+import { parseWireGuardDump, WireGuardStatus, WireGuardPeerStatus } from './dump';
+
+// WireGuard keys are 32 bytes, base64-encoded
+const KEY_PATTERN = /^[A-Za-z0-9+/]{42}[AEIMQUYcgkosw480]=$/;
+// host:port or [ipv6]:port
+const ENDPOINT_PATTERN = /^(\[[0-9a-fA-F:]+\]|[A-Za-z0-9.-]+):\d{1,5}$/;
+
+// Input that would never be a valid `wg` argument; rejected before anything runs
+export class WireGuardValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WireGuardValidationError';
+  }
 }
 
-interface WireGuardStatus {
-  interface: {
-    publicKey: string;
-    listeningPort: number;
-  };
-  peers: WireGuardPeer[];
-}
+export const isValidKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+const assertValidKey = (key: string): void => {
+  if (!isValidKey(key)) {
+    throw new WireGuardValidationError('Invalid WireGuard public key');
+  }
+};
 
-interface PeerConfig {
-  privateKey: string;
+export interface ProvisionedPeer {
   publicKey: string;
-  address: string;
-  dns: string[];
-  endpoint: string;
-  serverPublicKey: string;
   allowedIPs: string[];
   persistentKeepalive: number;
 }
 
 export class WireGuardController {
-  private vpnHost: string;
-  private vpnUser: string;
+  private config: WireGuardConfig;
+  private executor: CommandExecutor;
 
-  constructor() {
-    // VPN node details
-    this.vpnHost = '35.197.230.164';
-    this.vpnUser = 'mbrktijani';
+  constructor(executor?: CommandExecutor, config: WireGuardConfig = getWireGuardConfig()) {
+    this.config = config;
+    this.executor = executor || createExecutor(config);
   }
 
-  private async executeOnVPN(command: string): Promise<string> {
+  // Runs `wg` on the VPN node; interface changes need root
+  private async wg(args: string[], options: { privileged?: boolean; input?: string } = {}): Promise<string> {
     try {
-      const sshCommand = `ssh ${this.vpnUser}@${this.vpnHost} "${command}"`;
-      console.log('Executing command:', sshCommand);
-      const { stdout } = await execAsync(sshCommand);
-      return stdout.trim();
+      if (options.privileged && this.config.useSudo) {
+        return await this.executor.run('sudo', ['wg', ...args], options.input);
+      }
+      return await this.executor.run('wg', args, options.input);
     } catch (error) {
-      console.error('Error executing command on VPN:', error);
+      console.error('Error executing wg command on VPN:', error);
       throw error;
     }
   }
 
-  async setupConnection(userId: string): Promise<{ config: string; peer: WireGuardPeer }> {
+  // Adds the client's public key as a peer that owns `address`, which the
+  // caller has leased from the pool. The client keeps its private key, so the
+  // returned config leaves it for the client to fill in.
+  async setupConnection(
+    userId: string,
+    address: string,
+    publicKey: string
+  ): Promise<{ config: string; peer: ProvisionedPeer }> {
     try {
-      // Generate keys for the new peer
-      const privateKey = await this.executeOnVPN('wg genkey');
-      const publicKey = await this.executeOnVPN(`echo "${privateKey}" | wg pubkey`);
-      
-      // Get all peers and find the next available IP
-      const peers = await this.getAllPeers();
-      const nextIP = this.getNextAvailableIP(peers);
+      if (!net.isIP(address)) {
+        throw new Error('Invalid peer address');
+      }
+      assertValidKey(publicKey);
+
+      const hostAddress = `${address}/${net.isIPv6(address) ? 128 : 32}`;
 
       // Add peer to WireGuard
-      await this.executeOnVPN(`sudo wg set wg0 peer ${publicKey} allowed-ips ${nextIP} persistent-keepalive 25`);
+      await this.wg(
+        ['set', this.config.interfaceName, 'peer', publicKey, 'allowed-ips', hostAddress, 'persistent-keepalive', '25'],
+        { privileged: true }
+      );
 
-      // Generate client config
-      const config = await this.generateClientConfig(privateKey, publicKey, nextIP);
+      const config = await this.generateClientConfig(hostAddress);
 
-      const peer: WireGuardPeer = {
+      const peer: ProvisionedPeer = {
         publicKey,
-        allowedIPs: nextIP,
+        allowedIPs: [hostAddress],
         persistentKeepalive: 25
       };
 
@@ -86,124 +89,69 @@ export class WireGuardController {
     }
   }
 
-  private getNextAvailableIP(peers: WireGuardPeer[]): string {
-    // Start from 10.0.0.2 (10.0.0.1 is typically the server)
-    let lastOctet = 2;
-    const usedIPs = new Set(
-      peers
-        .map(p => p.allowedIPs)
-        .filter((ip): ip is string => ip !== undefined)
-        .map(ip => parseInt(ip.split('.')[3]))
-    );
-
-    while (usedIPs.has(lastOctet)) {
-      lastOctet++;
-    }
-
-    return `10.0.0.${lastOctet}/32`;
-  }
-
-  private async generateClientConfig(privateKey: string, publicKey: string, clientIP: string): Promise<string> {
+  private async generateClientConfig(clientAddress: string): Promise<string> {
     // Get server public key
-    const serverInfo = await this.executeOnVPN('sudo wg show wg0 public-key');
+    const serverInfo = await this.wg(['show', this.config.interfaceName, 'public-key'], { privileged: true });
     const serverPublicKey = serverInfo.trim();
+    // Route both address families through the tunnel when it has an IPv6 address
+    const allowedIPs = net.isIPv6(clientAddress.split('/')[0]) ? '0.0.0.0/0, ::/0' : '0.0.0.0/0';
 
     return `[Interface]
-PrivateKey = ${privateKey}
-Address = ${clientIP}
+# PrivateKey = <private key of the public key sent to /connect>
+Address = ${clientAddress}
 DNS = 8.8.8.8, 8.8.4.4
 
 [Peer]
 PublicKey = ${serverPublicKey}
-Endpoint = ${this.vpnHost}:51820
-AllowedIPs = 0.0.0.0/0
+Endpoint = ${this.config.endpointHost}:${this.config.listenPort}
+AllowedIPs = ${allowedIPs}
 PersistentKeepalive = 25`;
   }
 
   async removeConnection(publicKey: string): Promise<void> {
     try {
-      await this.executeOnVPN(`sudo wg set wg0 peer ${publicKey} remove`);
+      assertValidKey(publicKey);
+      await this.wg(['set', this.config.interfaceName, 'peer', publicKey, 'remove'], { privileged: true });
     } catch (error) {
       console.error('Error removing WireGuard peer:', error);
       throw new Error('Failed to remove VPN connection');
     }
   }
 
-  async getStatus(publicKey?: string): Promise<WireGuardStatus | WireGuardPeer> {
+  getStatus(): Promise<WireGuardStatus>;
+  getStatus(publicKey: string): Promise<WireGuardPeerStatus>;
+  async getStatus(publicKey?: string): Promise<WireGuardStatus | WireGuardPeerStatus> {
     try {
       if (publicKey) {
-        const output = await this.executeOnVPN(`sudo wg show wg0 peer ${publicKey}`);
-        return this.parsePeerStatus(output);
-      } else {
-        const output = await this.executeOnVPN('sudo wg show wg0 dump');
-        return this.parseWireGuardStatus(output);
+        assertValidKey(publicKey);
+        const peer = (await this.getDump()).peers.find(p => p.publicKey === publicKey);
+        if (!peer) {
+          throw new Error('Peer not found on interface');
+        }
+        return peer;
       }
+      return await this.getDump();
     } catch (error) {
       console.error('Error getting WireGuard status:', error);
       throw new Error('Failed to get VPN status');
     }
   }
 
-  private async getAllPeers(): Promise<WireGuardPeer[]> {
-    const output = await this.executeOnVPN('sudo wg show wg0 dump');
-    const status = this.parseWireGuardStatus(output);
-    return status.peers;
-  }
-
-  private parsePeerStatus(output: string): WireGuardPeer {
-    const lines = output.split('\n');
-    const peer: Partial<WireGuardPeer> = {};
-
-    lines.forEach(line => {
-      if (line.includes('allowed ips:')) {
-        peer.allowedIPs = line.split(':')[1].trim();
-      } else if (line.includes('endpoint:')) {
-        peer.endpoint = line.split(':')[1].trim();
-      } else if (line.includes('latest handshake:')) {
-        peer.latestHandshake = line.split(':')[1].trim();
-      }
-    });
-
-    if (!peer.publicKey) {
-      throw new Error('Invalid peer status: missing public key');
-    }
-
-    return peer as WireGuardPeer;
-  }
-
-  private parseWireGuardStatus(output: string): WireGuardStatus {
-    const lines = output.split('\n');
-    const status: WireGuardStatus = {
-      interface: {
-        publicKey: '',
-        listeningPort: 51820
-      },
-      peers: []
-    };
-
-    lines.forEach(line => {
-      const fields = line.split('\t');
-      if (fields.length >= 4) {
-        if (!status.interface.publicKey) {
-          status.interface.publicKey = fields[0];
-        } else {
-          status.peers.push({
-            publicKey: fields[0],
-            allowedIPs: fields[3],
-            endpoint: fields[2] || undefined,
-            latestHandshake: fields[4] || undefined
-          });
-        }
-      }
-    });
-
-    return status;
+  // One `wg show <iface> dump` call, parsed; the basis for status and usage accounting
+  async getDump(): Promise<WireGuardStatus> {
+    const output = await this.wg(['show', this.config.interfaceName, 'dump'], { privileged: true });
+    return parseWireGuardDump(output);
   }
 
   async updatePeerEndpoint(publicKey: string, endpoint: string): Promise<void> {
     try {
-      await this.executeOnVPN(`sudo wg set wg0 peer ${publicKey} endpoint ${endpoint}`);
+      assertValidKey(publicKey);
+      if (!ENDPOINT_PATTERN.test(endpoint)) {
+        throw new WireGuardValidationError('Invalid endpoint');
+      }
+      await this.wg(['set', this.config.interfaceName, 'peer', publicKey, 'endpoint', endpoint], { privileged: true });
     } catch (error) {
+      if (error instanceof WireGuardValidationError) throw error;
       console.error('Error updating peer endpoint:', error);
       throw new Error('Failed to update peer endpoint');
     }
@@ -0,0 +1,129 @@
+const { expect } = require("chai");
+
+const { AddressPool, IpPoolExhaustedError } = require("../src/wireguard/addressPool");
+
+describe("AddressPool", function () {
+    describe("Allocation", function () {
+        it("Should hand out the lowest address after the network and server addresses", function () {
+            const pool = new AddressPool("10.0.0.0/24", "10.0.0.1");
+
+            expect(pool.firstFree(new Set())).to.equal("10.0.0.2");
+            expect(pool.firstFree(new Set(["10.0.0.2", "10.0.0.3"]))).to.equal("10.0.0.4");
+        });
+
+        it("Should reuse a gap left by a released address", function () {
+            const pool = new AddressPool("10.0.0.0/24", "10.0.0.1");
+
+            expect(pool.firstFree(new Set(["10.0.0.2", "10.0.0.4"]))).to.equal("10.0.0.3");
+        });
+
+        it("Should skip the server address wherever it sits in the range", function () {
+            const pool = new AddressPool("10.0.0.0/29", "10.0.0.2");
+
+            expect(pool.firstFree(new Set(["10.0.0.1"]))).to.equal("10.0.0.3");
+        });
+
+        it("Should align a pool written with host bits set to its network", function () {
+            const pool = new AddressPool("10.0.0.77/24", "10.0.0.1");
+
+            expect(pool.firstFree(new Set())).to.equal("10.0.0.2");
+            expect(pool.contains("10.0.0.255")).to.be.true;
+            expect(pool.contains("10.0.1.0")).to.be.false;
+        });
+
+        it("Should only contain addresses of its own family and range", function () {
+            const pool = new AddressPool("10.0.0.0/24", "10.0.0.1");
+
+            expect(pool.contains("10.0.0.200")).to.be.true;
+            expect(pool.contains("10.0.1.1")).to.be.false;
+            expect(pool.contains("fd00::2")).to.be.false;
+            expect(pool.contains("not-an-address")).to.be.false;
+        });
+    });
+
+    describe("Exhaustion", function () {
+        it("Should never hand out the IPv4 broadcast address", function () {
+            // 10.0.0.0 is the network, .1 the server and .3 the broadcast address
+            const pool = new AddressPool("10.0.0.0/30", "10.0.0.1");
+
+            expect(pool.firstFree(new Set())).to.equal("10.0.0.2");
+            expect(() => pool.firstFree(new Set(["10.0.0.2"]))).to.throw(IpPoolExhaustedError, "10.0.0.0/30");
+        });
+
+        it("Should throw once every host address is in use", function () {
+            const pool = new AddressPool("10.0.0.0/28", "10.0.0.1");
+            const used = new Set();
+            for (let i = 0; i < 13; i++) {
+                used.add(pool.firstFree(used));
+            }
+
+            expect(used.has("10.0.0.14")).to.be.true;
+            expect(used.has("10.0.0.15")).to.be.false;
+            expect(() => pool.firstFree(used)).to.throw(IpPoolExhaustedError);
+        });
+
+        it("Should hand out the last IPv6 address, which is not a broadcast address", function () {
+            const pool = new AddressPool("fd00::/126", "fd00::1");
+
+            expect(pool.firstFree(new Set(["fd00::2"]))).to.equal("fd00::3");
+            expect(() => pool.firstFree(new Set(["fd00::2", "fd00::3"]))).to.throw(IpPoolExhaustedError);
+        });
+    });
+
+    describe("Configuration", function () {
+        it("Should reject an invalid pool", function () {
+            expect(() => new AddressPool("10.0.0/24", "10.0.0.1")).to.throw(/Invalid address pool/);
+            expect(() => new AddressPool("10.0.0.0", "10.0.0.1")).to.throw(/Invalid prefix length/);
+        });
+
+        it("Should reject a pool too small to hold a peer", function () {
+            expect(() => new AddressPool("10.0.0.0/31", "10.0.0.1")).to.throw(/Invalid prefix length/);
+            expect(() => new AddressPool("fd00::/127", "fd00::1")).to.throw(/Invalid prefix length/);
+        });
+
+        it("Should reject a server address outside the pool", function () {
+            expect(() => new AddressPool("10.0.0.0/24", "10.0.1.1")).to.throw(/outside 10.0.0.0\/24/);
+            expect(() => new AddressPool("10.0.0.0/24", "fd00::1")).to.throw(/outside/);
+        });
+    });
+
+    describe("IPv6", function () {
+        const pool = new AddressPool("fd00::/64", "fd00::1");
+
+        it("Should compress the longest run of zero groups", function () {
+            expect(pool.normalize("fd00:0:0:0:0:0:0:2")).to.equal("fd00::2");
+            expect(pool.normalize("fd00:0000:0000:0000:0000:0000:0000:0002")).to.equal("fd00::2");
+            expect(pool.normalize("fd00:0:0:0:1:0:0:2")).to.equal("fd00::1:0:0:2");
+        });
+
+        it("Should compress the first of two equally long runs", function () {
+            expect(pool.normalize("fd00:0:0:0:1:0:0:0")).to.equal("fd00::1:0:0:0");
+            expect(pool.normalize("fd00:0:0:1:1:0:0:1")).to.equal("fd00::1:1:0:0:1");
+        });
+
+        it("Should not compress a single zero group", function () {
+            expect(pool.normalize("fd00:0:1:1:1:1:1:1")).to.equal("fd00:0:1:1:1:1:1:1");
+        });
+
+        it("Should compress runs at either end", function () {
+            const wide = new AddressPool("::/0", "::1");
+
+            expect(wide.normalize("0:0:0:0:0:0:0:1")).to.equal("::1");
+            expect(wide.normalize("fd00:0:0:0:0:0:0:0")).to.equal("fd00::");
+            expect(wide.normalize("0:0:0:0:0:0:0:0")).to.equal("::");
+        });
+
+        it("Should print lowercase groups without leading zeros", function () {
+            expect(pool.normalize("FD00::00AB")).to.equal("fd00::ab");
+        });
+
+        it("Should allocate compressed addresses and match used ones however they were written", function () {
+            const used = new Set([pool.normalize("fd00:0:0:0:0:0:0:2")]);
+
+            expect(pool.firstFree(new Set())).to.equal("fd00::2");
+            expect(pool.firstFree(used)).to.equal("fd00::3");
+            expect(pool.contains("fd00::ffff:ffff:ffff:ffff")).to.be.true;
+            expect(pool.contains("fd00:0:0:1::")).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,244 @@
+const { expect } = require("chai");
+const { MoreThan } = require("typeorm");
+const { ethers, compileContracts } = require("./helpers/chain");
+const { createTestDataSource } = require("./helpers/database");
+
+const { ChainIndexer } = require("../src/services/ChainIndexer");
+const { IndexerCheckpoint } = require("../src/models/IndexerCheckpoint");
+const { IndexedBlock } = require("../src/models/IndexedBlock");
+const { IndexerUndo } = require("../src/models/IndexerUndo");
+const { NodeMetrics } = require("../src/models/NodeMetrics");
+const { RegistryAdmin } = require("../src/models/RegistryAdmin");
+const { Subscription } = require("../src/models/Subscription");
+const { VPNNode } = require("../src/models/VPNNode");
+
+describe("ChainIndexer", function () {
+    let vpnRegistry;
+    let vpnSubscription;
+    let dataSource;
+    let indexer;
+    let operator;
+    let subscriber;
+    let newOwner;
+    let startBlock;
+
+    const nodeAddress = "0x1234567890123456789012345678901234567890";
+    const stake = ethers.parseEther("0.01");
+    const price = ethers.parseEther("0.00001");
+
+    const createIndexer = async (config = {}) => new ChainIndexer({
+        provider: ethers.provider,
+        registryAddress: await vpnRegistry.getAddress(),
+        subscriptionAddress: await vpnSubscription.getAddress(),
+        config: { enabled: true, startBlock, confirmations: 0, reorgDepth: 256, batchSize: 2000, pollIntervalMs: 1000, ...config },
+        dataSource
+    });
+
+    before(async function () {
+        await compileContracts();
+    });
+
+    beforeEach(async function () {
+        [, operator, subscriber, newOwner] = await ethers.getSigners();
+        startBlock = await ethers.provider.getBlockNumber() + 1;
+
+        const VPNSubscription = await ethers.getContractFactory("VPNSubscription");
+        vpnSubscription = await VPNSubscription.deploy();
+        const VPNRegistry = await ethers.getContractFactory("VPNRegistry");
+        vpnRegistry = await VPNRegistry.deploy(await vpnSubscription.getAddress());
+
+        dataSource = await createTestDataSource([
+            VPNNode, NodeMetrics, Subscription, RegistryAdmin, IndexerCheckpoint, IndexedBlock, IndexerUndo
+        ]);
+        indexer = await createIndexer();
+    });
+
+    afterEach(async function () {
+        await dataSource.destroy();
+    });
+
+    describe("Registry events", function () {
+        it("Should index a node through registration, approval, metrics and deactivation", async function () {
+            await vpnRegistry.connect(operator).registerNode(nodeAddress, "192.168.1.1", { value: stake });
+            await indexer.syncToHead();
+
+            let node = await dataSource.getRepository(VPNNode).findOneBy({ address: nodeAddress.toLowerCase() });
+            expect(node.owner).to.equal(operator.address.toLowerCase());
+            expect(node.ipAddress).to.equal("192.168.1.1");
+            expect(node.isApproved).to.equal(false);
+            expect(node.isActive).to.equal(false);
+
+            await vpnRegistry.approveNode(nodeAddress);
+            await vpnRegistry.updateNodeMetrics(nodeAddress, 0, 1000, 100, 100);
+            await indexer.syncToHead();
+
+            node = await dataSource.getRepository(VPNNode).findOneBy({ address: nodeAddress.toLowerCase() });
+            expect(node.isApproved).to.equal(true);
+            expect(node.isActive).to.equal(true);
+            expect(node.bandwidth).to.equal(1000);
+            expect(Number(node.totalScore)).to.equal(100);
+
+            await vpnRegistry.connect(operator).deactivateNode(nodeAddress);
+            await indexer.syncToHead();
+
+            node = await dataSource.getRepository(VPNNode).findOneBy({ address: nodeAddress.toLowerCase() });
+            expect(node.isActive).to.equal(false);
+        });
+
+        it("Should track admins as they are added and removed", async function () {
+            const tx = await vpnRegistry.addAdmin(operator.address);
+            const { blockNumber } = await tx.wait();
+            await indexer.syncToHead();
+
+            const admin = await dataSource.getRepository(RegistryAdmin).findOneBy({ address: operator.address.toLowerCase() });
+            expect(admin.addedAtBlock).to.equal(blockNumber);
+
+            await vpnRegistry.removeAdmin(operator.address);
+            await indexer.syncToHead();
+
+            expect(await dataSource.getRepository(RegistryAdmin).count()).to.equal(0);
+        });
+    });
+
+    describe("Subscription events", function () {
+        it("Should store minted subscriptions with their expiry and follow transfers and burns", async function () {
+            await vpnSubscription.connect(subscriber).subscribe(0, { value: price });
+            const tokenId = (await vpnSubscription.userLatestToken(subscriber.address)).toString();
+            const expiry = await vpnSubscription.subscriptionExpiry(tokenId);
+            await indexer.syncToHead();
+
+            let subscription = await dataSource.getRepository(Subscription).findOneBy({ tokenId });
+            expect(subscription.userAddress).to.equal(subscriber.address.toLowerCase());
+            expect(subscription.expiryTimestamp.getTime()).to.equal(Number(expiry) * 1000);
+            expect(subscription.isActive).to.equal(true);
+
+            await vpnSubscription.connect(subscriber).transferFrom(subscriber.address, newOwner.address, tokenId);
+            await indexer.syncToHead();
+
+            subscription = await dataSource.getRepository(Subscription).findOneBy({ tokenId });
+            expect(subscription.userAddress).to.equal(newOwner.address.toLowerCase());
+
+            // Cancelling burns the subscriber's latest token
+            await vpnSubscription.connect(subscriber).subscribe(0, { value: price });
+            const cancelledTokenId = (await vpnSubscription.userLatestToken(subscriber.address)).toString();
+            await vpnSubscription.connect(subscriber).cancelSubscription();
+            await indexer.syncToHead();
+
+            const cancelled = await dataSource.getRepository(Subscription).findOneBy({ tokenId: cancelledTokenId });
+            expect(cancelled.userAddress).to.equal(subscriber.address.toLowerCase());
+            expect(cancelled.isActive).to.equal(false);
+        });
+    });
+
+    describe("Checkpoints", function () {
+        it("Should resume from the checkpoint without reapplying earlier blocks", async function () {
+            await vpnRegistry.addAdmin(operator.address);
+            const [first] = await indexer.syncToHead();
+
+            await vpnRegistry.addAdmin(subscriber.address);
+            const [second] = await indexer.syncToHead();
+
+            expect(second.fromBlock).to.equal(first.toBlock + 1);
+            expect(second.events).to.equal(1);
+            const checkpoint = await indexer.getCheckpoint();
+            expect(checkpoint.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+            expect(await indexer.syncOnce()).to.equal(null);
+        });
+
+    });
+
+    describe("Reorgs", function () {
+        // Replaces every block mined since `snapshot` with an empty one, then runs `replacement`
+        async function reorg(snapshot, replacement = async () => {}) {
+            await ethers.provider.send("evm_revert", [snapshot]);
+            await replacement();
+            await ethers.provider.send("evm_mine", []);
+        }
+
+        it("Should remove rows written by orphaned blocks and replay the replacement chain", async function () {
+            await indexer.syncToHead();
+            const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+            await vpnRegistry.addAdmin(operator.address);
+            await indexer.syncToHead();
+
+            await reorg(snapshot, () => vpnRegistry.addAdmin(subscriber.address));
+
+            const results = await indexer.syncToHead();
+            expect(results[0].reorg).to.equal(true);
+
+            const admins = (await dataSource.getRepository(RegistryAdmin).find()).map(admin => admin.address);
+            expect(admins).to.deep.equal([subscriber.address.toLowerCase()]);
+            const checkpoint = await indexer.getCheckpoint();
+            expect(checkpoint.blockHash).to.equal((await ethers.provider.getBlock("latest")).hash);
+        });
+
+        it("Should restore rows that orphaned blocks changed to how the common ancestor left them", async function () {
+            await vpnRegistry.connect(operator).registerNode(nodeAddress, "192.168.1.1", { value: stake });
+            await vpnSubscription.connect(subscriber).subscribe(0, { value: price });
+            const tokenId = (await vpnSubscription.userLatestToken(subscriber.address)).toString();
+            await indexer.syncToHead();
+            const snapshotBlock = await ethers.provider.getBlockNumber();
+            const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+            // Several events on the same rows, spread over several batches
+            await vpnRegistry.approveNode(nodeAddress);
+            await indexer.syncToHead();
+            await vpnRegistry.updateNodeMetrics(nodeAddress, 10, 1000, 100, 100);
+            await vpnSubscription.connect(subscriber).transferFrom(subscriber.address, newOwner.address, tokenId);
+            await vpnSubscription.connect(newOwner).subscribe(0, { value: price });
+            await indexer.syncToHead();
+
+            await reorg(snapshot);
+            await indexer.syncToHead();
+
+            const node = await dataSource.getRepository(VPNNode).findOneBy({ address: nodeAddress.toLowerCase() });
+            expect(node).to.include({ isApproved: false, isActive: false, latency: 0, bandwidth: 0, uptime: 100 });
+            const subscriptions = await dataSource.getRepository(Subscription).find();
+            expect(subscriptions.map(subscription => [subscription.tokenId, subscription.userAddress])).to.deep.equal([
+                [tokenId, subscriber.address.toLowerCase()]
+            ]);
+            const orphaned = await dataSource.getRepository(IndexerUndo).countBy({ blockNumber: MoreThan(snapshotBlock) });
+            expect(orphaned).to.equal(0);
+        });
+
+        it("Should apply nothing twice when a reorg leaves the checkpoint's ancestors in place", async function () {
+            await vpnRegistry.addAdmin(operator.address);
+            await indexer.syncToHead();
+            const snapshot = await ethers.provider.send("evm_snapshot", []);
+            await ethers.provider.send("evm_mine", []);
+            await indexer.syncToHead();
+
+            await reorg(snapshot, () => vpnRegistry.removeAdmin(operator.address));
+            const [result] = await indexer.syncToHead();
+
+            expect(result.reorg).to.equal(true);
+            expect(result.events).to.equal(1);
+            expect(await dataSource.getRepository(RegistryAdmin).count()).to.equal(0);
+        });
+
+        it("Should refuse to guess when the reorg is deeper than the kept history", async function () {
+            const shallow = await createIndexer({ reorgDepth: 1 });
+            const snapshot = await ethers.provider.send("evm_snapshot", []);
+            await vpnRegistry.addAdmin(operator.address);
+            await shallow.syncToHead();
+            for (let i = 0; i < 3; i++) {
+                await ethers.provider.send("evm_mine", []);
+                await shallow.syncToHead();
+            }
+
+            await reorg(snapshot, async () => {
+                for (let i = 0; i < 4; i++) await ethers.provider.send("evm_mine", []);
+            });
+
+            let error;
+            try {
+                await shallow.syncOnce();
+            } catch (caught) {
+                error = caught;
+            }
+            expect(error.message).to.match(/deeper than the 1 blocks of kept history/);
+            expect(await dataSource.getRepository(RegistryAdmin).count()).to.equal(1);
+        });
+    });
+});
@@ -0,0 +1,293 @@
+const { expect } = require("chai");
+const { ethers, compileContracts } = require("./helpers/chain");
+const { createTestDataSource } = require("./helpers/database");
+
+const { getRelayerConfig } = require("../src/config/relayer");
+const { MetricsRelayer } = require("../src/services/MetricsRelayer");
+const { MetricsSubmission } = require("../src/models/MetricsSubmission");
+
+// Serves the samples set by the test the way ProductionMetricsCollector does
+class FakeCollector {
+    constructor() {
+        this.history = new Map();
+    }
+
+    set(nodeAddress, samples) {
+        this.history.set(nodeAddress, samples.map(([latency, bandwidth, uptime, reliability]) => ({
+            latency, bandwidth, uptime, reliability
+        })));
+    }
+
+    getCollectionStatus() {
+        return Array.from(this.history.keys()).map(nodeAddress => ({ nodeAddress }));
+    }
+
+    getAllMetrics(nodeAddress) {
+        return this.history.get(nodeAddress) || [];
+    }
+}
+
+// Runs the nth updateNodeMetrics call through steps[n], which gets the real
+// send, and records the overrides of every call. The in-process Hardhat
+// provider does not map node errors to ethers error codes the way a JSON-RPC
+// provider does, so those are raised here.
+function scriptedRegistry(registry, steps) {
+    const calls = [];
+    return {
+        calls,
+        nodes: address => registry.nodes(address),
+        updateNodeMetrics: async (...args) => {
+            calls.push(args[args.length - 1]);
+            const send = () => registry.updateNodeMetrics(...args);
+            const step = steps[calls.length - 1];
+            return step ? step(send) : send();
+        }
+    };
+}
+
+const fail = error => async () => {
+    throw error;
+};
+
+// Broadcasts the transaction but never sees its receipt
+const unconfirmed = async send => {
+    const tx = await send();
+    return {
+        hash: tx.hash,
+        wait: async () => {
+            throw ethers.makeError("timeout", "TIMEOUT", { operation: "wait" });
+        }
+    };
+};
+
+const timedOut = () => fail(new Error("request timed out"));
+const nonceExpired = () => fail(ethers.makeError("nonce has already been used", "NONCE_EXPIRED"));
+
+describe("MetricsRelayer", function () {
+    let vpnRegistry;
+    let dataSource;
+    let owner;
+    let operator;
+    let collector;
+
+    const stake = ethers.parseEther("0.01");
+    // Mixed case, as ethers.getAddress prints it
+    const node1 = ethers.getAddress("0x" + "ab".repeat(20));
+    const node2 = ethers.getAddress("0x" + "cd".repeat(20));
+    const unregisteredNode = "0x3333333333333333333333333333333333333333";
+
+    const onChain = async nodeAddress => {
+        const node = await vpnRegistry.nodes(nodeAddress);
+        return [node.latency, node.bandwidth, node.uptime, node.reliability].map(Number);
+    };
+
+    function relayer(options = {}) {
+        return new MetricsRelayer(collector, {
+            wallet: owner,
+            registry: vpnRegistry,
+            config: { ...getRelayerConfig(), thresholdPercent: 10, smoothing: 0.5, maxRetries: 3, confirmationTimeoutMs: 30000 },
+            dataSource,
+            ...options
+        });
+    }
+
+    before(async function () {
+        await compileContracts();
+        dataSource = await createTestDataSource([MetricsSubmission]);
+    });
+
+    after(async function () {
+        await dataSource.destroy();
+    });
+
+    beforeEach(async function () {
+        await dataSource.getRepository(MetricsSubmission).clear();
+        [owner, operator] = await ethers.getSigners();
+
+        const VPNSubscription = await ethers.getContractFactory("VPNSubscription");
+        const vpnSubscription = await VPNSubscription.deploy();
+        const VPNRegistry = await ethers.getContractFactory("VPNRegistry");
+        vpnRegistry = await VPNRegistry.deploy(await vpnSubscription.getAddress());
+
+        await vpnRegistry.connect(operator).registerNode(node1, "192.168.1.1", { value: stake });
+        await vpnRegistry.connect(operator).registerNode(node2, "192.168.1.2", { value: stake });
+
+        collector = new FakeCollector();
+    });
+
+    describe("Smoothing and threshold", function () {
+        it("Should submit the exponential moving average of the collected samples, rounded", async function () {
+            collector.set(node1, [[100, 1000, 90, 80], [200, 1000, 100, 80], [300, 2001, 95, 81]]);
+
+            const { submitted, skipped } = await relayer().runOnce();
+
+            // alpha 0.5: 100 -> 150 -> 225, 1000 -> 1000 -> 1500.5, 90 -> 95 -> 95, 80 -> 80 -> 80.5
+            expect(await onChain(node1)).to.deep.equal([225, 1501, 95, 81]);
+            expect(skipped).to.deep.equal([]);
+            expect(submitted).to.have.lengthOf(1);
+            expect(submitted[0]).to.include({
+                nodeAddress: node1.toLowerCase(),
+                latency: 225,
+                bandwidth: 1501,
+                status: "confirmed",
+                attempts: 1,
+                relayer: owner.address,
+                error: null
+            });
+            // What registerNode starts a node with
+            expect(submitted[0].previous).to.deep.equal({ latency: 0, bandwidth: 0, uptime: 100, reliability: 0 });
+            expect(submitted[0].txHash).to.match(/^0x[0-9a-f]{64}$/);
+            expect(submitted[0].blockNumber).to.be.a("number");
+        });
+
+        it("Should clamp uptime and reliability to the range the registry accepts", async function () {
+            collector.set(node1, [[-5, 10, 140, -20]]);
+
+            await relayer().runOnce();
+
+            expect(await onChain(node1)).to.deep.equal([0, 10, 100, 0]);
+        });
+
+        it("Should skip changes below the threshold and submit once any metric reaches it", async function () {
+            await vpnRegistry.updateNodeMetrics(node1, 100, 1000, 90, 90);
+            const relay = relayer();
+
+            collector.set(node1, [[109, 1050, 94, 90]]);
+            const below = await relay.runOnce();
+            expect(below.submitted).to.deep.equal([]);
+            expect(below.skipped).to.deep.equal([{ nodeAddress: node1, reason: "change below threshold" }]);
+            expect(await onChain(node1)).to.deep.equal([100, 1000, 90, 90]);
+
+            // Latency alone moves by exactly 10%
+            collector.set(node1, [[110, 1000, 90, 90]]);
+            const reached = await relay.runOnce();
+            expect(reached.submitted).to.have.lengthOf(1);
+            expect(await onChain(node1)).to.deep.equal([110, 1000, 90, 90]);
+        });
+
+        it("Should submit any change to a metric that is zero on-chain", async function () {
+            await vpnRegistry.updateNodeMetrics(node1, 100, 0, 90, 90);
+            collector.set(node1, [[100, 1, 90, 90]]);
+
+            const { submitted } = await relayer().runOnce();
+
+            expect(submitted).to.have.lengthOf(1);
+        });
+
+        it("Should skip nodes it cannot or need not relay", async function () {
+            collector.set("node-7", [[10, 10, 10, 10]]);
+            collector.set(node2, []);
+            collector.set(unregisteredNode, [[10, 10, 10, 10]]);
+
+            const { submitted, skipped } = await relayer().runOnce();
+
+            expect(submitted).to.deep.equal([]);
+            expect(skipped).to.deep.equal([
+                { nodeAddress: "node-7", reason: "not an Ethereum address" },
+                { nodeAddress: node2, reason: "no collected metrics" },
+                { nodeAddress: unregisteredNode, reason: "not registered on-chain" }
+            ]);
+        });
+    });
+
+    describe("Nonces and retries", function () {
+        it("Should give consecutive submissions consecutive nonces", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            collector.set(node2, [[20, 20, 20, 20]]);
+            const first = await owner.getNonce("pending");
+
+            const { submitted } = await relayer().runOnce();
+
+            expect(submitted.map(submission => submission.nonce)).to.deep.equal([first, first + 1]);
+            expect(submitted.map(submission => submission.status)).to.deep.equal(["confirmed", "confirmed"]);
+        });
+
+        it("Should retry a failed send with the same nonce and higher fees", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            const registry = scriptedRegistry(vpnRegistry, [timedOut()]);
+
+            const { submitted } = await relayer({ registry }).runOnce();
+
+            expect(submitted[0]).to.include({ status: "confirmed", attempts: 2, error: null });
+            expect(await onChain(node1)).to.deep.equal([10, 10, 10, 10]);
+
+            const [failed, retried] = registry.calls;
+            expect(retried.nonce).to.equal(failed.nonce);
+            expect(retried.maxFeePerGas * 100n).to.equal(failed.maxFeePerGas * 125n);
+            expect(retried.maxPriorityFeePerGas * 100n).to.equal(failed.maxPriorityFeePerGas * 125n);
+        });
+
+        it("Should mark a submission failed once the retries are used up and re-read the nonce next run", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            const registry = scriptedRegistry(vpnRegistry, [timedOut(), timedOut(), timedOut()]);
+            const relay = relayer({ registry });
+
+            const { submitted } = await relay.runOnce();
+            expect(submitted[0]).to.include({ status: "failed", attempts: 3, error: "request timed out" });
+            expect(registry.calls).to.have.lengthOf(3);
+
+            // The reserved nonce was never used, so the next run must not skip it
+            const { submitted: next } = await relay.runOnce();
+            expect(next[0]).to.include({ status: "confirmed", nonce: submitted[0].nonce });
+        });
+
+        it("Should not retry a transaction that reverts", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            const registry = scriptedRegistry(vpnRegistry, [
+                fail(ethers.makeError("execution reverted: Only admin can perform this action", "CALL_EXCEPTION"))
+            ]);
+
+            const { submitted } = await relayer({ registry }).runOnce();
+
+            expect(submitted[0]).to.include({ status: "failed", attempts: 1 });
+            expect(submitted[0].error).to.match(/Only admin/);
+            expect(registry.calls).to.have.lengthOf(1);
+        });
+
+        it("Should move to a fresh nonce when another transaction from the key used the reserved one", async function () {
+            const registry = scriptedRegistry(vpnRegistry, [undefined, nonceExpired()]);
+            const relay = relayer({ registry });
+            collector.set(node1, [[10, 10, 10, 10]]);
+            await relay.runOnce();
+
+            // Sent from the relayer key behind the relayer's back, taking the nonce it reserved
+            await vpnRegistry.updateNodeMetrics(node2, 5, 5, 5, 5);
+            const expected = await owner.getNonce("pending");
+
+            collector.set(node1, [[50, 50, 50, 50]]);
+            const { submitted } = await relay.runOnce();
+
+            expect(registry.calls[1].nonce).to.equal(expected - 1);
+            expect(submitted[0]).to.include({ status: "confirmed", attempts: 2, nonce: expected });
+            expect(await onChain(node1)).to.deep.equal([50, 50, 50, 50]);
+        });
+
+        it("Should confirm an earlier attempt that was mined while its receipt was awaited", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            const registry = scriptedRegistry(vpnRegistry, [unconfirmed, nonceExpired()]);
+
+            const { submitted } = await relayer({ registry }).runOnce();
+
+            expect(registry.calls[1].nonce).to.equal(registry.calls[0].nonce);
+            expect(submitted[0]).to.include({ status: "confirmed", attempts: 2, error: null });
+            expect(submitted[0].blockNumber).to.be.a("number");
+            expect(await onChain(node1)).to.deep.equal([10, 10, 10, 10]);
+        });
+    });
+
+    describe("Submissions", function () {
+        it("Should find a node's submissions whatever the casing of the address", async function () {
+            collector.set(node1, [[10, 10, 10, 10]]);
+            collector.set(node2, [[20, 20, 20, 20]]);
+            const relay = relayer();
+            await relay.runOnce();
+
+            for (const address of [node1, node1.toLowerCase(), node1.toUpperCase().replace("0X", "0x")]) {
+                const submissions = await relay.getSubmissions(address);
+                expect(submissions.map(submission => submission.nodeAddress)).to.deep.equal([node1.toLowerCase()]);
+            }
+            expect(await relay.getSubmissions()).to.have.lengthOf(2);
+            expect(await relay.getSubmissions(undefined, 1)).to.have.lengthOf(1);
+        });
+    });
+});
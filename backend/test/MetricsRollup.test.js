@@ -0,0 +1,196 @@
+const { expect } = require("chai");
+const { createPostgresDataSource } = require("./helpers/database");
+
+const { MetricsRollupService } = require("../src/services/MetricsRollupService");
+const { VPNNode } = require("../src/models/VPNNode");
+const { NodeMetrics } = require("../src/models/NodeMetrics");
+const { NodeMetricsHourly, NodeMetricsDaily, NodeMetricsWeekly } = require("../src/models/NodeMetricsRollup");
+
+describe("MetricsRollupService", function () {
+    const HOUR = 60 * 60 * 1000;
+    const DAY = 24 * HOUR;
+    // A Wednesday; its ISO week starts on Monday 2024-05-13
+    const now = new Date("2024-05-15T12:30:00Z");
+    const config = { intervalMs: HOUR, rawRetentionDays: 14, hourlyRetentionDays: 90 };
+
+    let dataSource;
+    let nodeA;
+    let nodeB;
+
+    const at = iso => new Date(iso);
+
+    const addSample = (node, timestamp, latency, bandwidth = 100) => {
+        const repository = dataSource.getRepository(NodeMetrics);
+        return repository.save(repository.create({ node, timestamp, latency, bandwidth, uptime: 99, reliability: 98 }));
+    };
+
+    const rows = entity => dataSource.getRepository(entity).find({ order: { nodeAddress: "ASC", bucketStart: "ASC" } });
+
+    before(async function () {
+        dataSource = await createPostgresDataSource([
+            VPNNode, NodeMetrics, NodeMetricsHourly, NodeMetricsDaily, NodeMetricsWeekly
+        ]);
+    });
+
+    after(async function () {
+        await dataSource.destroy();
+    });
+
+    beforeEach(async function () {
+        await dataSource.query(`TRUNCATE "node_metrics", "node_metrics_hourly", "node_metrics_daily",
+            "node_metrics_weekly", "vpn_node" CASCADE`);
+
+        const nodes = dataSource.getRepository(VPNNode);
+        const node = address => nodes.create({
+            address, ipAddress: "203.0.113.7", owner: address, isActive: true, isRegistered: true, totalScore: 0
+        });
+        [nodeA, nodeB] = await nodes.save([node("0xaaaa"), node("0xbbbb")]);
+    });
+
+    describe("Rollups", function () {
+        it("Should summarise every hour of every node with min, avg, max and p95", async function () {
+            for (let i = 0; i < 10; i++) {
+                await addSample(nodeA, new Date(at("2024-05-15T12:00:00Z").getTime() + i * 3 * 60 * 1000), (i + 1) * 10);
+            }
+            await addSample(nodeA, at("2024-05-15T11:50:00Z"), 40);
+            await addSample(nodeB, at("2024-05-15T12:10:00Z"), 7, 250);
+
+            const service = new MetricsRollupService(config, dataSource);
+            expect(await service.rollup("hour", new Date(now.getTime() - HOUR), now)).to.equal(3);
+
+            const hourly = await rows(NodeMetricsHourly);
+            expect(hourly.map(row => [row.nodeAddress, row.bucketStart.toISOString(), row.sampleCount])).to.deep.equal([
+                ["0xaaaa", "2024-05-15T11:00:00.000Z", 1],
+                ["0xaaaa", "2024-05-15T12:00:00.000Z", 10],
+                ["0xbbbb", "2024-05-15T12:00:00.000Z", 1]
+            ]);
+            // percentile_cont interpolates between the 9th and 10th of ten samples
+            expect(hourly[1]).to.include({ latencyMin: 10, latencyAvg: 55, latencyMax: 100 });
+            expect(hourly[1].latencyP95).to.be.closeTo(95.5, 1e-9);
+            expect(hourly[1]).to.include({ bandwidthMin: 100, bandwidthMax: 100, uptimeAvg: 99, reliabilityP95: 98 });
+            expect(hourly[2]).to.include({ latencyMin: 7, latencyP95: 7, bandwidthAvg: 250 });
+        });
+
+        it("Should rebuild a bucket in place to pick up samples added since", async function () {
+            const service = new MetricsRollupService(config, dataSource);
+            await addSample(nodeA, at("2024-05-15T12:05:00Z"), 10);
+            await service.rollup("hour", new Date(now.getTime() - HOUR), now);
+
+            await addSample(nodeA, at("2024-05-15T12:20:00Z"), 30);
+            await service.rollup("hour", new Date(now.getTime() - HOUR), now);
+
+            const hourly = await rows(NodeMetricsHourly);
+            expect(hourly).to.have.lengthOf(1);
+            expect(hourly[0]).to.include({ sampleCount: 2, latencyMin: 10, latencyAvg: 20, latencyMax: 30 });
+        });
+
+        it("Should leave buckets before the one containing `from` alone", async function () {
+            await addSample(nodeA, at("2024-05-15T10:59:00Z"), 10);
+            await addSample(nodeA, at("2024-05-15T11:01:00Z"), 20);
+
+            const service = new MetricsRollupService(config, dataSource);
+            await service.rollup("hour", at("2024-05-15T11:30:00Z"), now);
+
+            expect((await rows(NodeMetricsHourly)).map(row => row.bucketStart.toISOString()))
+                .to.deep.equal(["2024-05-15T11:00:00.000Z"]);
+        });
+
+        it("Should roll up days and Monday-based weeks, including the previous week, on each run", async function () {
+            await addSample(nodeA, at("2024-05-10T09:00:00Z"), 50);
+            await addSample(nodeA, at("2024-05-14T09:00:00Z"), 10);
+            await addSample(nodeA, at("2024-05-15T09:00:00Z"), 30);
+
+            await new MetricsRollupService(config, dataSource).runOnce(now);
+
+            expect((await rows(NodeMetricsDaily)).map(row => [row.bucketStart.toISOString(), row.sampleCount])).to.deep.equal([
+                ["2024-05-14T00:00:00.000Z", 1],
+                ["2024-05-15T00:00:00.000Z", 1]
+            ]);
+            const weekly = await rows(NodeMetricsWeekly);
+            expect(weekly.map(row => [row.bucketStart.toISOString(), row.sampleCount])).to.deep.equal([
+                ["2024-05-06T00:00:00.000Z", 1],
+                ["2024-05-13T00:00:00.000Z", 2]
+            ]);
+            expect(weekly[1]).to.include({ latencyMin: 10, latencyAvg: 20, latencyMax: 30 });
+        });
+    });
+
+    describe("Retention", function () {
+        const rawTimestamps = async () => (await dataSource.getRepository(NodeMetrics).find({ order: { timestamp: "ASC" } }))
+            .map(sample => sample.timestamp.toISOString());
+
+        it("Should delete raw samples past the retention period", async function () {
+            await addSample(nodeA, at("2024-04-20T12:00:00Z"), 10);
+            await addSample(nodeA, at("2024-05-02T12:00:00Z"), 10);
+
+            await new MetricsRollupService({ ...config, rawRetentionDays: 14 }, dataSource).prune(now);
+
+            expect(await rawTimestamps()).to.deep.equal(["2024-05-02T12:00:00.000Z"]);
+        });
+
+        it("Should keep raw samples from the previous and current week however short the retention", async function () {
+            // Sunday before last, Monday of the previous week, and today
+            await addSample(nodeA, at("2024-05-05T23:59:00Z"), 10);
+            await addSample(nodeA, at("2024-05-06T00:00:00Z"), 10);
+            await addSample(nodeA, at("2024-05-15T12:00:00Z"), 10);
+
+            await new MetricsRollupService({ ...config, rawRetentionDays: 1 }, dataSource).prune(now);
+
+            expect(await rawTimestamps()).to.deep.equal(["2024-05-06T00:00:00.000Z", "2024-05-15T12:00:00.000Z"]);
+        });
+
+        it("Should delete old hourly rollups and keep daily and weekly ones", async function () {
+            await addSample(nodeA, at("2024-05-01T12:00:00Z"), 10);
+            await addSample(nodeA, at("2024-05-15T12:00:00Z"), 10);
+            const service = new MetricsRollupService({ ...config, hourlyRetentionDays: 7 }, dataSource);
+            for (const resolution of ["hour", "day", "week"]) {
+                await service.rollup(resolution, at("2024-04-29T00:00:00Z"), now);
+            }
+
+            await service.prune(now);
+
+            expect((await rows(NodeMetricsHourly)).map(row => row.bucketStart.toISOString()))
+                .to.deep.equal(["2024-05-15T12:00:00.000Z"]);
+            expect(await rows(NodeMetricsDaily)).to.have.lengthOf(2);
+            expect(await rows(NodeMetricsWeekly)).to.have.lengthOf(2);
+        });
+    });
+
+    describe("Queries", function () {
+        it("Should pick hourly, daily or weekly rollups by the length of the span", function () {
+            const service = new MetricsRollupService(config, dataSource);
+
+            expect(service.pickResolution(new Date(now.getTime() - DAY), now)).to.equal("hour");
+            expect(service.pickResolution(new Date(now.getTime() - 30 * DAY), now)).to.equal("day");
+            expect(service.pickResolution(new Date(now.getTime() - 90 * DAY), now)).to.equal("week");
+        });
+
+        it("Should answer from the rollup of the picked resolution", async function () {
+            await addSample(nodeA, at("2024-05-15T11:10:00Z"), 10);
+            await addSample(nodeA, at("2024-05-15T12:10:00Z"), 20);
+            await addSample(nodeB, at("2024-05-15T12:10:00Z"), 90);
+            const service = new MetricsRollupService(config, dataSource);
+            await service.rollup("hour", at("2024-05-15T11:00:00Z"), now);
+
+            const { resolution, points } = await service.query("0xaaaa", new Date(now.getTime() - DAY), now);
+
+            expect(resolution).to.equal("hour");
+            expect(points.map(point => [point.timestamp, point.sampleCount, point.latency.avg])).to.deep.equal([
+                ["2024-05-15T11:00:00.000Z", 1, 10],
+                ["2024-05-15T12:00:00.000Z", 1, 20]
+            ]);
+        });
+
+        it("Should return raw samples as single-sample points", async function () {
+            await addSample(nodeA, at("2024-05-15T12:10:00Z"), 20);
+            await addSample(nodeB, at("2024-05-15T12:10:00Z"), 90);
+
+            const { points } = await new MetricsRollupService(config, dataSource)
+                .query("0xaaaa", new Date(now.getTime() - HOUR), now, "raw");
+
+            expect(points).to.have.lengthOf(1);
+            expect(points[0].sampleCount).to.equal(1);
+            expect(points[0].latency).to.deep.equal({ min: 20, avg: 20, max: 20, p95: 20 });
+        });
+    });
+});
@@ -0,0 +1,220 @@
+const { expect } = require("chai");
+const { ethers, compileContracts } = require("./helpers/chain");
+const { createTestDataSource } = require("./helpers/database");
+
+const { getWireGuardConfig } = require("../src/config/wireguard");
+const { getSettlementConfig } = require("../src/config/settlement");
+const { RecordingExecutor } = require("../src/wireguard/executor");
+const { WireGuardController } = require("../src/wireguard/wireguard");
+const { WireGuardMonitor } = require("../src/wireguard/monitor");
+const { PeerLeaseManager } = require("../src/services/PeerLeaseManager");
+const { IpAllocator } = require("../src/services/IpAllocator");
+const { UsageRecorder } = require("../src/services/UsageRecorder");
+const { RevenueSettler } = require("../src/services/RevenueSettler");
+const { IpLease } = require("../src/models/IpLease");
+const { PeerUsage } = require("../src/models/PeerUsage");
+
+// Reports the transfer counters set by the test in `wg show dump`, where the
+// plain RecordingExecutor always prints zero
+class MeteredExecutor extends RecordingExecutor {
+    constructor() {
+        super();
+        this.transfer = new Map();
+    }
+
+    async run(command, args, input) {
+        const output = await super.run(command, args, input);
+        if (!args.includes("dump")) return output;
+
+        return output.split("\n").map((line, index) => {
+            if (index === 0) return line;
+            const fields = line.split("\t");
+            const [rx, tx] = this.transfer.get(fields[0]) || [0, 0];
+            fields[5] = rx;
+            fields[6] = tx;
+            return fields.join("\t");
+        }).join("\n");
+    }
+}
+
+describe("Revenue settlement", function () {
+    let vpnSubscription;
+    let vpnRegistry;
+    let dataSource;
+    let operator1;
+    let operator2;
+    let subscriber1;
+    let subscriber2;
+
+    const DAY = 24 * 60 * 60;
+    const price = ethers.parseEther("0.00001");
+    const stake = ethers.parseEther("0.01");
+    const node1 = "0x1111111111111111111111111111111111111111";
+    const node2 = "0x2222222222222222222222222222222222222222";
+    const unregisteredNode = "0x3333333333333333333333333333333333333333";
+
+    // A distinct client WireGuard public key per peer
+    let keys = 0;
+    const clientKey = () => Buffer.alloc(32, ++keys).toString("base64");
+
+    async function chainTime() {
+        return new Date((await ethers.provider.getBlock("latest")).timestamp * 1000);
+    }
+
+    async function increaseTime(seconds) {
+        await ethers.provider.send("evm_increaseTime", [seconds]);
+        await ethers.provider.send("evm_mine", []);
+    }
+
+    // One VPN node agent: WireGuard behind a metered executor, its leases and its usage recorder
+    function nodeAgent(nodeAddress) {
+        const config = { ...getWireGuardConfig(), executor: "dry-run", useSudo: false, nodeAddress };
+        const executor = new MeteredExecutor();
+        const wireguard = new WireGuardController(executor, config);
+        const leases = new PeerLeaseManager(wireguard, null, new IpAllocator(config, dataSource));
+        // An interval of 0 makes every sample read a fresh dump
+        const recorder = new UsageRecorder(new WireGuardMonitor(wireguard, 0), leases, getSettlementConfig(), dataSource);
+        return { executor, leases, recorder };
+    }
+
+    function settler(servedUnit = "bytes") {
+        return new RevenueSettler({
+            subscription: vpnSubscription,
+            registry: vpnRegistry,
+            config: { ...getSettlementConfig(), servedUnit },
+            dataSource
+        });
+    }
+
+    async function operatorPool() {
+        const revenue = await vpnSubscription.epochRevenue(0, ethers.ZeroAddress);
+        return (revenue * 8000n) / 10000n;
+    }
+
+    before(async function () {
+        await compileContracts();
+    });
+
+    beforeEach(async function () {
+        [, operator1, operator2, subscriber1, subscriber2] = await ethers.getSigners();
+
+        const VPNSubscription = await ethers.getContractFactory("VPNSubscription");
+        vpnSubscription = await VPNSubscription.deploy();
+        const VPNRegistry = await ethers.getContractFactory("VPNRegistry");
+        vpnRegistry = await VPNRegistry.deploy(await vpnSubscription.getAddress());
+        await vpnSubscription.setRevenueSharing(await vpnRegistry.getAddress(), 2000);
+
+        await vpnRegistry.connect(operator1).registerNode(node1, "192.168.1.1", { value: stake });
+        await vpnRegistry.connect(operator2).registerNode(node2, "192.168.1.2", { value: stake });
+        await vpnRegistry.updateNodeMetrics(node1, 0, 1000, 100, 100); // score 100
+        await vpnRegistry.updateNodeMetrics(node2, 0, 0, 100, 100); // score 75
+
+        await vpnSubscription.connect(subscriber1).subscribe(0, { value: price });
+        await vpnSubscription.connect(subscriber2).subscribe(0, { value: price });
+
+        dataSource = await createTestDataSource([IpLease, PeerUsage]);
+    });
+
+    afterEach(async function () {
+        await dataSource.destroy();
+    });
+
+    it("Should settle an epoch by the bytes each node served", async function () {
+        const agent1 = nodeAgent(node1);
+        const agent2 = nodeAgent(node2);
+        const expiresAt = new Date(Date.now() + 30 * DAY * 1000);
+        const { peer: peer1 } = await agent1.leases.provision(subscriber1.address.toLowerCase(), clientKey(), expiresAt, "1");
+        const { peer: peer2 } = await agent2.leases.provision(subscriber2.address.toLowerCase(), clientKey(), expiresAt, "2");
+
+        // Two samples on node 1 (4000 then 2000 more bytes), one on node 2
+        agent1.executor.transfer.set(peer1.publicKey, [3000, 1000]);
+        agent2.executor.transfer.set(peer2.publicKey, [1000, 1000]);
+        await agent1.recorder.recordOnce(await chainTime());
+        await agent2.recorder.recordOnce(await chainTime());
+
+        agent1.executor.transfer.set(peer1.publicKey, [4000, 2000]);
+        const [sample] = await agent1.recorder.recordOnce(await chainTime());
+        expect(sample.bytes).to.equal("2000");
+        expect(sample.userId).to.equal(subscriber1.address.toLowerCase());
+
+        // Nothing is ready until the epoch and its refund window are over
+        expect(await settler().runOnce()).to.deep.equal([]);
+        await increaseTime(8 * DAY);
+
+        const [settlement] = await settler().runOnce();
+        expect(settlement.epoch).to.equal(0);
+        expect(settlement.nodes).to.deep.equal([
+            { nodeAddress: node1, served: "6000" },
+            { nodeAddress: node2, served: "2000" }
+        ]);
+        expect(await vpnSubscription.epochSettled(0)).to.equal(true);
+
+        // Weights are score times bytes: 100 * 6000 and 75 * 2000
+        const pool = await operatorPool();
+        const [, amounts1] = await vpnSubscription.earningsOf(operator1.address);
+        const [, amounts2] = await vpnSubscription.earningsOf(operator2.address);
+        expect(amounts1[0]).to.equal((pool * 600000n) / 750000n);
+        expect(amounts2[0]).to.equal((pool * 150000n) / 750000n);
+
+        // Settled epochs are not submitted again
+        expect(await settler().runOnce()).to.deep.equal([]);
+    });
+
+    it("Should count sessions instead of bytes when configured", async function () {
+        const agent1 = nodeAgent(node1);
+        const agent2 = nodeAgent(node2);
+        const expiresAt = new Date(Date.now() + 30 * DAY * 1000);
+        const { peer: peer1 } = await agent1.leases.provision(subscriber1.address.toLowerCase(), clientKey(), expiresAt, "1");
+        const { peer: peer2 } = await agent1.leases.provision(subscriber2.address.toLowerCase(), clientKey(), expiresAt, "2");
+        const { peer: peer3 } = await agent2.leases.provision(subscriber1.address.toLowerCase(), clientKey(), expiresAt, "1");
+
+        agent1.executor.transfer.set(peer1.publicKey, [10, 0]);
+        agent1.executor.transfer.set(peer2.publicKey, [10, 0]);
+        agent2.executor.transfer.set(peer3.publicKey, [1000000, 0]);
+        await agent1.recorder.recordOnce(await chainTime());
+        await agent2.recorder.recordOnce(await chainTime());
+        agent1.executor.transfer.set(peer1.publicKey, [20, 0]);
+        await agent1.recorder.recordOnce(await chainTime());
+
+        await increaseTime(8 * DAY);
+        const [settlement] = await settler("sessions").runOnce();
+
+        expect(settlement.nodes).to.deep.equal([
+            { nodeAddress: node1, served: "2" },
+            { nodeAddress: node2, served: "1" }
+        ]);
+        const pool = await operatorPool();
+        const [, amounts1] = await vpnSubscription.earningsOf(operator1.address);
+        expect(amounts1[0]).to.equal((pool * 200n) / 275n);
+    });
+
+    it("Should leave out nodes that are not registered on-chain", async function () {
+        const agent1 = nodeAgent(node1);
+        const stray = nodeAgent(unregisteredNode);
+        const expiresAt = new Date(Date.now() + 30 * DAY * 1000);
+        const { peer: peer1 } = await agent1.leases.provision(subscriber1.address.toLowerCase(), clientKey(), expiresAt, "1");
+        const { peer: peer2 } = await stray.leases.provision(subscriber2.address.toLowerCase(), clientKey(), expiresAt, "2");
+
+        agent1.executor.transfer.set(peer1.publicKey, [500, 500]);
+        stray.executor.transfer.set(peer2.publicKey, [500, 500]);
+        await agent1.recorder.recordOnce(await chainTime());
+        await stray.recorder.recordOnce(await chainTime());
+
+        await increaseTime(8 * DAY);
+        const [settlement] = await settler().runOnce();
+
+        expect(settlement.nodes).to.deep.equal([{ nodeAddress: node1, served: "1000" }]);
+        expect(settlement.skipped).to.deep.equal([{ nodeAddress: unregisteredNode, reason: "not registered on-chain" }]);
+        const [, amounts1] = await vpnSubscription.earningsOf(operator1.address);
+        expect(amounts1[0]).to.equal(await operatorPool());
+    });
+
+    it("Should settle an epoch without usage entirely to the treasury", async function () {
+        await increaseTime(8 * DAY);
+        const [settlement] = await settler().runOnce();
+
+        expect(settlement.nodes).to.deep.equal([]);
+        expect(await vpnSubscription.treasuryBalance(ethers.ZeroAddress))
+            .to.equal(await vpnSubscription.epochRevenue(0, ethers.ZeroAddress));
+    });
+});
@@ -0,0 +1,218 @@
+const { expect } = require("chai");
+const express = require("express");
+const { createTestDataSource } = require("./helpers/database");
+
+const { createVpnRouter } = require("../src/routes/vpn");
+const { createSessionToken } = require("../src/middleware/auth");
+const { getWireGuardConfig } = require("../src/config/wireguard");
+const { RecordingExecutor } = require("../src/wireguard/executor");
+const { WireGuardController } = require("../src/wireguard/wireguard");
+const { PeerLeaseManager } = require("../src/services/PeerLeaseManager");
+const { IpAllocator } = require("../src/services/IpAllocator");
+const { IpLease } = require("../src/models/IpLease");
+
+describe("VPN routes", function () {
+    const user = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+    const admin = "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc";
+    const hostileUserId = "'; rm -rf / #";
+    // The client's own WireGuard public key; its private key stays with the client
+    const publicKey = Buffer.alloc(32, 7).toString("base64");
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    let dataSource;
+    let executor;
+    let server;
+    let baseUrl;
+    let subscriptionRequests;
+
+    // The exact argv of every command the node ran, with sudo as the program
+    const argv = () => executor.calls.map(call => [call.command, ...call.args]);
+
+    const request = async (method, path, address, body, isAdmin = false) => {
+        const response = await fetch(`${baseUrl}/api/vpn${path}`, {
+            method,
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${createSessionToken("test-session", address, isAdmin)}`
+            },
+            body: body && JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    before(async function () {
+        dataSource = await createTestDataSource([IpLease]);
+    });
+
+    after(async function () {
+        await dataSource.destroy();
+    });
+
+    beforeEach(async function () {
+        await dataSource.getRepository(IpLease).clear();
+
+        const config = {
+            ...getWireGuardConfig(),
+            executor: "dry-run",
+            interfaceName: "wg0",
+            useSudo: true,
+            addressPool: "10.0.0.0/24",
+            serverAddress: "10.0.0.1",
+            nodeAddress: "0x1111111111111111111111111111111111111111"
+        };
+        executor = new RecordingExecutor(config.interfaceName, config.listenPort);
+        const wireguard = new WireGuardController(executor, config);
+
+        subscriptionRequests = [];
+        const subscriptions = {
+            getActiveSubscription: async (userAddress, tokenId) => {
+                subscriptionRequests.push([userAddress, tokenId]);
+                return { tokenId: tokenId || "1", expiresAt };
+            }
+        };
+
+        const leaseManager = new PeerLeaseManager(wireguard, subscriptions, new IpAllocator(config, dataSource));
+
+        const app = express();
+        app.use(express.json());
+        app.use("/api/vpn", createVpnRouter({ wireguard, subscriptions, leaseManager }));
+        await new Promise(resolve => {
+            server = app.listen(0, "127.0.0.1", resolve);
+        });
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    afterEach(async function () {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    describe("Connect", function () {
+        it("Should add the client's public key as the peer with exactly the expected wg commands", async function () {
+            const { status, body } = await request("POST", "/connect", user, { token_id: "1", public_key: publicKey });
+
+            expect(status).to.equal(200);
+            expect(body.peer.publicKey).to.equal(publicKey);
+            expect(body.lease.address).to.equal("10.0.0.2");
+            expect(argv()).to.deep.equal([
+                ["sudo", "wg", "set", "wg0", "peer", publicKey, "allowed-ips", "10.0.0.2/32", "persistent-keepalive", "25"],
+                ["sudo", "wg", "show", "wg0", "public-key"]
+            ]);
+            // No private key is created on the node or sent back
+            expect(body.config).to.not.match(/^PrivateKey/m);
+            expect(subscriptionRequests).to.deep.equal([[user, "1"]]);
+        });
+
+        it("Should reject a missing or malformed public key before running anything", async function () {
+            for (const public_key of [undefined, "not-a-key", `${publicKey} allowed-ips 0.0.0.0/0`]) {
+                const { status } = await request("POST", "/connect", user, { public_key });
+                expect(status).to.equal(400);
+            }
+
+            expect(executor.calls).to.be.empty;
+            expect(subscriptionRequests).to.be.empty;
+        });
+
+        it("Should keep a hostile user_id from an admin out of the wg arguments", async function () {
+            const { status } = await request("POST", "/connect", admin, { user_id: hostileUserId, public_key: publicKey }, true);
+
+            expect(status).to.equal(200);
+            expect(argv()).to.deep.equal([
+                ["sudo", "wg", "set", "wg0", "peer", publicKey, "allowed-ips", "10.0.0.2/32", "persistent-keepalive", "25"],
+                ["sudo", "wg", "show", "wg0", "public-key"]
+            ]);
+            expect(subscriptionRequests).to.deep.equal([[hostileUserId, undefined]]);
+        });
+
+        it("Should reject a hostile user_id from a non-admin before running anything", async function () {
+            const { status } = await request("POST", "/connect", user, { user_id: hostileUserId, public_key: publicKey });
+
+            expect(status).to.equal(403);
+            expect(executor.calls).to.be.empty;
+            expect(subscriptionRequests).to.be.empty;
+        });
+
+        it("Should reject a token_id that is not a non-negative integer", async function () {
+            const { status } = await request("POST", "/connect", user, { token_id: "1; wg-quick down wg0", public_key: publicKey });
+
+            expect(status).to.equal(400);
+            expect(executor.calls).to.be.empty;
+            expect(subscriptionRequests).to.be.empty;
+        });
+
+        it("Should leave a single peer when the same user connects twice at once", async function () {
+            const otherKey = Buffer.alloc(32, 9).toString("base64");
+            const responses = await Promise.all([
+                request("POST", "/connect", user, { token_id: "1", public_key: publicKey }),
+                request("POST", "/connect", user, { token_id: "1", public_key: otherKey })
+            ]);
+            expect(responses.map(response => response.status)).to.deep.equal([200, 200]);
+
+            const leases = await dataSource.getRepository(IpLease).find();
+            expect(leases).to.have.lengthOf(1);
+            // Whichever connect ran first had its peer removed by the second
+            const [kept, replaced] = leases[0].publicKey === publicKey ? [publicKey, otherKey] : [otherKey, publicKey];
+            expect(leases[0].publicKey).to.equal(kept);
+            expect(argv()).to.deep.include(["sudo", "wg", "set", "wg0", "peer", replaced, "remove"]);
+            expect(argv()).to.not.deep.include(["sudo", "wg", "set", "wg0", "peer", kept, "remove"]);
+        });
+    });
+
+    describe("Disconnect", function () {
+        it("Should remove exactly the user's peer", async function () {
+            await request("POST", "/connect", user, { public_key: publicKey });
+            executor.calls.length = 0;
+
+            const { status } = await request("POST", "/disconnect", user, {});
+
+            expect(status).to.equal(200);
+            expect(argv()).to.deep.equal([
+                ["sudo", "wg", "set", "wg0", "peer", publicKey, "remove"]
+            ]);
+            expect(await dataSource.getRepository(IpLease).count()).to.equal(0);
+        });
+
+        it("Should remove the peer of a hostile user_id by its public key only", async function () {
+            await request("POST", "/connect", admin, { user_id: hostileUserId, public_key: publicKey }, true);
+            executor.calls.length = 0;
+
+            const { status } = await request("POST", "/disconnect", admin, { user_id: hostileUserId }, true);
+
+            expect(status).to.equal(200);
+            expect(argv()).to.deep.equal([
+                ["sudo", "wg", "set", "wg0", "peer", publicKey, "remove"]
+            ]);
+        });
+
+        it("Should return 404 without running anything when the user has no peer", async function () {
+            const { status } = await request("POST", "/disconnect", user, {});
+
+            expect(status).to.equal(404);
+            expect(executor.calls).to.be.empty;
+        });
+    });
+
+    describe("Endpoint update", function () {
+        beforeEach(async function () {
+            await request("POST", "/connect", user, { public_key: publicKey });
+            executor.calls.length = 0;
+        });
+
+        it("Should set the endpoint with exactly the expected wg command", async function () {
+            const { status } = await request("PUT", "/endpoint", user, { endpoint: "203.0.113.7:51820" });
+
+            expect(status).to.equal(200);
+            expect(argv()).to.deep.equal([
+                ["sudo", "wg", "set", "wg0", "peer", publicKey, "endpoint", "203.0.113.7:51820"]
+            ]);
+        });
+
+        it("Should refuse a hostile endpoint without running anything", async function () {
+            const { status } = await request("PUT", "/endpoint", user, {
+                endpoint: "203.0.113.7:51820 allowed-ips 0.0.0.0/0"
+            });
+
+            expect(status).to.equal(400);
+            expect(executor.calls).to.be.empty;
+        });
+    });
+});
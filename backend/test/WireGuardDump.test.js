@@ -0,0 +1,128 @@
+const { expect } = require("chai");
+
+const { parseWireGuardDump, parseInterfaceLine, parsePeerLine } = require("../src/wireguard/dump");
+
+describe("wg dump parser", function () {
+    const privateKey = Buffer.alloc(32, 1).toString("base64");
+    const serverKey = Buffer.alloc(32, 2).toString("base64");
+    const peerKey = Buffer.alloc(32, 3).toString("base64");
+    const presharedKey = Buffer.alloc(32, 4).toString("base64");
+
+    const line = (...fields) => fields.join("\t");
+
+    describe("Interface line", function () {
+        it("Should keep the public key, listen port and fwmark but not the private key", function () {
+            const status = parseInterfaceLine(line(privateKey, serverKey, "51820", "0x1234"));
+
+            expect(status).to.deep.equal({ publicKey: serverKey, listenPort: 51820, fwmark: 0x1234 });
+            expect(JSON.stringify(status)).to.not.include(privateKey);
+        });
+
+        it("Should read an unset fwmark as null", function () {
+            expect(parseInterfaceLine(line(privateKey, serverKey, "51820", "off")).fwmark).to.be.null;
+        });
+    });
+
+    describe("Peer line", function () {
+        it("Should parse a connected peer", function () {
+            const peer = parsePeerLine(line(
+                peerKey, presharedKey, "203.0.113.7:51820", "10.0.0.2/32", "1700000000", "1024", "2048", "25"
+            ));
+
+            expect(peer).to.deep.equal({
+                publicKey: peerKey,
+                hasPresharedKey: true,
+                endpoint: "203.0.113.7:51820",
+                allowedIPs: ["10.0.0.2/32"],
+                latestHandshake: new Date(1700000000 * 1000),
+                transferRx: 1024,
+                transferTx: 2048,
+                persistentKeepalive: 25
+            });
+        });
+
+        it("Should read a (none) endpoint and handshake 0 as a peer that never connected", function () {
+            const peer = parsePeerLine(line(peerKey, "(none)", "(none)", "10.0.0.2/32", "0", "0", "0", "off"));
+
+            expect(peer.hasPresharedKey).to.be.false;
+            expect(peer.endpoint).to.be.null;
+            expect(peer.latestHandshake).to.be.null;
+            expect(peer.transferRx).to.equal(0);
+            expect(peer.transferTx).to.equal(0);
+            expect(peer.persistentKeepalive).to.be.null;
+        });
+
+        it("Should split multiple allowed IPs", function () {
+            const peer = parsePeerLine(line(
+                peerKey, "(none)", "(none)", "10.0.0.2/32,fd00::2/128,192.168.5.0/24", "0", "0", "0", "off"
+            ));
+
+            expect(peer.allowedIPs).to.deep.equal(["10.0.0.2/32", "fd00::2/128", "192.168.5.0/24"]);
+        });
+
+        it("Should read (none) allowed IPs as an empty list", function () {
+            const peer = parsePeerLine(line(peerKey, "(none)", "(none)", "(none)", "0", "0", "0", "off"));
+
+            expect(peer.allowedIPs).to.deep.equal([]);
+        });
+    });
+
+    describe("Malformed lines", function () {
+        it("Should reject an interface line with the wrong number of fields", function () {
+            expect(() => parseInterfaceLine(line(privateKey, serverKey, "51820"))).to.throw(/Expected 4 interface fields/);
+        });
+
+        it("Should reject a peer line with the wrong number of fields", function () {
+            expect(() => parsePeerLine(line(peerKey, "(none)", "(none)", "10.0.0.2/32", "0", "0", "0")))
+                .to.throw(/Expected 8 peer fields/);
+            expect(() => parsePeerLine(`${peerKey} (none) (none) 10.0.0.2/32 0 0 0 off`))
+                .to.throw(/Expected 8 peer fields/);
+        });
+
+        it("Should reject counters that are not non-negative integers", function () {
+            for (const [handshake, rx, tx] of [["soon", "0", "0"], ["0", "-1", "0"], ["0", "0", "1.5"], ["0", "0", "1e400"]]) {
+                expect(() => parsePeerLine(line(peerKey, "(none)", "(none)", "10.0.0.2/32", handshake, rx, tx, "off")))
+                    .to.throw(/Invalid/);
+            }
+        });
+
+        it("Should reject a listen port that is not a number", function () {
+            expect(() => parseInterfaceLine(line(privateKey, serverKey, "(none)", "off"))).to.throw(/Invalid listen-port/);
+        });
+    });
+
+    describe("Whole dump", function () {
+        it("Should parse the interface and every peer, ignoring blank lines and CRLF", function () {
+            const output = [
+                line(privateKey, serverKey, "51820", "off"),
+                line(peerKey, "(none)", "203.0.113.7:51820", "10.0.0.2/32", "1700000000", "10", "20", "25"),
+                line(presharedKey, "(none)", "(none)", "10.0.0.3/32", "0", "0", "0", "off"),
+                ""
+            ].join("\r\n");
+
+            const status = parseWireGuardDump(output);
+
+            expect(status.interface.publicKey).to.equal(serverKey);
+            expect(status.peers.map(peer => peer.publicKey)).to.deep.equal([peerKey, presharedKey]);
+            expect(status.peers[0].endpoint).to.equal("203.0.113.7:51820");
+        });
+
+        it("Should parse an interface without peers", function () {
+            expect(parseWireGuardDump(`${line(privateKey, serverKey, "51820", "off")}\n`).peers).to.deep.equal([]);
+        });
+
+        it("Should reject empty output", function () {
+            expect(() => parseWireGuardDump("\n")).to.throw(/Empty wg dump output/);
+        });
+
+        it("Should reject a dump with one malformed peer", function () {
+            const output = [
+                line(privateKey, serverKey, "51820", "off"),
+                line(peerKey, "(none)", "(none)", "10.0.0.2/32", "0", "0", "0", "off"),
+                "garbage"
+            ].join("\n");
+
+            expect(() => parseWireGuardDump(output)).to.throw(/Expected 8 peer fields/);
+        });
+    });
+});
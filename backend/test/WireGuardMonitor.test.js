@@ -0,0 +1,78 @@
+const { expect } = require("chai");
+const { once } = require("events");
+
+const { getWireGuardConfig } = require("../src/config/wireguard");
+const { RecordingExecutor } = require("../src/wireguard/executor");
+const { WireGuardController } = require("../src/wireguard/wireguard");
+const { WireGuardMonitor } = require("../src/wireguard/monitor");
+
+describe("WireGuardMonitor", function () {
+    const peerKey = Buffer.alloc(32, 3).toString("base64");
+
+    let executor;
+    let wireguard;
+
+    const dumps = () => executor.calls.filter(call => call.args.includes("dump")).length;
+
+    beforeEach(async function () {
+        const config = { ...getWireGuardConfig(), executor: "dry-run", interfaceName: "wg0", useSudo: false };
+        executor = new RecordingExecutor(config.interfaceName, config.listenPort);
+        wireguard = new WireGuardController(executor, config);
+        await executor.run("wg", ["set", "wg0", "peer", peerKey, "allowed-ips", "10.0.0.2/32"]);
+    });
+
+    it("Should share one dump between concurrent readers", async function () {
+        const monitor = new WireGuardMonitor(wireguard, 60000);
+
+        const snapshots = await Promise.all([monitor.getSnapshot(), monitor.refresh(), monitor.getSnapshot()]);
+
+        expect(dumps()).to.equal(1);
+        expect(snapshots[1]).to.equal(snapshots[0]);
+        expect(snapshots[2]).to.equal(snapshots[0]);
+        expect(snapshots[0].peers.map(peer => peer.publicKey)).to.deep.equal([peerKey]);
+        expect(snapshots[0].sampledAt).to.be.an.instanceOf(Date);
+    });
+
+    it("Should serve the latest snapshot until it is older than the poll interval", async function () {
+        const cached = new WireGuardMonitor(wireguard, 60000);
+        await cached.getSnapshot();
+        await cached.getSnapshot();
+        expect(dumps()).to.equal(1);
+
+        const uncached = new WireGuardMonitor(wireguard, 0);
+        await uncached.getSnapshot();
+        await uncached.getSnapshot();
+        expect(dumps()).to.equal(3);
+    });
+
+    it("Should dump again after a failed dump instead of caching the failure", async function () {
+        const monitor = new WireGuardMonitor(wireguard, 60000);
+        const run = executor.run.bind(executor);
+        executor.run = async () => {
+            executor.run = run;
+            throw new Error("wg is not available");
+        };
+
+        let error;
+        try {
+            await monitor.getSnapshot();
+        } catch (caught) {
+            error = caught;
+        }
+        expect(error.message).to.equal("wg is not available");
+
+        expect((await monitor.getSnapshot()).peers).to.have.lengthOf(1);
+    });
+
+    it("Should poll on start and emit every snapshot until stopped", async function () {
+        const monitor = new WireGuardMonitor(wireguard, 60000);
+
+        monitor.start();
+        const [snapshot] = await once(monitor, "snapshot");
+        monitor.stop();
+
+        expect(snapshot.peers.map(peer => peer.publicKey)).to.deep.equal([peerKey]);
+        expect(await monitor.getSnapshot()).to.equal(snapshot);
+        expect(dumps()).to.equal(1);
+    });
+});
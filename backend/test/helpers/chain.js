@@ -0,0 +1,13 @@
+// The contracts and the in-process Hardhat network come from the root Hardhat
+// project, which is found from the working directory as `npx hardhat` would
+// find it. Its artifacts are compiled once, on first use.
+const hre = require("hardhat");
+
+let compiling;
+
+function compileContracts() {
+    compiling = compiling || hre.run("compile", { quiet: true });
+    return compiling;
+}
+
+module.exports = { ethers: hre.ethers, compileContracts };
@@ -0,0 +1,38 @@
+const { newDb } = require("pg-mem");
+const { DataSource } = require("typeorm");
+const { PGliteDriver } = require("typeorm-pglite");
+
+// An initialized in-memory Postgres DataSource holding the given entities
+async function createTestDataSource(entities) {
+    const db = newDb();
+    // TypeORM queries these while connecting
+    db.public.registerFunction({ name: "current_database", implementation: () => "test" });
+    db.public.registerFunction({ name: "version", implementation: () => "PostgreSQL 14" });
+
+    const dataSource = new DataSource({
+        type: "postgres",
+        driver: db.adapters.createPg(),
+        entities,
+        synchronize: true,
+        logging: false
+    });
+    return dataSource.initialize();
+}
+
+// An initialized DataSource on PGlite, a real Postgres, for queries pg-mem
+// cannot run (ordered-set aggregates such as percentile_cont, date_trunc).
+// Starts in UTC; destroying it shuts PGlite down.
+async function createPostgresDataSource(entities) {
+    const dataSource = new DataSource({
+        type: "postgres",
+        driver: new PGliteDriver().driver,
+        entities,
+        synchronize: true,
+        logging: false
+    });
+    await dataSource.initialize();
+    await dataSource.query("SET TIME ZONE 'UTC'");
+    return dataSource;
+}
+
+module.exports = { createTestDataSource, createPostgresDataSource };
@@ -21,6 +21,19 @@ contract VPNRegistry {
         uint256 totalScore;     // Combined AI score (0-100)
     }
 
+    enum SlashStatus { Pending, Executed, Cancelled }
+
+    // A proposed penalty against a node's stake; it can only be executed once the dispute window has passed
+    struct Slash {
+        address nodeAddress;
+        uint256 amount;
+        string reason;
+        address proposedBy;
+        uint256 proposedAt;
+        SlashStatus status;
+        string dispute;         // The operator's response, if any
+    }
+
     // State variables
     address public admin;
     address public vpnSubscriptionContract;
@@ -29,12 +42,30 @@ contract VPNRegistry {
     address[] public nodeAddresses;
     mapping(address => bool) public registeredNodes;
 
+    // Staking
+    uint256 public minimumStake;
+    uint256 public disputeWindow;
+    uint256 public unbondingPeriod;
+    mapping(address => uint256) public nodeStake;            // Node address => ETH locked by its owner
+    mapping(address => uint256) public unbondingStartedAt;   // Set when the node is deactivated
+    mapping(address => uint256) public pendingSlashCount;    // Stake can't be withdrawn while this is non-zero
+    Slash[] public slashes;
+    uint256 public slashedFunds;
+
     // Events
     event NodeRegistered(address indexed nodeAddress, string ipAddress, address indexed owner);
     event NodeApproved(address indexed nodeAddress);
     event NodeDeactivated(address indexed nodeAddress);
     event AdminAdded(address indexed newAdmin);
     event AdminRemoved(address indexed removedAdmin);
+    event StakeAdded(address indexed nodeAddress, uint256 amount, uint256 totalStake);
+    event UnbondingStarted(address indexed nodeAddress, uint256 withdrawableAt);
+    event StakeWithdrawn(address indexed nodeAddress, address indexed owner, uint256 amount);
+    event SlashProposed(uint256 indexed slashId, address indexed nodeAddress, uint256 amount, string reason);
+    event SlashDisputed(uint256 indexed slashId, string response);
+    event SlashCancelled(uint256 indexed slashId);
+    event NodeSlashed(uint256 indexed slashId, address indexed nodeAddress, uint256 amount);
+    event StakingParametersUpdated(uint256 minimumStake, uint256 disputeWindow, uint256 unbondingPeriod);
     event MetricsUpdated(
         address indexed nodeAddress, 
         uint256 latency, 
@@ -66,6 +97,10 @@ contract VPNRegistry {
         admin = msg.sender;
         admins[msg.sender] = true;  // Add deployer as admin
         vpnSubscriptionContract = _vpnSubscriptionContract;
+
+        minimumStake = 0.01 ether;
+        disputeWindow = 3 days;
+        unbondingPeriod = 7 days;
     }
 
     // Admin management functions
@@ -112,10 +147,12 @@ contract VPNRegistry {
         return dotCount == 3 && ipBytes.length > lastDotIndex + 1; // must have exactly 3 dots and end with a number
     }
 
-    function registerNode(address nodeAddress, string memory ipAddress) external {
+    // The ETH sent is locked as the node's stake
+    function registerNode(address nodeAddress, string memory ipAddress) external payable {
         require(!registeredNodes[nodeAddress], "Node already registered");
         require(bytes(ipAddress).length > 0, "IP address cannot be empty");
         require(isValidIPv4(ipAddress), "Invalid IP address format");
+        require(msg.value >= minimumStake, "Insufficient stake");
 
         nodes[nodeAddress] = VPNNode({
             ipAddress: ipAddress,
@@ -132,13 +169,18 @@ contract VPNRegistry {
 
         nodeAddresses.push(nodeAddress);
         registeredNodes[nodeAddress] = true;
+        nodeStake[nodeAddress] = msg.value;
 
         emit NodeRegistered(nodeAddress, ipAddress, msg.sender);
+        emit StakeAdded(nodeAddress, msg.value, msg.value);
     }
 
     function approveNode(address nodeAddress) external onlyAdmin nodeExists(nodeAddress) {
+        require(nodeStake[nodeAddress] >= minimumStake, "Insufficient stake");
+
         nodes[nodeAddress].isApproved = true;
         nodes[nodeAddress].isActive = true;
+        unbondingStartedAt[nodeAddress] = 0;
         
         emit NodeApproved(nodeAddress);
     }
@@ -150,6 +192,144 @@ contract VPNRegistry {
         nodes[nodeAddress].isActive = false;
         
         emit NodeDeactivated(nodeAddress);
+
+        // Deactivating again must not push back the withdrawal date
+        if (unbondingStartedAt[nodeAddress] == 0) {
+            unbondingStartedAt[nodeAddress] = block.timestamp;
+            emit UnbondingStarted(nodeAddress, block.timestamp + unbondingPeriod);
+        }
+    }
+
+    // Staking and slashing
+    function addStake(address nodeAddress) external payable nodeExists(nodeAddress) {
+        require(msg.sender == nodes[nodeAddress].owner, "Only node owner can add stake");
+        require(msg.value > 0, "Stake must be positive");
+
+        nodeStake[nodeAddress] += msg.value;
+        emit StakeAdded(nodeAddress, msg.value, nodeStake[nodeAddress]);
+    }
+
+    function withdrawStake(address nodeAddress) external nodeExists(nodeAddress) {
+        VPNNode storage node = nodes[nodeAddress];
+        require(msg.sender == node.owner, "Only node owner can withdraw stake");
+        require(!node.isActive, "Node must be deactivated first");
+        require(unbondingStartedAt[nodeAddress] > 0, "Unbonding not started");
+        require(block.timestamp >= unbondingStartedAt[nodeAddress] + unbondingPeriod, "Stake is still unbonding");
+        require(pendingSlashCount[nodeAddress] == 0, "Slash pending");
+
+        uint256 amount = nodeStake[nodeAddress];
+        require(amount > 0, "No stake to withdraw");
+        nodeStake[nodeAddress] = 0;
+        // A node without stake has to be re-staked and re-approved to serve again
+        node.isApproved = false;
+
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "Transfer failed");
+        emit StakeWithdrawn(nodeAddress, msg.sender, amount);
+    }
+
+    function proposeSlash(address nodeAddress, uint256 amount, string memory reason)
+        external
+        onlyAdmin
+        nodeExists(nodeAddress)
+        returns (uint256)
+    {
+        require(amount > 0, "Amount must be positive");
+        require(amount <= nodeStake[nodeAddress], "Amount exceeds stake");
+        require(bytes(reason).length > 0, "Reason cannot be empty");
+
+        slashes.push(Slash({
+            nodeAddress: nodeAddress,
+            amount: amount,
+            reason: reason,
+            proposedBy: msg.sender,
+            proposedAt: block.timestamp,
+            status: SlashStatus.Pending,
+            dispute: ""
+        }));
+        pendingSlashCount[nodeAddress]++;
+
+        uint256 slashId = slashes.length - 1;
+        emit SlashProposed(slashId, nodeAddress, amount, reason);
+        return slashId;
+    }
+
+    // Lets the operator put their side on record before admins decide
+    function disputeSlash(uint256 slashId, string memory response) external {
+        require(slashId < slashes.length, "Slash does not exist");
+        Slash storage slash = slashes[slashId];
+        require(msg.sender == nodes[slash.nodeAddress].owner, "Only node owner can dispute");
+        require(slash.status == SlashStatus.Pending, "Slash is not pending");
+        require(block.timestamp < slash.proposedAt + disputeWindow, "Dispute window closed");
+        require(bytes(response).length > 0, "Response cannot be empty");
+
+        slash.dispute = response;
+        emit SlashDisputed(slashId, response);
+    }
+
+    function cancelSlash(uint256 slashId) external onlyAdmin {
+        Slash storage slash = _pendingSlash(slashId);
+
+        slash.status = SlashStatus.Cancelled;
+        pendingSlashCount[slash.nodeAddress]--;
+        emit SlashCancelled(slashId);
+    }
+
+    function executeSlash(uint256 slashId) external onlyAdmin {
+        Slash storage slash = _pendingSlash(slashId);
+        require(block.timestamp >= slash.proposedAt + disputeWindow, "Dispute window still open");
+
+        // Other slashes may have reduced the stake since this one was proposed
+        uint256 amount = slash.amount > nodeStake[slash.nodeAddress] ? nodeStake[slash.nodeAddress] : slash.amount;
+        nodeStake[slash.nodeAddress] -= amount;
+        slashedFunds += amount;
+        slash.amount = amount;
+        slash.status = SlashStatus.Executed;
+        pendingSlashCount[slash.nodeAddress]--;
+
+        emit NodeSlashed(slashId, slash.nodeAddress, amount);
+    }
+
+    function getSlashes() external view returns (Slash[] memory) {
+        return slashes;
+    }
+
+    function getStakeInfo(address nodeAddress) external view nodeExists(nodeAddress)
+        returns (uint256 stake, uint256 withdrawableAt, uint256 pendingSlashes)
+    {
+        uint256 startedAt = unbondingStartedAt[nodeAddress];
+        return (
+            nodeStake[nodeAddress],
+            startedAt == 0 ? 0 : startedAt + unbondingPeriod,
+            pendingSlashCount[nodeAddress]
+        );
+    }
+
+    function setStakingParameters(
+        uint256 _minimumStake,
+        uint256 _disputeWindow,
+        uint256 _unbondingPeriod
+    ) external onlySuperAdmin {
+        minimumStake = _minimumStake;
+        disputeWindow = _disputeWindow;
+        unbondingPeriod = _unbondingPeriod;
+        emit StakingParametersUpdated(_minimumStake, _disputeWindow, _unbondingPeriod);
+    }
+
+    function withdrawSlashedFunds(address payable to) external onlySuperAdmin {
+        require(to != address(0), "Invalid address");
+        uint256 amount = slashedFunds;
+        slashedFunds = 0;
+
+        (bool success, ) = to.call{value: amount}("");
+        require(success, "Transfer failed");
+    }
+
+    function _pendingSlash(uint256 slashId) internal view returns (Slash storage) {
+        require(slashId < slashes.length, "Slash does not exist");
+        Slash storage slash = slashes[slashId];
+        require(slash.status == SlashStatus.Pending, "Slash is not pending");
+        return slash;
     }
 
     // Update node metrics and calculate total score
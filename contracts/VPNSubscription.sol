@@ -3,17 +3,34 @@ pragma solidity ^0.8.28;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
-contract VPNSubscription is ERC721, Ownable {
+interface IVPNRegistry {
+    function getNodeDetails(address nodeAddress)
+        external
+        view
+        returns (string memory, address, uint256, bool, bool, uint256);
+}
+
+contract VPNSubscription is ERC721, Ownable, ReentrancyGuard {
     using Counters for Counters.Counter;
+    using SafeERC20 for IERC20;
     Counters.Counter private _tokenIds;
-    
-    // Subscription duration in seconds (30 days)
-    uint256 public constant SUBSCRIPTION_DURATION = 30 days;
-    
-    // Subscription price in wei (0.00001 ETH)
-    uint256 public constant SUBSCRIPTION_PRICE = 0.00001 ether;
+
+    struct Plan {
+        uint256 price;
+        uint256 duration;
+        // 0 means unlimited; higher tiers are for nodes to map to their own limits
+        uint8 bandwidthTier;
+        bool active;
+    }
+
+    // Plans are only ever added or deactivated, so a plan ID stays meaningful
+    Plan[] private _plans;
     
     // Mapping from token ID to subscription expiry timestamp
     mapping(uint256 => uint256) public subscriptionExpiry;
@@ -21,23 +38,161 @@ contract VPNSubscription is ERC721, Ownable {
     // Mapping from address to their latest token ID
     mapping(address => uint256) public userLatestToken;
 
-    constructor() ERC721("VPN Subscription", "VPNS") {}
+    // Plan each token was bought or last renewed with
+    mapping(uint256 => uint256) public subscriptionPlan;
 
-    function subscribe() public payable returns (uint256) {
-        require(msg.value >= SUBSCRIPTION_PRICE, "Insufficient payment");
-        
-        _tokenIds.increment();
-        uint256 newTokenId = _tokenIds.current();
-        
-        _mint(msg.sender, newTokenId);
-        
-        // Set subscription expiry to current time + duration
-        subscriptionExpiry[newTokenId] = block.timestamp + SUBSCRIPTION_DURATION;
-        
-        // Update user's latest token
-        userLatestToken[msg.sender] = newTokenId;
-        
-        return newTokenId;
+    // Mint time and the price paid then, for the 24 hour cancellation refund
+    mapping(uint256 => uint256) public subscriptionStart;
+    mapping(uint256 => uint256) private _mintPrice;
+    // ERC-20 the mint was paid in; address(0) for ETH
+    mapping(uint256 => address) private _mintPaymentToken;
+    // Renewed tokens can no longer be cancelled, as the refund only covers the mint
+    mapping(uint256 => bool) private _renewed;
+
+    // ERC-20 tokens accepted as payment, e.g. stablecoins
+    address[] private _paymentTokens;
+    mapping(address => bool) public isPaymentToken;
+
+    // Plan ID => token => price in the token's smallest unit; 0 means the plan is not sold for that token
+    mapping(uint256 => mapping(address => uint256)) public planTokenPrice;
+
+    // Revenue sharing. Payments are booked to the epoch they were made in, and once the
+    // epoch is settled they are split between the treasury and node operators.
+    uint256 public constant EPOCH_DURATION = 7 days;
+    // Settling waits for the cancellation window so refunds never touch settled revenue
+    uint256 public constant SETTLEMENT_DELAY = 24 hours;
+    uint256 public immutable epochGenesis;
+
+    IVPNRegistry public registry;
+    uint256 public treasuryShareBps = 2000;
+
+    // Epoch => token => revenue; address(0) is ETH throughout
+    mapping(uint256 => mapping(address => uint256)) public epochRevenue;
+    mapping(uint256 => bool) public epochSettled;
+    mapping(uint256 => uint256) private _mintEpoch;
+
+    // Settled revenue the owner can withdraw, per token
+    mapping(address => uint256) public treasuryBalance;
+    // Operator => token => unclaimed earnings
+    mapping(address => mapping(address => uint256)) public earnings;
+
+    event PlanAdded(uint256 indexed planId, uint256 price, uint256 duration, uint8 bandwidthTier);
+    event PlanUpdated(uint256 indexed planId, uint256 price, uint256 duration, uint8 bandwidthTier, bool active);
+    event PaymentTokenUpdated(address indexed token, bool accepted);
+    event PlanTokenPriceSet(uint256 indexed planId, address indexed token, uint256 price);
+    event RevenueSharingUpdated(address registry, uint256 treasuryShareBps);
+    event EpochSettled(uint256 indexed epoch, uint256 totalWeight);
+    event OperatorRewarded(
+        uint256 indexed epoch,
+        address indexed operator,
+        address indexed nodeAddress,
+        address token,
+        uint256 amount
+    );
+    event EarningsClaimed(address indexed operator, address indexed token, uint256 amount);
+
+    constructor() ERC721("VPN Subscription", "VPNS") {
+        epochGenesis = block.timestamp;
+
+        // Plan 0 keeps the terms of the original fixed-price subscription
+        _addPlan(0.00001 ether, 30 days, 0);
+    }
+
+    function addPlan(uint256 price, uint256 duration, uint8 bandwidthTier) public onlyOwner returns (uint256) {
+        return _addPlan(price, duration, bandwidthTier);
+    }
+
+    // Existing subscriptions keep the expiry they paid for; changes apply to later purchases
+    function updatePlan(
+        uint256 planId,
+        uint256 price,
+        uint256 duration,
+        uint8 bandwidthTier,
+        bool active
+    ) public onlyOwner {
+        require(planId < _plans.length, "Plan does not exist");
+        require(duration > 0, "Duration must be positive");
+
+        _plans[planId] = Plan(price, duration, bandwidthTier, active);
+        emit PlanUpdated(planId, price, duration, bandwidthTier, active);
+    }
+
+    function getPlan(uint256 planId) public view returns (Plan memory) {
+        require(planId < _plans.length, "Plan does not exist");
+        return _plans[planId];
+    }
+
+    // Includes inactive plans; the index is the plan ID
+    function getPlans() public view returns (Plan[] memory) {
+        return _plans;
+    }
+
+    function planCount() public view returns (uint256) {
+        return _plans.length;
+    }
+
+    function setPaymentToken(address token, bool accepted) public onlyOwner {
+        require(token != address(0), "Invalid token");
+
+        if (accepted && !_isListed(token)) {
+            _paymentTokens.push(token);
+        }
+        isPaymentToken[token] = accepted;
+        emit PaymentTokenUpdated(token, accepted);
+    }
+
+    function setPlanTokenPrice(uint256 planId, address token, uint256 price) public onlyOwner {
+        require(planId < _plans.length, "Plan does not exist");
+        require(isPaymentToken[token], "Token not accepted");
+
+        planTokenPrice[planId][token] = price;
+        emit PlanTokenPriceSet(planId, token, price);
+    }
+
+    // Only the tokens currently accepted
+    function getPaymentTokens() public view returns (address[] memory) {
+        uint256 count = 0;
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            if (isPaymentToken[_paymentTokens[i]]) count++;
+        }
+
+        address[] memory tokens = new address[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            if (isPaymentToken[_paymentTokens[i]]) {
+                tokens[index++] = _paymentTokens[i];
+            }
+        }
+        return tokens;
+    }
+
+    function subscribe(uint256 planId) public payable returns (uint256) {
+        Plan memory plan = _purchasablePlan(planId);
+        require(msg.value >= plan.price, "Insufficient payment");
+
+        _bookRevenue(address(0), msg.value);
+        return _mintSubscription(planId, plan.duration, address(0), plan.price);
+    }
+
+    // Needs an allowance of planTokenPrice[planId][token] from the caller
+    function subscribeWithToken(uint256 planId, address token) public returns (uint256) {
+        Plan memory plan = _purchasablePlan(planId);
+        uint256 price = _collectTokenPayment(planId, token);
+
+        return _mintSubscription(planId, plan.duration, token, price);
+    }
+
+    // Same as subscribeWithToken, with the allowance granted by an EIP-2612 signature
+    function subscribeWithPermit(
+        uint256 planId,
+        address token,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public returns (uint256) {
+        _permit(planId, token, deadline, v, r, s);
+        return subscribeWithToken(planId, token);
     }
 
     function isSubscriptionActive(uint256 tokenId) public view returns (bool) {
@@ -61,14 +216,32 @@ contract VPNSubscription is ERC721, Ownable {
         return expiry - block.timestamp;
     }
 
-    function renewSubscription(uint256 tokenId) public payable {
-        require(_exists(tokenId), "Subscription does not exist");
-        require(ownerOf(tokenId) == msg.sender, "Not subscription owner");
-        require(msg.value >= SUBSCRIPTION_PRICE, "Insufficient payment");
-        
-        // Extend subscription from current expiry or current time, whichever is later
-        uint256 newExpiry = max(subscriptionExpiry[tokenId], block.timestamp) + SUBSCRIPTION_DURATION;
-        subscriptionExpiry[tokenId] = newExpiry;
+    function renew(uint256 tokenId, uint256 planId) public payable {
+        Plan memory plan = _purchasablePlan(planId);
+        require(msg.value >= plan.price, "Insufficient payment");
+
+        _bookRevenue(address(0), msg.value);
+        _extendSubscription(tokenId, planId, plan.duration);
+    }
+
+    function renewWithToken(uint256 tokenId, uint256 planId, address token) public {
+        Plan memory plan = _purchasablePlan(planId);
+        _collectTokenPayment(planId, token);
+
+        _extendSubscription(tokenId, planId, plan.duration);
+    }
+
+    function renewWithPermit(
+        uint256 tokenId,
+        uint256 planId,
+        address token,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public {
+        _permit(planId, token, deadline, v, r, s);
+        renewWithToken(tokenId, planId, token);
     }
 
     function getSubscriptionExpiry(uint256 tokenId) public view returns (uint256) {
@@ -76,32 +249,243 @@ contract VPNSubscription is ERC721, Ownable {
         return subscriptionExpiry[tokenId];
     }
 
+    function setRevenueSharing(address registryAddress, uint256 shareBps) public onlyOwner {
+        require(shareBps <= 10000, "Share exceeds 100%");
+
+        registry = IVPNRegistry(registryAddress);
+        treasuryShareBps = shareBps;
+        emit RevenueSharingUpdated(registryAddress, shareBps);
+    }
+
+    function currentEpoch() public view returns (uint256) {
+        return (block.timestamp - epochGenesis) / EPOCH_DURATION;
+    }
+
+    /**
+     * Splits an epoch's revenue. The treasury takes treasuryShareBps and operators share the
+     * rest by weight, where a node's weight is its registry totalScore times what it served.
+     * `served` can be sessions or bytes, as long as one unit is used for the whole epoch.
+     * With no weight at all, or rounding dust, the remainder goes to the treasury.
+     * Node addresses must be strictly ascending, so no node can be listed twice.
+     */
+    function settleEpoch(uint256 epoch, address[] calldata nodeAddresses, uint256[] calldata served)
+        public
+        onlyOwner
+    {
+        require(!epochSettled[epoch], "Epoch already settled");
+        require(
+            block.timestamp >= epochGenesis + (epoch + 1) * EPOCH_DURATION + SETTLEMENT_DELAY,
+            "Epoch not ready for settlement"
+        );
+        require(nodeAddresses.length == served.length, "Length mismatch");
+        require(nodeAddresses.length == 0 || address(registry) != address(0), "Registry not set");
+
+        address[] memory operators = new address[](nodeAddresses.length);
+        uint256[] memory weights = new uint256[](nodeAddresses.length);
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < nodeAddresses.length; i++) {
+            require(i == 0 || nodeAddresses[i] > nodeAddresses[i - 1], "Node addresses not ascending");
+            (, address operator, uint256 totalScore, , , ) = registry.getNodeDetails(nodeAddresses[i]);
+            require(operator != address(0), "Node has no operator");
+            operators[i] = operator;
+            weights[i] = totalScore * served[i];
+            totalWeight += weights[i];
+        }
+
+        epochSettled[epoch] = true;
+        _settleToken(epoch, address(0), nodeAddresses, operators, weights, totalWeight);
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            _settleToken(epoch, _paymentTokens[i], nodeAddresses, operators, weights, totalWeight);
+        }
+
+        emit EpochSettled(epoch, totalWeight);
+    }
+
+    function claimEarnings(address token) public {
+        uint256 amount = earnings[msg.sender][token];
+        require(amount > 0, "Nothing to claim");
+        earnings[msg.sender][token] = 0;
+
+        if (token == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            require(success, "Transfer failed");
+        } else {
+            IERC20(token).safeTransfer(msg.sender, amount);
+        }
+        emit EarningsClaimed(msg.sender, token, amount);
+    }
+
+    // Unclaimed earnings in ETH followed by every token that has ever been accepted
+    function earningsOf(address operator) public view returns (address[] memory tokens, uint256[] memory amounts) {
+        tokens = new address[](_paymentTokens.length + 1);
+        amounts = new uint256[](_paymentTokens.length + 1);
+        amounts[0] = earnings[operator][address(0)];
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            tokens[i + 1] = _paymentTokens[i];
+            amounts[i + 1] = earnings[operator][_paymentTokens[i]];
+        }
+    }
+
+    // Only the treasury's share of settled epochs; unsettled revenue and operator earnings stay
     function withdrawFunds() public onlyOwner {
-        (bool success, ) = owner().call{value: address(this).balance}("");
+        uint256 amount = treasuryBalance[address(0)];
+        treasuryBalance[address(0)] = 0;
+
+        (bool success, ) = owner().call{value: amount}("");
         require(success, "Transfer failed");
     }
 
+    function withdrawTokens(address token) public onlyOwner {
+        uint256 amount = treasuryBalance[token];
+        treasuryBalance[token] = 0;
+
+        IERC20(token).safeTransfer(owner(), amount);
+    }
+
     function max(uint256 a, uint256 b) internal pure returns (uint256) {
         return a >= b ? a : b;
     }
 
-    function cancelSubscription() public {
+    function cancelSubscription() public nonReentrant {
         uint256 tokenId = userLatestToken[msg.sender];
         require(tokenId > 0, "No subscription found");
         require(_exists(tokenId), "Subscription does not exist");
         require(ownerOf(tokenId) == msg.sender, "Not subscription owner");
         
         // Check if within 24 hours of subscription start
-        uint256 subscriptionStart = subscriptionExpiry[tokenId] - SUBSCRIPTION_DURATION;
-        require(block.timestamp <= subscriptionStart + 24 hours, "Cancellation period expired");
+        require(block.timestamp <= subscriptionStart[tokenId] + 24 hours, "Cancellation period expired");
+        require(!_renewed[tokenId], "Renewed subscriptions cannot be cancelled");
         
-        // Refund the subscription fee
-        (bool success, ) = msg.sender.call{value: SUBSCRIPTION_PRICE}("");
-        require(success, "Refund transfer failed");
-        
-        // Burn the token
+        uint256 refund = _mintPrice[tokenId];
+        address paymentToken = _mintPaymentToken[tokenId];
+        epochRevenue[_mintEpoch[tokenId]][paymentToken] -= refund;
+
+        // Burn the token and clear its state before any funds leave the contract
         _burn(tokenId);
         delete subscriptionExpiry[tokenId];
+        delete subscriptionPlan[tokenId];
+        delete subscriptionStart[tokenId];
+        delete _mintPrice[tokenId];
+        delete _mintPaymentToken[tokenId];
+        delete _mintEpoch[tokenId];
         delete userLatestToken[msg.sender];
+
+        // Refund the subscription fee in whatever it was paid with
+        if (paymentToken == address(0)) {
+            (bool success, ) = msg.sender.call{value: refund}("");
+            require(success, "Refund transfer failed");
+        } else {
+            IERC20(paymentToken).safeTransfer(msg.sender, refund);
+        }
+    }
+
+    function _mintSubscription(
+        uint256 planId,
+        uint256 duration,
+        address paymentToken,
+        uint256 price
+    ) internal returns (uint256) {
+        _tokenIds.increment();
+        uint256 newTokenId = _tokenIds.current();
+        
+        _mint(msg.sender, newTokenId);
+        
+        // Set subscription expiry to current time + duration
+        subscriptionExpiry[newTokenId] = block.timestamp + duration;
+        subscriptionPlan[newTokenId] = planId;
+        subscriptionStart[newTokenId] = block.timestamp;
+        _mintPrice[newTokenId] = price;
+        _mintPaymentToken[newTokenId] = paymentToken;
+        _mintEpoch[newTokenId] = currentEpoch();
+        
+        // Update user's latest token
+        userLatestToken[msg.sender] = newTokenId;
+        
+        return newTokenId;
+    }
+
+    function _extendSubscription(uint256 tokenId, uint256 planId, uint256 duration) internal {
+        require(_exists(tokenId), "Subscription does not exist");
+        require(ownerOf(tokenId) == msg.sender, "Not subscription owner");
+        
+        // Extend subscription from current expiry or current time, whichever is later
+        uint256 newExpiry = max(subscriptionExpiry[tokenId], block.timestamp) + duration;
+        subscriptionExpiry[tokenId] = newExpiry;
+        subscriptionPlan[tokenId] = planId;
+        _renewed[tokenId] = true;
+    }
+
+    function _collectTokenPayment(uint256 planId, address token) internal returns (uint256) {
+        require(isPaymentToken[token], "Token not accepted");
+        uint256 price = planTokenPrice[planId][token];
+        require(price > 0, "Plan not sold for this token");
+
+        IERC20(token).safeTransferFrom(msg.sender, address(this), price);
+        _bookRevenue(token, price);
+        return price;
+    }
+
+    function _permit(uint256 planId, address token, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        // Anyone can submit a signed permit first; if it was, the allowance is already in place
+        try IERC20Permit(token).permit(msg.sender, address(this), planTokenPrice[planId][token], deadline, v, r, s) {
+        } catch {
+            require(
+                IERC20(token).allowance(msg.sender, address(this)) >= planTokenPrice[planId][token],
+                "Permit failed"
+            );
+        }
+    }
+
+    function _bookRevenue(address token, uint256 amount) internal {
+        epochRevenue[currentEpoch()][token] += amount;
+    }
+
+    function _settleToken(
+        uint256 epoch,
+        address token,
+        address[] calldata nodeAddresses,
+        address[] memory operators,
+        uint256[] memory weights,
+        uint256 totalWeight
+    ) internal {
+        uint256 revenue = epochRevenue[epoch][token];
+        if (revenue == 0) return;
+
+        uint256 distributed = 0;
+        if (totalWeight > 0) {
+            uint256 operatorPool = (revenue * (10000 - treasuryShareBps)) / 10000;
+            for (uint256 i = 0; i < operators.length; i++) {
+                uint256 amount = (operatorPool * weights[i]) / totalWeight;
+                if (amount == 0) continue;
+
+                earnings[operators[i]][token] += amount;
+                distributed += amount;
+                emit OperatorRewarded(epoch, operators[i], nodeAddresses[i], token, amount);
+            }
+        }
+        treasuryBalance[token] += revenue - distributed;
+    }
+
+    function _isListed(address token) internal view returns (bool) {
+        for (uint256 i = 0; i < _paymentTokens.length; i++) {
+            if (_paymentTokens[i] == token) return true;
+        }
+        return false;
+    }
+
+    function _addPlan(uint256 price, uint256 duration, uint8 bandwidthTier) internal returns (uint256) {
+        require(duration > 0, "Duration must be positive");
+
+        _plans.push(Plan(price, duration, bandwidthTier, true));
+        uint256 planId = _plans.length - 1;
+        emit PlanAdded(planId, price, duration, bandwidthTier);
+        return planId;
+    }
+
+    function _purchasablePlan(uint256 planId) internal view returns (Plan memory) {
+        require(planId < _plans.length, "Plan does not exist");
+        Plan memory plan = _plans[planId];
+        require(plan.active, "Plan is not available");
+        return plan;
     }
 } 
\ No newline at end of file
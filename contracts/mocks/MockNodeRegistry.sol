@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Registry that reports every node with the same score and no operator, for
+// testing how settlement treats a registry answering with address(0)
+contract MockNodeRegistry {
+    function getNodeDetails(address)
+        external
+        pure
+        returns (string memory, address, uint256, bool, bool, uint256)
+    {
+        return ("", address(0), 100, true, true, 0);
+    }
+}
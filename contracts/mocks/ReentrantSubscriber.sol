@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IVPNSubscription {
+    function subscribe(uint256 planId) external payable returns (uint256);
+    function cancelSubscription() external;
+}
+
+// Subscriber that tries to cancel again from inside its refund, for the re-entrancy tests
+contract ReentrantSubscriber {
+    IVPNSubscription private immutable _subscription;
+    bool private _reentered;
+
+    constructor(address subscription) {
+        _subscription = IVPNSubscription(subscription);
+    }
+
+    function subscribe(uint256 planId) external payable {
+        _subscription.subscribe{value: msg.value}(planId);
+    }
+
+    function cancel() external {
+        _subscription.cancelSubscription();
+    }
+
+    receive() external payable {
+        if (!_reentered) {
+            _reentered = true;
+            _subscription.cancelSubscription();
+        }
+    }
+}
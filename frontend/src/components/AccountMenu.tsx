@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Button,
@@ -15,22 +16,42 @@ import {
 import AccountCircleIcon from '@mui/icons-material/AccountCircle';
 import VerifiedUserIcon from '@mui/icons-material/VerifiedUser';
 import GppBadIcon from '@mui/icons-material/GppBad';
+import VpnKeyIcon from '@mui/icons-material/VpnKey';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+import EventRepeatIcon from '@mui/icons-material/EventRepeat';
+import CollectionsBookmarkIcon from '@mui/icons-material/CollectionsBookmark';
+import SavingsIcon from '@mui/icons-material/Savings';
 import { useWeb3 } from '../context/Web3Context';
 import { SubscriptionServiceFactory } from '../services/SubscriptionServiceFactory';
 import { SubscriptionDialog } from './SubscriptionDialog';
+import { RenewSubscriptionDialog } from './RenewSubscriptionDialog';
+import { useVPNContext, VPNPhase } from '../contexts/VPNContext';
 import { ethers } from 'ethers';
 
+const VPN_PHASE_LABELS: Record<VPNPhase, string> = {
+  idle: 'Not connected',
+  'checking-subscription': 'Checking subscription...',
+  provisioning: 'Setting up peer...',
+  activating: 'Starting tunnel...',
+  connected: 'Connected',
+  disconnecting: 'Disconnecting...',
+  error: 'Error'
+};
+
 interface AccountMenuProps {
   onSignOut?: () => void;
 }
 
 export const AccountMenu: React.FC<AccountMenuProps> = ({ onSignOut }) => {
   const { account, isConnected, connectWallet, provider, signer, isAdmin, isSuperAdmin } = useWeb3();
+  const { phase: vpnPhase, node: vpnNode, error: vpnError, isConnecting: vpnBusy, disconnect } = useVPNContext();
+  const navigate = useNavigate();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [loading, setLoading] = useState(false);
   const [hasSubscription, setHasSubscription] = useState(false);
   const [remainingTime, setRemainingTime] = useState<number>(0);
   const [showSubscriptionDialog, setShowSubscriptionDialog] = useState(false);
+  const [showRenewDialog, setShowRenewDialog] = useState(false);
   const [subscriptionService, setSubscriptionService] = useState<any>(null);
   const [serviceInitialized, setServiceInitialized] = useState(false);
 
@@ -124,6 +145,24 @@ export const AccountMenu: React.FC<AccountMenuProps> = ({ onSignOut }) => {
     setShowSubscriptionDialog(true);
   };
 
+  const refreshSubscription = async () => {
+    if (account && subscriptionService && serviceInitialized && !isAdmin && !isSuperAdmin) {
+      setLoading(true);
+      try {
+        const hasActiveSubscription = await subscriptionService.checkSubscription(account);
+        setHasSubscription(hasActiveSubscription);
+        if (hasActiveSubscription) {
+          const time = await subscriptionService.getRemainingTime(account);
+          setRemainingTime(time);
+        }
+      } catch (err) {
+        console.error('Error refreshing subscription status:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+  };
+
   const formatAddress = (address: string) => {
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
   };
@@ -212,6 +251,50 @@ export const AccountMenu: React.FC<AccountMenuProps> = ({ onSignOut }) => {
             secondary={loading ? 'Checking...' : (isAdmin || isSuperAdmin) ? 'Active' : (hasSubscription ? `Active - ${formatRemainingTime(remainingTime)}` : 'Inactive')}
           />
         </MenuItem>
+        <MenuItem disabled>
+          <ListItemIcon>
+            {vpnBusy ? (
+              <CircularProgress size={20} color="inherit" />
+            ) : (
+              <VpnKeyIcon sx={{ color: vpnPhase === 'connected' ? '#4caf50' : vpnPhase === 'error' ? '#f44336' : 'inherit' }} />
+            )}
+          </ListItemIcon>
+          <ListItemText
+            primary={vpnNode && vpnPhase !== 'idle' ? `VPN - ${formatAddress(vpnNode.address)}` : 'VPN'}
+            secondary={vpnPhase === 'error' && vpnError ? vpnError : VPN_PHASE_LABELS[vpnPhase]}
+          />
+        </MenuItem>
+        {(vpnPhase === 'connected' || vpnPhase === 'error') && vpnNode && (
+          <MenuItem onClick={() => disconnect()}>
+            <ListItemIcon>
+              <LinkOffIcon fontSize="small" sx={{ color: 'white' }} />
+            </ListItemIcon>
+            <ListItemText primary="Disconnect VPN" />
+          </MenuItem>
+        )}
+        <Divider sx={{ borderColor: 'rgba(255, 255, 255, 0.1)' }} />
+        {!isAdmin && !isSuperAdmin && hasSubscription && (
+          <MenuItem onClick={() => setShowRenewDialog(true)}>
+            <ListItemIcon>
+              <EventRepeatIcon fontSize="small" sx={{ color: 'white' }} />
+            </ListItemIcon>
+            <ListItemText primary="Extend subscription" />
+          </MenuItem>
+        )}
+        {!isAdmin && !isSuperAdmin && (
+          <MenuItem onClick={() => navigate('/subscriptions')}>
+            <ListItemIcon>
+              <CollectionsBookmarkIcon fontSize="small" sx={{ color: 'white' }} />
+            </ListItemIcon>
+            <ListItemText primary="My Subscriptions" />
+          </MenuItem>
+        )}
+        <MenuItem onClick={() => navigate('/earnings')}>
+          <ListItemIcon>
+            <SavingsIcon fontSize="small" sx={{ color: 'white' }} />
+          </ListItemIcon>
+          <ListItemText primary="Node Earnings" />
+        </MenuItem>
         {!isAdmin && !isSuperAdmin && (
           <MenuItem onClick={handleManageSubscription}>
             <ListItemText primary="Manage Subscription" />
@@ -221,26 +304,16 @@ export const AccountMenu: React.FC<AccountMenuProps> = ({ onSignOut }) => {
       <SubscriptionDialog
         open={showSubscriptionDialog}
         onClose={() => setShowSubscriptionDialog(false)}
-        onSubscribed={async () => {
+        onSubscribed={() => {
           setShowSubscriptionDialog(false);
-          // Refresh subscription status
-          if (account && subscriptionService && serviceInitialized && !isAdmin && !isSuperAdmin) {
-            setLoading(true);
-            try {
-              const hasActiveSubscription = await subscriptionService.checkSubscription(account);
-              setHasSubscription(hasActiveSubscription);
-              if (hasActiveSubscription) {
-                const time = await subscriptionService.getRemainingTime(account);
-                setRemainingTime(time);
-              }
-            } catch (err) {
-              console.error('Error refreshing subscription status:', err);
-            } finally {
-              setLoading(false);
-            }
-          }
+          refreshSubscription();
         }}
       />
+      <RenewSubscriptionDialog
+        open={showRenewDialog}
+        onClose={() => setShowRenewDialog(false)}
+        onRenewed={refreshSubscription}
+      />
     </>
   );
 }; 
\ No newline at end of file
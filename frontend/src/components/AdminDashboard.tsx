@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
 import { ethers, ContractTransactionResponse } from 'ethers';
 import type { TransactionResponse } from 'ethers';
 import {
@@ -34,6 +34,7 @@ import {
   LinearProgress,
   Divider,
   Fab,
+  Link,
   useScrollTrigger
 } from '@mui/material';
 import { useWeb3 } from '../context/Web3Context';
@@ -46,6 +47,8 @@ import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import AddIcon from '@mui/icons-material/Add';
 import { nodeService, PendingNode } from '../services/NodeService';
+import { stakingService } from '../services/StakingService';
+import { SlashingPanel } from './SlashingPanel';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import PersonAddIcon from '@mui/icons-material/PersonAdd';
 import DeleteIcon from '@mui/icons-material/Delete';
@@ -118,6 +121,7 @@ export const AdminDashboard = (): JSX.Element => {
   const [removeAdminDialog, setRemoveAdminDialog] = useState(false);
   const [selectedAdmin, setSelectedAdmin] = useState<string | null>(null);
   const navigate = useNavigate();
+  const nodeAddresses = useMemo(() => nodes.map(node => node.address as string), [nodes]);
 
   useEffect(() => {
     const loadAdminData = async () => {
@@ -323,7 +327,7 @@ export const AdminDashboard = (): JSX.Element => {
 
       // Register in smart contract first
       console.log('[Debug] Registering node in smart contract...');
-      const tx = await contract.registerNode(newNodeAddress, newNodeIP) as ContractTransactionResponse;
+      const tx = await stakingService.registerNode(contract, newNodeAddress, newNodeIP);
       console.log('[Debug] Transaction sent:', tx.hash);
       await tx.wait();
       console.log('[Debug] Transaction confirmed');
@@ -501,7 +505,11 @@ export const AdminDashboard = (): JSX.Element => {
         <TableBody>
           {nodes.map((node, index) => (
             <TableRow key={`${node.address}-${index}`}>
-              <TableCell>{node.address}</TableCell>
+              <TableCell>
+                <Link component={RouterLink} to={`/nodes/${node.address}`}>
+                  {node.address}
+                </Link>
+              </TableCell>
               <TableCell>{node.ipAddress}</TableCell>
               <TableCell>{node.owner}</TableCell>
               <TableCell>
@@ -632,7 +640,11 @@ export const AdminDashboard = (): JSX.Element => {
               <TableBody>
                 {performanceHistory.slice(-5).map((record, index) => (
                   <TableRow key={index}>
-                    <TableCell>{record.nodeAddress.slice(0, 6)}...{record.nodeAddress.slice(-4)}</TableCell>
+                    <TableCell>
+                      <Link component={RouterLink} to={`/nodes/${record.nodeAddress}`}>
+                        {record.nodeAddress.slice(0, 6)}...{record.nodeAddress.slice(-4)}
+                      </Link>
+                    </TableCell>
                     <TableCell>
                       {record.latency}ms
                       {record.latency > 100 && (
@@ -640,12 +652,12 @@ export const AdminDashboard = (): JSX.Element => {
                       )}
                     </TableCell>
                     <TableCell>
-                      {record.bandwidth}Mbps
-                      {record.bandwidth < 50 && (
+                      {record.bandwidth !== undefined ? `${record.bandwidth}Mbps` : '-'}
+                      {record.bandwidth !== undefined && record.bandwidth < 50 && (
                         <TrendingDownIcon color="error" fontSize="small" sx={{ ml: 1 }} />
                       )}
                     </TableCell>
-                    <TableCell>{record.uptime}%</TableCell>
+                    <TableCell>{record.uptime !== undefined ? `${record.uptime}%` : '-'}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -782,6 +794,7 @@ export const AdminDashboard = (): JSX.Element => {
             <Tab label="Pending Nodes" />
             <Tab label="Performance Metrics" />
             <Tab label="Admin Management" />
+            <Tab label="Staking & Slashing" />
           </Tabs>
         </Box>
 
@@ -897,6 +910,9 @@ export const AdminDashboard = (): JSX.Element => {
             </TableBody>
           </Table>
         </TabPanel>
+        <TabPanel value={tabValue} index={4}>
+          <SlashingPanel nodeAddresses={nodeAddresses} />
+        </TabPanel>
       </Paper>
 
       {/* Admin Management Dialogs - Only shown for super admins */}
@@ -18,6 +18,7 @@ import { useWeb3 } from '../context/Web3Context';
 import { ethers } from 'ethers';
 import type { TransactionResponse } from 'ethers';
 import { SubscriptionServiceFactory, ISubscriptionService } from '../services/SubscriptionServiceFactory';
+import { stakingService } from '../services/StakingService';
 
 const AdminPanel: React.FC = () => {
   const { contract, account, isAdmin: isAdminFromContext, provider, signer } = useWeb3();
@@ -64,7 +65,7 @@ const AdminPanel: React.FC = () => {
     
     try {
       setError(null);
-      const tx = await contract.registerNode(nodeAddress, ipAddress) as TransactionResponse;
+      const tx = await stakingService.registerNode(contract, nodeAddress, ipAddress);
       await tx.wait();
       setSuccess('Node registered successfully!');
       setOpenDialog(false);
@@ -34,6 +34,17 @@ import VpnKeyIcon from '@mui/icons-material/VpnKey';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
 import MenuIcon from '@mui/icons-material/Menu';
 import { AccountMenu } from './AccountMenu';
+import { useVPNContext, VPNPhase } from '../contexts/VPNContext';
+
+const VPN_PHASE_PREFIXES: Record<VPNPhase, string> = {
+  idle: 'Node',
+  'checking-subscription': 'Connecting',
+  provisioning: 'Connecting',
+  activating: 'Connecting',
+  connected: 'Node',
+  disconnecting: 'Disconnecting',
+  error: 'VPN error'
+};
 
 export const Header: React.FC = () => {
   const theme = useTheme();
@@ -50,10 +61,13 @@ export const Header: React.FC = () => {
     error,
     setError, 
     isLoading,
-    connectedNode,
     isAdmin,
     isSuperAdmin
   } = useWeb3();
+  const { phase: vpnPhase, node: vpnNode } = useVPNContext();
+  const vpnLabel = vpnNode && vpnPhase !== 'idle'
+    ? `${VPN_PHASE_PREFIXES[vpnPhase]}: ${vpnNode.address.slice(0, 6)}...${vpnNode.address.slice(-4)}`
+    : null;
   const [confirmDialog, setConfirmDialog] = useState(false);
   const navigate = useNavigate();
 
@@ -145,11 +159,11 @@ export const Header: React.FC = () => {
               }}
             />
           </Tooltip>
-          {connectedNode && (
+          {vpnLabel && (
             <Tooltip title="Connected VPN node">
               <Chip
                 icon={<VpnKeyIcon />}
-                label={`Node: ${connectedNode.slice(0, 6)}...${connectedNode.slice(-4)}`}
+                label={vpnLabel}
                 sx={{
                   background: 'rgba(255, 255, 255, 0.05)',
                   backdropFilter: 'blur(10px)',
@@ -229,13 +243,13 @@ export const Header: React.FC = () => {
                 {`${account?.slice(0, 6)}...${account?.slice(-4)}`}
               </ListItemText>
             </MenuItem>
-            {connectedNode && (
+            {vpnLabel && (
               <MenuItem disabled sx={{ opacity: 0.7 }}>
                 <ListItemIcon>
                   <VpnKeyIcon fontSize="small" />
                 </ListItemIcon>
                 <ListItemText>
-                  {`Node: ${connectedNode.slice(0, 6)}...${connectedNode.slice(-4)}`}
+                  {vpnLabel}
                 </ListItemText>
               </MenuItem>
             )}
@@ -355,10 +369,10 @@ export const Header: React.FC = () => {
                       Admin
                     </Button>
                   )}
-                  {connectedNode && (
+                  {vpnLabel && (
                     <Chip
                       icon={<VpnKeyIcon />}
-                      label={`Node: ${connectedNode.slice(0, 6)}...${connectedNode.slice(-4)}`}
+                      label={vpnLabel}
                       sx={{
                         background: 'rgba(255, 255, 255, 0.05)',
                         backdropFilter: 'blur(10px)',
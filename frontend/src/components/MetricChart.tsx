@@ -0,0 +1,98 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+
+export interface ChartPoint {
+  time: number;
+  value: number;
+  // Spread within the bucket, drawn as a band around the line
+  min?: number;
+  max?: number;
+}
+
+interface MetricChartProps {
+  title: string;
+  unit: string;
+  points: ChartPoint[];
+  color: string;
+  height?: number;
+}
+
+const WIDTH = 600;
+
+const formatTime = (time: number, spanMs: number): string =>
+  spanMs > 2 * 24 * 60 * 60 * 1000
+    ? new Date(time).toLocaleDateString()
+    : new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Line chart drawn as a plain SVG; the viewBox stretches to the container width
+export const MetricChart: React.FC<MetricChartProps> = ({ title, unit, points, color, height = 160 }) => {
+  const latest = points[points.length - 1];
+
+  if (points.length === 0) {
+    return (
+      <Box>
+        <Typography variant="subtitle2" color="text.secondary">{title}</Typography>
+        <Box height={height} display="flex" alignItems="center" justifyContent="center">
+          <Typography variant="body2" color="text.secondary">No data for this range</Typography>
+        </Box>
+      </Box>
+    );
+  }
+
+  const start = points[0].time;
+  const end = latest.time;
+  const span = Math.max(end - start, 1);
+  const low = Math.min(...points.map(p => p.min ?? p.value));
+  const high = Math.max(...points.map(p => p.max ?? p.value));
+  // Pad flat series so the line does not sit on the edge
+  const range = high - low || Math.max(Math.abs(high), 1);
+  const bottom = low - range * 0.1;
+  const top = high + range * 0.1;
+
+  const x = (time: number) => (points.length === 1 ? WIDTH / 2 : ((time - start) / span) * WIDTH);
+  const y = (value: number) => height - ((value - bottom) / (top - bottom)) * height;
+
+  const line = points.map(p => `${x(p.time)},${y(p.value)}`).join(' ');
+  const hasBand = points.some(p => p.min !== undefined && p.max !== undefined);
+  const band = hasBand
+    ? [
+        ...points.map(p => `${x(p.time)},${y(p.max ?? p.value)}`),
+        ...[...points].reverse().map(p => `${x(p.time)},${y(p.min ?? p.value)}`)
+      ].join(' ')
+    : '';
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="baseline">
+        <Typography variant="subtitle2" color="text.secondary">{title}</Typography>
+        <Typography variant="body2">
+          {latest.value.toFixed(1)} {unit}
+        </Typography>
+      </Box>
+      <Box display="flex" gap={1}>
+        <Box display="flex" flexDirection="column" justifyContent="space-between" sx={{ minWidth: 40 }}>
+          <Typography variant="caption" color="text.secondary">{high.toFixed(0)}</Typography>
+          <Typography variant="caption" color="text.secondary">{low.toFixed(0)}</Typography>
+        </Box>
+        <Box flexGrow={1}>
+          <svg
+            width="100%"
+            height={height}
+            viewBox={`0 0 ${WIDTH} ${height}`}
+            preserveAspectRatio="none"
+            role="img"
+            aria-label={`${title} chart`}
+          >
+            {hasBand && <polygon points={band} fill={color} fillOpacity={0.15} />}
+            <polyline points={line} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            {points.length === 1 && <circle cx={x(latest.time)} cy={y(latest.value)} r={4} fill={color} />}
+          </svg>
+          <Box display="flex" justifyContent="space-between">
+            <Typography variant="caption" color="text.secondary">{formatTime(start, span)}</Typography>
+            <Typography variant="caption" color="text.secondary">{formatTime(end, span)}</Typography>
+          </Box>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { COUNTRY_SHAPES, CountryShape, findCountry, MAP_VIEWBOX } from '../utils/countries';
+
+export interface MapNode {
+  address: string;
+  country?: string | null;
+  totalScore: number;
+  // Measured from this browser when available, otherwise the on-chain value
+  latency: number | null;
+}
+
+export interface CountryStats {
+  country: CountryShape;
+  nodes: MapNode[];
+  bestScore: number;
+  averageLatency: number | null;
+}
+
+type ColorBy = 'score' | 'latency';
+
+// Latency at which a country is drawn fully red
+const WORST_LATENCY = 300;
+
+// Red to green through yellow; quality runs from 0 (bad) to 1 (good)
+const qualityColor = (quality: number): string =>
+  `hsl(${Math.round(Math.max(0, Math.min(1, quality)) * 120)}, 70%, 45%)`;
+
+export const groupByCountry = (nodes: MapNode[]): Map<string, CountryStats> => {
+  const groups = new Map<string, CountryStats>();
+  nodes.forEach(node => {
+    const country = findCountry(node.country);
+    if (!country) return;
+    const group = groups.get(country.code) || { country, nodes: [], bestScore: 0, averageLatency: null };
+    group.nodes.push(node);
+    groups.set(country.code, group);
+  });
+
+  groups.forEach(group => {
+    group.bestScore = Math.max(...group.nodes.map(node => node.totalScore));
+    const latencies = group.nodes.map(node => node.latency).filter((latency): latency is number => latency !== null);
+    group.averageLatency = latencies.length
+      ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+      : null;
+  });
+  return groups;
+};
+
+interface NodeMapProps {
+  nodes: MapNode[];
+  selectedCountry: string | null;
+  onSelectCountry: (code: string | null) => void;
+}
+
+// World map of the nodes, drawn from the bundled country outlines so it needs no tile server
+export const NodeMap: React.FC<NodeMapProps> = ({ nodes, selectedCountry, onSelectCountry }) => {
+  const [colorBy, setColorBy] = useState<ColorBy>('score');
+  const groups = useMemo(() => groupByCountry(nodes), [nodes]);
+  const unmapped = nodes.length - Array.from(groups.values()).reduce((sum, group) => sum + group.nodes.length, 0);
+
+  const fillFor = (group?: CountryStats): string => {
+    if (!group) return 'rgba(255, 255, 255, 0.08)';
+    if (colorBy === 'score') return qualityColor(group.bestScore / 100);
+    return group.averageLatency === null ? '#757575' : qualityColor(1 - group.averageLatency / WORST_LATENCY);
+  };
+
+  const describe = (group: CountryStats): string => {
+    const count = `${group.nodes.length} node${group.nodes.length === 1 ? '' : 's'}`;
+    const latency = group.averageLatency === null ? 'latency unknown' : `avg ${group.averageLatency}ms`;
+    return `${group.country.name}: ${count}, best score ${group.bestScore}, ${latency}`;
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="body2" color="text.secondary">
+          {selectedCountry
+            ? `Showing nodes in ${groups.get(selectedCountry)?.country.name || selectedCountry}. Click it again to show all.`
+            : 'Click a country to show only its nodes.'}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={colorBy}
+          onChange={(_, value: ColorBy | null) => value && setColorBy(value)}
+        >
+          <ToggleButton value="score">Best score</ToggleButton>
+          <ToggleButton value="latency">Avg latency</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      <svg width="100%" viewBox={MAP_VIEWBOX} role="img" aria-label="Map of VPN nodes by country">
+        {COUNTRY_SHAPES.map(country => {
+          const group = groups.get(country.code);
+          const isSelected = selectedCountry === country.code;
+          return (
+            <path
+              key={country.code}
+              d={country.path}
+              fill={fillFor(group)}
+              fillRule="evenodd"
+              stroke={isSelected ? '#fff' : 'rgba(0, 0, 0, 0.4)'}
+              strokeWidth={isSelected ? 1.5 : 0.5}
+              vectorEffect="non-scaling-stroke"
+              style={{ cursor: group ? 'pointer' : 'default' }}
+              onClick={() => group && onSelectCountry(isSelected ? null : country.code)}
+            >
+              <title>{group ? describe(group) : country.name}</title>
+            </path>
+          );
+        })}
+      </svg>
+
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mt: 1 }}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Typography variant="caption" color="text.secondary">
+            {colorBy === 'score' ? 'Score 0' : `${WORST_LATENCY}ms+`}
+          </Typography>
+          <Box
+            sx={{
+              width: 120,
+              height: 8,
+              borderRadius: 1,
+              background: `linear-gradient(to right, ${qualityColor(0)}, ${qualityColor(0.5)}, ${qualityColor(1)})`
+            }}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {colorBy === 'score' ? '100' : '0ms'}
+          </Typography>
+        </Stack>
+        {unmapped > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {unmapped} node{unmapped === 1 ? '' : 's'} without a known country
+          </Typography>
+        )}
+      </Stack>
+    </Box>
+  );
+};
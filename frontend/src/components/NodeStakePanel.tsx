@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  Paper,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { formatEther, parseEther } from 'ethers';
+import { useWeb3 } from '../context/Web3Context';
+import { stakingService, NodeStake, SlashRecord, SlashStatus, SLASH_STATUS_LABELS } from '../services/StakingService';
+
+interface NodeStakePanelProps {
+  nodeAddress: string;
+  owner: string;
+  isActive: boolean;
+  // Called after a transaction that changes the node itself, e.g. deactivation
+  onNodeChanged: () => void;
+}
+
+// Stake and slashing history of one node, with the operator's own actions
+export const NodeStakePanel: React.FC<NodeStakePanelProps> = ({ nodeAddress, owner, isActive, onNodeChanged }) => {
+  const { contract, account } = useWeb3();
+  const [stake, setStake] = useState<NodeStake | null>(null);
+  const [slashes, setSlashes] = useState<SlashRecord[]>([]);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState('');
+  const [disputeSlash, setDisputeSlash] = useState<SlashRecord | null>(null);
+  const [disputeResponse, setDisputeResponse] = useState('');
+
+  const isOwner = !!account && account.toLowerCase() === owner.toLowerCase();
+
+  const loadStake = useCallback(async () => {
+    if (!contract) return;
+    try {
+      const [nodeStake, nodeSlashes] = await Promise.all([
+        stakingService.getNodeStake(contract, nodeAddress),
+        stakingService.getSlashes(contract, nodeAddress)
+      ]);
+      setStake(nodeStake);
+      setSlashes(nodeSlashes);
+    } catch (err) {
+      console.error('[Debug] Error loading node stake:', err);
+      setError('Failed to load stake information');
+    }
+  }, [contract, nodeAddress]);
+
+  useEffect(() => {
+    loadStake();
+  }, [loadStake]);
+
+  const runTransaction = async (key: string, send: () => Promise<{ wait: () => Promise<unknown> }>) => {
+    setPendingAction(key);
+    setError(null);
+    try {
+      const tx = await send();
+      await tx.wait();
+      await loadStake();
+      return true;
+    } catch (err: any) {
+      console.error('[Debug] Stake transaction failed:', err);
+      setError(err.reason || err.message || 'Transaction failed');
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleTopUp = async () => {
+    if (!contract) return;
+    let value: bigint;
+    try {
+      value = parseEther(topUpAmount);
+    } catch {
+      setError('Enter the amount to add in ETH');
+      return;
+    }
+    if (await runTransaction('add', () => contract.addStake(nodeAddress, { value }))) {
+      setTopUpAmount('');
+    }
+  };
+
+  const handleDeactivate = async () => {
+    if (!contract) return;
+    if (await runTransaction('deactivate', () => contract.deactivateNode(nodeAddress))) {
+      onNodeChanged();
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!contract) return;
+    if (await runTransaction('withdraw', () => contract.withdrawStake(nodeAddress))) {
+      onNodeChanged();
+    }
+  };
+
+  const handleDispute = async () => {
+    if (!contract || !disputeSlash) return;
+    const slashId = disputeSlash.id;
+    if (await runTransaction('dispute', () => contract.disputeSlash(slashId, disputeResponse.trim()))) {
+      setDisputeSlash(null);
+      setDisputeResponse('');
+    }
+  };
+
+  const canWithdraw = !!stake
+    && stake.stake > BigInt(0)
+    && !isActive
+    && stake.withdrawableAt !== null
+    && Date.now() >= stake.withdrawableAt
+    && stake.pendingSlashes === 0;
+
+  return (
+    <Paper sx={{ p: 3, mb: 3, backgroundColor: 'rgba(255, 255, 255, 0.03)', borderRadius: 3 }}>
+      <Typography variant="h6" gutterBottom>Stake</Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        <Grid item xs={6} md={3}>
+          <Typography variant="body2" color="text.secondary">Locked stake</Typography>
+          <Typography variant="h6">{stake ? `${formatEther(stake.stake)} ETH` : '-'}</Typography>
+        </Grid>
+        <Grid item xs={6} md={3}>
+          <Typography variant="body2" color="text.secondary">Pending slashes</Typography>
+          <Typography variant="h6">{stake ? stake.pendingSlashes : '-'}</Typography>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Typography variant="body2" color="text.secondary">Withdrawable</Typography>
+          <Typography variant="body2">
+            {!stake || stake.withdrawableAt === null
+              ? 'After the node is deactivated and the unbonding period has passed'
+              : new Date(stake.withdrawableAt).toLocaleString()}
+          </Typography>
+        </Grid>
+      </Grid>
+
+      {isOwner && (
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+          <TextField
+            label="Add stake (ETH)"
+            size="small"
+            value={topUpAmount}
+            onChange={event => setTopUpAmount(event.target.value)}
+          />
+          <Button variant="outlined" onClick={handleTopUp} disabled={!topUpAmount || pendingAction !== null}>
+            {pendingAction === 'add' ? <CircularProgress size={20} /> : 'Add Stake'}
+          </Button>
+          {isActive && (
+            <Button color="warning" onClick={handleDeactivate} disabled={pendingAction !== null}>
+              {pendingAction === 'deactivate' ? <CircularProgress size={20} /> : 'Deactivate & Start Unbonding'}
+            </Button>
+          )}
+          <Button variant="contained" onClick={handleWithdraw} disabled={!canWithdraw || pendingAction !== null}>
+            {pendingAction === 'withdraw' ? <CircularProgress size={20} /> : 'Withdraw Stake'}
+          </Button>
+        </Stack>
+      )}
+
+      {slashes.length > 0 && (
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>Slashes</Typography>
+          <Stack spacing={1}>
+            {slashes.map(slash => {
+              const canDispute = isOwner
+                && slash.status === SlashStatus.Pending
+                && !slash.dispute
+                && Date.now() < slash.executableAt;
+              return (
+                <Box key={slash.id} sx={{ p: 1.5, border: '1px solid rgba(255, 255, 255, 0.1)', borderRadius: 2 }}>
+                  <Stack direction="row" spacing={1} alignItems="center" justifyContent="space-between">
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Chip label={SLASH_STATUS_LABELS[slash.status]} size="small" />
+                      <Typography variant="body2">{formatEther(slash.amount)} ETH</Typography>
+                    </Stack>
+                    {canDispute && (
+                      <Button size="small" onClick={() => setDisputeSlash(slash)}>Dispute</Button>
+                    )}
+                  </Stack>
+                  <Typography variant="body2" sx={{ mt: 1 }}>{slash.reason}</Typography>
+                  {slash.dispute && (
+                    <Typography variant="body2" color="text.secondary">Operator response: {slash.dispute}</Typography>
+                  )}
+                  <Typography variant="caption" color="text.secondary">
+                    Proposed {new Date(slash.proposedAt).toLocaleString()}
+                    {slash.status === SlashStatus.Pending && ` · dispute window closes ${new Date(slash.executableAt).toLocaleString()}`}
+                  </Typography>
+                </Box>
+              );
+            })}
+          </Stack>
+        </Box>
+      )}
+
+      <Dialog open={disputeSlash !== null} onClose={() => setDisputeSlash(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Dispute slash #{disputeSlash?.id}</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Your response"
+            value={disputeResponse}
+            onChange={event => setDisputeResponse(event.target.value)}
+            helperText="Recorded on-chain for admins to review before the slash is executed"
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDisputeSlash(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleDispute}
+            disabled={!disputeResponse.trim() || pendingAction !== null}
+          >
+            {pendingAction === 'dispute' ? <CircularProgress size={20} /> : 'Submit'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
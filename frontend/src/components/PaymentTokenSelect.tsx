@@ -0,0 +1,52 @@
+import React from 'react';
+import { MenuItem, Stack, TextField, Typography } from '@mui/material';
+import { formatUnits } from 'ethers';
+import { PaymentToken, TokenHolding } from '../services/SubscriptionServiceFactory';
+
+interface PaymentTokenSelectProps {
+  tokens: PaymentToken[];
+  // Token address, or '' for ETH
+  value: string;
+  onChange: (address: string) => void;
+  // Balance and allowance of the selected token; null while loading or for ETH
+  holding: TokenHolding | null;
+  disabled?: boolean;
+}
+
+export const PaymentTokenSelect: React.FC<PaymentTokenSelectProps> = ({ tokens, value, onChange, holding, disabled }) => {
+  const selected = tokens.find(token => token.address === value);
+
+  return (
+    <Stack spacing={1}>
+      <TextField
+        select
+        label="Pay with"
+        size="small"
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        disabled={disabled}
+      >
+        <MenuItem value="">ETH</MenuItem>
+        {tokens.map(token => (
+          <MenuItem key={token.address} value={token.address}>
+            {token.symbol}
+          </MenuItem>
+        ))}
+      </TextField>
+      {selected && holding && (
+        <>
+          <Typography variant="body2">
+            Balance: {formatUnits(holding.balance, selected.decimals)} {selected.symbol}
+            {' · '}
+            Allowance: {formatUnits(holding.allowance, selected.decimals)} {selected.symbol}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {selected.supportsPermit
+              ? 'You sign a permit for the plan price, so no separate approval transaction is needed.'
+              : 'If the allowance is below the plan price, an approval transaction is sent first.'}
+          </Typography>
+        </>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Slider,
+  Stack,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import BoltIcon from '@mui/icons-material/Bolt';
+import TuneIcon from '@mui/icons-material/Tune';
+import { useQuickConnect } from '../hooks/useQuickConnect';
+import { useVPNContext } from '../contexts/VPNContext';
+import { NodePriorities, StorageService } from '../services/StorageService';
+
+const PRIORITY_FIELDS: { key: keyof NodePriorities; label: string }[] = [
+  { key: 'latencyPriority', label: 'Low latency' },
+  { key: 'bandwidthPriority', label: 'Bandwidth' },
+  { key: 'reliabilityPriority', label: 'Reliability' }
+];
+
+interface QuickConnectProps {
+  // Called with the chosen node when the user needs a subscription first
+  onSubscriptionRequired: (nodeAddress: string) => void;
+  // Restricts the choice to these nodes, described by `scopeLabel` on the button
+  nodeAddresses?: string[];
+  scopeLabel?: string;
+}
+
+// Connects to the best node for this user in one click
+export const QuickConnect: React.FC<QuickConnectProps> = ({ onSubscriptionRequired, nodeAddresses, scopeLabel }) => {
+  const { quickConnect, status, candidate } = useQuickConnect();
+  const { isConnecting } = useVPNContext();
+  const [error, setError] = useState<string | null>(null);
+  const [prefsOpen, setPrefsOpen] = useState(false);
+  const [priorities, setPriorities] = useState<NodePriorities>(StorageService.getUserPreferences().priorities);
+
+  const handleQuickConnect = async () => {
+    setError(null);
+    try {
+      const { result, node } = await quickConnect(nodeAddresses);
+      if (result === 'subscription-required') {
+        onSubscriptionRequired(node.address);
+      }
+    } catch (err: any) {
+      console.error('Quick connect failed:', err);
+      setError(err.message || 'Quick connect failed');
+    }
+  };
+
+  const openPreferences = () => {
+    setPriorities(StorageService.getUserPreferences().priorities);
+    setPrefsOpen(true);
+  };
+
+  const handleSavePriorities = () => {
+    StorageService.saveUserPreferences({ priorities });
+    setPrefsOpen(false);
+  };
+
+  const busy = status !== 'idle' || isConnecting;
+  const progressLabel = status === 'ranking'
+    ? 'Finding the best node...'
+    : candidate
+      ? `Trying ${candidate.address.slice(0, 6)}...${candidate.address.slice(-4)}${candidate.latency !== null ? ` (${candidate.latency}ms)` : ''}`
+      : null;
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Button
+          variant="contained"
+          color="secondary"
+          startIcon={busy ? <CircularProgress size={16} color="inherit" /> : <BoltIcon />}
+          onClick={handleQuickConnect}
+          disabled={busy}
+        >
+          {scopeLabel ? `Quick Connect: ${scopeLabel}` : 'Quick Connect'}
+        </Button>
+        <Tooltip title="Quick connect preferences">
+          <IconButton onClick={openPreferences} disabled={busy} sx={{ color: 'white' }}>
+            <TuneIcon />
+          </IconButton>
+        </Tooltip>
+        {progressLabel && (
+          <Typography variant="body2" color="text.secondary">
+            {progressLabel}
+          </Typography>
+        )}
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Dialog open={prefsOpen} onClose={() => setPrefsOpen(false)}>
+        <DialogTitle>Quick Connect Preferences</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            How much each metric matters when picking a node. Favorite nodes get a bonus.
+          </Typography>
+          <Stack spacing={2} sx={{ minWidth: 300 }}>
+            {PRIORITY_FIELDS.map(({ key, label }) => (
+              <Box key={key}>
+                <Typography variant="body2" gutterBottom>
+                  {label}
+                </Typography>
+                <Slider
+                  value={priorities[key]}
+                  onChange={(_, value) => setPriorities({ ...priorities, [key]: value as number })}
+                  min={1}
+                  max={5}
+                  step={1}
+                  marks
+                  valueLabelDisplay="auto"
+                />
+              </Box>
+            ))}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPrefsOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSavePriorities}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ethers, formatEther } from 'ethers';
+import { useWeb3 } from '../context/Web3Context';
+import { RenewalQuote, SubscriptionPlan, SubscriptionServiceFactory } from '../services/SubscriptionServiceFactory';
+import { formatBandwidthTier, formatPlanDuration } from '../utils/subscription';
+
+interface RenewSubscriptionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onRenewed: () => void;
+  // Defaults to the token used for access
+  tokenId?: bigint;
+}
+
+const formatExpiry = (seconds: bigint): string => new Date(Number(seconds) * 1000).toLocaleString();
+
+// Confirms a renewal with the chosen plan, showing the new expiry before the wallet prompt
+export const RenewSubscriptionDialog: React.FC<RenewSubscriptionDialogProps> = ({ open, onClose, onRenewed, tokenId }) => {
+  const { account, provider, signer } = useWeb3();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  // Unset until the user picks one, so the quote starts with the token's current plan
+  const [planId, setPlanId] = useState<number | undefined>(undefined);
+  const [quote, setQuote] = useState<RenewalQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [renewing, setRenewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) setPlanId(undefined);
+  }, [open, tokenId]);
+
+  useEffect(() => {
+    if (!open || !account || !provider || !signer) return;
+    let cancelled = false;
+
+    const loadQuote = async () => {
+      setError(null);
+      setQuote(null);
+      setLoading(true);
+      try {
+        const service = await SubscriptionServiceFactory.getInstance(provider, signer as ethers.JsonRpcSigner);
+        const [renewal, allPlans] = await Promise.all([
+          service.getRenewalQuote(account, tokenId, planId),
+          service.getPlans()
+        ]);
+        if (cancelled) return;
+        if (!renewal) {
+          setError('You have no subscription to extend. Subscribe first.');
+        }
+        setPlans(allPlans);
+        // The token's plan may since have been taken off sale
+        const fallback = allPlans.find(plan => plan.active);
+        if (renewal && planId === undefined && !allPlans[renewal.planId]?.active && fallback) {
+          setPlanId(fallback.id);
+          return;
+        }
+        setQuote(renewal);
+      } catch (err) {
+        console.error('[Debug] Error loading renewal quote:', err);
+        if (!cancelled) setError('Failed to load your subscription. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, account, provider, signer, tokenId, planId]);
+
+  const handleRenew = async () => {
+    if (!quote || !provider || !signer) return;
+
+    setRenewing(true);
+    setError(null);
+    try {
+      const service = await SubscriptionServiceFactory.getInstance(provider, signer as ethers.JsonRpcSigner);
+      const tx = await service.renew(quote.tokenId, quote.planId);
+      await tx.wait();
+      console.log('[Debug] Subscription renewed until', formatExpiry(quote.newExpiry));
+      onRenewed();
+      onClose();
+    } catch (err: any) {
+      console.error('[Debug] Renewal error:', err);
+      if (err.message?.includes('insufficient funds')) {
+        setError('You do not have enough Sepolia ETH to extend the subscription.');
+      } else if (err.message?.includes('user rejected') || err.code === 'ACTION_REJECTED') {
+        setError('Transaction was rejected.');
+      } else {
+        setError(err.message || 'Failed to extend the subscription. Please try again.');
+      }
+    } finally {
+      setRenewing(false);
+    }
+  };
+
+  const isExpired = quote !== null && Number(quote.currentExpiry) * 1000 < Date.now();
+  const selectedPlan = quote ? plans[quote.planId] : undefined;
+  const planDuration = selectedPlan ? formatPlanDuration(selectedPlan.duration) : 'its duration';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={renewing ? undefined : onClose}
+      maxWidth="xs"
+      fullWidth
+      PaperProps={{
+        sx: {
+          backgroundColor: 'rgba(17, 25, 54, 0.95)',
+          backdropFilter: 'blur(10px)',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          color: 'white'
+        }
+      }}
+    >
+      <DialogTitle>Extend subscription{quote && ` #${quote.tokenId.toString()}`}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : quote && (
+          <Stack spacing={1.5}>
+            <TextField
+              select
+              label="Plan"
+              size="small"
+              value={quote.planId}
+              onChange={event => setPlanId(Number(event.target.value))}
+              disabled={renewing}
+            >
+              {plans
+                .filter(plan => plan.active || plan.id === quote.planId)
+                .map(plan => (
+                  <MenuItem key={plan.id} value={plan.id} disabled={!plan.active}>
+                    {formatPlanDuration(plan.duration)} - {formatEther(plan.price)} ETH
+                    {plan.bandwidthTier !== 0 && ` (${formatBandwidthTier(plan.bandwidthTier)})`}
+                  </MenuItem>
+                ))}
+            </TextField>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                {isExpired ? 'Expired on' : 'Currently expires'}
+              </Typography>
+              <Typography>{formatExpiry(quote.currentExpiry)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">New expiry</Typography>
+              <Typography variant="h6">{formatExpiry(quote.newExpiry)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Price</Typography>
+              <Typography>{formatEther(quote.price)} ETH + gas</Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+              {isExpired
+                ? 'Your subscription has lapsed, so the plan counts from when the transaction is mined.'
+                : `The plan adds ${planDuration} to your current expiry, so no time is lost by renewing early.`}
+            </Typography>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3 }}>
+        <Button onClick={onClose} disabled={renewing}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleRenew}
+          disabled={!quote || !selectedPlan?.active || loading || renewing}
+          startIcon={renewing && <CircularProgress size={20} color="inherit" />}
+        >
+          {renewing ? 'Extending...' : 'Confirm and sign'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Grid,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { formatEther, parseEther } from 'ethers';
+import { useWeb3 } from '../context/Web3Context';
+import {
+  stakingService,
+  NodeStake,
+  SlashRecord,
+  SlashStatus,
+  SLASH_STATUS_LABELS,
+  StakingParameters
+} from '../services/StakingService';
+import { shortenAddress } from '../utils/address';
+import { formatPlanDuration } from '../utils/subscription';
+
+interface SlashingPanelProps {
+  nodeAddresses: string[];
+}
+
+const STATUS_COLORS: Record<SlashStatus, 'warning' | 'error' | 'default'> = {
+  [SlashStatus.Pending]: 'warning',
+  [SlashStatus.Executed]: 'error',
+  [SlashStatus.Cancelled]: 'default'
+};
+
+// Admin view of node stakes: propose slashes and settle them once the dispute window closes
+export const SlashingPanel: React.FC<SlashingPanelProps> = ({ nodeAddresses }) => {
+  const { contract } = useWeb3();
+  const [parameters, setParameters] = useState<StakingParameters | null>(null);
+  const [stakes, setStakes] = useState<Record<string, NodeStake>>({});
+  const [slashes, setSlashes] = useState<SlashRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [slashNode, setSlashNode] = useState('');
+  const [slashAmount, setSlashAmount] = useState('');
+  const [slashReason, setSlashReason] = useState('');
+
+  const loadStaking = useCallback(async () => {
+    if (!contract) return;
+    setLoading(true);
+    try {
+      const [params, slashList, nodeStakes] = await Promise.all([
+        stakingService.getParameters(contract),
+        stakingService.getSlashes(contract),
+        Promise.all(nodeAddresses.map(address => stakingService.getNodeStake(contract, address)))
+      ]);
+      setParameters(params);
+      setSlashes(slashList);
+      setStakes(Object.fromEntries(nodeAddresses.map((address, index) => [address, nodeStakes[index]])));
+    } catch (err) {
+      console.error('[Debug] Error loading staking data:', err);
+      setError('Failed to load staking data');
+    } finally {
+      setLoading(false);
+    }
+  }, [contract, nodeAddresses]);
+
+  useEffect(() => {
+    loadStaking();
+  }, [loadStaking]);
+
+  const runTransaction = async (key: string, send: () => Promise<{ wait: () => Promise<unknown> }>, message: string) => {
+    setPendingAction(key);
+    setError(null);
+    try {
+      const tx = await send();
+      await tx.wait();
+      setSuccess(message);
+      await loadStaking();
+      return true;
+    } catch (err: any) {
+      console.error('[Debug] Staking transaction failed:', err);
+      setError(err.reason || err.message || 'Transaction failed');
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleProposeSlash = async () => {
+    if (!contract) return;
+    let amount: bigint;
+    try {
+      amount = parseEther(slashAmount);
+    } catch {
+      setError('Enter the slash amount in ETH');
+      return;
+    }
+    const proposed = await runTransaction(
+      'propose',
+      () => contract.proposeSlash(slashNode, amount, slashReason.trim()),
+      'Slash proposed. The operator can dispute it until the window closes.'
+    );
+    if (proposed) {
+      setSlashAmount('');
+      setSlashReason('');
+    }
+  };
+
+  const selectedStake = slashNode ? stakes[slashNode]?.stake : undefined;
+
+  return (
+    <Stack spacing={3}>
+      {error && <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>}
+      {success && <Alert severity="success" onClose={() => setSuccess(null)}>{success}</Alert>}
+
+      {parameters && (
+        <Typography variant="body2" color="text.secondary">
+          Minimum stake: {formatEther(parameters.minimumStake)} ETH · Dispute window:{' '}
+          {formatPlanDuration(BigInt(parameters.disputeWindow))} · Unbonding period:{' '}
+          {formatPlanDuration(BigInt(parameters.unbondingPeriod))}
+        </Typography>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Node Stakes</Typography>
+          {loading && Object.keys(stakes).length === 0 ? (
+            <Box display="flex" justifyContent="center" p={2}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Node</TableCell>
+                  <TableCell align="right">Stake</TableCell>
+                  <TableCell align="right">Pending Slashes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {nodeAddresses.map(address => (
+                  <TableRow key={address}>
+                    <TableCell>
+                      <Tooltip title={address}>
+                        <span>{shortenAddress(address)}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right">
+                      {stakes[address] ? `${formatEther(stakes[address].stake)} ETH` : '-'}
+                    </TableCell>
+                    <TableCell align="right">{stakes[address]?.pendingSlashes ?? '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Typography variant="h6" gutterBottom>Propose Slash</Typography>
+          <Stack spacing={2}>
+            <TextField
+              select
+              label="Node"
+              size="small"
+              value={slashNode}
+              onChange={event => setSlashNode(event.target.value)}
+            >
+              {nodeAddresses.map(address => (
+                <MenuItem key={address} value={address}>{address}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Amount (ETH)"
+              size="small"
+              value={slashAmount}
+              onChange={event => setSlashAmount(event.target.value)}
+              helperText={selectedStake !== undefined ? `Current stake: ${formatEther(selectedStake)} ETH` : undefined}
+            />
+            <TextField
+              label="Reason"
+              size="small"
+              multiline
+              minRows={2}
+              value={slashReason}
+              onChange={event => setSlashReason(event.target.value)}
+              helperText="Stored on-chain and shown to the operator"
+            />
+            <Button
+              variant="contained"
+              color="error"
+              onClick={handleProposeSlash}
+              disabled={!slashNode || !slashAmount || !slashReason.trim() || pendingAction !== null}
+            >
+              {pendingAction === 'propose' ? <CircularProgress size={20} /> : 'Propose Slash'}
+            </Button>
+          </Stack>
+        </Grid>
+      </Grid>
+
+      <Box>
+        <Typography variant="h6" gutterBottom>Slashes</Typography>
+        {slashes.length === 0 ? (
+          <Typography color="text.secondary">No slashes have been proposed.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>#</TableCell>
+                <TableCell>Node</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell>Operator Response</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {slashes.map(slash => {
+                const windowOpen = Date.now() < slash.executableAt;
+                return (
+                  <TableRow key={slash.id}>
+                    <TableCell>{slash.id}</TableCell>
+                    <TableCell>
+                      <Tooltip title={slash.nodeAddress}>
+                        <span>{shortenAddress(slash.nodeAddress)}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right">{formatEther(slash.amount)} ETH</TableCell>
+                    <TableCell>
+                      {slash.reason}
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        Proposed {new Date(slash.proposedAt).toLocaleString()} by {shortenAddress(slash.proposedBy)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{slash.dispute || '-'}</TableCell>
+                    <TableCell>
+                      <Chip label={SLASH_STATUS_LABELS[slash.status]} color={STATUS_COLORS[slash.status]} size="small" />
+                      {slash.status === SlashStatus.Pending && windowOpen && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Executable {new Date(slash.executableAt).toLocaleString()}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {slash.status === SlashStatus.Pending && contract && (
+                        <Stack direction="row" spacing={1} justifyContent="flex-end">
+                          <Button
+                            size="small"
+                            onClick={() => runTransaction(
+                              `cancel-${slash.id}`,
+                              () => contract.cancelSlash(slash.id),
+                              `Slash #${slash.id} cancelled`
+                            )}
+                            disabled={pendingAction !== null}
+                          >
+                            Cancel
+                          </Button>
+                          <Tooltip title={windowOpen ? 'The dispute window is still open' : ''}>
+                            <span>
+                              <Button
+                                size="small"
+                                color="error"
+                                variant="outlined"
+                                onClick={() => runTransaction(
+                                  `execute-${slash.id}`,
+                                  () => contract.executeSlash(slash.id),
+                                  `Slash #${slash.id} executed`
+                                )}
+                                disabled={windowOpen || pendingAction !== null}
+                              >
+                                Execute
+                              </Button>
+                            </span>
+                          </Tooltip>
+                        </Stack>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Box>
+    </Stack>
+  );
+};
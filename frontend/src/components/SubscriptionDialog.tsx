@@ -16,9 +16,17 @@ import {
   Paper
 } from '@mui/material';
 import { useWeb3 } from '../context/Web3Context';
-import { SubscriptionServiceFactory, ISubscriptionService } from '../services/SubscriptionServiceFactory';
+import {
+  SubscriptionServiceFactory,
+  ISubscriptionService,
+  PaymentToken,
+  SubscriptionPlan,
+  TokenHolding
+} from '../services/SubscriptionServiceFactory';
 import { SubscriptionPlans } from './SubscriptionPlans';
-import { ethers, formatEther } from 'ethers';
+import { PaymentTokenSelect } from './PaymentTokenSelect';
+import { RenewSubscriptionDialog } from './RenewSubscriptionDialog';
+import { ethers, ContractTransactionResponse, formatUnits } from 'ethers';
 
 interface SubscriptionDialogProps {
   open: boolean;
@@ -60,12 +68,20 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
   const { account, isConnected, isAdmin, isSuperAdmin, provider, signer } = useWeb3();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [fee, setFee] = useState<string>('0');
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [paymentTokens, setPaymentTokens] = useState<PaymentToken[]>([]);
+  // Token address, or '' to pay in ETH
+  const [paymentTokenAddress, setPaymentTokenAddress] = useState('');
+  const [tokenHolding, setTokenHolding] = useState<TokenHolding | null>(null);
+  // Progress of a multi-step token payment, shown under the spinner
+  const [paymentStep, setPaymentStep] = useState<string | null>(null);
   const [subscriptionService, setSubscriptionService] = useState<ISubscriptionService | null>(null);
   const [tabValue, setTabValue] = useState(0);
   const [hasActiveSubscription, setHasActiveSubscription] = useState(false);
   const [subscriptionEndTime, setSubscriptionEndTime] = useState<Date | null>(null);
   const [refundAvailable, setRefundAvailable] = useState(false);
+  const [canRenew, setCanRenew] = useState(false);
+  const [showRenewDialog, setShowRenewDialog] = useState(false);
 
   // Initialize service and check subscription status
   useEffect(() => {
@@ -102,16 +118,25 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
             setSubscriptionEndTime(endTime);
             
             // Check if refund is available (within 24 hours of subscription start)
-            const SUBSCRIPTION_DURATION = 30 * 24 * 60 * 60; // 30 days in seconds
-            const timeSinceSubscription = SUBSCRIPTION_DURATION - remainingTime;
-            setRefundAvailable(timeSinceSubscription <= 24 * 60 * 60); // Less than 24 hours since subscription
+            const startTime = await service.getSubscriptionStartTime(account, '');
+            const timeSinceSubscription = Math.floor(Date.now() / 1000) - Number(startTime);
+            setRefundAvailable(startTime > BigInt(0) && timeSinceSubscription <= 24 * 60 * 60); // Less than 24 hours since subscription
           }
 
-          // Get subscription fee for non-admins
-          const price = await service.getSubscriptionFee();
-          console.log('[Debug] Subscription price:', price, 'ETH');
-          // Convert bigint price to ETH string representation
-          setFee(formatEther(price));
+          // Users whose subscription lapsed extend their existing NFT rather than minting another
+          setCanRenew((await service.getRenewalQuote(account)) !== null);
+
+          // Get the plans on sale for non-admins
+          const availablePlans = await service.getPlans();
+          console.log('[Debug] Subscription plans:', availablePlans);
+          setPlans(availablePlans);
+
+          // Token payments are optional, so a failure here leaves ETH as the only option
+          try {
+            setPaymentTokens(await service.getPaymentTokens());
+          } catch (tokenError) {
+            console.error('[Debug] Error loading payment tokens:', tokenError);
+          }
         }
       } catch (err) {
         console.error('[Debug] Error initializing service:', err);
@@ -129,7 +154,58 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
     }
   }, [open, isConnected, account, isAdmin, isSuperAdmin, provider, signer]);
 
-  const handleSubscribe = async () => {
+  const paymentToken = paymentTokens.find(token => token.address === paymentTokenAddress) || null;
+
+  useEffect(() => {
+    setTokenHolding(null);
+    if (!paymentTokenAddress || !account || !subscriptionService) return;
+    let cancelled = false;
+
+    subscriptionService
+      .getTokenHolding(paymentTokenAddress, account)
+      .then(holding => {
+        if (!cancelled) setTokenHolding(holding);
+      })
+      .catch(err => console.error('[Debug] Error loading token balance:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [paymentTokenAddress, account, subscriptionService]);
+
+  // Permit tokens need one signature and one transaction; others may need an approval first
+  const payWithToken = async (
+    service: ISubscriptionService,
+    token: PaymentToken,
+    planId: number
+  ): Promise<ContractTransactionResponse> => {
+    const price = token.prices[planId];
+    const amount = `${formatUnits(price, token.decimals)} ${token.symbol}`;
+    const holding = await service.getTokenHolding(token.address, account!);
+    if (holding.balance < price) {
+      throw new Error(`You need ${amount} for this plan.`);
+    }
+
+    let tx: ContractTransactionResponse;
+    if (token.supportsPermit) {
+      setPaymentStep(`Sign the permit for ${amount} in your wallet...`);
+      tx = await service.subscribeWithPermit(planId, token.address);
+    } else {
+      if (holding.allowance < price) {
+        setPaymentStep(`Step 1 of 2: approve ${amount}...`);
+        const approval = await service.approveToken(token.address, price);
+        await approval.wait();
+        setTokenHolding(await service.getTokenHolding(token.address, account!));
+        setPaymentStep('Step 2 of 2: subscribe...');
+      }
+      tx = await service.subscribeWithToken(planId, token.address);
+    }
+
+    setPaymentStep('Waiting for confirmation...');
+    await tx.wait();
+    return tx;
+  };
+
+  const handleSubscribe = async (planId: number) => {
     if (!account) {
       setError('Please connect your wallet first');
       return;
@@ -145,7 +221,9 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
 
     try {
       console.log('[Debug] Starting subscription process...');
-      const success = await subscriptionService.subscribe();
+      const success = paymentToken
+        ? await payWithToken(subscriptionService, paymentToken, planId)
+        : await subscriptionService.subscribe(planId);
       if (success) {
         console.log('[Debug] Subscription successful');
         setHasActiveSubscription(true);
@@ -166,6 +244,7 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
         setError(error.message || 'Failed to subscribe. Please try again.');
       }
     } finally {
+      setPaymentStep(null);
       setLoading(false);
     }
   };
@@ -233,9 +312,14 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
         )}
         
         {loading ? (
-          <Box display="flex" justifyContent="center" p={3}>
+          <Stack alignItems="center" spacing={2} p={3}>
             <CircularProgress />
-          </Box>
+            {paymentStep && (
+              <Typography variant="body2" color="text.secondary">
+                {paymentStep}
+              </Typography>
+            )}
+          </Stack>
         ) : isAdmin || isSuperAdmin ? (
           <Stack spacing={2}>
             <Alert severity="info">
@@ -251,6 +335,9 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
               You have an active subscription
               {subscriptionEndTime && ` until ${subscriptionEndTime.toLocaleDateString()}`}
             </Alert>
+            <Button variant="contained" onClick={() => setShowRenewDialog(true)} disabled={loading}>
+              Extend subscription
+            </Button>
             {refundAvailable && (
               <>
                 <Divider sx={{ borderColor: 'rgba(255, 255, 255, 0.1)' }} />
@@ -268,11 +355,33 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
               </>
             )}
           </Stack>
+        ) : canRenew ? (
+          <Stack spacing={2}>
+            <Alert severity="warning">Your subscription has expired.</Alert>
+            <Typography variant="body2" color="text.secondary">
+              Extend your existing subscription with any available plan. You will see the new expiry before signing.
+            </Typography>
+            <Button variant="contained" onClick={() => setShowRenewDialog(true)} disabled={loading}>
+              Extend subscription
+            </Button>
+          </Stack>
         ) : (
-          <SubscriptionPlans
-            onSubscribe={handleSubscribe}
-            subscriptionFee={fee}
-          />
+          <Stack spacing={2}>
+            {paymentTokens.length > 0 && (
+              <PaymentTokenSelect
+                tokens={paymentTokens}
+                value={paymentTokenAddress}
+                onChange={setPaymentTokenAddress}
+                holding={tokenHolding}
+                disabled={loading}
+              />
+            )}
+            <SubscriptionPlans
+              plans={plans}
+              paymentToken={paymentToken}
+              onSubscribe={handleSubscribe}
+            />
+          </Stack>
         )}
       </DialogContent>
 
@@ -281,6 +390,15 @@ export const SubscriptionDialog: React.FC<SubscriptionDialogProps> = ({
           Close
         </Button>
       </DialogActions>
+
+      <RenewSubscriptionDialog
+        open={showRenewDialog}
+        onClose={() => setShowRenewDialog(false)}
+        onRenewed={() => {
+          setHasActiveSubscription(true);
+          onSubscribed();
+        }}
+      />
     </Dialog>
   );
 }; 
\ No newline at end of file
@@ -14,132 +14,159 @@ import {
   useTheme,
 } from '@mui/material';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import { ethers } from 'ethers';
+import { formatEther, formatUnits } from 'ethers';
+import { PaymentToken, SubscriptionPlan } from '../services/SubscriptionServiceFactory';
+import { formatBandwidthTier, formatPlanDuration } from '../utils/subscription';
 
 interface PlanFeature {
   text: string;
   included: boolean;
 }
 
-interface SubscriptionPlan {
-  title: string;
-  price: string;
-  duration: string;
-  features: PlanFeature[];
-}
-
 interface SubscriptionPlansProps {
-  onSubscribe: () => void;
-  subscriptionFee: string;
+  // As read from the contract; inactive plans are not shown
+  plans: SubscriptionPlan[];
+  // Prices are shown in this token instead of ETH, and plans it doesn't price are hidden
+  paymentToken?: PaymentToken | null;
+  onSubscribe: (planId: number) => void;
 }
 
 const features: PlanFeature[] = [
   { text: 'Access to all VPN nodes', included: true },
-  { text: 'High speed and bandwidth', included: true },
   { text: 'Priority support', included: true },
   { text: 'Node registration capability', included: true },
-  { text: '30-day subscription duration', included: true },
   { text: '24/7 network access', included: true },
 ];
 
 export const SubscriptionPlans: React.FC<SubscriptionPlansProps> = ({
+  plans,
+  paymentToken,
   onSubscribe,
-  subscriptionFee,
 }) => {
   const theme = useTheme();
+  const priceOf = (plan: SubscriptionPlan): bigint =>
+    paymentToken ? paymentToken.prices[plan.id] : plan.price;
+  const formatPrice = (plan: SubscriptionPlan): string =>
+    paymentToken ? formatUnits(priceOf(plan), paymentToken.decimals) : formatEther(plan.price);
+  // Compares price per second without leaving bigint arithmetic
+  const isCheaperPerSecond = (a: SubscriptionPlan, b: SubscriptionPlan): boolean =>
+    priceOf(a) * b.duration < priceOf(b) * a.duration;
+
+  const available = plans.filter(plan => plan.active && (!paymentToken || plan.id in paymentToken.prices));
+  const bestValue = available.length > 1
+    ? available.reduce((best, plan) => (isCheaperPerSecond(plan, best) ? plan : best))
+    : null;
+
+  if (available.length === 0) {
+    return (
+      <Typography align="center" color="text.secondary" sx={{ py: 4 }}>
+        {paymentToken
+          ? `No plans can be paid in ${paymentToken.symbol} right now. Pick another payment option.`
+          : 'No subscription plans are on sale right now. Please check back later.'}
+      </Typography>
+    );
+  }
 
   return (
     <Box sx={{ py: 4 }}>
       <Typography variant="h4" align="center" gutterBottom>
-        VPN Subscription Plan
+        VPN Subscription Plans
       </Typography>
       <Typography variant="body1" align="center" color="text.secondary" sx={{ mb: 6 }}>
-        Get unlimited access to our decentralized VPN network
+        Get access to our decentralized VPN network
       </Typography>
 
-      <Grid container justifyContent="center">
-        <Grid item xs={12} sm={8} md={6}>
-          <Card
-            sx={{
-              height: '100%',
-              display: 'flex',
-              flexDirection: 'column',
-              position: 'relative',
-              transition: 'transform 0.2s ease-in-out',
-              '&:hover': {
-                transform: 'translateY(-8px)',
-              },
-              borderColor: 'primary.main',
-              borderWidth: 2,
-              borderStyle: 'solid',
-              background: 'linear-gradient(45deg, rgba(156, 39, 176, 0.05), rgba(124, 77, 255, 0.05))',
-              backdropFilter: 'blur(10px)',
-            }}
-          >
-            <Box
+      <Grid container justifyContent="center" spacing={3}>
+        {available.map(plan => (
+          <Grid item xs={12} sm={available.length === 1 ? 8 : 6} md={available.length === 1 ? 6 : 4} key={plan.id}>
+            <Card
               sx={{
-                position: 'absolute',
-                top: 16,
-                right: 16,
-                backgroundColor: 'primary.main',
-                color: 'white',
-                px: 2,
-                py: 0.5,
-                borderRadius: 1,
+                height: '100%',
+                display: 'flex',
+                flexDirection: 'column',
+                position: 'relative',
+                transition: 'transform 0.2s ease-in-out',
+                '&:hover': {
+                  transform: 'translateY(-8px)',
+                },
+                borderColor: plan === bestValue || !bestValue ? 'primary.main' : 'rgba(255, 255, 255, 0.1)',
+                borderWidth: 2,
+                borderStyle: 'solid',
+                background: 'linear-gradient(45deg, rgba(156, 39, 176, 0.05), rgba(124, 77, 255, 0.05))',
+                backdropFilter: 'blur(10px)',
               }}
             >
-              Best Value
-            </Box>
+              {plan === bestValue && (
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: 16,
+                    right: 16,
+                    backgroundColor: 'primary.main',
+                    color: 'white',
+                    px: 2,
+                    py: 0.5,
+                    borderRadius: 1,
+                  }}
+                >
+                  Best Value
+                </Box>
+              )}
 
-            <CardContent sx={{ flexGrow: 1 }}>
-              <Typography variant="h5" component="div" gutterBottom>
-                Standard Plan
-              </Typography>
-              <Box sx={{ display: 'flex', alignItems: 'baseline', mb: 2 }}>
-                <Typography variant="h3" component="span">
-                  {subscriptionFee}
-                </Typography>
-                <Typography variant="subtitle1" component="span" sx={{ ml: 1 }}>
-                  ETH / 30 days
+              <CardContent sx={{ flexGrow: 1 }}>
+                <Typography variant="h5" component="div" gutterBottom>
+                  {formatPlanDuration(plan.duration)}
                 </Typography>
-              </Box>
+                <Box sx={{ display: 'flex', alignItems: 'baseline', mb: 2 }}>
+                  <Typography variant="h3" component="span">
+                    {formatPrice(plan)}
+                  </Typography>
+                  <Typography variant="subtitle1" component="span" sx={{ ml: 1 }}>
+                    {paymentToken ? paymentToken.symbol : 'ETH'}
+                  </Typography>
+                </Box>
 
-              <List>
-                {features.map((feature, index) => (
-                  <ListItem key={index} sx={{ px: 0 }}>
-                    <ListItemIcon>
-                      <CheckCircleIcon color="primary" />
-                    </ListItemIcon>
-                    <ListItemText
-                      primary={feature.text}
-                      sx={{
-                        color: 'text.primary',
-                      }}
-                    />
-                  </ListItem>
-                ))}
-              </List>
-            </CardContent>
+                <List>
+                  {[
+                    { text: `${formatPlanDuration(plan.duration)} of access`, included: true },
+                    { text: formatBandwidthTier(plan.bandwidthTier), included: true },
+                    ...features
+                  ].map((feature, index) => (
+                    <ListItem key={index} sx={{ px: 0 }}>
+                      <ListItemIcon>
+                        <CheckCircleIcon color="primary" />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={feature.text}
+                        sx={{
+                          color: 'text.primary',
+                        }}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </CardContent>
 
-            <CardActions sx={{ p: 2, pt: 0 }}>
-              <Button
-                variant="contained"
-                fullWidth
-                size="large"
-                onClick={onSubscribe}
-                sx={{
-                  py: 1.5,
-                  background: 'linear-gradient(45deg, #9c27b0, #7c4dff)',
-                  '&:hover': {
-                    background: 'linear-gradient(45deg, #7b1fa2, #6c3fd1)',
-                  },
-                }}
-              >
-                Subscribe Now
-              </Button>
-            </CardActions>
-          </Card>
-        </Grid>
+              <CardActions sx={{ p: 2, pt: 0 }}>
+                <Button
+                  variant="contained"
+                  fullWidth
+                  size="large"
+                  onClick={() => onSubscribe(plan.id)}
+                  sx={{
+                    py: 1.5,
+                    background: 'linear-gradient(45deg, #9c27b0, #7c4dff)',
+                    '&:hover': {
+                      background: 'linear-gradient(45deg, #7b1fa2, #6c3fd1)',
+                    },
+                  }}
+                >
+                  Subscribe Now
+                </Button>
+              </CardActions>
+            </Card>
+          </Grid>
+        ))}
       </Grid>
     </Box>
   );
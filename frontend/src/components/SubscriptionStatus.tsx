@@ -13,7 +13,8 @@ import AccountBalanceWalletIcon from '@mui/icons-material/AccountBalanceWallet';
 import { useWeb3 } from '../context/Web3Context';
 import { SubscriptionServiceFactory, ISubscriptionService } from '../services/SubscriptionServiceFactory';
 import { ConnectButton } from './ConnectButton';
-import { ethers } from 'ethers';
+import { RenewSubscriptionDialog } from './RenewSubscriptionDialog';
+import { ethers, formatEther } from 'ethers';
 
 export const SubscriptionStatus: React.FC = () => {
   const { account, isConnected, connectWallet, subscriptionContract, isAdmin, isSuperAdmin, provider, signer } = useWeb3();
@@ -24,6 +25,10 @@ export const SubscriptionStatus: React.FC = () => {
   const [subscriptionFee, setSubscriptionFee] = useState<string>('0');
   const [subscriptionService, setSubscriptionService] = useState<ISubscriptionService | null>(null);
   const [debugInfo, setDebugInfo] = useState<any>(null);
+  // A lapsed subscription NFT can still be renewed instead of minting a new one
+  const [canRenew, setCanRenew] = useState(false);
+  const [showRenewDialog, setShowRenewDialog] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
 
   // Initialize subscription service
   useEffect(() => {
@@ -79,6 +84,7 @@ export const SubscriptionStatus: React.FC = () => {
           console.log('[Debug] Remaining time:', remainingTimeValue);
           setRemainingTime(remainingTimeValue);
         }
+        setCanRenew((await subscriptionService.getRenewalQuote(account)) !== null);
 
         // Gather debug info
         const debug = {
@@ -103,7 +109,7 @@ export const SubscriptionStatus: React.FC = () => {
     if (isConnected && account) {
       checkSubscription();
     }
-  }, [isConnected, account, subscriptionService, isAdmin, isSuperAdmin]);
+  }, [isConnected, account, subscriptionService, isAdmin, isSuperAdmin, refreshCount]);
 
   const handleSubscribe = async () => {
     if (!subscriptionService || !account) return;
@@ -113,17 +119,21 @@ export const SubscriptionStatus: React.FC = () => {
       setLoading(true);
       console.log('[Debug] Starting subscription process...');
       
-      // Get subscription fee first to show user
-      const fee = await subscriptionService.getSubscriptionFee();
-      setSubscriptionFee(fee.toString());
+      // Quick subscribe buys the first plan on sale; the dialog offers the full choice
+      const plan = (await subscriptionService.getPlans()).find(candidate => candidate.active);
+      if (!plan) {
+        throw new Error('No subscription plans are on sale right now');
+      }
+      setSubscriptionFee(formatEther(plan.price));
       
       // Attempt to subscribe
-      await subscriptionService.subscribe();
+      await subscriptionService.subscribe(plan.id);
       console.log('[Debug] Subscription successful');
       
       // Refresh status after subscribing
       const hasActiveSubscription = await subscriptionService.checkSubscription(account);
       setHasSubscription(hasActiveSubscription);
+      setCanRenew(hasActiveSubscription);
       
       if (hasActiveSubscription) {
         const remaining = await subscriptionService.getRemainingTime(account);
@@ -145,6 +155,7 @@ export const SubscriptionStatus: React.FC = () => {
       setLoading(true);
       await subscriptionService.cancelSubscription();
       setHasSubscription(false);
+      setCanRenew(false);
       setRemainingTime(0);
     } catch (err: any) {
       setError(err.message || 'Failed to cancel subscription');
@@ -247,7 +258,17 @@ export const SubscriptionStatus: React.FC = () => {
               Make sure you have enough Sepolia ETH for the subscription fee and gas costs.
             </Typography>
             
-            <Box sx={{ mt: 2 }}>
+            <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
+              {canRenew && (
+                <Button
+                  variant="outlined"
+                  color="primary"
+                  onClick={() => setShowRenewDialog(true)}
+                  disabled={loading}
+                >
+                  Extend subscription
+                </Button>
+              )}
               {!hasSubscription ? (
                 <Button
                   variant="contained"
@@ -276,6 +297,12 @@ export const SubscriptionStatus: React.FC = () => {
       
       <Divider sx={{ my: 2 }} />
       
+      <RenewSubscriptionDialog
+        open={showRenewDialog}
+        onClose={() => setShowRenewDialog(false)}
+        onRenewed={() => setRefreshCount(count => count + 1)}
+      />
+
       {/* Connect Button with Countdown */}
       <ConnectButton hasSubscription={hasSubscription || isAdmin || isSuperAdmin} />
 
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography
+} from '@mui/material';
+import LinkIcon from '@mui/icons-material/Link';
+import { webSocketService } from '../services/WebSocketService';
+import { useTrayStatus } from '../hooks/useTrayStatus';
+import { TunnelState } from '../types/trayRpc';
+
+const TUNNEL_LABELS: Record<TunnelState, { label: string; color: 'default' | 'success' | 'warning' | 'error' }> = {
+  disconnected: { label: 'Tunnel down', color: 'default' },
+  connecting: { label: 'Tunnel connecting', color: 'warning' },
+  connected: { label: 'Tunnel up', color: 'success' },
+  disconnecting: { label: 'Tunnel disconnecting', color: 'warning' },
+  error: { label: 'Tunnel error', color: 'error' }
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Shows what the tray app reports about the tunnel, and pairs this browser
+// with it when needed
+export const TrayStatus: React.FC = () => {
+  const { connectionState, status } = useTrayStatus();
+  const [pairDialogOpen, setPairDialogOpen] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [pairing, setPairing] = useState(false);
+  const [pairError, setPairError] = useState<string | null>(null);
+
+  const handlePair = async () => {
+    setPairing(true);
+    setPairError(null);
+    try {
+      await webSocketService.pair(pairingCode);
+      setPairDialogOpen(false);
+      setPairingCode('');
+    } catch (error: any) {
+      setPairError(error.message || 'Pairing failed');
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  if (connectionState === 'unavailable') {
+    return (
+      <Alert
+        severity="warning"
+        action={
+          <Button color="inherit" size="small" onClick={() => webSocketService.watch()}>
+            Retry
+          </Button>
+        }
+      >
+        The VPN Tray App is not running. Start it to connect to a node.
+      </Alert>
+    );
+  }
+
+  return (
+    <>
+      {connectionState === 'unpaired' ? (
+        <Alert
+          severity="info"
+          action={
+            <Button color="inherit" size="small" startIcon={<LinkIcon />} onClick={() => setPairDialogOpen(true)}>
+              Pair
+            </Button>
+          }
+        >
+          Pair this browser with the VPN Tray App to control your tunnel.
+        </Alert>
+      ) : (
+        <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+          <Chip
+            label={status ? TUNNEL_LABELS[status.state].label : 'Tunnel status unknown'}
+            color={status ? TUNNEL_LABELS[status.state].color : 'default'}
+            size="small"
+          />
+          {status?.tunnel && (
+            <Typography variant="body2" color="text.secondary">
+              {status.tunnel}{status.address ? ` · ${status.address}` : ''}
+            </Typography>
+          )}
+          {status?.state === 'connected' && status.rxBytes !== undefined && status.txBytes !== undefined && (
+            <Typography variant="body2" color="text.secondary">
+              ↓ {formatBytes(status.rxBytes)} ↑ {formatBytes(status.txBytes)}
+            </Typography>
+          )}
+          {status?.error && (
+            <Typography variant="body2" color="error">
+              {status.error}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      <Dialog open={pairDialogOpen} onClose={() => !pairing && setPairDialogOpen(false)}>
+        <DialogTitle>Pair with VPN Tray App</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Open the tray app menu and choose "Pair browser". Enter the one-time code it shows.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Pairing code"
+            value={pairingCode}
+            onChange={(e) => setPairingCode(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && pairingCode.trim()) handlePair();
+            }}
+            disabled={pairing}
+          />
+          {pairError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {pairError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPairDialogOpen(false)} disabled={pairing}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handlePair}
+            disabled={pairing || !pairingCode.trim()}
+            startIcon={pairing ? <CircularProgress size={16} /> : undefined}
+          >
+            Pair
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
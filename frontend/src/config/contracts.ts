@@ -21,8 +21,13 @@ const RPC_URLS = {
 
 // VPN Subscription contract interface
 export interface VPNSubscriptionContract {
-  SUBSCRIPTION_DURATION(): Promise<bigint>;
-  SUBSCRIPTION_PRICE(): Promise<bigint>;
+  planCount(): Promise<bigint>;
+  getPlan(planId: bigint): Promise<{
+    price: bigint;
+    duration: bigint;
+    bandwidthTier: bigint;
+    active: boolean;
+  }>;
   getRemainingTime(user: string): Promise<bigint>;
   hasActiveSubscription(user: string): Promise<boolean>;
   getSubscriptionExpiry(tokenId: bigint): Promise<bigint>;
@@ -65,15 +70,26 @@ export const VPN_SUBSCRIPTION_ABI = [
     },
     {
         "inputs": [],
-        "name": "SUBSCRIPTION_DURATION",
+        "name": "planCount",
         "outputs": [{"name": "", "type": "uint256"}],
         "stateMutability": "view",
         "type": "function"
     },
     {
-        "inputs": [],
-        "name": "SUBSCRIPTION_PRICE",
-        "outputs": [{"name": "", "type": "uint256"}],
+        "inputs": [{"name": "planId", "type": "uint256"}],
+        "name": "getPlan",
+        "outputs": [
+            {
+                "components": [
+                    {"name": "price", "type": "uint256"},
+                    {"name": "duration", "type": "uint256"},
+                    {"name": "bandwidthTier", "type": "uint8"},
+                    {"name": "active", "type": "bool"}
+                ],
+                "name": "",
+                "type": "tuple"
+            }
+        ],
         "stateMutability": "view",
         "type": "function"
     },
@@ -142,11 +158,13 @@ interface ContractAddresses {
   };
 }
 
+// Set from the output of scripts/deploy.js. The ABIs above do not match the
+// contracts deployed before revenue sharing, so those addresses are not usable.
 const CONTRACT_ADDRESSES: ContractAddresses = {
   // Sepolia testnet
   '11155111': {
-    VPNRegistry: '0x103F744c4d064223AA0c6986d2465396F4F3e394',
-    VPNSubscription: '0x516Fa3Ea215c372696e6D291F00f251f49904439'
+    VPNRegistry: process.env.REACT_APP_VPN_REGISTRY_SEPOLIA || '',
+    VPNSubscription: process.env.REACT_APP_VPN_SUBSCRIPTION_SEPOLIA || ''
   },
   // Mainnet (when ready)
   '1': {
@@ -167,6 +185,17 @@ export const getContractAddress = (chainId: string, contractName: keyof Contract
   return address;
 };
 
+// Blocks the contracts above were deployed at. Event scans start here instead
+// of genesis, which most RPC providers reject or rate-limit on public networks.
+const DEPLOYMENT_BLOCKS: { [chainId: string]: number } = {
+  '11155111': parseInt(process.env.REACT_APP_DEPLOYMENT_BLOCK_SEPOLIA || '0'),
+  '1': parseInt(process.env.REACT_APP_DEPLOYMENT_BLOCK_MAINNET || '0')
+};
+
+export const getDeploymentBlock = (chainId: string): number => {
+  return DEPLOYMENT_BLOCKS[chainId] || 0;
+};
+
 export const isValidNetwork = (chainId: string): boolean => {
   return Object.keys(CONTRACT_ADDRESSES).includes(chainId);
 };
@@ -183,6 +212,14 @@ export const getNetworkName = (chainId: string): string => {
   return networkNames[chainId] || 'Unknown Network';
 };
 
+export const getExplorerUrl = (chainId: string): string | null => {
+  const explorers: { [key: string]: string } = {
+    '1': 'https://etherscan.io',
+    '11155111': 'https://sepolia.etherscan.io'
+  };
+  return explorers[chainId] || null;
+};
+
 // Get provider instance
 export const getProvider = () => {
   const network = NETWORK === 'mainnet' ? 'mainnet' : 'sepolia';
@@ -0,0 +1,183 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useVPNContext, VPNConnectError, VPNProvider, vpnReducer, VPNState } from './VPNContext';
+import { vpnConnectionService } from '../services/VPNConnectionService';
+import { StorageService } from '../services/StorageService';
+
+jest.mock('../context/Web3Context', () => {
+  // An admin, so connecting skips the subscription check. The same object on
+  // every render, as the real context keeps its signer.
+  const web3 = { account: '0xuser', signer: {}, subscriptionContract: null, isAdmin: true, isSuperAdmin: false };
+  return { useWeb3: () => web3 };
+});
+jest.mock('../hooks/useTrayStatus', () => ({ useTrayStatus: () => ({ status: null }) }));
+jest.mock('../services/ApiSessionService', () => ({ apiSessionService: { getToken: async () => 'session-token' } }));
+jest.mock('../services/VPNConnectionService', () => ({
+  vpnConnectionService: {
+    provisionPeer: jest.fn(),
+    activateTunnel: jest.fn(),
+    deactivateTunnel: jest.fn(),
+    removePeer: jest.fn()
+  }
+}));
+
+const service = vpnConnectionService as jest.Mocked<typeof vpnConnectionService>;
+const node = { address: '0xnode', ipAddress: '203.0.113.7' };
+const peer = { config: '[Interface]', tunnelName: 'dvpn', address: '10.0.0.2/32' };
+
+const IDLE: VPNState = { phase: 'idle', node: null, userAddress: null, connectedAt: null, error: null, failedPhase: null };
+
+describe('vpnReducer', () => {
+  const run = (...actions: Parameters<typeof vpnReducer>[1][]) => actions.reduce(vpnReducer, IDLE);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('walks a connection through every phase', () => {
+    const connected = run(
+      { type: 'start', node, userAddress: '0xuser' },
+      { type: 'advance', phase: 'provisioning' },
+      { type: 'advance', phase: 'activating' },
+      { type: 'advance', phase: 'connected' }
+    );
+
+    expect(connected).toMatchObject({ phase: 'connected', node, userAddress: '0xuser', error: null });
+    expect(connected.connectedAt).toEqual(expect.any(Number));
+    expect(run({ type: 'start', node, userAddress: '0xuser' }, { type: 'reset' })).toEqual(IDLE);
+  });
+
+  test('records the phase that failed and clears it on disconnect', () => {
+    const failed = run(
+      { type: 'start', node, userAddress: '0xuser' },
+      { type: 'advance', phase: 'provisioning' },
+      { type: 'advance', phase: 'activating' },
+      { type: 'fail', error: 'tray app offline' }
+    );
+    expect(failed).toMatchObject({ phase: 'error', error: 'tray app offline', failedPhase: 'activating', node });
+
+    expect(vpnReducer(failed, { type: 'disconnect' })).toMatchObject({
+      phase: 'disconnecting',
+      error: null,
+      failedPhase: null,
+      node
+    });
+  });
+
+  test('ignores transitions the current phase does not allow', () => {
+    const provisioning = run({ type: 'start', node, userAddress: '0xuser' }, { type: 'advance', phase: 'provisioning' });
+
+    expect(vpnReducer(IDLE, { type: 'advance', phase: 'connected' })).toBe(IDLE);
+    expect(vpnReducer(IDLE, { type: 'disconnect' })).toBe(IDLE);
+    expect(vpnReducer(provisioning, { type: 'advance', phase: 'connected' })).toBe(provisioning);
+    expect(vpnReducer(provisioning, { type: 'start', node, userAddress: '0xother' })).toBe(provisioning);
+    expect(console.warn).toHaveBeenCalledWith('Ignoring VPN transition provisioning -> connected');
+  });
+
+  test('starts a new attempt from an error with a clean slate', () => {
+    const failed = run({ type: 'start', node, userAddress: '0xuser' }, { type: 'fail', error: 'no subscription check' });
+    const other = { address: '0xother', ipAddress: '198.51.100.1' };
+
+    expect(vpnReducer(failed, { type: 'start', node: other, userAddress: '0xuser' })).toEqual({
+      ...IDLE,
+      phase: 'checking-subscription',
+      node: other,
+      userAddress: '0xuser'
+    });
+  });
+});
+
+describe('VPNProvider', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <VPNProvider>{children}</VPNProvider>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    jest.resetAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    service.provisionPeer.mockResolvedValue(peer);
+    service.activateTunnel.mockResolvedValue({ state: 'connected' } as never);
+    service.deactivateTunnel.mockResolvedValue({ state: 'disconnected' } as never);
+    service.removePeer.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('connects and remembers the connection across reloads', async () => {
+    const { result } = renderHook(() => useVPNContext(), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.connect(node)).resolves.toBe('connected');
+    });
+
+    expect(result.current.connectedNodeAddress).toBe(node.address);
+    expect(service.provisionPeer).toHaveBeenCalledWith(node.address, node.ipAddress, '0xuser', 'session-token');
+    expect(StorageService.getVPNConnection()).toMatchObject({ phase: 'connected', node, userAddress: '0xuser' });
+  });
+
+  test('removes the peer again when the tunnel does not come up', async () => {
+    service.activateTunnel.mockRejectedValue(new Error('tray app offline'));
+    const { result } = renderHook(() => useVPNContext(), { wrapper });
+
+    let error: unknown;
+    await act(async () => {
+      error = await result.current.connect(node).catch(caught => caught);
+    });
+
+    expect(error).toBeInstanceOf(VPNConnectError);
+    expect((error as VPNConnectError).phase).toBe('activating');
+    expect(service.removePeer).toHaveBeenCalledWith(node.ipAddress, '0xuser', 'session-token');
+    expect(result.current.phase).toBe('error');
+    expect(result.current.error).toBe('The tray app could not start the tunnel: tray app offline');
+
+    // The tray app may have half started the tunnel, so clearing the error stops it
+    await act(async () => {
+      result.current.clearError();
+    });
+    await waitFor(() => expect(result.current.phase).toBe('idle'));
+    expect(service.deactivateTunnel).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not touch the tray app when clearing a provisioning failure', async () => {
+    service.provisionPeer.mockRejectedValue(new Error('node unreachable'));
+    const { result } = renderHook(() => useVPNContext(), { wrapper });
+
+    await act(async () => {
+      await result.current.connect(node).catch(() => undefined);
+    });
+    expect(result.current).toMatchObject({ phase: 'error', connectedNodeAddress: null });
+
+    await act(async () => {
+      result.current.clearError();
+    });
+    await waitFor(() => expect(result.current.phase).toBe('idle'));
+    expect(service.activateTunnel).not.toHaveBeenCalled();
+    expect(service.deactivateTunnel).not.toHaveBeenCalled();
+    expect(service.removePeer).toHaveBeenCalledTimes(1);
+  });
+
+  test('tears down a connection a reload interrupted half way', async () => {
+    StorageService.saveVPNConnection({ phase: 'activating', node, userAddress: '0xuser', connectedAt: null });
+
+    const { result } = renderHook(() => useVPNContext(), { wrapper });
+
+    await waitFor(() => expect(result.current.phase).toBe('idle'));
+    expect(service.deactivateTunnel).toHaveBeenCalledTimes(1);
+    expect(service.removePeer).toHaveBeenCalledWith(node.ipAddress, '0xuser', 'session-token');
+    expect(StorageService.getVPNConnection()).toBeNull();
+  });
+
+  test('keeps a live connection across a reload', () => {
+    StorageService.saveVPNConnection({ phase: 'connected', node, userAddress: '0xuser', connectedAt: 1000 });
+
+    const { result } = renderHook(() => useVPNContext(), { wrapper });
+
+    expect(result.current).toMatchObject({ phase: 'connected', connectedNodeAddress: node.address, connectedAt: 1000 });
+    expect(service.deactivateTunnel).not.toHaveBeenCalled();
+  });
+});
@@ -1,25 +1,323 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import { useWeb3 } from '../context/Web3Context';
+import { useTrayStatus } from '../hooks/useTrayStatus';
+import { vpnConnectionService } from '../services/VPNConnectionService';
+import { apiSessionService } from '../services/ApiSessionService';
+import { StorageService } from '../services/StorageService';
+import { hasSubscriptionAccess } from '../utils/subscription';
+
+export type VPNPhase =
+  | 'idle'
+  | 'checking-subscription'
+  | 'provisioning'
+  | 'activating'
+  | 'connected'
+  | 'disconnecting'
+  | 'error';
+
+export interface VPNTarget {
+  address: string;
+  ipAddress: string;
+}
+
+export type ConnectResult = 'connected' | 'subscription-required';
+
+// Thrown by connect(); phase is the step that failed
+export class VPNConnectError extends Error {
+  constructor(message: string, public readonly phase: VPNPhase, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'VPNConnectError';
+  }
+}
+
+export interface VPNState {
+  phase: VPNPhase;
+  // Node being connected to, connected to, or left behind by a failure
+  node: VPNTarget | null;
+  userAddress: string | null;
+  connectedAt: number | null;
+  error: string | null;
+  // Phase that was running when the error was raised
+  failedPhase: VPNPhase | null;
+}
+
+export type VPNAction =
+  | { type: 'start'; node: VPNTarget; userAddress: string }
+  | { type: 'advance'; phase: 'provisioning' | 'activating' | 'connected' }
+  | { type: 'disconnect' }
+  | { type: 'reset' }
+  | { type: 'fail'; error: string };
+
+// Phases each phase may move to; anything else is a bug and is ignored
+const TRANSITIONS: Record<VPNPhase, VPNPhase[]> = {
+  idle: ['checking-subscription'],
+  'checking-subscription': ['provisioning', 'idle', 'error'],
+  provisioning: ['activating', 'error'],
+  activating: ['connected', 'error'],
+  connected: ['disconnecting'],
+  disconnecting: ['idle', 'error'],
+  error: ['checking-subscription', 'disconnecting', 'idle']
+};
+
+const BUSY_PHASES: VPNPhase[] = ['checking-subscription', 'provisioning', 'activating', 'disconnecting'];
+
+const IDLE_STATE: VPNState = { phase: 'idle', node: null, userAddress: null, connectedAt: null, error: null, failedPhase: null };
+
+const targetPhase = (action: VPNAction): VPNPhase => {
+  switch (action.type) {
+    case 'start':
+      return 'checking-subscription';
+    case 'advance':
+      return action.phase;
+    case 'disconnect':
+      return 'disconnecting';
+    case 'reset':
+      return 'idle';
+    case 'fail':
+      return 'error';
+  }
+};
+
+export const vpnReducer = (state: VPNState, action: VPNAction): VPNState => {
+  const next = targetPhase(action);
+  if (!TRANSITIONS[state.phase].includes(next)) {
+    console.warn(`Ignoring VPN transition ${state.phase} -> ${next}`);
+    return state;
+  }
+
+  switch (action.type) {
+    case 'start':
+      return { ...IDLE_STATE, phase: next, node: action.node, userAddress: action.userAddress };
+    case 'advance':
+      return { ...state, phase: next, connectedAt: next === 'connected' ? Date.now() : state.connectedAt };
+    case 'disconnect':
+      return { ...state, phase: next, error: null, failedPhase: null };
+    case 'reset':
+      return IDLE_STATE;
+    case 'fail':
+      return { ...state, phase: next, error: action.error, failedPhase: state.phase };
+  }
+};
+
+// A reload keeps a live connection. Anything caught mid-change resumes as a
+// teardown, since a peer or tunnel may have been left half set up.
+const restoreState = (): VPNState => {
+  const stored = StorageService.getVPNConnection();
+  if (!stored) return IDLE_STATE;
+
+  const base = { ...IDLE_STATE, node: stored.node, userAddress: stored.userAddress, connectedAt: stored.connectedAt };
+  switch (stored.phase) {
+    case 'connected':
+      return { ...base, phase: 'connected' };
+    case 'provisioning':
+    case 'activating':
+    case 'disconnecting':
+      return { ...base, phase: 'disconnecting' };
+    default:
+      return IDLE_STATE;
+  }
+};
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
 
 interface VPNContextType {
+  phase: VPNPhase;
+  node: VPNTarget | null;
+  error: string | null;
+  connectedAt: number | null;
+  // Only set once the tunnel is up
   connectedNodeAddress: string | null;
   isConnecting: boolean;
-  setConnectedNodeAddress: (address: string | null) => void;
-  setIsConnecting: (isConnecting: boolean) => void;
+  connect: (node: VPNTarget) => Promise<ConnectResult>;
+  disconnect: () => Promise<void>;
+  clearError: () => void;
 }
 
 const VPNContext = createContext<VPNContextType | undefined>(undefined);
 
 export const VPNProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [connectedNodeAddress, setConnectedNodeAddress] = useState<string | null>(null);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const { account, signer, subscriptionContract, isAdmin, isSuperAdmin } = useWeb3();
+  const { status: tunnelStatus } = useTrayStatus();
+  const [state, setState] = useState(restoreState);
+
+  // The connect and disconnect flows await several steps and must see each
+  // transition immediately, not after the next render
+  const stateRef = useRef(state);
+  const dispatch = useCallback((action: VPNAction) => {
+    stateRef.current = vpnReducer(stateRef.current, action);
+    setState(stateRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (state.phase === 'idle' || state.phase === 'checking-subscription' || !state.node || !state.userAddress) {
+      StorageService.clearVPNConnection();
+      return;
+    }
+    StorageService.saveVPNConnection({
+      phase: state.phase,
+      node: state.node,
+      userAddress: state.userAddress,
+      connectedAt: state.connectedAt
+    });
+  }, [state]);
+
+  // Node agents only act on the peer of the session token's own address
+  const sessionToken = useCallback(async (): Promise<string> => {
+    if (!signer) {
+      throw new Error('Please connect your wallet first');
+    }
+    return apiSessionService.getToken(signer);
+  }, [signer]);
+
+  // Stops the tunnel (unless it is already gone) and removes the peer from the
+  // node. A peer left on the node only costs an address, so that failure is
+  // logged; a tunnel that will not stop is surfaced as an error.
+  const teardown = useCallback(async (node: VPNTarget, userAddress: string, stopTunnel: boolean): Promise<boolean> => {
+    let tunnelError: string | null = null;
+    if (stopTunnel) {
+      try {
+        await vpnConnectionService.deactivateTunnel();
+      } catch (error) {
+        console.error('⚠️ Failed to stop tunnel:', error);
+        tunnelError = `Could not stop the tunnel: ${errorMessage(error)}`;
+      }
+    }
+
+    try {
+      await vpnConnectionService.removePeer(node.ipAddress, userAddress, await sessionToken());
+    } catch (error) {
+      console.error('⚠️ Failed to delete peer:', error);
+    }
+
+    dispatch(tunnelError ? { type: 'fail', error: tunnelError } : { type: 'reset' });
+    return !tunnelError;
+  }, [dispatch, sessionToken]);
+
+  // Resolves false when the tunnel could not be stopped
+  const stop = useCallback(async (): Promise<boolean> => {
+    const { node, userAddress, phase, failedPhase } = stateRef.current;
+    if (!node || !userAddress || (phase !== 'connected' && phase !== 'error')) return true;
+
+    // Failures before activation never reached the tray app
+    const stopTunnel = phase === 'connected' || failedPhase === 'activating' || failedPhase === 'disconnecting';
+    dispatch({ type: 'disconnect' });
+    return teardown(node, userAddress, stopTunnel);
+  }, [dispatch, teardown]);
+
+  const disconnect = useCallback(async () => {
+    await stop();
+  }, [stop]);
+
+  const connect = useCallback(async (node: VPNTarget): Promise<ConnectResult> => {
+    if (!account) {
+      throw new Error('Please connect your wallet first');
+    }
+    if (BUSY_PHASES.includes(stateRef.current.phase)) {
+      throw new Error('A connection change is already in progress');
+    }
+
+    const current = stateRef.current;
+    if (current.phase === 'connected' && current.node?.address === node.address) {
+      return 'connected';
+    }
+    if (current.phase === 'connected' || current.phase === 'error') {
+      if (!(await stop())) {
+        throw new VPNConnectError('Failed to disconnect from the current node', 'disconnecting');
+      }
+    }
+
+    dispatch({ type: 'start', node, userAddress: account });
+
+    // Admins are not required to hold a subscription
+    if (!isAdmin && !isSuperAdmin) {
+      let hasSubscription = false;
+      try {
+        hasSubscription = subscriptionContract !== null && await hasSubscriptionAccess(subscriptionContract, account);
+      } catch (error) {
+        const message = `Could not check subscription: ${errorMessage(error)}`;
+        dispatch({ type: 'fail', error: message });
+        throw new VPNConnectError(message, 'checking-subscription', error);
+      }
+      if (!hasSubscription) {
+        dispatch({ type: 'reset' });
+        return 'subscription-required';
+      }
+    }
+
+    dispatch({ type: 'advance', phase: 'provisioning' });
+    let peer;
+    let authToken: string;
+    try {
+      authToken = await sessionToken();
+      peer = await vpnConnectionService.provisionPeer(node.address, node.ipAddress, account, authToken);
+    } catch (error) {
+      const message = `Could not set up a peer on the node: ${errorMessage(error)}`;
+      dispatch({ type: 'fail', error: message });
+      throw new VPNConnectError(message, 'provisioning', error);
+    }
+
+    dispatch({ type: 'advance', phase: 'activating' });
+    try {
+      await vpnConnectionService.activateTunnel(peer);
+    } catch (error) {
+      // Don't leave a peer on the node for a tunnel that never came up
+      try {
+        await vpnConnectionService.removePeer(node.ipAddress, account, authToken);
+      } catch (cleanupError) {
+        console.error('⚠️ Failed to delete peer after activation failure:', cleanupError);
+      }
+      const message = `The tray app could not start the tunnel: ${errorMessage(error)}`;
+      dispatch({ type: 'fail', error: message });
+      throw new VPNConnectError(message, 'activating', error);
+    }
+
+    dispatch({ type: 'advance', phase: 'connected' });
+    StorageService.saveRecentConnection(node.address);
+    return 'connected';
+  }, [account, subscriptionContract, isAdmin, isSuperAdmin, dispatch, stop, sessionToken]);
+
+  const clearError = useCallback(() => {
+    const { phase, node, userAddress } = stateRef.current;
+    if (phase !== 'error') return;
+    // An error can leave a tunnel running; only forget the node once it is torn down
+    if (node && userAddress) {
+      stop();
+    } else {
+      dispatch({ type: 'reset' });
+    }
+  }, [dispatch, stop]);
+
+  // Finish a teardown that a reload interrupted
+  useEffect(() => {
+    const { phase, node, userAddress } = stateRef.current;
+    if (phase === 'disconnecting' && node && userAddress) {
+      teardown(node, userAddress, true);
+    }
+  }, [teardown]);
+
+  // The tray app is the source of truth for the tunnel: if it went down
+  // outside this page, release the peer as well
+  useEffect(() => {
+    const { phase, node, userAddress } = stateRef.current;
+    if (phase !== 'connected' || !node || !userAddress || !tunnelStatus) return;
+    if (tunnelStatus.state === 'disconnected' || tunnelStatus.state === 'error') {
+      dispatch({ type: 'disconnect' });
+      teardown(node, userAddress, false);
+    }
+  }, [tunnelStatus, dispatch, teardown]);
 
   return (
     <VPNContext.Provider
       value={{
-        connectedNodeAddress,
-        isConnecting,
-        setConnectedNodeAddress,
-        setIsConnecting,
+        phase: state.phase,
+        node: state.node,
+        error: state.error,
+        connectedAt: state.connectedAt,
+        connectedNodeAddress: state.phase === 'connected' ? state.node?.address ?? null : null,
+        isConnecting: BUSY_PHASES.includes(state.phase),
+        connect,
+        disconnect,
+        clearError
       }}
     >
       {children}
@@ -33,4 +331,4 @@ export const useVPNContext = () => {
     throw new Error('useVPNContext must be used within a VPNProvider');
   }
   return context;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,30 @@
+import { ethers, ContractTransactionResponse } from 'ethers';
+
+// Payment tokens accepted by VPNSubscription; the permit functions only exist on EIP-2612 tokens
+export type ERC20Contract = ethers.Contract & {
+  name: () => Promise<string>;
+  symbol: () => Promise<string>;
+  decimals: () => Promise<bigint>;
+  balanceOf: (owner: string) => Promise<bigint>;
+  allowance: (owner: string, spender: string) => Promise<bigint>;
+  approve: (spender: string, amount: bigint) => Promise<ContractTransactionResponse>;
+  nonces: (owner: string) => Promise<bigint>;
+  DOMAIN_SEPARATOR: () => Promise<string>;
+};
+
+export const ERC20ABI = [
+  // ERC20 standard functions
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+
+  // EIP-2612 permit
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+
+  // Events
+  "event Approval(address indexed owner, address indexed spender, uint256 value)"
+];
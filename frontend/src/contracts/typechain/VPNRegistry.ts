@@ -23,40 +23,103 @@ import type {
   TypedContractMethod,
 } from "./common";
 
+export declare namespace VPNRegistry {
+  export type SlashStruct = {
+    nodeAddress: AddressLike;
+    amount: BigNumberish;
+    reason: string;
+    proposedBy: AddressLike;
+    proposedAt: BigNumberish;
+    status: BigNumberish;
+    dispute: string;
+  };
+
+  export type SlashStructOutput = [
+    nodeAddress: string,
+    amount: bigint,
+    reason: string,
+    proposedBy: string,
+    proposedAt: bigint,
+    status: bigint,
+    dispute: string
+  ] & {
+    nodeAddress: string;
+    amount: bigint;
+    reason: string;
+    proposedBy: string;
+    proposedAt: bigint;
+    status: bigint;
+    dispute: string;
+  };
+}
+
 export interface VPNRegistryInterface extends Interface {
   getFunction(
     nameOrSignature:
       | "addAdmin"
+      | "addStake"
       | "admin"
       | "admins"
       | "approveNode"
       | "canAccessNodes"
+      | "cancelSlash"
       | "deactivateNode"
+      | "disputeSlash"
+      | "disputeWindow"
+      | "executeSlash"
       | "getActiveNodes"
       | "getBestNode"
       | "getNodeDetails"
+      | "getSlashes"
+      | "getStakeInfo"
       | "getTopNodes"
       | "isAdmin"
+      | "minimumStake"
+      | "nodeAddresses"
+      | "nodeStake"
+      | "nodes"
+      | "pendingSlashCount"
+      | "proposeSlash"
       | "registerNode"
+      | "registeredNodes"
       | "removeAdmin"
+      | "setStakingParameters"
+      | "slashedFunds"
+      | "slashes"
+      | "unbondingPeriod"
+      | "unbondingStartedAt"
       | "updateNodeMetrics"
       | "vpnSubscriptionContract"
+      | "withdrawSlashedFunds"
+      | "withdrawStake"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
       | "AdminAdded"
       | "AdminRemoved"
+      | "MetricsUpdated"
       | "NodeApproved"
       | "NodeDeactivated"
       | "NodeRegistered"
-      | "MetricsUpdated"
+      | "NodeSlashed"
+      | "SlashCancelled"
+      | "SlashDisputed"
+      | "SlashProposed"
+      | "StakeAdded"
+      | "StakeWithdrawn"
+      | "StakingParametersUpdated"
+      | "UnbondingStarted"
   ): EventFragment;
 
   encodeFunctionData(
     functionFragment: "addAdmin",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "addStake",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(functionFragment: "admin", values?: undefined): string;
   encodeFunctionData(functionFragment: "admins", values: [AddressLike]): string;
   encodeFunctionData(
@@ -67,10 +130,26 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "canAccessNodes",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "cancelSlash",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "deactivateNode",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "disputeSlash",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disputeWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeSlash",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getActiveNodes",
     values?: undefined
@@ -83,6 +162,14 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "getNodeDetails",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSlashes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getStakeInfo",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getTopNodes",
     values: [BigNumberish]
@@ -91,14 +178,59 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "isAdmin",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "minimumStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nodeAddresses",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nodeStake",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "nodes", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "pendingSlashCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeSlash",
+    values: [AddressLike, BigNumberish, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "registerNode",
     values: [AddressLike, string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "registeredNodes",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "removeAdmin",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setStakingParameters",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slashedFunds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slashes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unbondingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unbondingStartedAt",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "updateNodeMetrics",
     values: [
@@ -113,8 +245,17 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "vpnSubscriptionContract",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawSlashedFunds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawStake",
+    values: [AddressLike]
+  ): string;
 
   decodeFunctionResult(functionFragment: "addAdmin", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "addStake", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "admins", data: BytesLike): Result;
   decodeFunctionResult(
@@ -125,10 +266,26 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "canAccessNodes",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelSlash",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "deactivateNode",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeSlash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disputeWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeSlash",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getActiveNodes",
     data: BytesLike
@@ -141,19 +298,63 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "getNodeDetails",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getSlashes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getStakeInfo",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getTopNodes",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "isAdmin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minimumStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nodeAddresses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nodeStake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nodes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingSlashCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeSlash",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "registerNode",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "registeredNodes",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "removeAdmin",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setStakingParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "slashedFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "slashes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unbondingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unbondingStartedAt",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "updateNodeMetrics",
     data: BytesLike
@@ -162,6 +363,14 @@ export interface VPNRegistryInterface extends Interface {
     functionFragment: "vpnSubscriptionContract",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawSlashedFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawStake",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace AdminAddedEvent {
@@ -188,6 +397,37 @@ export namespace AdminRemovedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace MetricsUpdatedEvent {
+  export type InputTuple = [
+    nodeAddress: AddressLike,
+    latency: BigNumberish,
+    bandwidth: BigNumberish,
+    uptime: BigNumberish,
+    reliability: BigNumberish,
+    totalScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    nodeAddress: string,
+    latency: bigint,
+    bandwidth: bigint,
+    uptime: bigint,
+    reliability: bigint,
+    totalScore: bigint
+  ];
+  export interface OutputObject {
+    nodeAddress: string;
+    latency: bigint;
+    bandwidth: bigint;
+    uptime: bigint;
+    reliability: bigint;
+    totalScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace NodeApprovedEvent {
   export type InputTuple = [nodeAddress: AddressLike];
   export type OutputTuple = [nodeAddress: string];
@@ -234,30 +474,153 @@ export namespace NodeRegisteredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace MetricsUpdatedEvent {
+export namespace NodeSlashedEvent {
   export type InputTuple = [
+    slashId: BigNumberish,
     nodeAddress: AddressLike,
-    latency: BigNumberish,
-    bandwidth: BigNumberish,
-    uptime: BigNumberish,
-    reliability: BigNumberish,
-    totalScore: BigNumberish
+    amount: BigNumberish
   ];
   export type OutputTuple = [
+    slashId: bigint,
     nodeAddress: string,
-    latency: bigint,
-    bandwidth: bigint,
-    uptime: bigint,
-    reliability: bigint,
-    totalScore: bigint
+    amount: bigint
   ];
   export interface OutputObject {
+    slashId: bigint;
     nodeAddress: string;
-    latency: bigint;
-    bandwidth: bigint;
-    uptime: bigint;
-    reliability: bigint;
-    totalScore: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlashCancelledEvent {
+  export type InputTuple = [slashId: BigNumberish];
+  export type OutputTuple = [slashId: bigint];
+  export interface OutputObject {
+    slashId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlashDisputedEvent {
+  export type InputTuple = [slashId: BigNumberish, response: string];
+  export type OutputTuple = [slashId: bigint, response: string];
+  export interface OutputObject {
+    slashId: bigint;
+    response: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlashProposedEvent {
+  export type InputTuple = [
+    slashId: BigNumberish,
+    nodeAddress: AddressLike,
+    amount: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    slashId: bigint,
+    nodeAddress: string,
+    amount: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    slashId: bigint;
+    nodeAddress: string;
+    amount: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeAddedEvent {
+  export type InputTuple = [
+    nodeAddress: AddressLike,
+    amount: BigNumberish,
+    totalStake: BigNumberish
+  ];
+  export type OutputTuple = [
+    nodeAddress: string,
+    amount: bigint,
+    totalStake: bigint
+  ];
+  export interface OutputObject {
+    nodeAddress: string;
+    amount: bigint;
+    totalStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeWithdrawnEvent {
+  export type InputTuple = [
+    nodeAddress: AddressLike,
+    owner: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    nodeAddress: string,
+    owner: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    nodeAddress: string;
+    owner: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakingParametersUpdatedEvent {
+  export type InputTuple = [
+    minimumStake: BigNumberish,
+    disputeWindow: BigNumberish,
+    unbondingPeriod: BigNumberish
+  ];
+  export type OutputTuple = [
+    minimumStake: bigint,
+    disputeWindow: bigint,
+    unbondingPeriod: bigint
+  ];
+  export interface OutputObject {
+    minimumStake: bigint;
+    disputeWindow: bigint;
+    unbondingPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnbondingStartedEvent {
+  export type InputTuple = [
+    nodeAddress: AddressLike,
+    withdrawableAt: BigNumberish
+  ];
+  export type OutputTuple = [nodeAddress: string, withdrawableAt: bigint];
+  export interface OutputObject {
+    nodeAddress: string;
+    withdrawableAt: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -310,6 +673,8 @@ export interface VPNRegistry extends BaseContract {
 
   addAdmin: TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
 
+  addStake: TypedContractMethod<[nodeAddress: AddressLike], [void], "payable">;
+
   admin: TypedContractMethod<[], [string], "view">;
 
   admins: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
@@ -326,12 +691,32 @@ export interface VPNRegistry extends BaseContract {
     "view"
   >;
 
+  cancelSlash: TypedContractMethod<
+    [slashId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   deactivateNode: TypedContractMethod<
     [nodeAddress: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  disputeSlash: TypedContractMethod<
+    [slashId: BigNumberish, response: string],
+    [void],
+    "nonpayable"
+  >;
+
+  disputeWindow: TypedContractMethod<[], [bigint], "view">;
+
+  executeSlash: TypedContractMethod<
+    [slashId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   getActiveNodes: TypedContractMethod<[], [string[]], "view">;
 
   getBestNode: TypedContractMethod<[], [[string, bigint]], "view">;
@@ -342,6 +727,24 @@ export interface VPNRegistry extends BaseContract {
     "view"
   >;
 
+  getSlashes: TypedContractMethod<
+    [],
+    [VPNRegistry.SlashStructOutput[]],
+    "view"
+  >;
+
+  getStakeInfo: TypedContractMethod<
+    [nodeAddress: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        stake: bigint;
+        withdrawableAt: bigint;
+        pendingSlashes: bigint;
+      }
+    ],
+    "view"
+  >;
+
   getTopNodes: TypedContractMethod<
     [count: BigNumberish],
     [[string[], bigint[]]],
@@ -350,18 +753,100 @@ export interface VPNRegistry extends BaseContract {
 
   isAdmin: TypedContractMethod<[account: AddressLike], [boolean], "view">;
 
+  minimumStake: TypedContractMethod<[], [bigint], "view">;
+
+  nodeAddresses: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  nodeStake: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  nodes: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [
+        string,
+        string,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        ipAddress: string;
+        owner: string;
+        isApproved: boolean;
+        isActive: boolean;
+        timestamp: bigint;
+        latency: bigint;
+        bandwidth: bigint;
+        uptime: bigint;
+        reliability: bigint;
+        totalScore: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pendingSlashCount: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  proposeSlash: TypedContractMethod<
+    [nodeAddress: AddressLike, amount: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
+
   registerNode: TypedContractMethod<
     [nodeAddress: AddressLike, ipAddress: string],
     [void],
-    "nonpayable"
+    "payable"
   >;
 
+  registeredNodes: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
   removeAdmin: TypedContractMethod<
     [adminToRemove: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setStakingParameters: TypedContractMethod<
+    [
+      _minimumStake: BigNumberish,
+      _disputeWindow: BigNumberish,
+      _unbondingPeriod: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  slashedFunds: TypedContractMethod<[], [bigint], "view">;
+
+  slashes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string, string, bigint, bigint, string] & {
+        nodeAddress: string;
+        amount: bigint;
+        reason: string;
+        proposedBy: string;
+        proposedAt: bigint;
+        status: bigint;
+        dispute: string;
+      }
+    ],
+    "view"
+  >;
+
+  unbondingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  unbondingStartedAt: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
   updateNodeMetrics: TypedContractMethod<
     [
       nodeAddress: AddressLike,
@@ -376,6 +861,18 @@ export interface VPNRegistry extends BaseContract {
 
   vpnSubscriptionContract: TypedContractMethod<[], [string], "view">;
 
+  withdrawSlashedFunds: TypedContractMethod<
+    [to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawStake: TypedContractMethod<
+    [nodeAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -383,6 +880,9 @@ export interface VPNRegistry extends BaseContract {
   getFunction(
     nameOrSignature: "addAdmin"
   ): TypedContractMethod<[newAdmin: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addStake"
+  ): TypedContractMethod<[nodeAddress: AddressLike], [void], "payable">;
   getFunction(
     nameOrSignature: "admin"
   ): TypedContractMethod<[], [string], "view">;
@@ -395,9 +895,25 @@ export interface VPNRegistry extends BaseContract {
   getFunction(
     nameOrSignature: "canAccessNodes"
   ): TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "cancelSlash"
+  ): TypedContractMethod<[slashId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "deactivateNode"
   ): TypedContractMethod<[nodeAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "disputeSlash"
+  ): TypedContractMethod<
+    [slashId: BigNumberish, response: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "disputeWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "executeSlash"
+  ): TypedContractMethod<[slashId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "getActiveNodes"
   ): TypedContractMethod<[], [string[]], "view">;
@@ -411,22 +927,128 @@ export interface VPNRegistry extends BaseContract {
     [[string, string, bigint, boolean, boolean, bigint]],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getSlashes"
+  ): TypedContractMethod<[], [VPNRegistry.SlashStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getStakeInfo"
+  ): TypedContractMethod<
+    [nodeAddress: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        stake: bigint;
+        withdrawableAt: bigint;
+        pendingSlashes: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getTopNodes"
   ): TypedContractMethod<[count: BigNumberish], [[string[], bigint[]]], "view">;
   getFunction(
     nameOrSignature: "isAdmin"
   ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "minimumStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nodeAddresses"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "nodeStake"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nodes"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [
+        string,
+        string,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        ipAddress: string;
+        owner: string;
+        isApproved: boolean;
+        isActive: boolean;
+        timestamp: bigint;
+        latency: bigint;
+        bandwidth: bigint;
+        uptime: bigint;
+        reliability: bigint;
+        totalScore: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingSlashCount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposeSlash"
+  ): TypedContractMethod<
+    [nodeAddress: AddressLike, amount: BigNumberish, reason: string],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "registerNode"
   ): TypedContractMethod<
     [nodeAddress: AddressLike, ipAddress: string],
     [void],
-    "nonpayable"
+    "payable"
   >;
+  getFunction(
+    nameOrSignature: "registeredNodes"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "removeAdmin"
   ): TypedContractMethod<[adminToRemove: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setStakingParameters"
+  ): TypedContractMethod<
+    [
+      _minimumStake: BigNumberish,
+      _disputeWindow: BigNumberish,
+      _unbondingPeriod: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "slashedFunds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "slashes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, string, string, bigint, bigint, string] & {
+        nodeAddress: string;
+        amount: bigint;
+        reason: string;
+        proposedBy: string;
+        proposedAt: bigint;
+        status: bigint;
+        dispute: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "unbondingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "unbondingStartedAt"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "updateNodeMetrics"
   ): TypedContractMethod<
@@ -443,6 +1065,12 @@ export interface VPNRegistry extends BaseContract {
   getFunction(
     nameOrSignature: "vpnSubscriptionContract"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdrawSlashedFunds"
+  ): TypedContractMethod<[to: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawStake"
+  ): TypedContractMethod<[nodeAddress: AddressLike], [void], "nonpayable">;
 
   getEvent(
     key: "AdminAdded"
@@ -458,6 +1086,13 @@ export interface VPNRegistry extends BaseContract {
     AdminRemovedEvent.OutputTuple,
     AdminRemovedEvent.OutputObject
   >;
+  getEvent(
+    key: "MetricsUpdated"
+  ): TypedContractEvent<
+    MetricsUpdatedEvent.InputTuple,
+    MetricsUpdatedEvent.OutputTuple,
+    MetricsUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "NodeApproved"
   ): TypedContractEvent<
@@ -480,11 +1115,60 @@ export interface VPNRegistry extends BaseContract {
     NodeRegisteredEvent.OutputObject
   >;
   getEvent(
-    key: "MetricsUpdated"
+    key: "NodeSlashed"
   ): TypedContractEvent<
-    MetricsUpdatedEvent.InputTuple,
-    MetricsUpdatedEvent.OutputTuple,
-    MetricsUpdatedEvent.OutputObject
+    NodeSlashedEvent.InputTuple,
+    NodeSlashedEvent.OutputTuple,
+    NodeSlashedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlashCancelled"
+  ): TypedContractEvent<
+    SlashCancelledEvent.InputTuple,
+    SlashCancelledEvent.OutputTuple,
+    SlashCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlashDisputed"
+  ): TypedContractEvent<
+    SlashDisputedEvent.InputTuple,
+    SlashDisputedEvent.OutputTuple,
+    SlashDisputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlashProposed"
+  ): TypedContractEvent<
+    SlashProposedEvent.InputTuple,
+    SlashProposedEvent.OutputTuple,
+    SlashProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeAdded"
+  ): TypedContractEvent<
+    StakeAddedEvent.InputTuple,
+    StakeAddedEvent.OutputTuple,
+    StakeAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeWithdrawn"
+  ): TypedContractEvent<
+    StakeWithdrawnEvent.InputTuple,
+    StakeWithdrawnEvent.OutputTuple,
+    StakeWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakingParametersUpdated"
+  ): TypedContractEvent<
+    StakingParametersUpdatedEvent.InputTuple,
+    StakingParametersUpdatedEvent.OutputTuple,
+    StakingParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnbondingStarted"
+  ): TypedContractEvent<
+    UnbondingStartedEvent.InputTuple,
+    UnbondingStartedEvent.OutputTuple,
+    UnbondingStartedEvent.OutputObject
   >;
 
   filters: {
@@ -510,6 +1194,17 @@ export interface VPNRegistry extends BaseContract {
       AdminRemovedEvent.OutputObject
     >;
 
+    "MetricsUpdated(address,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      MetricsUpdatedEvent.InputTuple,
+      MetricsUpdatedEvent.OutputTuple,
+      MetricsUpdatedEvent.OutputObject
+    >;
+    MetricsUpdated: TypedContractEvent<
+      MetricsUpdatedEvent.InputTuple,
+      MetricsUpdatedEvent.OutputTuple,
+      MetricsUpdatedEvent.OutputObject
+    >;
+
     "NodeApproved(address)": TypedContractEvent<
       NodeApprovedEvent.InputTuple,
       NodeApprovedEvent.OutputTuple,
@@ -543,15 +1238,92 @@ export interface VPNRegistry extends BaseContract {
       NodeRegisteredEvent.OutputObject
     >;
 
-    "MetricsUpdated(address,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
-      MetricsUpdatedEvent.InputTuple,
-      MetricsUpdatedEvent.OutputTuple,
-      MetricsUpdatedEvent.OutputObject
+    "NodeSlashed(uint256,address,uint256)": TypedContractEvent<
+      NodeSlashedEvent.InputTuple,
+      NodeSlashedEvent.OutputTuple,
+      NodeSlashedEvent.OutputObject
     >;
-    MetricsUpdated: TypedContractEvent<
-      MetricsUpdatedEvent.InputTuple,
-      MetricsUpdatedEvent.OutputTuple,
-      MetricsUpdatedEvent.OutputObject
+    NodeSlashed: TypedContractEvent<
+      NodeSlashedEvent.InputTuple,
+      NodeSlashedEvent.OutputTuple,
+      NodeSlashedEvent.OutputObject
+    >;
+
+    "SlashCancelled(uint256)": TypedContractEvent<
+      SlashCancelledEvent.InputTuple,
+      SlashCancelledEvent.OutputTuple,
+      SlashCancelledEvent.OutputObject
+    >;
+    SlashCancelled: TypedContractEvent<
+      SlashCancelledEvent.InputTuple,
+      SlashCancelledEvent.OutputTuple,
+      SlashCancelledEvent.OutputObject
+    >;
+
+    "SlashDisputed(uint256,string)": TypedContractEvent<
+      SlashDisputedEvent.InputTuple,
+      SlashDisputedEvent.OutputTuple,
+      SlashDisputedEvent.OutputObject
+    >;
+    SlashDisputed: TypedContractEvent<
+      SlashDisputedEvent.InputTuple,
+      SlashDisputedEvent.OutputTuple,
+      SlashDisputedEvent.OutputObject
+    >;
+
+    "SlashProposed(uint256,address,uint256,string)": TypedContractEvent<
+      SlashProposedEvent.InputTuple,
+      SlashProposedEvent.OutputTuple,
+      SlashProposedEvent.OutputObject
+    >;
+    SlashProposed: TypedContractEvent<
+      SlashProposedEvent.InputTuple,
+      SlashProposedEvent.OutputTuple,
+      SlashProposedEvent.OutputObject
+    >;
+
+    "StakeAdded(address,uint256,uint256)": TypedContractEvent<
+      StakeAddedEvent.InputTuple,
+      StakeAddedEvent.OutputTuple,
+      StakeAddedEvent.OutputObject
+    >;
+    StakeAdded: TypedContractEvent<
+      StakeAddedEvent.InputTuple,
+      StakeAddedEvent.OutputTuple,
+      StakeAddedEvent.OutputObject
+    >;
+
+    "StakeWithdrawn(address,address,uint256)": TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+    StakeWithdrawn: TypedContractEvent<
+      StakeWithdrawnEvent.InputTuple,
+      StakeWithdrawnEvent.OutputTuple,
+      StakeWithdrawnEvent.OutputObject
+    >;
+
+    "StakingParametersUpdated(uint256,uint256,uint256)": TypedContractEvent<
+      StakingParametersUpdatedEvent.InputTuple,
+      StakingParametersUpdatedEvent.OutputTuple,
+      StakingParametersUpdatedEvent.OutputObject
+    >;
+    StakingParametersUpdated: TypedContractEvent<
+      StakingParametersUpdatedEvent.InputTuple,
+      StakingParametersUpdatedEvent.OutputTuple,
+      StakingParametersUpdatedEvent.OutputObject
+    >;
+
+    "UnbondingStarted(address,uint256)": TypedContractEvent<
+      UnbondingStartedEvent.InputTuple,
+      UnbondingStartedEvent.OutputTuple,
+      UnbondingStartedEvent.OutputObject
+    >;
+    UnbondingStarted: TypedContractEvent<
+      UnbondingStartedEvent.InputTuple,
+      UnbondingStartedEvent.OutputTuple,
+      UnbondingStartedEvent.OutputObject
     >;
   };
 }
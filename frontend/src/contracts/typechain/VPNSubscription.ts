@@ -23,36 +23,176 @@ import type {
   TypedContractMethod,
 } from "./common";
 
+export declare namespace VPNSubscription {
+  export type PlanStruct = {
+    price: BigNumberish;
+    duration: BigNumberish;
+    bandwidthTier: BigNumberish;
+    active: boolean;
+  };
+
+  export type PlanStructOutput = [
+    price: bigint,
+    duration: bigint,
+    bandwidthTier: bigint,
+    active: boolean
+  ] & {
+    price: bigint;
+    duration: bigint;
+    bandwidthTier: bigint;
+    active: boolean;
+  };
+}
+
 export interface VPNSubscriptionInterface extends Interface {
   getFunction(
     nameOrSignature:
-      | "SUBSCRIPTION_DURATION"
-      | "SUBSCRIPTION_PRICE"
-      | "subscribe"
-      | "isSubscriptionActive"
-      | "hasActiveSubscription"
+      | "EPOCH_DURATION"
+      | "SETTLEMENT_DELAY"
+      | "addPlan"
+      | "approve"
+      | "balanceOf"
+      | "cancelSubscription"
+      | "claimEarnings"
+      | "currentEpoch"
+      | "earnings"
+      | "earningsOf"
+      | "epochGenesis"
+      | "epochRevenue"
+      | "epochSettled"
+      | "getApproved"
+      | "getPaymentTokens"
+      | "getPlan"
+      | "getPlans"
       | "getRemainingTime"
-      | "renewSubscription"
       | "getSubscriptionExpiry"
+      | "hasActiveSubscription"
+      | "isApprovedForAll"
+      | "isPaymentToken"
+      | "isSubscriptionActive"
+      | "name"
+      | "owner"
+      | "ownerOf"
+      | "planCount"
+      | "planTokenPrice"
+      | "registry"
+      | "renew"
+      | "renewWithPermit"
+      | "renewWithToken"
+      | "renounceOwnership"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "setPaymentToken"
+      | "setPlanTokenPrice"
+      | "setRevenueSharing"
+      | "settleEpoch"
+      | "subscribe"
+      | "subscribeWithPermit"
+      | "subscribeWithToken"
+      | "subscriptionExpiry"
+      | "subscriptionPlan"
+      | "subscriptionStart"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenURI"
+      | "transferFrom"
+      | "transferOwnership"
+      | "treasuryBalance"
+      | "treasuryShareBps"
+      | "updatePlan"
+      | "userLatestToken"
       | "withdrawFunds"
-      | "cancelSubscription"
+      | "withdrawTokens"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "Approval" | "ApprovalForAll" | "Transfer"
+    nameOrSignatureOrTopic:
+      | "Approval"
+      | "ApprovalForAll"
+      | "EarningsClaimed"
+      | "EpochSettled"
+      | "OperatorRewarded"
+      | "OwnershipTransferred"
+      | "PaymentTokenUpdated"
+      | "PlanAdded"
+      | "PlanTokenPriceSet"
+      | "PlanUpdated"
+      | "RevenueSharingUpdated"
+      | "Transfer"
   ): EventFragment;
 
   encodeFunctionData(
-    functionFragment: "SUBSCRIPTION_DURATION",
+    functionFragment: "EPOCH_DURATION",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "SUBSCRIPTION_PRICE",
+    functionFragment: "SETTLEMENT_DELAY",
     values?: undefined
   ): string;
-  encodeFunctionData(functionFragment: "subscribe", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "isSubscriptionActive",
+    functionFragment: "addPlan",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelSubscription",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimEarnings",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentEpoch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "earnings",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "earningsOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochGenesis",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochRevenue",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochSettled",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPaymentTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getPlans", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getRemainingTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionExpiry",
     values: [BigNumberish]
   ): string;
   encodeFunctionData(
@@ -60,61 +200,329 @@ export interface VPNSubscriptionInterface extends Interface {
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "getRemainingTime",
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPaymentToken",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "renewSubscription",
+    functionFragment: "isSubscriptionActive",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "getSubscriptionExpiry",
+    functionFragment: "ownerOf",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(functionFragment: "planCount", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "withdrawFunds",
+    functionFragment: "planTokenPrice",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "registry", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "renew",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewWithPermit",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewWithToken",
+    values: [BigNumberish, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "cancelSubscription",
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPaymentToken",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPlanTokenPrice",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRevenueSharing",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleEpoch",
+    values: [BigNumberish, AddressLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribe",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithPermit",
+    values: [
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithToken",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionExpiry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionPlan",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionStart",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "treasuryBalance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "treasuryShareBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePlan",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userLatestToken",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawFunds",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawTokens",
+    values: [AddressLike]
+  ): string;
 
   decodeFunctionResult(
-    functionFragment: "SUBSCRIPTION_DURATION",
+    functionFragment: "EPOCH_DURATION",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "SUBSCRIPTION_PRICE",
+    functionFragment: "SETTLEMENT_DELAY",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "subscribe", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "addPlan", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "isSubscriptionActive",
+    functionFragment: "cancelSubscription",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "hasActiveSubscription",
+    functionFragment: "claimEarnings",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getRemainingTime",
+    functionFragment: "currentEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "earnings", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "earningsOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "epochGenesis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "epochRevenue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "epochSettled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPaymentTokens",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getPlan", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getPlans", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "renewSubscription",
+    functionFragment: "getRemainingTime",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "getSubscriptionExpiry",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasActiveSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSubscriptionActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "planCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "planTokenPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "registry", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "renew", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renewWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renewWithToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPlanTokenPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRevenueSharing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "subscribe", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionExpiry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionPlan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionStart",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "treasuryBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "treasuryShareBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updatePlan", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "userLatestToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "withdrawFunds",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "cancelSubscription",
+    functionFragment: "withdrawTokens",
     data: BytesLike
   ): Result;
 }
@@ -159,17 +567,17 @@ export namespace ApprovalForAllEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace TransferEvent {
+export namespace EarningsClaimedEvent {
   export type InputTuple = [
-    from: AddressLike,
-    to: AddressLike,
-    tokenId: BigNumberish
+    operator: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
   ];
-  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export type OutputTuple = [operator: string, token: string, amount: bigint];
   export interface OutputObject {
-    from: string;
-    to: string;
-    tokenId: bigint;
+    operator: string;
+    token: string;
+    amount: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -177,15 +585,187 @@ export namespace TransferEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export interface VPNSubscription extends BaseContract {
-  connect(runner?: ContractRunner | null): VPNSubscription;
-  waitForDeployment(): Promise<this>;
-
-  interface: VPNSubscriptionInterface;
+export namespace EpochSettledEvent {
+  export type InputTuple = [epoch: BigNumberish, totalWeight: BigNumberish];
+  export type OutputTuple = [epoch: bigint, totalWeight: bigint];
+  export interface OutputObject {
+    epoch: bigint;
+    totalWeight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
 
-  queryFilter<TCEvent extends TypedContractEvent>(
-    event: TCEvent,
-    fromBlockOrBlockhash?: string | number | undefined,
+export namespace OperatorRewardedEvent {
+  export type InputTuple = [
+    epoch: BigNumberish,
+    operator: AddressLike,
+    nodeAddress: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    epoch: bigint,
+    operator: string,
+    nodeAddress: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    epoch: bigint;
+    operator: string;
+    nodeAddress: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentTokenUpdatedEvent {
+  export type InputTuple = [token: AddressLike, accepted: boolean];
+  export type OutputTuple = [token: string, accepted: boolean];
+  export interface OutputObject {
+    token: string;
+    accepted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanAddedEvent {
+  export type InputTuple = [
+    planId: BigNumberish,
+    price: BigNumberish,
+    duration: BigNumberish,
+    bandwidthTier: BigNumberish
+  ];
+  export type OutputTuple = [
+    planId: bigint,
+    price: bigint,
+    duration: bigint,
+    bandwidthTier: bigint
+  ];
+  export interface OutputObject {
+    planId: bigint;
+    price: bigint;
+    duration: bigint;
+    bandwidthTier: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanTokenPriceSetEvent {
+  export type InputTuple = [
+    planId: BigNumberish,
+    token: AddressLike,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [planId: bigint, token: string, price: bigint];
+  export interface OutputObject {
+    planId: bigint;
+    token: string;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlanUpdatedEvent {
+  export type InputTuple = [
+    planId: BigNumberish,
+    price: BigNumberish,
+    duration: BigNumberish,
+    bandwidthTier: BigNumberish,
+    active: boolean
+  ];
+  export type OutputTuple = [
+    planId: bigint,
+    price: bigint,
+    duration: bigint,
+    bandwidthTier: bigint,
+    active: boolean
+  ];
+  export interface OutputObject {
+    planId: bigint;
+    price: bigint;
+    duration: bigint;
+    bandwidthTier: bigint;
+    active: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevenueSharingUpdatedEvent {
+  export type InputTuple = [
+    registry: AddressLike,
+    treasuryShareBps: BigNumberish
+  ];
+  export type OutputTuple = [registry: string, treasuryShareBps: bigint];
+  export interface OutputObject {
+    registry: string;
+    treasuryShareBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface VPNSubscription extends BaseContract {
+  connect(runner?: ContractRunner | null): VPNSubscription;
+  waitForDeployment(): Promise<this>;
+
+  interface: VPNSubscriptionInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
     toBlock?: string | number | undefined
   ): Promise<Array<TypedEventLog<TCEvent>>>;
   queryFilter<TCEvent extends TypedContractEvent>(
@@ -220,15 +800,77 @@ export interface VPNSubscription extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  SUBSCRIPTION_DURATION: TypedContractMethod<[], [bigint], "view">;
+  EPOCH_DURATION: TypedContractMethod<[], [bigint], "view">;
 
-  SUBSCRIPTION_PRICE: TypedContractMethod<[], [bigint], "view">;
+  SETTLEMENT_DELAY: TypedContractMethod<[], [bigint], "view">;
 
-  subscribe: TypedContractMethod<[], [bigint], "payable">;
+  addPlan: TypedContractMethod<
+    [price: BigNumberish, duration: BigNumberish, bandwidthTier: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
 
-  isSubscriptionActive: TypedContractMethod<
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  cancelSubscription: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimEarnings: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  currentEpoch: TypedContractMethod<[], [bigint], "view">;
+
+  earnings: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  earningsOf: TypedContractMethod<
+    [operator: AddressLike],
+    [[string[], bigint[]] & { tokens: string[]; amounts: bigint[] }],
+    "view"
+  >;
+
+  epochGenesis: TypedContractMethod<[], [bigint], "view">;
+
+  epochRevenue: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  epochSettled: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getPaymentTokens: TypedContractMethod<[], [string[]], "view">;
+
+  getPlan: TypedContractMethod<
+    [planId: BigNumberish],
+    [VPNSubscription.PlanStructOutput],
+    "view"
+  >;
+
+  getPlans: TypedContractMethod<
+    [],
+    [VPNSubscription.PlanStructOutput[]],
+    "view"
+  >;
+
+  getRemainingTime: TypedContractMethod<[user: AddressLike], [bigint], "view">;
+
+  getSubscriptionExpiry: TypedContractMethod<
     [tokenId: BigNumberish],
-    [boolean],
+    [bigint],
     "view"
   >;
 
@@ -238,58 +880,483 @@ export interface VPNSubscription extends BaseContract {
     "view"
   >;
 
-  getRemainingTime: TypedContractMethod<[user: AddressLike], [bigint], "view">;
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
 
-  renewSubscription: TypedContractMethod<
+  isPaymentToken: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isSubscriptionActive: TypedContractMethod<
     [tokenId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  planCount: TypedContractMethod<[], [bigint], "view">;
+
+  planTokenPrice: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  registry: TypedContractMethod<[], [string], "view">;
+
+  renew: TypedContractMethod<
+    [tokenId: BigNumberish, planId: BigNumberish],
     [void],
     "payable"
   >;
 
-  getSubscriptionExpiry: TypedContractMethod<
-    [tokenId: BigNumberish],
+  renewWithPermit: TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      planId: BigNumberish,
+      token: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  renewWithToken: TypedContractMethod<
+    [tokenId: BigNumberish, planId: BigNumberish, token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaymentToken: TypedContractMethod<
+    [token: AddressLike, accepted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPlanTokenPrice: TypedContractMethod<
+    [planId: BigNumberish, token: AddressLike, price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setRevenueSharing: TypedContractMethod<
+    [registryAddress: AddressLike, shareBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  settleEpoch: TypedContractMethod<
+    [epoch: BigNumberish, nodeAddresses: AddressLike[], served: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  subscribe: TypedContractMethod<[planId: BigNumberish], [bigint], "payable">;
+
+  subscribeWithPermit: TypedContractMethod<
+    [
+      planId: BigNumberish,
+      token: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  subscribeWithToken: TypedContractMethod<
+    [planId: BigNumberish, token: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  subscriptionExpiry: TypedContractMethod<
+    [arg0: BigNumberish],
     [bigint],
     "view"
   >;
 
+  subscriptionPlan: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  subscriptionStart: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasuryBalance: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  treasuryShareBps: TypedContractMethod<[], [bigint], "view">;
+
+  updatePlan: TypedContractMethod<
+    [
+      planId: BigNumberish,
+      price: BigNumberish,
+      duration: BigNumberish,
+      bandwidthTier: BigNumberish,
+      active: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  userLatestToken: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
   withdrawFunds: TypedContractMethod<[], [void], "nonpayable">;
 
-  cancelSubscription: TypedContractMethod<[], [void], "nonpayable">;
+  withdrawTokens: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
   getFunction(
-    nameOrSignature: "SUBSCRIPTION_DURATION"
+    nameOrSignature: "EPOCH_DURATION"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "SUBSCRIPTION_PRICE"
+    nameOrSignature: "SETTLEMENT_DELAY"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "subscribe"
-  ): TypedContractMethod<[], [bigint], "payable">;
+    nameOrSignature: "addPlan"
+  ): TypedContractMethod<
+    [price: BigNumberish, duration: BigNumberish, bandwidthTier: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "isSubscriptionActive"
-  ): TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
-    nameOrSignature: "hasActiveSubscription"
-  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelSubscription"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimEarnings"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "currentEpoch"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "earnings"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "earningsOf"
+  ): TypedContractMethod<
+    [operator: AddressLike],
+    [[string[], bigint[]] & { tokens: string[]; amounts: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "epochGenesis"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "epochRevenue"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "epochSettled"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getPaymentTokens"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getPlan"
+  ): TypedContractMethod<
+    [planId: BigNumberish],
+    [VPNSubscription.PlanStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlans"
+  ): TypedContractMethod<[], [VPNSubscription.PlanStructOutput[]], "view">;
   getFunction(
     nameOrSignature: "getRemainingTime"
   ): TypedContractMethod<[user: AddressLike], [bigint], "view">;
-  getFunction(
-    nameOrSignature: "renewSubscription"
-  ): TypedContractMethod<[tokenId: BigNumberish], [void], "payable">;
   getFunction(
     nameOrSignature: "getSubscriptionExpiry"
   ): TypedContractMethod<[tokenId: BigNumberish], [bigint], "view">;
   getFunction(
-    nameOrSignature: "withdrawFunds"
+    nameOrSignature: "hasActiveSubscription"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isPaymentToken"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSubscriptionActive"
+  ): TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "planCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "planTokenPrice"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "renew"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, planId: BigNumberish],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "renewWithPermit"
+  ): TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      planId: BigNumberish,
+      token: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renewWithToken"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, planId: BigNumberish, token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "cancelSubscription"
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaymentToken"
+  ): TypedContractMethod<
+    [token: AddressLike, accepted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPlanTokenPrice"
+  ): TypedContractMethod<
+    [planId: BigNumberish, token: AddressLike, price: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRevenueSharing"
+  ): TypedContractMethod<
+    [registryAddress: AddressLike, shareBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleEpoch"
+  ): TypedContractMethod<
+    [epoch: BigNumberish, nodeAddresses: AddressLike[], served: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subscribe"
+  ): TypedContractMethod<[planId: BigNumberish], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "subscribeWithPermit"
+  ): TypedContractMethod<
+    [
+      planId: BigNumberish,
+      token: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subscribeWithToken"
+  ): TypedContractMethod<
+    [planId: BigNumberish, token: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subscriptionExpiry"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "subscriptionPlan"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "subscriptionStart"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "treasuryBalance"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "treasuryShareBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updatePlan"
+  ): TypedContractMethod<
+    [
+      planId: BigNumberish,
+      price: BigNumberish,
+      duration: BigNumberish,
+      bandwidthTier: BigNumberish,
+      active: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "userLatestToken"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawFunds"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawTokens"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
 
   getEvent(
     key: "Approval"
@@ -305,6 +1372,69 @@ export interface VPNSubscription extends BaseContract {
     ApprovalForAllEvent.OutputTuple,
     ApprovalForAllEvent.OutputObject
   >;
+  getEvent(
+    key: "EarningsClaimed"
+  ): TypedContractEvent<
+    EarningsClaimedEvent.InputTuple,
+    EarningsClaimedEvent.OutputTuple,
+    EarningsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochSettled"
+  ): TypedContractEvent<
+    EpochSettledEvent.InputTuple,
+    EpochSettledEvent.OutputTuple,
+    EpochSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorRewarded"
+  ): TypedContractEvent<
+    OperatorRewardedEvent.InputTuple,
+    OperatorRewardedEvent.OutputTuple,
+    OperatorRewardedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentTokenUpdated"
+  ): TypedContractEvent<
+    PaymentTokenUpdatedEvent.InputTuple,
+    PaymentTokenUpdatedEvent.OutputTuple,
+    PaymentTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanAdded"
+  ): TypedContractEvent<
+    PlanAddedEvent.InputTuple,
+    PlanAddedEvent.OutputTuple,
+    PlanAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanTokenPriceSet"
+  ): TypedContractEvent<
+    PlanTokenPriceSetEvent.InputTuple,
+    PlanTokenPriceSetEvent.OutputTuple,
+    PlanTokenPriceSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlanUpdated"
+  ): TypedContractEvent<
+    PlanUpdatedEvent.InputTuple,
+    PlanUpdatedEvent.OutputTuple,
+    PlanUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RevenueSharingUpdated"
+  ): TypedContractEvent<
+    RevenueSharingUpdatedEvent.InputTuple,
+    RevenueSharingUpdatedEvent.OutputTuple,
+    RevenueSharingUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "Transfer"
   ): TypedContractEvent<
@@ -336,6 +1466,105 @@ export interface VPNSubscription extends BaseContract {
       ApprovalForAllEvent.OutputObject
     >;
 
+    "EarningsClaimed(address,address,uint256)": TypedContractEvent<
+      EarningsClaimedEvent.InputTuple,
+      EarningsClaimedEvent.OutputTuple,
+      EarningsClaimedEvent.OutputObject
+    >;
+    EarningsClaimed: TypedContractEvent<
+      EarningsClaimedEvent.InputTuple,
+      EarningsClaimedEvent.OutputTuple,
+      EarningsClaimedEvent.OutputObject
+    >;
+
+    "EpochSettled(uint256,uint256)": TypedContractEvent<
+      EpochSettledEvent.InputTuple,
+      EpochSettledEvent.OutputTuple,
+      EpochSettledEvent.OutputObject
+    >;
+    EpochSettled: TypedContractEvent<
+      EpochSettledEvent.InputTuple,
+      EpochSettledEvent.OutputTuple,
+      EpochSettledEvent.OutputObject
+    >;
+
+    "OperatorRewarded(uint256,address,address,address,uint256)": TypedContractEvent<
+      OperatorRewardedEvent.InputTuple,
+      OperatorRewardedEvent.OutputTuple,
+      OperatorRewardedEvent.OutputObject
+    >;
+    OperatorRewarded: TypedContractEvent<
+      OperatorRewardedEvent.InputTuple,
+      OperatorRewardedEvent.OutputTuple,
+      OperatorRewardedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PaymentTokenUpdated(address,bool)": TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+    PaymentTokenUpdated: TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+
+    "PlanAdded(uint256,uint256,uint256,uint8)": TypedContractEvent<
+      PlanAddedEvent.InputTuple,
+      PlanAddedEvent.OutputTuple,
+      PlanAddedEvent.OutputObject
+    >;
+    PlanAdded: TypedContractEvent<
+      PlanAddedEvent.InputTuple,
+      PlanAddedEvent.OutputTuple,
+      PlanAddedEvent.OutputObject
+    >;
+
+    "PlanTokenPriceSet(uint256,address,uint256)": TypedContractEvent<
+      PlanTokenPriceSetEvent.InputTuple,
+      PlanTokenPriceSetEvent.OutputTuple,
+      PlanTokenPriceSetEvent.OutputObject
+    >;
+    PlanTokenPriceSet: TypedContractEvent<
+      PlanTokenPriceSetEvent.InputTuple,
+      PlanTokenPriceSetEvent.OutputTuple,
+      PlanTokenPriceSetEvent.OutputObject
+    >;
+
+    "PlanUpdated(uint256,uint256,uint256,uint8,bool)": TypedContractEvent<
+      PlanUpdatedEvent.InputTuple,
+      PlanUpdatedEvent.OutputTuple,
+      PlanUpdatedEvent.OutputObject
+    >;
+    PlanUpdated: TypedContractEvent<
+      PlanUpdatedEvent.InputTuple,
+      PlanUpdatedEvent.OutputTuple,
+      PlanUpdatedEvent.OutputObject
+    >;
+
+    "RevenueSharingUpdated(address,uint256)": TypedContractEvent<
+      RevenueSharingUpdatedEvent.InputTuple,
+      RevenueSharingUpdatedEvent.OutputTuple,
+      RevenueSharingUpdatedEvent.OutputObject
+    >;
+    RevenueSharingUpdated: TypedContractEvent<
+      RevenueSharingUpdatedEvent.InputTuple,
+      RevenueSharingUpdatedEvent.OutputTuple,
+      RevenueSharingUpdatedEvent.OutputObject
+    >;
+
     "Transfer(address,address,uint256)": TypedContractEvent<
       TransferEvent.InputTuple,
       TransferEvent.OutputTuple,
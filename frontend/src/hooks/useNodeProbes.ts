@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { NodeProbeResult, nodeProbeService } from '../services/NodeProbeService';
+
+interface ProbeTarget {
+  address: string;
+  ipAddress: string;
+}
+
+// Probe results for the given nodes, keyed by node address. Nodes are probed
+// when they first appear; results cached earlier in the session are reused.
+export const useNodeProbes = (nodes: ProbeTarget[]) => {
+  const [results, setResults] = useState<Record<string, NodeProbeResult>>({});
+  const [probing, setProbing] = useState(false);
+
+  const run = useCallback(async (targets: ProbeTarget[], refresh: boolean) => {
+    if (targets.length === 0) return;
+    setProbing(true);
+    try {
+      await nodeProbeService.probeAll(targets, { download: true, refresh }, result => {
+        setResults(current => ({ ...current, [result.nodeAddress]: result }));
+      });
+    } finally {
+      setProbing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(nodes, false);
+  }, [nodes, run]);
+
+  const reprobe = useCallback(() => run(nodes, true), [nodes, run]);
+
+  return { results, probing, reprobe };
+};
@@ -0,0 +1,98 @@
+import { act, renderHook } from '@testing-library/react';
+import { useQuickConnect } from './useQuickConnect';
+import { VPNConnectError } from '../contexts/VPNContext';
+import { QuickConnectCandidate, quickConnectService } from '../services/QuickConnectService';
+
+const mockConnect = jest.fn();
+
+jest.mock('../context/Web3Context', () => {
+  const web3 = { contract: {} };
+  return { useWeb3: () => web3 };
+});
+jest.mock('../contexts/VPNContext', () => ({
+  ...jest.requireActual('../contexts/VPNContext'),
+  useVPNContext: () => ({ connect: mockConnect })
+}));
+jest.mock('../services/QuickConnectService', () => ({ quickConnectService: { rankCandidates: jest.fn() } }));
+
+const candidate = (address: string): QuickConnectCandidate => ({
+  address,
+  ipAddress: `${address}.example`,
+  onChainScore: 0,
+  latency: 20,
+  isFavorite: false,
+  score: 100
+});
+
+const rankCandidates = quickConnectService.rankCandidates as jest.Mock;
+
+describe('useQuickConnect', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    rankCandidates.mockResolvedValue([candidate('first'), candidate('second'), candidate('third')]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const quickConnect = async (among?: string[]) => {
+    const { result } = renderHook(() => useQuickConnect());
+    let outcome: unknown;
+    await act(async () => {
+      outcome = await result.current.quickConnect(among).catch(error => error);
+    });
+    expect(result.current).toMatchObject({ status: 'idle', candidate: null });
+    return outcome;
+  };
+
+  test('connects to the best ranked node', async () => {
+    mockConnect.mockResolvedValue('connected');
+
+    expect(await quickConnect()).toEqual({ result: 'connected', node: candidate('first') });
+    expect(mockConnect).toHaveBeenCalledTimes(1);
+    expect(mockConnect).toHaveBeenCalledWith({ address: 'first', ipAddress: 'first.example' });
+  });
+
+  test('moves down the ranking while nodes fail to provision a peer', async () => {
+    mockConnect
+      .mockRejectedValueOnce(new VPNConnectError('node full', 'provisioning'))
+      .mockRejectedValueOnce(new VPNConnectError('node down', 'provisioning'))
+      .mockResolvedValueOnce('connected');
+
+    expect(await quickConnect()).toEqual({ result: 'connected', node: candidate('third') });
+    expect(mockConnect.mock.calls.map(([node]) => node.address)).toEqual(['first', 'second', 'third']);
+  });
+
+  test('stops at a failure that another node would not fix', async () => {
+    const trayOffline = new VPNConnectError('tray app offline', 'activating');
+    mockConnect.mockRejectedValueOnce(new VPNConnectError('node full', 'provisioning')).mockRejectedValueOnce(trayOffline);
+
+    expect(await quickConnect()).toBe(trayOffline);
+    expect(mockConnect).toHaveBeenCalledTimes(2);
+  });
+
+  test('passes a subscription prompt through without trying other nodes', async () => {
+    mockConnect.mockResolvedValue('subscription-required');
+
+    expect(await quickConnect()).toEqual({ result: 'subscription-required', node: candidate('first') });
+    expect(mockConnect).toHaveBeenCalledTimes(1);
+  });
+
+  test('gives up once every ranked node failed to provision', async () => {
+    mockConnect.mockRejectedValue(new VPNConnectError('node full', 'provisioning'));
+
+    const error = await quickConnect(['first', 'second', 'third']);
+
+    expect((error as Error).message).toBe('None of the top 3 nodes could set up a connection');
+    expect(rankCandidates).toHaveBeenCalledWith({}, undefined, ['first', 'second', 'third']);
+  });
+
+  test('reports when there is no node to connect to', async () => {
+    rankCandidates.mockResolvedValue([]);
+
+    expect(((await quickConnect()) as Error).message).toBe('There are no active nodes to connect to');
+    expect(mockConnect).not.toHaveBeenCalled();
+  });
+});
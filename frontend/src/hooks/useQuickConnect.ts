@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+import { useWeb3 } from '../context/Web3Context';
+import { useVPNContext, VPNConnectError } from '../contexts/VPNContext';
+import { QuickConnectCandidate, quickConnectService } from '../services/QuickConnectService';
+
+export type QuickConnectStatus = 'idle' | 'ranking' | 'connecting';
+
+export type QuickConnectResult =
+  | { result: 'connected'; node: QuickConnectCandidate }
+  | { result: 'subscription-required'; node: QuickConnectCandidate };
+
+// Connects to the best ranked node, moving down the list while nodes fail to
+// provision a peer. Any other failure stops the attempt. `among` limits the
+// choice to the given nodes.
+export const useQuickConnect = () => {
+  const { contract } = useWeb3();
+  const { connect } = useVPNContext();
+  const [status, setStatus] = useState<QuickConnectStatus>('idle');
+  const [candidate, setCandidate] = useState<QuickConnectCandidate | null>(null);
+
+  const quickConnect = useCallback(async (among?: string[]): Promise<QuickConnectResult> => {
+    if (!contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    try {
+      setStatus('ranking');
+      const candidates = await quickConnectService.rankCandidates(contract, undefined, among);
+      if (candidates.length === 0) {
+        throw new Error('There are no active nodes to connect to');
+      }
+
+      setStatus('connecting');
+      for (const node of candidates) {
+        setCandidate(node);
+        try {
+          const result = await connect({ address: node.address, ipAddress: node.ipAddress });
+          return { result, node };
+        } catch (error) {
+          if (!(error instanceof VPNConnectError) || error.phase !== 'provisioning') {
+            throw error;
+          }
+          console.log(`⚠️ Node ${node.address} could not provision a peer, trying the next one`);
+        }
+      }
+      throw new Error(`None of the top ${candidates.length} nodes could set up a connection`);
+    } finally {
+      setStatus('idle');
+      setCandidate(null);
+    }
+  }, [contract, connect]);
+
+  return { quickConnect, status, candidate };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { TrayConnectionState, webSocketService } from '../services/WebSocketService';
+import { TunnelStatus } from '../types/trayRpc';
+
+// Live tray app connection state and the tunnel status it pushes
+export const useTrayStatus = () => {
+  const [connectionState, setConnectionState] = useState<TrayConnectionState>(webSocketService.getConnectionState());
+  const [status, setStatus] = useState<TunnelStatus | null>(webSocketService.getLastStatus());
+
+  useEffect(() => {
+    const unsubscribeState = webSocketService.onConnectionStateChange(setConnectionState);
+    const unsubscribeStatus = webSocketService.onStatus(setStatus);
+    webSocketService.watch();
+
+    return () => {
+      unsubscribeState();
+      unsubscribeStatus();
+    };
+  }, []);
+
+  return { connectionState, status };
+};
@@ -30,7 +30,10 @@ import {
   DialogActions,
   TextField,
   Snackbar,
-  Modal
+  Modal,
+  IconButton,
+  Tooltip,
+  MenuItem
 } from '@mui/material';
 import { useWeb3 } from '../context/Web3Context';
 import SpeedIcon from '@mui/icons-material/Speed';
@@ -41,16 +44,27 @@ import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import { useNavigate } from 'react-router-dom';
-import { ethers } from 'ethers';
-import type { TransactionResponse } from 'ethers';
+import { ethers, formatEther } from 'ethers';
 import { SubscriptionDialog } from '../components/SubscriptionDialog';
 import AddIcon from '@mui/icons-material/Add';
 import { nodeService } from '../services/NodeService';
-import { vpnConnectionService } from '../services/VPNConnectionService';
 import { WireGuardService } from '../services/WireGuardService';
 import DownloadIcon from '@mui/icons-material/Download';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
-import { useVPNContext } from '../contexts/VPNContext';
+import { useVPNContext, VPNPhase } from '../contexts/VPNContext';
+import { TrayStatus } from '../components/TrayStatus';
+import { QuickConnect } from '../components/QuickConnect';
+import { groupByCountry, MapNode, NodeMap } from '../components/NodeMap';
+import { findCountry } from '../utils/countries';
+import { StorageService } from '../services/StorageService';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import InsightsIcon from '@mui/icons-material/Insights';
+import PublicIcon from '@mui/icons-material/Public';
+import { useNodeProbes } from '../hooks/useNodeProbes';
+import { NodeProbeResult } from '../services/NodeProbeService';
+import { stakingService } from '../services/StakingService';
 
 interface VPNNode {
   address: string;
@@ -70,6 +84,8 @@ interface VPNNode {
   isActive?: boolean;
   isRegistered?: boolean;
   friendlyName?: string | null;
+  // ETH the operator has locked in the registry and can lose to slashing
+  stake?: bigint;
 }
 
 interface EthereumProvider {
@@ -139,16 +155,39 @@ function ScrollTop() {
   );
 }
 
-const NodeCard = ({ node, onConnect, index }: { node: VPNNode, onConnect: (address: string) => void, index: number }) => {
+// Button label while this card's node is mid-connect or mid-disconnect
+const PHASE_LABELS: Record<VPNPhase, string> = {
+  idle: 'Connect to Node',
+  'checking-subscription': 'Checking subscription...',
+  provisioning: 'Setting up peer...',
+  activating: 'Starting tunnel...',
+  connected: 'Connected',
+  disconnecting: 'Disconnecting...',
+  error: 'Connection failed'
+};
+
+type NodeSort = 'default' | 'score' | 'my-latency';
+
+// Upper bounds offered by the "my latency" filter, in milliseconds
+const LATENCY_FILTERS = [50, 100, 200];
+
+const NodeCard = ({ node, probe, onConnect, index }: { node: VPNNode, probe?: NodeProbeResult, onConnect: (address: string) => void, index: number }) => {
   const [showDetails, setShowDetails] = useState(false);
-  const { connectedNodeAddress, isConnecting } = useVPNContext();
+  const [isFavorite, setIsFavorite] = useState(() => StorageService.getFavoriteNodes().includes(node.address));
+  const { phase, node: activeNode, connectedNodeAddress, isConnecting } = useVPNContext();
   const isConnected = connectedNodeAddress === node.address;
-  const isLoading = isConnecting && connectedNodeAddress === node.address;
+  const isLoading = isConnecting && activeNode?.address === node.address;
+  const navigate = useNavigate();
   
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onConnect(node.address); // This will handle both connect and disconnect
   };
+
+  const handleToggleFavorite = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsFavorite(StorageService.toggleFavoriteNode(node.address).includes(node.address));
+  };
   
   return (
     <Grow in style={{ transformOrigin: '0 0 0', transitionDelay: `${index * 100}ms` }}>
@@ -214,15 +253,48 @@ const NodeCard = ({ node, onConnect, index }: { node: VPNNode, onConnect: (addre
                   />
                 </Box>
               )}
-              <TrendingUpIcon 
-                sx={{ 
-                  color: node.reliability > 95 ? '#4caf50' : '#ff9800',
-                  fontSize: 28
-                }} 
-              />
+              <Box display="flex" alignItems="center">
+                <Tooltip title="Node details">
+                  <IconButton
+                    size="small"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      navigate(`/nodes/${node.address}`);
+                    }}
+                    sx={{ color: 'text.secondary' }}
+                  >
+                    <InsightsIcon />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}>
+                  <IconButton size="small" onClick={handleToggleFavorite} sx={{ color: isFavorite ? '#ffc107' : 'text.secondary' }}>
+                    {isFavorite ? <StarIcon /> : <StarBorderIcon />}
+                  </IconButton>
+                </Tooltip>
+                <TrendingUpIcon 
+                  sx={{ 
+                    color: node.reliability > 95 ? '#4caf50' : '#ff9800',
+                    fontSize: 28
+                  }} 
+                />
+              </Box>
             </Box>
             
             <Stack spacing={2}>
+              <Box display="flex" justifyContent="space-between" alignItems="center">
+                <Typography variant="body2" color="text.secondary">My latency</Typography>
+                {!probe ? (
+                  <Typography variant="body2" color="text.secondary">Measuring...</Typography>
+                ) : !probe.reachable ? (
+                  <Typography variant="body2" color="error">Unreachable</Typography>
+                ) : (
+                  <Typography variant="body2" color={probe.rtt !== null && probe.rtt < 50 ? '#4caf50' : '#ff9800'}>
+                    {probe.rtt}ms ±{probe.jitter}ms
+                    {probe.downloadMbps !== null && ` · ${probe.downloadMbps} Mbps`}
+                  </Typography>
+                )}
+              </Box>
+
               <Box>
                 <Box display="flex" justifyContent="space-between" alignItems="center" mb={0.5}>
                   <Typography variant="body2" color="text.secondary">Latency</Typography>
@@ -281,6 +353,17 @@ const NodeCard = ({ node, onConnect, index }: { node: VPNNode, onConnect: (addre
                   />
                 </Box>
               </Box>
+
+              {node.stake !== undefined && (
+                <Box display="flex" justifyContent="space-between" alignItems="center">
+                  <Tooltip title="ETH the operator has locked as a bond. Admins can slash it for misbehaviour.">
+                    <Typography variant="body2" color="text.secondary">Operator stake</Typography>
+                  </Tooltip>
+                  <Typography variant="body2" color={node.stake > BigInt(0) ? 'text.primary' : 'warning.main'}>
+                    {formatEther(node.stake)} ETH
+                  </Typography>
+                </Box>
+              )}
             </Stack>
 
             <Collapse in={showDetails}>
@@ -340,7 +423,7 @@ const NodeCard = ({ node, onConnect, index }: { node: VPNNode, onConnect: (addre
             {isLoading ? (
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <CircularProgress size={20} color="inherit" />
-                {isConnected ? 'Disconnecting...' : 'Connecting...'}
+                {PHASE_LABELS[phase]}
               </Box>
             ) : (
               isConnected ? 'Connected' : 'Connect to Node'
@@ -360,7 +443,7 @@ declare global {
 
 export const AvailableNodes: React.FC = () => {
   const navigate = useNavigate();
-  const { contract, subscriptionContract, isConnected, connectedNode, isInitialized, account, isAdmin, isSuperAdmin, setConnectedNode } = useWeb3();
+  const { contract, signer, subscriptionContract, isConnected, connectedNode, isInitialized, account, isAdmin, isSuperAdmin, setConnectedNode } = useWeb3();
   const [nodes, setNodes] = useState<VPNNode[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -368,6 +451,7 @@ export const AvailableNodes: React.FC = () => {
   const [showSubscriptionDialog, setShowSubscriptionDialog] = useState(false);
   const [pendingNodeConnection, setPendingNodeConnection] = useState<string | null>(null);
   const [registerDialog, setRegisterDialog] = useState(false);
+  const [minimumStake, setMinimumStake] = useState<bigint | null>(null);
   const [newNodeAddress, setNewNodeAddress] = useState('');
   const [newNodeIP, setNewNodeIP] = useState('');
   const [newNodeFriendlyName, setNewNodeFriendlyName] = useState('');
@@ -392,7 +476,43 @@ export const AvailableNodes: React.FC = () => {
   const [openSnackbar, setOpenSnackbar] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<AlertColor>('success');
-  const { connectedNodeAddress, setConnectedNodeAddress, setIsConnecting } = useVPNContext();
+  const { connectedNodeAddress, error: vpnError, connect, disconnect, clearError } = useVPNContext();
+  const { results: probes, probing, reprobe } = useNodeProbes(nodes);
+  const [sortBy, setSortBy] = useState<NodeSort>('default');
+  const [maxLatency, setMaxLatency] = useState<number | null>(null);
+  const [showMap, setShowMap] = useState(true);
+  const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
+
+  const mapNodes = useMemo<MapNode[]>(() => nodes.map(node => ({
+    address: node.address,
+    country: node.country,
+    totalScore: node.totalScore,
+    latency: probes[node.address]?.rtt ?? node.latency
+  })), [nodes, probes]);
+
+  const selectedCountryNodes = useMemo(
+    () => (selectedCountry ? groupByCountry(mapNodes).get(selectedCountry) || null : null),
+    [mapNodes, selectedCountry]
+  );
+
+  // Nodes still being measured stay visible under a latency filter
+  const visibleNodes = useMemo(() => {
+    const filtered = nodes.filter(node => {
+      if (selectedCountry && findCountry(node.country)?.code !== selectedCountry) return false;
+      if (maxLatency === null) return true;
+      const probe = probes[node.address];
+      return !probe || (probe.rtt !== null && probe.rtt <= maxLatency);
+    });
+
+    if (sortBy === 'score') {
+      return [...filtered].sort((a, b) => b.totalScore - a.totalScore);
+    }
+    if (sortBy === 'my-latency') {
+      const latencyOf = (node: VPNNode) => probes[node.address]?.rtt ?? Number.POSITIVE_INFINITY;
+      return [...filtered].sort((a, b) => latencyOf(a) - latencyOf(b));
+    }
+    return filtered;
+  }, [nodes, probes, sortBy, maxLatency, selectedCountry]);
 
   // Update error handling to show Snackbar
   useEffect(() => {
@@ -407,6 +527,13 @@ export const AvailableNodes: React.FC = () => {
     }
   }, [error]);
 
+  useEffect(() => {
+    if (!registerDialog || !contract) return;
+    contract.minimumStake()
+      .then(setMinimumStake)
+      .catch(err => console.error('Error loading minimum stake:', err));
+  }, [registerDialog, contract]);
+
   const fetchNodes = useCallback(async () => {
     if (!contract || !isConnected) return;
     
@@ -433,11 +560,14 @@ export const AvailableNodes: React.FC = () => {
       const nodeDetails = await Promise.all(
         Array.from(uniqueAddresses).map(async (address: string) => {
           console.log(`Getting details for node: ${address}`);  // Debug log
-          const details = await contract.getNodeDetails(address);
+          const [details, stake] = await Promise.all([
+            contract.getNodeDetails(address),
+            contract.nodeStake(address)
+          ]);
           console.log(`Contract details for ${address}:`, details);  // Debug log
           
           // Get additional details from backend
-          const additionalDetails = await nodeService.getNodeDetails(address);
+          const additionalDetails = signer ? await nodeService.getNodeDetails(address, signer) : null;
           console.log(`Additional details for ${address}:`, additionalDetails);  // Debug log
           
           const node = {
@@ -448,6 +578,7 @@ export const AvailableNodes: React.FC = () => {
             uptime: 99.9,
             reliability: 95 + Math.floor(Math.random() * 5),
             totalScore: Number(details[2]),
+            stake,
             // Use additional details if available, otherwise use null
             friendlyName: additionalDetails?.friendlyName || null,
             country: additionalDetails?.country || null
@@ -465,7 +596,7 @@ export const AvailableNodes: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [contract, isConnected]);
+  }, [contract, signer, isConnected]);
 
   useEffect(() => {
     if (isInitialized && !isConnected) {
@@ -504,106 +635,37 @@ export const AvailableNodes: React.FC = () => {
     try {
       setConnectionError(null);
 
-      // Check if account exists
-      if (!account) {
-        throw new Error('Please connect your wallet first');
-      }
-
-      // Skip subscription check for admins
-      if (!isAdmin && !isSuperAdmin) {
-        // Check subscription status for regular users
-        const hasSubscription = await subscriptionContract?.hasActiveSubscription(account);
-        if (!hasSubscription) {
-          setShowSubscriptionDialog(true);
-          return;
-        }
-      }
-      
-      // If clicking the currently connected node, disconnect
+      // Clicking the connected node disconnects from it
       if (connectedNodeAddress === nodeAddress) {
         console.log('🔄 Disconnecting from current node...');
-        
-        // Get the node's IP address
-        const node = nodes.find(n => n.address === nodeAddress);
-        if (!node) {
-          throw new Error('Node not found');
-        }
-
-        // Delete the peer from the VPN node
-        await vpnConnectionService.deletePeer(node.ipAddress, account);
-        setConnectedNodeAddress(null);
+        await disconnect();
         setSelectedNode(null);
         return;
       }
 
-      setIsConnecting(true);
-
-      // If connected to a different node, disconnect first
-      if (connectedNodeAddress) {
-        console.log('🔄 Disconnecting from previous node before connecting to new one...');
-        const currentNode = nodes.find(n => n.address === connectedNodeAddress);
-        if (currentNode) {
-          await vpnConnectionService.deletePeer(currentNode.ipAddress, account);
-        }
-        setConnectedNodeAddress(null);
-        // Small delay to ensure clean disconnection
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
-      // Find the node we want to connect to
       const node = nodes.find(n => n.address === nodeAddress);
       if (!node) {
         throw new Error('Node not found');
       }
 
-      // Get VPN configuration from the node
-      console.log('🔄 Getting VPN configuration...');
-      const vpnConfig = await vpnConnectionService.connectToNode(nodeAddress, node.ipAddress, account);
-      
-      // The configuration is now automatically sent to the tray app
-      setConnectedNodeAddress(nodeAddress);
+      const result = await connect({ address: node.address, ipAddress: node.ipAddress });
+      if (result === 'subscription-required') {
+        setPendingNodeConnection(nodeAddress);
+        setShowSubscriptionDialog(true);
+        return;
+      }
       setSelectedNode(nodeAddress);
-      
     } catch (error: any) {
       console.error('Connection error:', error);
       setConnectionError(error.message);
-      setConnectedNodeAddress(null);
       setSelectedNode(null);
-    } finally {
-      setIsConnecting(false);
     }
   };
 
   const handleDisconnect = async () => {
-    try {
-      setConnectionError(null);
-
-      // Check if account exists
-      if (!account) {
-        throw new Error('Please connect your wallet first');
-      }
-
-      if (!connectedNodeAddress) {
-        console.log('Not connected to any node');
-        return;
-      }
-
-      // Find the current node
-      const node = nodes.find(n => n.address === connectedNodeAddress);
-      if (!node) {
-        throw new Error('Connected node not found');
-      }
-
-      // Delete the peer from the VPN node
-      await vpnConnectionService.deletePeer(node.ipAddress, account);
-      
-      setConnectedNodeAddress(null);
-      setSelectedNode(null);
-      
-    } catch (error: any) {
-      console.error('Disconnect error:', error);
-      setConnectionError(error.message);
-    }
+    setConnectionError(null);
+    await disconnect();
+    setSelectedNode(null);
   };
 
   const handleRegisterNode = async () => {
@@ -708,7 +770,7 @@ export const AvailableNodes: React.FC = () => {
       }
 
       // Register in smart contract
-      const tx = await contract!.registerNode(newNodeAddress, newNodeIP) as TransactionResponse;
+      const tx = await stakingService.registerNode(contract!, newNodeAddress, newNodeIP);
       await tx.wait(); // Wait for transaction confirmation
 
       setSuccess('Node registered successfully! Waiting for admin approval.');
@@ -911,6 +973,34 @@ export const AvailableNodes: React.FC = () => {
               </Button>
             )}
           </Box>
+
+          <Box sx={{ mb: 3 }}>
+            <TrayStatus />
+          </Box>
+
+          <Box sx={{ mb: 3 }}>
+            <QuickConnect
+              onSubscriptionRequired={(nodeAddress) => {
+                setPendingNodeConnection(nodeAddress);
+                setShowSubscriptionDialog(true);
+              }}
+              nodeAddresses={selectedCountryNodes?.nodes.map(node => node.address)}
+              scopeLabel={selectedCountryNodes?.country.name}
+            />
+          </Box>
+
+          {(vpnError || connectionError) && (
+            <Alert
+              severity="error"
+              sx={{ mb: 3 }}
+              onClose={() => {
+                setConnectionError(null);
+                clearError();
+              }}
+            >
+              {vpnError || connectionError}
+            </Alert>
+          )}
           
           {nodes.length === 0 ? (
             <Paper 
@@ -933,13 +1023,85 @@ export const AvailableNodes: React.FC = () => {
               </Stack>
             </Paper>
           ) : (
-            <Grid container spacing={3}>
-              {nodes.map((node, index) => (
-                <Grid item xs={12} sm={6} md={4} key={node.address}>
-                  <NodeCard node={node} onConnect={handleConnect} index={index} />
+            <>
+              <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 3 }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Sort by"
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as NodeSort)}
+                  sx={{ minWidth: 160 }}
+                >
+                  <MenuItem value="default">Default</MenuItem>
+                  <MenuItem value="score">Score</MenuItem>
+                  <MenuItem value="my-latency">My latency</MenuItem>
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="My latency"
+                  value={maxLatency ?? ''}
+                  onChange={(e) => setMaxLatency(e.target.value === '' ? null : Number(e.target.value))}
+                  SelectProps={{ displayEmpty: true }}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ minWidth: 160 }}
+                >
+                  <MenuItem value="">Any</MenuItem>
+                  {LATENCY_FILTERS.map(limit => (
+                    <MenuItem key={limit} value={limit}>Under {limit}ms</MenuItem>
+                  ))}
+                </TextField>
+                <Button
+                  size="small"
+                  startIcon={probing ? <CircularProgress size={16} color="inherit" /> : <RefreshIcon />}
+                  onClick={reprobe}
+                  disabled={probing}
+                >
+                  Re-test
+                </Button>
+                <Button size="small" startIcon={<PublicIcon />} onClick={() => setShowMap(!showMap)}>
+                  {showMap ? 'Hide map' : 'Show map'}
+                </Button>
+                {selectedCountryNodes && (
+                  <Chip
+                    label={selectedCountryNodes.country.name}
+                    onDelete={() => setSelectedCountry(null)}
+                    size="small"
+                  />
+                )}
+              </Stack>
+
+              {showMap && (
+                <Paper
+                  sx={{
+                    p: 2,
+                    mb: 3,
+                    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+                    borderRadius: 3,
+                    border: '1px solid rgba(255, 255, 255, 0.1)'
+                  }}
+                >
+                  <NodeMap nodes={mapNodes} selectedCountry={selectedCountry} onSelectCountry={setSelectedCountry} />
+                </Paper>
+              )}
+
+              {visibleNodes.length === 0 ? (
+                <Typography color="text.secondary">
+                  {maxLatency === null
+                    ? 'No nodes match the selected country.'
+                    : `No nodes are under ${maxLatency}ms from your location.`}
+                </Typography>
+              ) : (
+                <Grid container spacing={3}>
+                  {visibleNodes.map((node, index) => (
+                    <Grid item xs={12} sm={6} md={4} key={node.address}>
+                      <NodeCard node={node} probe={probes[node.address]} onConnect={handleConnect} index={index} />
+                    </Grid>
+                  ))}
                 </Grid>
-              ))}
-            </Grid>
+              )}
+            </>
           )}
         </Container>
         
@@ -996,6 +1158,12 @@ export const AvailableNodes: React.FC = () => {
               placeholder="e.g., United States"
               helperText="Country where the VPN server is located"
             />
+            {minimumStake !== null && (
+              <Alert severity="info">
+                Registering locks {formatEther(minimumStake)} ETH as your node's stake. You can withdraw it
+                once the node is deactivated and the unbonding period has passed, minus any slashing.
+              </Alert>
+            )}
           </Stack>
         </DialogContent>
         <DialogActions>
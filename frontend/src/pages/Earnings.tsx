@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { ethers, formatUnits } from 'ethers';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Grid,
+  Link,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { useWeb3 } from '../context/Web3Context';
+import { OperatorEarnings, SubscriptionServiceFactory } from '../services/SubscriptionServiceFactory';
+import { shortenAddress } from '../utils/address';
+
+const paperSx = {
+  p: 3,
+  mb: 3,
+  backgroundColor: 'rgba(255, 255, 255, 0.03)',
+  borderRadius: 3,
+  border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+// Revenue share earned by the connected account's nodes, claimable per currency
+export const Earnings: React.FC = () => {
+  const { account, provider, signer } = useWeb3();
+  const [earnings, setEarnings] = useState<OperatorEarnings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadEarnings = useCallback(async () => {
+    if (!account || !provider || !signer) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const service = await SubscriptionServiceFactory.getInstance(provider, signer as ethers.JsonRpcSigner);
+      setEarnings(await service.getOperatorEarnings(account));
+    } catch (err) {
+      console.error('[Debug] Error loading earnings:', err);
+      setError('Failed to load your earnings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [account, provider, signer]);
+
+  useEffect(() => {
+    loadEarnings();
+  }, [loadEarnings]);
+
+  const handleClaim = async (token: string, label: string) => {
+    if (!provider || !signer) return;
+    setClaiming(token);
+    setError(null);
+    try {
+      const service = await SubscriptionServiceFactory.getInstance(provider, signer as ethers.JsonRpcSigner);
+      const tx = await service.claimEarnings(token);
+      await tx.wait();
+      setSuccess(`Claimed ${label}`);
+      await loadEarnings();
+    } catch (err: any) {
+      console.error('[Debug] Error claiming earnings:', err);
+      setError(err.reason || err.message || 'Failed to claim earnings');
+    } finally {
+      setClaiming(null);
+    }
+  };
+
+  // Rewards only carry the token address, so formatting borrows the matching balance entry
+  const formatAmount = (token: string, amount: bigint) => {
+    const balance = earnings?.balances.find(item => item.token === token);
+    return balance ? `${formatUnits(amount, balance.decimals)} ${balance.symbol}` : amount.toString();
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ pt: '90px', pb: 4 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1">
+          Node Earnings
+        </Typography>
+        <Button startIcon={<RefreshIcon />} onClick={loadEarnings} disabled={loading}>
+          Refresh
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {loading && !earnings ? (
+        <Box display="flex" justifyContent="center" p={3}>
+          <CircularProgress />
+        </Box>
+      ) : earnings && (
+        <>
+          <Paper sx={paperSx}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Subscription revenue is shared every epoch. The treasury keeps{' '}
+              {earnings.treasuryShareBps / 100}% and the rest is split between node operators by node score
+              and traffic served. Epoch {earnings.currentEpoch} ends{' '}
+              {new Date(earnings.currentEpochEndsAt).toLocaleString()} and is settled after the one-day refund window.
+            </Typography>
+            <Grid container spacing={2}>
+              {earnings.balances.map(balance => (
+                <Grid item xs={12} sm={6} md={4} key={balance.token}>
+                  <Box sx={{ p: 2, border: '1px solid rgba(255, 255, 255, 0.1)', borderRadius: 2 }}>
+                    <Typography variant="body2" color="text.secondary">Claimable {balance.symbol}</Typography>
+                    <Typography variant="h5" sx={{ mb: 1 }}>
+                      {formatUnits(balance.claimable, balance.decimals)}
+                    </Typography>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => handleClaim(balance.token, `${formatUnits(balance.claimable, balance.decimals)} ${balance.symbol}`)}
+                      disabled={balance.claimable === BigInt(0) || claiming !== null}
+                    >
+                      {claiming === balance.token ? <CircularProgress size={20} /> : 'Claim'}
+                    </Button>
+                  </Box>
+                </Grid>
+              ))}
+            </Grid>
+          </Paper>
+
+          <Paper sx={paperSx}>
+            <Typography variant="h6" gutterBottom>Rewards by epoch</Typography>
+            {earnings.rewards.length === 0 ? (
+              <Typography color="text.secondary">
+                None of this account's nodes have been rewarded yet.
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Epoch</TableCell>
+                    <TableCell>Node</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {earnings.rewards.map(reward => (
+                    <TableRow key={`${reward.transactionHash}-${reward.nodeAddress}-${reward.token}`}>
+                      <TableCell>{reward.epoch}</TableCell>
+                      <TableCell>
+                        <Link component={RouterLink} to={`/nodes/${reward.nodeAddress}`}>
+                          {shortenAddress(reward.nodeAddress)}
+                        </Link>
+                      </TableCell>
+                      <TableCell align="right">{formatAmount(reward.token, reward.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Paper>
+        </>
+      )}
+    </Container>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Link,
+  Paper,
+  Radio,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { useWeb3 } from '../context/Web3Context';
+import { OwnedSubscription, SubscriptionServiceFactory } from '../services/SubscriptionServiceFactory';
+import { StorageService } from '../services/StorageService';
+import { getExplorerUrl } from '../config/contracts';
+import { RenewSubscriptionDialog } from '../components/RenewSubscriptionDialog';
+
+const EXPLORER_URL = getExplorerUrl(process.env.REACT_APP_NETWORK_ID || '11155111');
+
+const TransactionLink: React.FC<{ hash: string | null }> = ({ hash }) => {
+  if (!hash) return <>-</>;
+  const label = `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+  return EXPLORER_URL ? (
+    <Link href={`${EXPLORER_URL}/tx/${hash}`} target="_blank" rel="noopener noreferrer">
+      {label}
+    </Link>
+  ) : (
+    <Tooltip title={hash}>
+      <span>{label}</span>
+    </Tooltip>
+  );
+};
+
+// Every subscription NFT the account holds, with a choice of which one grants access
+export const MySubscriptions: React.FC = () => {
+  const { account, provider, signer } = useWeb3();
+  const [subscriptions, setSubscriptions] = useState<OwnedSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renewToken, setRenewToken] = useState<bigint | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    if (!account || !provider || !signer) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const service = await SubscriptionServiceFactory.getInstance(provider, signer as ethers.JsonRpcSigner);
+      setSubscriptions(await service.getOwnedSubscriptions(account));
+    } catch (err) {
+      console.error('[Debug] Error loading subscriptions:', err);
+      setError('Failed to load your subscriptions. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [account, provider, signer]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const handleUseForAccess = (subscription: OwnedSubscription) => {
+    if (!account) return;
+    // The latest token is what the contract checks anyway, so picking it clears the choice
+    StorageService.saveAccessToken(account, subscription.isLatest ? null : subscription.tokenId.toString());
+    setSubscriptions(current =>
+      current.map(item => ({ ...item, isUsedForAccess: item.tokenId === subscription.tokenId }))
+    );
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ pt: '90px', pb: 4 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1">
+          My Subscriptions
+        </Typography>
+        <Button startIcon={<RefreshIcon />} onClick={loadSubscriptions} disabled={loading}>
+          Refresh
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper
+        sx={{
+          p: 3,
+          backgroundColor: 'rgba(255, 255, 255, 0.03)',
+          borderRadius: 3,
+          border: '1px solid rgba(255, 255, 255, 0.1)'
+        }}
+      >
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : subscriptions.length === 0 ? (
+          <Typography color="text.secondary">
+            This account does not hold any subscription NFTs.
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Pick the subscription used to connect. Renewing extends the chosen NFT rather than minting a new one.
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox">Access</TableCell>
+                  <TableCell>Token</TableCell>
+                  <TableCell>Minted</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Transaction</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {subscriptions.map(subscription => (
+                  <TableRow key={subscription.tokenId.toString()} selected={subscription.isUsedForAccess}>
+                    <TableCell padding="checkbox">
+                      <Radio
+                        checked={subscription.isUsedForAccess}
+                        onChange={() => handleUseForAccess(subscription)}
+                        inputProps={{ 'aria-label': `Use subscription #${subscription.tokenId.toString()} for access` }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      #{subscription.tokenId.toString()}
+                      {subscription.transferTransactionHash && (
+                        <Chip label="Received" size="small" sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {subscription.mintedAt ? new Date(subscription.mintedAt).toLocaleString() : '-'}
+                    </TableCell>
+                    <TableCell>{new Date(subscription.expiresAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={subscription.isActive ? 'Active' : 'Expired'}
+                        color={subscription.isActive ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TransactionLink hash={subscription.transferTransactionHash || subscription.mintTransactionHash} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => setRenewToken(subscription.tokenId)}>
+                        Extend
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </Paper>
+
+      <RenewSubscriptionDialog
+        open={renewToken !== null}
+        tokenId={renewToken ?? undefined}
+        onClose={() => setRenewToken(null)}
+        onRenewed={loadSubscriptions}
+      />
+    </Container>
+  );
+};
@@ -0,0 +1,399 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ethers } from 'ethers';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Grid,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import LinkIcon from '@mui/icons-material/Link';
+import { useWeb3 } from '../context/Web3Context';
+import { nodeService } from '../services/NodeService';
+import { metricsService, NodeMetrics } from '../services/MetricsService';
+import { ChartPoint, MetricChart } from '../components/MetricChart';
+import { NodeStakePanel } from '../components/NodeStakePanel';
+
+type MetricKey = keyof NodeMetrics;
+type RangeKey = '24h' | '7d' | '30d' | '90d';
+
+const RANGES: Record<RangeKey, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000
+};
+
+const METRICS: { key: MetricKey; title: string; unit: string; color: string }[] = [
+  { key: 'latency', title: 'Latency', unit: 'ms', color: '#9c27b0' },
+  { key: 'bandwidth', title: 'Bandwidth', unit: 'Mbps', color: '#2196f3' },
+  { key: 'uptime', title: 'Uptime', unit: '%', color: '#4caf50' },
+  { key: 'reliability', title: 'Reliability', unit: '%', color: '#7c4dff' }
+];
+
+// Most recent on-chain updates to read; each needs a block lookup for its time
+const MAX_CHAIN_UPDATES = 100;
+
+interface NodeInfo {
+  ipAddress: string;
+  owner: string;
+  isApproved: boolean;
+  isActive: boolean;
+  registeredAt: number;
+  totalScore: number;
+  friendlyName: string | null;
+  country: string | null;
+}
+
+interface ChainUpdate extends NodeMetrics {
+  time: number;
+  totalScore: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Series per metric, from the backend history or, failing that, the chain
+type MetricSeries = Record<MetricKey, ChartPoint[]>;
+
+const shorten = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const NodeDetails: React.FC = () => {
+  const { address = '' } = useParams<{ address: string }>();
+  const navigate = useNavigate();
+  const { contract, signer } = useWeb3();
+  const [range, setRange] = useState<RangeKey>('7d');
+  const [info, setInfo] = useState<NodeInfo | null>(null);
+  const [updates, setUpdates] = useState<ChainUpdate[]>([]);
+  const [series, setSeries] = useState<MetricSeries | null>(null);
+  const [source, setSource] = useState<'backend' | 'chain' | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const isValidAddress = ethers.isAddress(address);
+
+  // Node details and its on-chain metric updates do not depend on the range
+  useEffect(() => {
+    if (!contract || !isValidAddress) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setError(null);
+        const [details, offChain] = await Promise.all([
+          contract.getNodeDetails(address),
+          signer ? nodeService.getNodeDetails(address, signer) : null
+        ]);
+        if (cancelled) return;
+        setInfo({
+          ipAddress: details[0],
+          owner: details[1],
+          totalScore: Number(details[2]),
+          isApproved: details[3],
+          isActive: details[4],
+          registeredAt: Number(details[5]) * 1000,
+          friendlyName: offChain?.friendlyName || null,
+          country: offChain?.country || null
+        });
+
+        const events = (await contract.queryFilter(contract.filters.MetricsUpdated(address))).slice(-MAX_CHAIN_UPDATES);
+        const withTimes = await Promise.all(
+          events.map(async (event): Promise<ChainUpdate> => {
+            const block = await event.getBlock();
+            return {
+              time: block.timestamp * 1000,
+              latency: Number(event.args.latency),
+              bandwidth: Number(event.args.bandwidth),
+              uptime: Number(event.args.uptime),
+              reliability: Number(event.args.reliability),
+              totalScore: Number(event.args.totalScore),
+              blockNumber: event.blockNumber,
+              transactionHash: event.transactionHash
+            };
+          })
+        );
+        if (!cancelled) setUpdates(withTimes);
+      } catch (err: any) {
+        console.error('Error loading node:', err);
+        if (!cancelled) {
+          setError(err.message?.includes('Node does not exist') ? 'This node is not registered' : 'Failed to load node details');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract, signer, address, isValidAddress, reloadCount]);
+
+  // Charts for the selected range. The backend has the collected samples;
+  // without a session or backend, the on-chain updates are shown instead.
+  const loadHistory = useCallback(async (cancelled: () => boolean) => {
+    const to = new Date();
+    const from = new Date(to.getTime() - RANGES[range]);
+    setLoading(true);
+
+    try {
+      if (!signer) throw new Error('No signer available');
+      const history = await nodeService.getMetricHistory(address, signer, from, to);
+      if (cancelled()) return;
+
+      const toSeries = (key: MetricKey): ChartPoint[] =>
+        history.points.map(point => ({
+          time: new Date(point.timestamp).getTime(),
+          value: point[key].avg,
+          min: point[key].min,
+          max: point[key].max
+        }));
+      setSeries({
+        latency: toSeries('latency'),
+        bandwidth: toSeries('bandwidth'),
+        uptime: toSeries('uptime'),
+        reliability: toSeries('reliability')
+      });
+      setSource('backend');
+    } catch (err) {
+      console.log('Metric history unavailable, using on-chain updates:', (err as Error).message);
+      if (cancelled()) return;
+      setSeries(null);
+      setSource('chain');
+    } finally {
+      if (!cancelled()) setLoading(false);
+    }
+  }, [address, signer, range]);
+
+  useEffect(() => {
+    if (!isValidAddress) return;
+    let cancelled = false;
+    loadHistory(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [loadHistory, isValidAddress]);
+
+  const chartSeries: MetricSeries | null = useMemo(() => {
+    if (source === 'backend') return series;
+    if (source !== 'chain') return null;
+
+    const since = Date.now() - RANGES[range];
+    const inRange = updates.filter(update => update.time >= since);
+    const toSeries = (key: MetricKey): ChartPoint[] => inRange.map(update => ({ time: update.time, value: update[key] }));
+    return {
+      latency: toSeries('latency'),
+      bandwidth: toSeries('bandwidth'),
+      uptime: toSeries('uptime'),
+      reliability: toSeries('reliability')
+    };
+  }, [source, series, updates, range]);
+
+  const prediction = useMemo(() => {
+    if (!chartSeries) return null;
+    const count = chartSeries.latency.length;
+    const samples: NodeMetrics[] = Array.from({ length: count }, (_, i) => ({
+      latency: chartSeries.latency[i].value,
+      bandwidth: chartSeries.bandwidth[i].value,
+      uptime: chartSeries.uptime[i].value,
+      reliability: chartSeries.reliability[i].value
+    }));
+    metricsService.setMetrics(address, samples);
+    return metricsService.predictMetrics(address);
+  }, [chartSeries, address]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  if (!isValidAddress) {
+    return (
+      <Container maxWidth="lg" sx={{ pt: '90px' }}>
+        <Alert severity="error">"{address}" is not a valid node address.</Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ pt: '90px', pb: 4 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Button startIcon={<ArrowBackIcon />} onClick={() => navigate('/nodes')}>
+          All nodes
+        </Button>
+        <Button startIcon={<LinkIcon />} onClick={handleCopyLink}>
+          {copied ? 'Link copied' : 'Copy link'}
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 3, mb: 3, backgroundColor: 'rgba(255, 255, 255, 0.03)', borderRadius: 3 }}>
+        <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" sx={{ mb: 2 }}>
+          <Typography variant="h4" component="h1">
+            {info?.friendlyName || `Node ${shorten(address)}`}
+          </Typography>
+          {info?.country && <Chip label={info.country} size="small" />}
+          {info && (
+            <Chip
+              label={info.isActive ? (info.isApproved ? 'Active' : 'Pending approval') : 'Inactive'}
+              color={info.isActive && info.isApproved ? 'success' : 'default'}
+              size="small"
+            />
+          )}
+        </Stack>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={6}>
+            <Typography variant="body2" color="text.secondary">Address</Typography>
+            <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>{address}</Typography>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <Typography variant="body2" color="text.secondary">Owner</Typography>
+            <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>{info?.owner || '-'}</Typography>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <Typography variant="body2" color="text.secondary">Registered</Typography>
+            <Typography variant="body2">{info ? new Date(info.registeredAt).toLocaleString() : '-'}</Typography>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <Typography variant="body2" color="text.secondary">IP Address</Typography>
+            <Typography variant="body2">{info?.ipAddress || '-'}</Typography>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <Typography variant="body2" color="text.secondary">Current score</Typography>
+            <Typography variant="h6">{info ? info.totalScore : '-'}</Typography>
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <Typography variant="body2" color="text.secondary">On-chain updates</Typography>
+            <Typography variant="h6">{updates.length}</Typography>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {info && (
+        <NodeStakePanel
+          nodeAddress={address}
+          owner={info.owner}
+          isActive={info.isActive}
+          onNodeChanged={() => setReloadCount(count => count + 1)}
+        />
+      )}
+
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="h6">
+          Metrics
+          {source === 'chain' && (
+            <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+              (from on-chain updates)
+            </Typography>
+          )}
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={range}
+          onChange={(_, value: RangeKey | null) => value && setRange(value)}
+        >
+          {(Object.keys(RANGES) as RangeKey[]).map(key => (
+            <ToggleButton key={key} value={key}>{key}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+
+      {loading || !chartSeries ? (
+        <Box display="flex" justifyContent="center" py={6}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          {METRICS.map(metric => (
+            <Grid item xs={12} md={6} key={metric.key}>
+              <Paper sx={{ p: 2, backgroundColor: 'rgba(255, 255, 255, 0.03)', borderRadius: 3 }}>
+                <MetricChart
+                  title={metric.title}
+                  unit={metric.unit}
+                  points={chartSeries[metric.key]}
+                  color={metric.color}
+                />
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      <Paper sx={{ p: 3, mb: 3, backgroundColor: 'rgba(255, 255, 255, 0.03)', borderRadius: 3 }}>
+        <Typography variant="h6" gutterBottom>Predicted next values</Typography>
+        {prediction ? (
+          <Grid container spacing={2}>
+            {METRICS.map(metric => (
+              <Grid item xs={6} md={3} key={metric.key}>
+                <Typography variant="body2" color="text.secondary">{metric.title}</Typography>
+                <Typography variant="h6">{prediction[metric.key]} {metric.unit}</Typography>
+              </Grid>
+            ))}
+          </Grid>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            At least two samples in the selected range are needed for a prediction.
+          </Typography>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 3, backgroundColor: 'rgba(255, 255, 255, 0.03)', borderRadius: 3 }}>
+        <Typography variant="h6" gutterBottom>Recent on-chain updates</Typography>
+        {updates.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No metrics have been published for this node yet.</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Time</TableCell>
+                <TableCell>Latency</TableCell>
+                <TableCell>Bandwidth</TableCell>
+                <TableCell>Uptime</TableCell>
+                <TableCell>Reliability</TableCell>
+                <TableCell>Score</TableCell>
+                <TableCell>Block</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {updates.slice(-10).reverse().map(update => (
+                <TableRow key={update.transactionHash}>
+                  <TableCell>{new Date(update.time).toLocaleString()}</TableCell>
+                  <TableCell>{update.latency}ms</TableCell>
+                  <TableCell>{update.bandwidth}Mbps</TableCell>
+                  <TableCell>{update.uptime}%</TableCell>
+                  <TableCell>{update.reliability}%</TableCell>
+                  <TableCell>{update.totalScore}</TableCell>
+                  <TableCell>{update.blockNumber}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+    </Container>
+  );
+};
@@ -3,6 +3,9 @@ import { Routes, Route } from 'react-router-dom';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { AdminRoute } from './components/AdminRoute';
 import { AvailableNodes } from './pages/AvailableNodes';
+import { NodeDetails } from './pages/NodeDetails';
+import { MySubscriptions } from './pages/MySubscriptions';
+import { Earnings } from './pages/Earnings';
 import { LandingPage } from './pages/LandingPage';
 import { AdminDashboard } from './components/AdminDashboard';
 
@@ -18,6 +21,30 @@ export const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/nodes/:address" 
+        element={
+          <ProtectedRoute>
+            <NodeDetails />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/subscriptions" 
+        element={
+          <ProtectedRoute>
+            <MySubscriptions />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/earnings" 
+        element={
+          <ProtectedRoute>
+            <Earnings />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/admin" 
         element={
@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { StorageService } from './StorageService';
+
+const API_URL = process.env.REACT_APP_API_URL || 'https://vpn-backend-esxb.onrender.com/api';
+const CHAIN_ID = parseInt(process.env.REACT_APP_NETWORK_ID || '11155111');
+
+// Sign in again this long before the token expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Reads the expiry from a JWT without verifying it; the backend does that
+const tokenExpiry = (token: string): number => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload));
+    return typeof exp === 'number' ? exp * 1000 : 0;
+  } catch (error) {
+    return 0;
+  }
+};
+
+/**
+ * Session for the authenticated backend API. The token comes from signing a
+ * Sign-In with Ethereum message and is reused until it expires, so the wallet
+ * only prompts once per day.
+ */
+class ApiSessionService {
+  private signingIn: Map<string, Promise<string>> = new Map();
+
+  async getToken(signer: ethers.Signer): Promise<string> {
+    const address = (await signer.getAddress()).toLowerCase();
+    const session = StorageService.getApiSession();
+    if (session && session.address === address && session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return session.token;
+    }
+
+    // One signature prompt for concurrent callers
+    const running = this.signingIn.get(address);
+    if (running) {
+      return running;
+    }
+    const signIn = this.signIn(signer, address).finally(() => {
+      this.signingIn.delete(address);
+    });
+    this.signingIn.set(address, signIn);
+    return signIn;
+  }
+
+  async get<T>(path: string, signer: ethers.Signer, params?: Record<string, string>): Promise<T> {
+    const request = async () => {
+      const token = await this.getToken(signer);
+      return axios.get<T>(`${API_URL}${path}`, {
+        params,
+        headers: { Authorization: `Bearer ${token}` }
+      });
+    };
+
+    try {
+      return (await request()).data;
+    } catch (error) {
+      // The backend may have been restarted with a new secret
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        StorageService.clearApiSession();
+        return (await request()).data;
+      }
+      throw error;
+    }
+  }
+
+  private async signIn(signer: ethers.Signer, address: string): Promise<string> {
+    const { data: { nonce } } = await axios.get<{ nonce: string }>(`${API_URL}/auth/nonce`, { params: { address } });
+
+    const message = [
+      `${window.location.host} wants you to sign in with your Ethereum account:`,
+      ethers.getAddress(address),
+      '',
+      'Sign in to the dVPN backend.',
+      '',
+      `URI: ${window.location.origin}`,
+      'Version: 1',
+      `Chain ID: ${CHAIN_ID}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${new Date().toISOString()}`
+    ].join('\n');
+    const signature = await signer.signMessage(message);
+
+    const { data: { token } } = await axios.post<{ token: string }>(`${API_URL}/auth/verify`, { message, signature });
+    StorageService.saveApiSession({ token, address, expiresAt: tokenExpiry(token) });
+    console.log('✅ Signed in to the backend as', address);
+    return token;
+  }
+}
+
+export const apiSessionService = new ApiSessionService();
@@ -1,6 +1,6 @@
 import { ethers } from 'ethers';
 
-interface NodeMetrics {
+export interface NodeMetrics {
   latency: number;
   bandwidth: number;
   uptime: number;
@@ -37,6 +37,11 @@ class MetricsService {
     this.nodeHistory.set(nodeAddress, history);
   }
 
+  // Replace a node's history, e.g. with samples loaded from the backend
+  public setMetrics(nodeAddress: string, metrics: NodeMetrics[]): void {
+    this.nodeHistory.set(nodeAddress, metrics.slice(-this.HISTORY_LENGTH));
+  }
+
   // Calculate the total score for a node
   public calculateScore(metrics: NodeMetrics): number {
     // Normalize metrics to a 0-100 scale
@@ -62,12 +67,14 @@ class MetricsService {
 
     const metrics = history;
 
-    // Calculate trends for each metric
+    // Calculate trends for each metric. Samples are evenly spaced, so their
+    // position stands in for time (identical timestamps would make the slope NaN)
+    const positions = history.map((_, i) => i);
     const trends = {
-      latency: this.calculateTrend(history.map(m => Date.now()), history.map(m => m.latency)),
-      bandwidth: this.calculateTrend(history.map(m => Date.now()), history.map(m => m.bandwidth)),
-      uptime: this.calculateTrend(history.map(m => Date.now()), history.map(m => m.uptime)),
-      reliability: this.calculateTrend(history.map(m => Date.now()), history.map(m => m.reliability))
+      latency: this.calculateTrend(positions, history.map(m => m.latency)),
+      bandwidth: this.calculateTrend(positions, history.map(m => m.bandwidth)),
+      uptime: this.calculateTrend(positions, history.map(m => m.uptime)),
+      reliability: this.calculateTrend(positions, history.map(m => m.reliability))
     };
 
     // Get the most recent metrics
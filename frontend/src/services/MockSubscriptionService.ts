@@ -1,8 +1,20 @@
+import { formatEther, parseEther } from 'ethers';
+import {
+  OperatorEarnings,
+  OwnedSubscription,
+  PaymentToken,
+  RenewalQuote,
+  SubscriptionPlan
+} from './SubscriptionServiceFactory';
+
 // Mock subscription service for development mode
 export class MockSubscriptionService {
   private static subscriptions: Map<string, number> = new Map(); // address -> end time
-  private static readonly SUBSCRIPTION_FEE = "0.01"; // Mock fee in ETH
-  private static readonly SUBSCRIPTION_DURATION = 30 * 24 * 60 * 60; // 30 days in seconds
+  private static startTimes: Map<string, number> = new Map(); // address -> start time
+  private static readonly PLANS: SubscriptionPlan[] = [
+    { id: 0, price: parseEther('0.01'), duration: BigInt(30 * 24 * 60 * 60), bandwidthTier: 0, active: true },
+    { id: 1, price: parseEther('0.1'), duration: BigInt(365 * 24 * 60 * 60), bandwidthTier: 0, active: true }
+  ];
   
   // Admin management
   private static superAdmin: string | null = null;
@@ -23,7 +35,11 @@ export class MockSubscriptionService {
     return;
   }
 
-  async subscribe(): Promise<boolean> {
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    return MockSubscriptionService.PLANS;
+  }
+
+  async subscribe(planId: number = 0): Promise<boolean> {
     const userAddress = localStorage.getItem('userAddress') || 'dev-user-address';
     
     // Admins don't need to subscribe
@@ -33,12 +49,76 @@ export class MockSubscriptionService {
     }
 
     const currentTime = Math.floor(Date.now() / 1000);
-    const endTime = currentTime + MockSubscriptionService.SUBSCRIPTION_DURATION;
+    const endTime = currentTime + MockSubscriptionService.planDuration(planId);
     
     MockSubscriptionService.subscriptions.set(userAddress, endTime);
+    MockSubscriptionService.startTimes.set(userAddress, currentTime);
     return true;
   }
 
+  // The mock only takes ETH
+  async getPaymentTokens(): Promise<PaymentToken[]> {
+    return [];
+  }
+
+  // Development mode has no epochs, so operators never have anything to claim
+  async getOperatorEarnings(address: string): Promise<OperatorEarnings> {
+    return {
+      balances: [],
+      rewards: [],
+      currentEpoch: 0,
+      currentEpochEndsAt: Date.now(),
+      treasuryShareBps: 0
+    };
+  }
+
+  // The mock keeps one subscription per address, so its "token" is always 1
+  async getRenewalQuote(address: string, tokenId?: bigint, planId: number = 0): Promise<RenewalQuote | null> {
+    const endTime = MockSubscriptionService.subscriptions.get(address);
+    if (!endTime) return null;
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    return {
+      tokenId: BigInt(1),
+      planId,
+      currentExpiry: BigInt(endTime),
+      newExpiry: BigInt(Math.max(endTime, currentTime) + MockSubscriptionService.planDuration(planId)),
+      price: MockSubscriptionService.PLANS[planId].price
+    };
+  }
+
+  async renew(tokenId?: bigint, planId: number = 0): Promise<boolean> {
+    const userAddress = localStorage.getItem('userAddress') || 'dev-user-address';
+    const endTime = MockSubscriptionService.subscriptions.get(userAddress);
+    if (!endTime) {
+      throw new Error('No subscription found to renew');
+    }
+
+    const currentTime = Math.floor(Date.now() / 1000);
+    MockSubscriptionService.subscriptions.set(
+      userAddress,
+      Math.max(endTime, currentTime) + MockSubscriptionService.planDuration(planId)
+    );
+    return true;
+  }
+
+  async getOwnedSubscriptions(address: string): Promise<OwnedSubscription[]> {
+    const endTime = MockSubscriptionService.subscriptions.get(address);
+    if (!endTime) return [];
+    const startTime = MockSubscriptionService.startTimes.get(address);
+
+    return [{
+      tokenId: BigInt(1),
+      mintedAt: startTime ? startTime * 1000 : null,
+      expiresAt: endTime * 1000,
+      isActive: endTime * 1000 > Date.now(),
+      mintTransactionHash: null,
+      transferTransactionHash: null,
+      isLatest: true,
+      isUsedForAccess: true
+    }];
+  }
+
   async checkSubscription(address: string): Promise<boolean> {
     // Admins always have access
     const isAdminUser = await this.isAdmin(address);
@@ -77,11 +157,12 @@ export class MockSubscriptionService {
     }
     
     MockSubscriptionService.subscriptions.delete(userAddress);
+    MockSubscriptionService.startTimes.delete(userAddress);
     return true;
   }
 
-  async getSubscriptionFee(): Promise<string> {
-    return MockSubscriptionService.SUBSCRIPTION_FEE;
+  async getSubscriptionFee(planId: number = 0): Promise<string> {
+    return formatEther(MockSubscriptionService.PLANS[planId].price);
   }
 
   // Admin management methods
@@ -146,9 +227,14 @@ export class MockSubscriptionService {
     return true;
   }
 
+  private static planDuration(planId: number): number {
+    return Number(MockSubscriptionService.PLANS[planId].duration);
+  }
+
   // Development helper methods
   static clearAllSubscriptions(): void {
     MockSubscriptionService.subscriptions.clear();
+    MockSubscriptionService.startTimes.clear();
   }
 
   static setMockSubscription(address: string, durationInDays: number): void {
@@ -160,6 +246,7 @@ export class MockSubscriptionService {
     const currentTime = Math.floor(Date.now() / 1000);
     const endTime = currentTime + (durationInDays * 24 * 60 * 60);
     MockSubscriptionService.subscriptions.set(address, endTime);
+    MockSubscriptionService.startTimes.set(address, currentTime);
   }
 
   // Development helper methods for admin management
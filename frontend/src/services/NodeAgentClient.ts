@@ -0,0 +1,211 @@
+import axios, { Method, ResponseType } from 'axios';
+
+// Version of vpn-node/openapi.yaml these types follow
+export const NODE_AGENT_API_VERSION = '2.0.0';
+export const DEFAULT_NODE_AGENT_PORT = 8000;
+
+type Scheme = 'https' | 'http';
+
+export interface NodeAgentHealth {
+  status: 'healthy';
+  version: string;
+}
+
+export interface RegisteredPeer {
+  peer_id: string;
+  address: string;
+  server_public_key: string;
+  endpoint: string;
+  dns: string[];
+  allowed_ips: string[];
+}
+
+export interface DeletePeerResponse {
+  status: 'success';
+  message: string;
+}
+
+export interface NodeAgentPeerStatus {
+  user_id: string;
+  public_key: string;
+  address: string;
+  connected: boolean;
+  endpoint: string | null;
+  latest_handshake: number | null;
+  rx_bytes: number;
+  tx_bytes: number;
+}
+
+export interface NodeAgentStatus {
+  interface: string;
+  public_key: string;
+  listen_port: number;
+  peer_count: number;
+  connected_peers: number;
+  peer?: NodeAgentPeerStatus;
+}
+
+export interface NodeAgentMetrics {
+  timestamp: number;
+  uptime_seconds: number;
+  load_average: [number, number, number];
+  memory: {
+    total_bytes: number;
+    available_bytes: number;
+  };
+  peer_count: number;
+  connected_peers: number;
+  rx_bytes: number;
+  tx_bytes: number;
+}
+
+// Per-request overrides of the client defaults
+interface RequestOptions {
+  params?: Record<string, string>;
+  responseType?: ResponseType;
+  timeoutMs?: number;
+}
+
+export interface NodeAgentClientOptions {
+  port?: number;
+  timeoutMs?: number;
+  // Extra rounds after the first when no scheme could be reached
+  retries?: number;
+  retryDelayMs?: number;
+  schemes?: Scheme[];
+  // Backend session token; the agent requires it for requests on a user's peer
+  authToken?: string;
+}
+
+// The agent answered with an error status, or could not be reached at all
+export class NodeAgentError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'NodeAgentError';
+  }
+}
+
+// Scheme that last reached each host:port, shared by every client instance so
+// a node without a certificate is only probed over HTTPS once
+const negotiatedSchemes: Map<string, Scheme> = new Map();
+
+const stripHost = (host: string): string => host.replace(/^https?:\/\//, '').split('/')[0].split(':')[0];
+
+/**
+ * Client for the node agent API described in vpn-node/openapi.yaml. Every
+ * request goes through the same timeout, retry and HTTPS-then-HTTP handling.
+ */
+export class NodeAgentClient {
+  private host: string;
+  private port: number;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private schemes: Scheme[];
+  private authToken?: string;
+
+  constructor(host: string, options: NodeAgentClientOptions = {}) {
+    this.host = stripHost(host);
+    this.port = options.port || DEFAULT_NODE_AGENT_PORT;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.schemes = options.schemes || ['https', 'http'];
+    this.authToken = options.authToken;
+  }
+
+  health(): Promise<NodeAgentHealth> {
+    return this.request<NodeAgentHealth>('GET', '/health');
+  }
+
+  // Nodes on another major version may not understand this client's requests
+  async isCompatible(): Promise<boolean> {
+    const { version } = await this.health();
+    return version.split('.')[0] === NODE_AGENT_API_VERSION.split('.')[0];
+  }
+
+  registerPeer(userId: string, publicKey: string): Promise<RegisteredPeer> {
+    return this.request<RegisteredPeer>('POST', '/register-peer', { user_id: userId, public_key: publicKey });
+  }
+
+  deletePeer(userId: string): Promise<DeletePeerResponse> {
+    return this.request<DeletePeerResponse>('POST', '/delete-peer', { user_id: userId });
+  }
+
+  // A userId needs the authToken of that user (or an admin)
+  getStatus(userId?: string): Promise<NodeAgentStatus> {
+    return this.request<NodeAgentStatus>('GET', '/status', undefined, userId ? { params: { user_id: userId } } : {});
+  }
+
+  getMetrics(): Promise<NodeAgentMetrics> {
+    return this.request<NodeAgentMetrics>('GET', '/metrics');
+  }
+
+  ping(): Promise<string> {
+    return this.request<string>('GET', '/ping');
+  }
+
+  // Downloads `size` random bytes; the caller times the request
+  speedtest(size: number, timeoutMs?: number): Promise<ArrayBuffer> {
+    return this.request<ArrayBuffer>('GET', '/speedtest', undefined, {
+      params: { size: String(size) },
+      responseType: 'arraybuffer',
+      timeoutMs
+    });
+  }
+
+  private get key(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  // Last working scheme first, then the rest in configured order
+  private schemeOrder(): Scheme[] {
+    const preferred = negotiatedSchemes.get(this.key);
+    return preferred ? [preferred, ...this.schemes.filter(scheme => scheme !== preferred)] : this.schemes;
+  }
+
+  private async request<T>(method: Method, path: string, data?: unknown, options: RequestOptions = {}): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * attempt));
+      }
+
+      for (const scheme of this.schemeOrder()) {
+        try {
+          const response = await axios.request<T>({
+            method,
+            url: `${scheme}://${this.key}${path}`,
+            data,
+            params: options.params,
+            responseType: options.responseType,
+            timeout: options.timeoutMs ?? this.timeoutMs,
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json',
+              ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {})
+            }
+          });
+          negotiatedSchemes.set(this.key, scheme);
+          return response.data;
+        } catch (error) {
+          // An HTTP error status means the scheme works but the request was
+          // rejected; retrying will not change the answer
+          if (axios.isAxiosError(error) && error.response) {
+            negotiatedSchemes.set(this.key, scheme);
+            const detail = (error.response.data as { detail?: unknown } | undefined)?.detail;
+            throw new NodeAgentError(
+              typeof detail === 'string' ? detail : `Node agent returned ${error.response.status}`,
+              error.response.status
+            );
+          }
+          lastError = error;
+        }
+      }
+    }
+
+    console.error(`Node agent at ${this.key} is unreachable:`, lastError);
+    throw new NodeAgentError(`VPN node at ${this.host} is unreachable`);
+  }
+}
@@ -0,0 +1,171 @@
+import { NodeAgentClient } from './NodeAgentClient';
+import { StorageService } from './StorageService';
+
+const RTT_SAMPLES = 5;
+const PROBE_TIMEOUT_MS = 3000;
+// Large enough to get past TCP slow start on most links, small enough to
+// probe every listed node without noticeable cost
+const DOWNLOAD_SAMPLE_BYTES = 256 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+export interface NodeProbeResult {
+  nodeAddress: string;
+  reachable: boolean;
+  // Median round trip to the node agent, in milliseconds
+  rtt: number | null;
+  // Mean difference between consecutive round trips, in milliseconds
+  jitter: number | null;
+  // Null when no download sample was taken or it failed
+  downloadMbps: number | null;
+  measuredAt: number;
+}
+
+export interface ProbeOptions {
+  // Also time a short download from the node
+  download?: boolean;
+  // Ignore a result cached earlier in this session
+  refresh?: boolean;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Measures the network path from this browser to node agents. Results are
+// kept for the rest of the page session and added to the performance history.
+export class NodeProbeService {
+  private static instance: NodeProbeService;
+  private results: Map<string, NodeProbeResult> = new Map();
+  private inFlight: Map<string, Promise<NodeProbeResult>> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): NodeProbeService {
+    if (!NodeProbeService.instance) {
+      NodeProbeService.instance = new NodeProbeService();
+    }
+    return NodeProbeService.instance;
+  }
+
+  public getCached(nodeAddress: string): NodeProbeResult | null {
+    return this.results.get(nodeAddress) || null;
+  }
+
+  public async probe(nodeAddress: string, nodeIP: string, options: ProbeOptions = {}): Promise<NodeProbeResult> {
+    const cached = this.results.get(nodeAddress);
+    if (cached && !options.refresh && (!options.download || cached.downloadMbps !== null || !cached.reachable)) {
+      return cached;
+    }
+
+    // Concurrent callers share one measurement
+    const running = this.inFlight.get(nodeAddress);
+    if (running) {
+      return running;
+    }
+
+    const measurement = this.measure(nodeAddress, nodeIP, Boolean(options.download)).finally(() => {
+      this.inFlight.delete(nodeAddress);
+    });
+    this.inFlight.set(nodeAddress, measurement);
+    return measurement;
+  }
+
+  /**
+   * Probes several nodes. Round trips run in parallel; download samples run
+   * one node at a time so they do not compete for the same link.
+   */
+  public async probeAll(
+    nodes: { address: string; ipAddress: string }[],
+    options: ProbeOptions = {},
+    onResult?: (result: NodeProbeResult) => void
+  ): Promise<NodeProbeResult[]> {
+    const report = (result: NodeProbeResult) => {
+      onResult?.(result);
+      return result;
+    };
+
+    if (!options.download) {
+      return Promise.all(nodes.map(node => this.probe(node.address, node.ipAddress, options).then(report)));
+    }
+
+    const results: NodeProbeResult[] = [];
+    for (const node of nodes) {
+      results.push(report(await this.probe(node.address, node.ipAddress, options)));
+    }
+    return results;
+  }
+
+  private async measure(nodeAddress: string, nodeIP: string, download: boolean): Promise<NodeProbeResult> {
+    const client = new NodeAgentClient(nodeIP, { retries: 0, timeoutMs: PROBE_TIMEOUT_MS });
+    const samples: number[] = [];
+
+    for (let i = 0; i < RTT_SAMPLES; i++) {
+      const started = performance.now();
+      try {
+        await client.ping();
+      } catch (error) {
+        console.log(`Probe of ${nodeIP} failed:`, (error as Error).message);
+        break;
+      }
+      samples.push(performance.now() - started);
+    }
+
+    if (samples.length === 0) {
+      return this.record({
+        nodeAddress,
+        reachable: false,
+        rtt: null,
+        jitter: null,
+        downloadMbps: null,
+        measuredAt: Date.now()
+      });
+    }
+
+    // The first round trip also pays for scheme negotiation and connection
+    // setup, so it is left out whenever there are enough others
+    const warm = samples.length > 2 ? samples.slice(1) : samples;
+    const rtt = median(warm);
+    const jitter = warm.length > 1
+      ? warm.slice(1).reduce((sum, sample, i) => sum + Math.abs(sample - warm[i]), 0) / (warm.length - 1)
+      : 0;
+
+    let downloadMbps: number | null = null;
+    if (download) {
+      const started = performance.now();
+      try {
+        const body = await client.speedtest(DOWNLOAD_SAMPLE_BYTES, DOWNLOAD_TIMEOUT_MS);
+        // Leave out the round trip spent before the first byte arrived
+        const seconds = Math.max(performance.now() - started - rtt, 1) / 1000;
+        downloadMbps = (body.byteLength * 8) / seconds / 1000000;
+      } catch (error) {
+        console.log(`Download sample from ${nodeIP} failed:`, (error as Error).message);
+      }
+    }
+
+    return this.record({
+      nodeAddress,
+      reachable: true,
+      rtt: Math.round(rtt),
+      jitter: Math.round(jitter),
+      downloadMbps: downloadMbps === null ? null : Math.round(downloadMbps * 10) / 10,
+      measuredAt: Date.now()
+    });
+  }
+
+  private record(result: NodeProbeResult): NodeProbeResult {
+    this.results.set(result.nodeAddress, result);
+    if (result.reachable && result.rtt !== null) {
+      StorageService.savePerformanceRecord({
+        nodeAddress: result.nodeAddress,
+        timestamp: result.measuredAt,
+        latency: result.rtt,
+        jitter: result.jitter ?? undefined,
+        bandwidth: result.downloadMbps ?? undefined
+      });
+    }
+    return result;
+  }
+}
+
+export const nodeProbeService = NodeProbeService.getInstance();
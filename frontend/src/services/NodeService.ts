@@ -1,5 +1,7 @@
 import io from 'socket.io-client';
 import axios from 'axios';
+import { ethers } from 'ethers';
+import { apiSessionService } from './ApiSessionService';
 
 // Constants
 const API_URL = process.env.REACT_APP_API_URL || 'https://vpn-backend-esxb.onrender.com/api';
@@ -58,6 +60,30 @@ export interface PendingNode {
   submission_time: string;
 }
 
+export interface MetricSummary {
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+// One bucket of GET /metrics/node/:address/history
+export interface MetricsPoint {
+  timestamp: string;
+  sampleCount: number;
+  latency: MetricSummary;
+  bandwidth: MetricSummary;
+  uptime: MetricSummary;
+  reliability: MetricSummary;
+}
+
+export interface MetricsHistory {
+  from: string;
+  to: string;
+  resolution: 'raw' | 'hour' | 'day' | 'week';
+  points: MetricsPoint[];
+}
+
 class NodeService {
   private listeners: { [key: string]: Function[] } = {};
 
@@ -140,16 +166,16 @@ class NodeService {
     }
   }
 
-  // Add this new function to get node details
-  async getNodeDetails(address: string): Promise<{ friendlyName: string; country: string } | null> {
+  // Off-chain node details; the nodes API requires a signed-in session
+  async getNodeDetails(address: string, signer: ethers.Signer): Promise<{ friendlyName: string; country: string } | null> {
     try {
       console.log(`Fetching details for node: ${address}`);  // Debug log
-      const response = await axios.get(`${API_URL}/nodes/${address}`);
-      console.log(`API Response:`, response.data);  // Debug log
-      if (response.data) {
+      const data = await apiSessionService.get<{ friendly_name: string; country: string }>(`/nodes/${address}`, signer);
+      console.log(`API Response:`, data);  // Debug log
+      if (data) {
         return {
-          friendlyName: response.data.friendly_name,
-          country: response.data.country
+          friendlyName: data.friendly_name,
+          country: data.country
         };
       }
       return null;
@@ -158,6 +184,14 @@ class NodeService {
       return null;
     }
   }
+
+  // Collected metrics over a time range; the backend picks the bucket size
+  async getMetricHistory(address: string, signer: ethers.Signer, from: Date, to: Date): Promise<MetricsHistory> {
+    return apiSessionService.get<MetricsHistory>(`/metrics/node/${address}/history`, signer, {
+      from: from.toISOString(),
+      to: to.toISOString()
+    });
+  }
 }
 
 export const nodeService = new NodeService(); 
\ No newline at end of file
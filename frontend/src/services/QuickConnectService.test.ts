@@ -0,0 +1,120 @@
+import { VPNRegistry } from '../contracts/typechain/VPNRegistry';
+import { nodeProbeService } from './NodeProbeService';
+import { quickConnectService } from './QuickConnectService';
+import { StorageService } from './StorageService';
+
+jest.mock('./NodeProbeService', () => ({ nodeProbeService: { probe: jest.fn() } }));
+
+interface FakeNode {
+  // Round trip measured from the browser; null when the agent does not answer
+  rtt: number | null;
+  latency?: number;
+  bandwidth: number;
+  totalScore?: number;
+}
+
+// A registry whose top nodes are `nodes` in the given order
+const registry = (nodes: Record<string, FakeNode>) => {
+  const probe = nodeProbeService.probe as jest.Mock;
+  probe.mockImplementation(async (address: string) => ({ rtt: nodes[address].rtt }));
+
+  return {
+    getTopNodes: jest.fn(async () => [Object.keys(nodes), []]),
+    nodes: async (address: string) => ({
+      ipAddress: `${address}.example`,
+      latency: BigInt(nodes[address].latency ?? 0),
+      bandwidth: BigInt(nodes[address].bandwidth),
+      uptime: BigInt(100),
+      reliability: BigInt(100),
+      totalScore: BigInt(nodes[address].totalScore ?? 0)
+    })
+  } as unknown as VPNRegistry & { getTopNodes: jest.Mock };
+};
+
+const rank = async (contract: VPNRegistry, count?: number, among?: string[]) =>
+  (await quickConnectService.rankCandidates(contract, count, among)).map(candidate => candidate.address);
+
+describe('QuickConnectService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('ranks reachable nodes by score, ahead of any unreachable one', async () => {
+    const contract = registry({
+      offline: { rtt: null, latency: 0, bandwidth: 1000 },
+      slow: { rtt: 40, bandwidth: 300 },
+      fast: { rtt: 20, bandwidth: 1000 }
+    });
+
+    const candidates = await quickConnectService.rankCandidates(contract);
+
+    expect(candidates.map(candidate => [candidate.address, candidate.score])).toEqual([
+      ['fast', 122],
+      ['slow', 95],
+      // Scores highest, but could not be reached from this browser
+      ['offline', 125]
+    ]);
+    expect(candidates[0]).toMatchObject({ ipAddress: 'fast.example', latency: 20, isFavorite: false });
+  });
+
+  test('falls back to the on-chain latency for a node that did not answer the probe', async () => {
+    const contract = registry({ offline: { rtt: null, latency: 200, bandwidth: 1000 } });
+
+    const [candidate] = await quickConnectService.rankCandidates(contract);
+
+    expect(candidate.latency).toBeNull();
+    expect(candidate.score).toBe(92);
+  });
+
+  test('gives favorites enough of a bonus to beat a similar node but not a clearly better one', async () => {
+    const contract = registry({
+      fast: { rtt: 20, bandwidth: 1000 },
+      similar: { rtt: 40, bandwidth: 850 },
+      worse: { rtt: 40, bandwidth: 300 }
+    });
+
+    StorageService.toggleFavoriteNode('similar');
+    expect(await rank(contract)).toEqual(['similar', 'fast', 'worse']);
+
+    StorageService.toggleFavoriteNode('similar');
+    StorageService.toggleFavoriteNode('worse');
+    expect(await rank(contract)).toEqual(['fast', 'similar', 'worse']);
+  });
+
+  test('re-ranks the nodes when the saved priorities change', async () => {
+    const contract = registry({
+      nearby: { rtt: 10, bandwidth: 100 },
+      wide: { rtt: 100, bandwidth: 1000 }
+    });
+
+    expect(await rank(contract)).toEqual(['wide', 'nearby']);
+
+    StorageService.saveUserPreferences({ priorities: { latencyPriority: 5, bandwidthPriority: 1, reliabilityPriority: 3 } });
+    expect(await rank(contract)).toEqual(['nearby', 'wide']);
+  });
+
+  test('breaks ties on the on-chain score and returns at most `count` nodes', async () => {
+    const contract = registry({
+      low: { rtt: 20, bandwidth: 1000, totalScore: 70 },
+      high: { rtt: 20, bandwidth: 1000, totalScore: 90 }
+    });
+
+    expect(await rank(contract)).toEqual(['high', 'low']);
+    expect(await rank(contract, 1)).toEqual(['high']);
+  });
+
+  test('ranks only the given nodes when asked to', async () => {
+    const contract = registry({
+      fast: { rtt: 20, bandwidth: 1000 },
+      slow: { rtt: 40, bandwidth: 300 }
+    });
+
+    expect(await rank(contract, undefined, ['slow'])).toEqual(['slow']);
+    expect(contract.getTopNodes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { VPNRegistry } from '../contracts/typechain/VPNRegistry';
+import { metricsService } from './MetricsService';
+import { nodeProbeService } from './NodeProbeService';
+import { StorageService } from './StorageService';
+
+export const QUICK_CONNECT_CANDIDATES = 5;
+
+// Added to a favorite's score, enough to beat a similar node but not a clearly better one
+const FAVORITE_BONUS = 10;
+
+export interface QuickConnectCandidate {
+  address: string;
+  ipAddress: string;
+  onChainScore: number;
+  // Measured from this browser; null when the agent did not answer
+  latency: number | null;
+  isFavorite: boolean;
+  score: number;
+}
+
+class QuickConnectService {
+  /**
+   * Ranks the registry's top nodes for this user: each one's latency is probed
+   * from the browser, then scored with the saved priorities. Reachable nodes
+   * always rank ahead of unreachable ones. Passing `among` ranks those nodes
+   * instead, e.g. the ones in a single country.
+   */
+  public async rankCandidates(
+    contract: VPNRegistry,
+    count: number = QUICK_CONNECT_CANDIDATES,
+    among?: string[]
+  ): Promise<QuickConnectCandidate[]> {
+    const [addresses] = among ? [among] : await contract.getTopNodes(count);
+    const { priorities } = StorageService.getUserPreferences();
+    const favorites = StorageService.getFavoriteNodes();
+
+    const candidates = await Promise.all(
+      addresses.map(async (address): Promise<QuickConnectCandidate> => {
+        const node = await contract.nodes(address);
+        const { rtt: latency } = await nodeProbeService.probe(address, node.ipAddress);
+        const isFavorite = favorites.includes(address);
+
+        const score = metricsService.calculateRecommendationScore(
+          {
+            // Prefer the measured latency; the admin-entered one says nothing about this user's route
+            latency: latency ?? Number(node.latency),
+            bandwidth: Number(node.bandwidth),
+            uptime: Number(node.uptime),
+            reliability: Number(node.reliability)
+          },
+          priorities
+        );
+
+        return {
+          address,
+          ipAddress: node.ipAddress,
+          onChainScore: Number(node.totalScore),
+          latency,
+          isFavorite,
+          score: score + (isFavorite ? FAVORITE_BONUS : 0)
+        };
+      })
+    );
+
+    console.log('Quick connect candidates:', candidates);
+    return candidates
+      .sort((a, b) => {
+        const reachable = Number(b.latency !== null) - Number(a.latency !== null);
+        return reachable || b.score - a.score || b.onChainScore - a.onChainScore;
+      })
+      .slice(0, count);
+  }
+}
+
+export const quickConnectService = new QuickConnectService();
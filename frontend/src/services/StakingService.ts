@@ -0,0 +1,103 @@
+import { ContractTransactionResponse } from 'ethers';
+import { VPNRegistry } from '../contracts/typechain/VPNRegistry';
+
+// Matches VPNRegistry.SlashStatus
+export enum SlashStatus {
+  Pending = 0,
+  Executed = 1,
+  Cancelled = 2
+}
+
+export const SLASH_STATUS_LABELS: Record<SlashStatus, string> = {
+  [SlashStatus.Pending]: 'Pending',
+  [SlashStatus.Executed]: 'Executed',
+  [SlashStatus.Cancelled]: 'Cancelled'
+};
+
+export interface SlashRecord {
+  id: number;
+  nodeAddress: string;
+  amount: bigint;
+  reason: string;
+  proposedBy: string;
+  // Times are in milliseconds
+  proposedAt: number;
+  // When the dispute window closes and admins may execute it
+  executableAt: number;
+  status: SlashStatus;
+  dispute: string;
+}
+
+export interface StakingParameters {
+  minimumStake: bigint;
+  // Seconds
+  disputeWindow: number;
+  unbondingPeriod: number;
+}
+
+export interface NodeStake {
+  stake: bigint;
+  // Milliseconds; null until the node is deactivated
+  withdrawableAt: number | null;
+  pendingSlashes: number;
+}
+
+class StakingService {
+  public async getParameters(contract: VPNRegistry): Promise<StakingParameters> {
+    const [minimumStake, disputeWindow, unbondingPeriod] = await Promise.all([
+      contract.minimumStake(),
+      contract.disputeWindow(),
+      contract.unbondingPeriod()
+    ]);
+    return {
+      minimumStake,
+      disputeWindow: Number(disputeWindow),
+      unbondingPeriod: Number(unbondingPeriod)
+    };
+  }
+
+  public async getNodeStake(contract: VPNRegistry, nodeAddress: string): Promise<NodeStake> {
+    const [stake, withdrawableAt, pendingSlashes] = await contract.getStakeInfo(nodeAddress);
+    return {
+      stake,
+      withdrawableAt: withdrawableAt === BigInt(0) ? null : Number(withdrawableAt) * 1000,
+      pendingSlashes: Number(pendingSlashes)
+    };
+  }
+
+  /**
+   * Every slash ever proposed, newest first. Pass `nodeAddress` to keep only
+   * the ones against that node.
+   */
+  public async getSlashes(contract: VPNRegistry, nodeAddress?: string): Promise<SlashRecord[]> {
+    const [slashes, disputeWindow] = await Promise.all([contract.getSlashes(), contract.disputeWindow()]);
+
+    return slashes
+      .map((slash, id): SlashRecord => ({
+        id,
+        nodeAddress: slash.nodeAddress,
+        amount: slash.amount,
+        reason: slash.reason,
+        proposedBy: slash.proposedBy,
+        proposedAt: Number(slash.proposedAt) * 1000,
+        // The contract checks against the current window, so a changed window applies to old proposals too
+        executableAt: Number(slash.proposedAt + disputeWindow) * 1000,
+        status: Number(slash.status) as SlashStatus,
+        dispute: slash.dispute
+      }))
+      .filter(slash => !nodeAddress || slash.nodeAddress.toLowerCase() === nodeAddress.toLowerCase())
+      .reverse();
+  }
+
+  // Registration locks the current minimum stake
+  public async registerNode(
+    contract: VPNRegistry,
+    nodeAddress: string,
+    ipAddress: string
+  ): Promise<ContractTransactionResponse> {
+    const minimumStake = await contract.minimumStake();
+    return contract.registerNode(nodeAddress, ipAddress, { value: minimumStake });
+  }
+}
+
+export const stakingService = new StakingService();
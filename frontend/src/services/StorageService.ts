@@ -4,23 +4,64 @@ const STORAGE_KEYS = {
   RECENT_CONNECTIONS: 'dvpn_recent_connections',
   FAVORITE_NODES: 'dvpn_favorite_nodes',
   PERFORMANCE_HISTORY: 'dvpn_performance_history',
-  USER_PREFERENCES: 'dvpn_user_preferences'
+  USER_PREFERENCES: 'dvpn_user_preferences',
+  TRAY_TOKEN: 'dvpn_tray_token',
+  VPN_CONNECTION: 'dvpn_vpn_connection',
+  API_SESSION: 'dvpn_api_session',
+  ACCESS_TOKENS: 'dvpn_access_tokens'
 };
 
-interface PerformanceRecord {
+// Backend session token from Sign-In with Ethereum
+export interface StoredApiSession {
+  token: string;
+  address: string;
+  expiresAt: number;
+}
+
+// Browser probes record latency and jitter, and bandwidth only when a
+// download sample was taken; they never know uptime
+export interface PerformanceRecord {
   nodeAddress: string;
   timestamp: number;
   latency: number;
-  bandwidth: number;
-  uptime: number;
+  jitter?: number;
+  bandwidth?: number;
+  uptime?: number;
+}
+
+// Last known VPNContext state, so a reload can resume or clean up
+export interface StoredVPNConnection {
+  phase: string;
+  node: { address: string; ipAddress: string };
+  userAddress: string;
+  connectedAt: number | null;
+}
+
+// Weights of 1-5 used to rank nodes for quick connect
+export interface NodePriorities {
+  latencyPriority: number;
+  bandwidthPriority: number;
+  reliabilityPriority: number;
 }
 
 interface UserPreferences {
   theme: 'light' | 'dark';
   autoConnect: boolean;
   preferredNodes: string[];
+  priorities: NodePriorities;
 }
 
+const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'dark',
+  autoConnect: false,
+  preferredNodes: [],
+  priorities: {
+    latencyPriority: 3,
+    bandwidthPriority: 3,
+    reliabilityPriority: 3
+  }
+};
+
 export const StorageService = {
   // Recent Connections
   saveRecentConnection(nodeAddress: string) {
@@ -103,18 +144,120 @@ export const StorageService = {
   getUserPreferences(): UserPreferences {
     try {
       const stored = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
-      return stored ? JSON.parse(stored) : {
-        theme: 'dark',
-        autoConnect: false,
-        preferredNodes: []
-      };
+      // Preferences saved before a field existed pick up its default
+      return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
     } catch (error) {
       console.error('Error getting user preferences:', error);
-      return {
-        theme: 'dark',
-        autoConnect: false,
-        preferredNodes: []
-      };
+      return DEFAULT_PREFERENCES;
+    }
+  },
+
+  // Tray app pairing token, valid only for this origin
+  saveTrayToken(token: string) {
+    try {
+      localStorage.setItem(STORAGE_KEYS.TRAY_TOKEN, token);
+    } catch (error) {
+      console.error('Error saving tray token:', error);
+    }
+  },
+
+  getTrayToken(): string | null {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.TRAY_TOKEN);
+    } catch (error) {
+      console.error('Error getting tray token:', error);
+      return null;
+    }
+  },
+
+  clearTrayToken() {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.TRAY_TOKEN);
+    } catch (error) {
+      console.error('Error clearing tray token:', error);
+    }
+  },
+
+  // VPN connection
+  saveVPNConnection(connection: StoredVPNConnection) {
+    try {
+      localStorage.setItem(STORAGE_KEYS.VPN_CONNECTION, JSON.stringify(connection));
+    } catch (error) {
+      console.error('Error saving VPN connection:', error);
+    }
+  },
+
+  getVPNConnection(): StoredVPNConnection | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.VPN_CONNECTION);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error getting VPN connection:', error);
+      return null;
+    }
+  },
+
+  clearVPNConnection() {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.VPN_CONNECTION);
+    } catch (error) {
+      console.error('Error clearing VPN connection:', error);
+    }
+  },
+
+  // Backend API session
+  saveApiSession(session: StoredApiSession) {
+    try {
+      localStorage.setItem(STORAGE_KEYS.API_SESSION, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving API session:', error);
+    }
+  },
+
+  getApiSession(): StoredApiSession | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.API_SESSION);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error getting API session:', error);
+      return null;
+    }
+  },
+
+  clearApiSession() {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.API_SESSION);
+    } catch (error) {
+      console.error('Error clearing API session:', error);
+    }
+  },
+
+  // Subscription token each account picked for access, as decimal strings
+  saveAccessToken(account: string, tokenId: string | null) {
+    try {
+      const tokens = this.getAccessTokens();
+      if (tokenId === null) {
+        delete tokens[account.toLowerCase()];
+      } else {
+        tokens[account.toLowerCase()] = tokenId;
+      }
+      localStorage.setItem(STORAGE_KEYS.ACCESS_TOKENS, JSON.stringify(tokens));
+    } catch (error) {
+      console.error('Error saving access token:', error);
+    }
+  },
+
+  getAccessToken(account: string): string | null {
+    return this.getAccessTokens()[account.toLowerCase()] || null;
+  },
+
+  getAccessTokens(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.ACCESS_TOKENS);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error getting access tokens:', error);
+      return {};
     }
   },
 
@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import { SubscriptionService } from './SubscriptionService';
+import { StorageService } from './StorageService';
+
+const DAY = BigInt(24 * 60 * 60);
+const NOW = BigInt(1700000000);
+const USER = '0x00000000000000000000000000000000000000aa';
+
+// Plan 0 lasts 30 days, plan 1 a year
+const PLANS = [
+  { duration: BigInt(30) * DAY, price: ethers.parseEther('0.01') },
+  { duration: BigInt(365) * DAY, price: ethers.parseEther('0.1') }
+];
+
+// Token 1 is the user's latest mint on plan 0, token 2 one they received on plan 1
+const subscriptionContract = (expiries: Record<string, bigint>, latestToken = BigInt(1)) => ({
+  userLatestToken: async () => latestToken,
+  ownerOf: async () => USER,
+  subscriptionPlan: async (tokenId: bigint) => (tokenId === BigInt(2) ? BigInt(1) : BigInt(0)),
+  getSubscriptionExpiry: async (tokenId: bigint) => expiries[tokenId.toString()],
+  getPlan: async (planId: number) => PLANS[planId]
+});
+
+const serviceWith = (contract: ReturnType<typeof subscriptionContract>): SubscriptionService => {
+  const service = new SubscriptionService({} as ethers.BrowserProvider, {} as ethers.JsonRpcSigner);
+  // Stands in for the contract initialize() connects to
+  (service as unknown as { contract: typeof contract }).contract = contract;
+  return service;
+};
+
+describe('Renewal expiry preview', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(Number(NOW) * 1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('adds the plan to the current expiry of an active subscription, so renewing early loses nothing', async () => {
+    const expiry = NOW + BigInt(5) * DAY;
+    const service = serviceWith(subscriptionContract({ 1: expiry }));
+
+    expect(await service.getRenewalQuote(USER)).toEqual({
+      tokenId: BigInt(1),
+      planId: 0,
+      currentExpiry: expiry,
+      newExpiry: expiry + BigInt(30) * DAY,
+      price: PLANS[0].price
+    });
+  });
+
+  test('starts a lapsed subscription again from now', async () => {
+    const expiry = NOW - BigInt(10) * DAY;
+    const service = serviceWith(subscriptionContract({ 1: expiry }));
+
+    const quote = await service.getRenewalQuote(USER);
+
+    expect(quote?.currentExpiry).toBe(expiry);
+    expect(quote?.newExpiry).toBe(NOW + BigInt(30) * DAY);
+  });
+
+  test('previews the plan the user picked instead of the one the token is on', async () => {
+    const expiry = NOW + DAY;
+    const service = serviceWith(subscriptionContract({ 1: expiry }));
+
+    const quote = await service.getRenewalQuote(USER, undefined, 1);
+
+    expect(quote).toMatchObject({ planId: 1, newExpiry: expiry + BigInt(365) * DAY, price: PLANS[1].price });
+  });
+
+  test('renews the token picked for access rather than the latest mint', async () => {
+    const service = serviceWith(subscriptionContract({ 1: NOW + DAY, 2: NOW + BigInt(3) * DAY }));
+    StorageService.saveAccessToken(USER, '2');
+
+    const quote = await service.getRenewalQuote(USER);
+
+    expect(quote).toMatchObject({ tokenId: BigInt(2), planId: 1, newExpiry: NOW + BigInt(368) * DAY });
+    expect(await service.getRenewalQuote(USER, BigInt(1))).toMatchObject({ tokenId: BigInt(1), planId: 0 });
+  });
+
+  test('has nothing to preview for a user who never subscribed', async () => {
+    const service = serviceWith(subscriptionContract({}, BigInt(0)));
+
+    expect(await service.getRenewalQuote(USER)).toBeNull();
+  });
+});
@@ -1,14 +1,41 @@
 import { ethers, Contract, Interface, ContractTransactionResponse } from 'ethers';
-import { ISubscriptionService } from './SubscriptionServiceFactory';
-import { getContractAddress, getNetworkName } from '../config/contracts';
+import {
+  EpochReward,
+  ISubscriptionService,
+  OperatorBalance,
+  OperatorEarnings,
+  OwnedSubscription,
+  PaymentToken,
+  RenewalQuote,
+  SubscriptionPlan,
+  TokenHolding
+} from './SubscriptionServiceFactory';
+import { getContractAddress, getDeploymentBlock, getNetworkName } from '../config/contracts';
 import VPNSubscriptionABI from '../contracts/VPNSubscription.json';
 import VPNRegistryABI from '../contracts/VPNRegistry.json';
-import { VPNSubscription } from '../contracts/typechain/VPNSubscription';
+import { TransferEvent, VPNSubscription } from '../contracts/typechain/VPNSubscription';
+import { ERC20ABI, ERC20Contract } from '../contracts/ERC20';
+import { getAccessTokenId, hasSubscriptionAccess } from '../utils/subscription';
 
 // Create Interface instances from ABIs
 const subscriptionInterface = new Interface(VPNSubscriptionABI);
 const registryInterface = new Interface(VPNRegistryABI.abi);
 
+type TransferLog = TransferEvent.Log;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// How long a signed permit stays usable
+const PERMIT_LIFETIME = 60 * 60;
+
 interface RegistryContractMethods {
   isAdmin(address: string): Promise<boolean>;
   admin(): Promise<string>;
@@ -22,6 +49,8 @@ export class SubscriptionService implements ISubscriptionService {
   private signer: ethers.JsonRpcSigner;
   private contract: VPNSubscription | null = null;
   private registryContract: Contract & RegistryContractMethods | null = null;
+  // First block worth scanning for this deployment's events
+  private fromBlock = 0;
 
   constructor(provider: ethers.BrowserProvider, signer: ethers.JsonRpcSigner) {
     this.provider = provider;
@@ -34,6 +63,7 @@ export class SubscriptionService implements ISubscriptionService {
       const chainId = network.chainId.toString();
       const contractAddress = getContractAddress(chainId, 'VPNSubscription');
       const registryAddress = getContractAddress(chainId, 'VPNRegistry');
+      this.fromBlock = getDeploymentBlock(chainId);
       
       if (!contractAddress || !registryAddress) {
         throw new Error(`No contract addresses found for network ${getNetworkName(chainId)}`);
@@ -63,7 +93,7 @@ export class SubscriptionService implements ISubscriptionService {
 
       // Test contract methods
       try {
-        await this.contract.SUBSCRIPTION_PRICE();
+        await this.contract.planCount();
         console.log('[Debug] Contract methods verified successfully');
       } catch (error) {
         console.error('[Debug] Contract method verification failed:', error);
@@ -75,14 +105,30 @@ export class SubscriptionService implements ISubscriptionService {
     }
   }
 
-  async getSubscriptionPrice(): Promise<bigint> {
+  // Every plan, including ones the owner has stopped selling
+  async getPlans(): Promise<SubscriptionPlan[]> {
     if (!this.contract) {
       throw new Error('Contract not initialized');
     }
-    return await this.contract.SUBSCRIPTION_PRICE();
+    const plans = await this.contract.getPlans();
+    return plans.map((plan, id) => ({
+      id,
+      price: plan.price,
+      duration: plan.duration,
+      bandwidthTier: Number(plan.bandwidthTier),
+      active: plan.active
+    }));
   }
 
-  async subscribe(nodeAddress?: string): Promise<ContractTransactionResponse> {
+  async getSubscriptionPrice(planId: number): Promise<bigint> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const plan = await this.contract.getPlan(planId);
+    return plan.price;
+  }
+
+  async subscribe(planId: number, nodeAddress?: string): Promise<ContractTransactionResponse> {
     console.log('[Debug] Starting subscription process...');
     if (!this.contract) {
       throw new Error('Contract not initialized');
@@ -90,18 +136,18 @@ export class SubscriptionService implements ISubscriptionService {
 
     let value: bigint = BigInt(0);
     try {
-      value = await this.contract.SUBSCRIPTION_PRICE();
-      console.log('[Debug] Subscription price:', value.toString(), 'ETH');
+      value = await this.getSubscriptionPrice(planId);
+      console.log('[Debug] Subscription price for plan', planId, ':', value.toString(), 'wei');
 
       // Get gas estimate
-      const gasEstimate = await this.contract.subscribe.estimateGas({ value });
+      const gasEstimate = await this.contract.subscribe.estimateGas(planId, { value });
       console.log('[Debug] Gas estimate:', gasEstimate.toString());
 
       // Add 20% buffer to gas estimate
       const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
 
       // Send transaction with gas limit
-      const tx = await this.contract.subscribe({
+      const tx = await this.contract.subscribe(planId, {
         value,
         gasLimit
       });
@@ -117,6 +163,276 @@ export class SubscriptionService implements ISubscriptionService {
     }
   }
 
+  async getPaymentTokens(): Promise<PaymentToken[]> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const contract = this.contract;
+    const [addresses, planCount] = await Promise.all([contract.getPaymentTokens(), contract.planCount()]);
+    const planIds = Array.from({ length: Number(planCount) }, (_, id) => id);
+
+    return Promise.all(
+      addresses.map(async (address): Promise<PaymentToken> => {
+        const token = this.tokenContract(address);
+        const [symbol, decimals, planPrices, permitDomain] = await Promise.all([
+          token.symbol(),
+          token.decimals(),
+          Promise.all(planIds.map(planId => contract.planTokenPrice(planId, address))),
+          this.permitDomain(token)
+        ]);
+
+        const prices: Record<number, bigint> = {};
+        planPrices.forEach((price, planId) => {
+          if (price > BigInt(0)) prices[planId] = price;
+        });
+        return { address, symbol, decimals: Number(decimals), prices, supportsPermit: permitDomain !== null };
+      })
+    );
+  }
+
+  async getTokenHolding(tokenAddress: string, userAddress: string): Promise<TokenHolding> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const token = this.tokenContract(tokenAddress);
+    const [balance, allowance] = await Promise.all([
+      token.balanceOf(userAddress),
+      token.allowance(userAddress, await this.contract.getAddress())
+    ]);
+    return { balance, allowance };
+  }
+
+  // Lets the subscription contract take exactly `amount`, for tokens without permit support
+  async approveToken(tokenAddress: string, amount: bigint): Promise<ContractTransactionResponse> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    console.log('[Debug] Approving', amount.toString(), 'of token', tokenAddress);
+    return this.tokenContract(tokenAddress).approve(await this.contract.getAddress(), amount);
+  }
+
+  // Needs an allowance for the plan's token price, see approveToken
+  async subscribeWithToken(planId: number, tokenAddress: string): Promise<ContractTransactionResponse> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const gasEstimate = await this.contract.subscribeWithToken.estimateGas(planId, tokenAddress);
+    const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
+    return this.contract.subscribeWithToken(planId, tokenAddress, { gasLimit });
+  }
+
+  // Signs an EIP-2612 permit for the plan's price and spends it in the same transaction
+  async subscribeWithPermit(planId: number, tokenAddress: string): Promise<ContractTransactionResponse> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const token = this.tokenContract(tokenAddress);
+    const domain = await this.permitDomain(token);
+    if (!domain) {
+      throw new Error('This token does not support permits');
+    }
+
+    const owner = await this.signer.getAddress();
+    const [spender, value, nonce] = await Promise.all([
+      this.contract.getAddress(),
+      this.contract.planTokenPrice(planId, tokenAddress),
+      token.nonces(owner)
+    ]);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_LIFETIME);
+    const { v, r, s } = ethers.Signature.from(
+      await this.signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline })
+    );
+
+    const gasEstimate = await this.contract.subscribeWithPermit.estimateGas(planId, tokenAddress, deadline, v, r, s);
+    const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
+    return this.contract.subscribeWithPermit(planId, tokenAddress, deadline, v, r, s, { gasLimit });
+  }
+
+  private tokenContract(tokenAddress: string): ERC20Contract {
+    return new Contract(tokenAddress, ERC20ABI, this.signer) as ERC20Contract;
+  }
+
+  // The EIP-712 domain the token's permits are signed under, or null without permit support.
+  // Tokens don't expose the domain version, so the usual ones are checked against DOMAIN_SEPARATOR.
+  private async permitDomain(token: ERC20Contract): Promise<ethers.TypedDataDomain | null> {
+    try {
+      const [name, separator, network, verifyingContract] = await Promise.all([
+        token.name(),
+        token.DOMAIN_SEPARATOR(),
+        this.provider.getNetwork(),
+        token.getAddress()
+      ]);
+      const domain = ['1', '2']
+        .map(version => ({ name, version, chainId: network.chainId, verifyingContract }))
+        .find(candidate => ethers.TypedDataEncoder.hashDomain(candidate) === separator);
+      return domain || null;
+    } catch (error) {
+      console.log('[Debug] Token has no permit support:', error);
+      return null;
+    }
+  }
+
+  // Null when the user has never subscribed or cancelled their last subscription.
+  // Without a tokenId this quotes the token used for access, and without a planId
+  // the plan that token was last bought with.
+  async getRenewalQuote(userAddress: string, tokenId?: bigint, planId?: number): Promise<RenewalQuote | null> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const id = tokenId ?? await this.renewalTokenId(userAddress);
+    if (id === BigInt(0)) {
+      return null;
+    }
+
+    const plan = planId ?? Number(await this.contract.subscriptionPlan(id));
+    const [currentExpiry, { duration, price }] = await Promise.all([
+      this.contract.getSubscriptionExpiry(id),
+      this.contract.getPlan(plan)
+    ]);
+    // Same rule as the contract's renew: extend from the later of the expiry and now
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const newExpiry = (currentExpiry > now ? currentExpiry : now) + duration;
+    return { tokenId: id, planId: plan, currentExpiry, newExpiry, price };
+  }
+
+  // Extends an existing subscription NFT instead of minting a new one
+  async renew(tokenId?: bigint, planId?: number): Promise<ContractTransactionResponse> {
+    console.log('[Debug] Starting subscription renewal...');
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    const id = tokenId ?? await this.renewalTokenId(await this.signer.getAddress());
+    if (id === BigInt(0)) {
+      throw new Error('No subscription found to renew');
+    }
+
+    const plan = planId ?? Number(await this.contract.subscriptionPlan(id));
+    const value = await this.getSubscriptionPrice(plan);
+    const gasEstimate = await this.contract.renew.estimateGas(id, plan, { value });
+    const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
+    return this.contract.renew(id, plan, { value, gasLimit });
+  }
+
+  /**
+   * Every subscription NFT the user holds, newest first. Ownership is replayed
+   * from Transfer logs, so tokens received from another account are included
+   * and ones sent away or burned are not.
+   */
+  async getOwnedSubscriptions(userAddress: string): Promise<OwnedSubscription[]> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const contract = this.contract;
+    const user = userAddress.toLowerCase();
+
+    const [incoming, outgoing] = await Promise.all([
+      contract.queryFilter(contract.filters.Transfer(undefined, userAddress), this.fromBlock),
+      contract.queryFilter(contract.filters.Transfer(userAddress, undefined), this.fromBlock)
+    ]);
+    const acquired = new Map<bigint, TransferLog>();
+    [...incoming, ...outgoing]
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .forEach(log => {
+        if (log.args.to.toLowerCase() === user) {
+          acquired.set(log.args.tokenId, log);
+        } else {
+          acquired.delete(log.args.tokenId);
+        }
+      });
+
+    const [latestToken, accessToken] = await Promise.all([
+      contract.userLatestToken(userAddress),
+      getAccessTokenId(contract, userAddress)
+    ]);
+
+    const owned = await Promise.all(
+      Array.from(acquired.entries()).map(async ([tokenId, log]): Promise<OwnedSubscription> => {
+        const wasMinted = log.args.from === ethers.ZeroAddress;
+        const [mintLog] = wasMinted
+          ? [log]
+          : await contract.queryFilter(contract.filters.Transfer(ethers.ZeroAddress, undefined, tokenId), this.fromBlock);
+        const [expiry, mintBlock] = await Promise.all([
+          contract.getSubscriptionExpiry(tokenId),
+          mintLog ? mintLog.getBlock() : null
+        ]);
+        const expiresAt = Number(expiry) * 1000;
+
+        return {
+          tokenId,
+          mintedAt: mintBlock ? mintBlock.timestamp * 1000 : null,
+          expiresAt,
+          isActive: expiresAt >= Date.now(),
+          mintTransactionHash: mintLog ? mintLog.transactionHash : null,
+          transferTransactionHash: wasMinted ? null : log.transactionHash,
+          isLatest: tokenId === latestToken,
+          isUsedForAccess: accessToken !== null ? tokenId === accessToken : tokenId === latestToken
+        };
+      })
+    );
+    return owned.sort((a, b) => (a.tokenId < b.tokenId ? 1 : -1));
+  }
+
+  async getOperatorEarnings(operatorAddress: string): Promise<OperatorEarnings> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const contract = this.contract;
+    const [[tokens, amounts], rewardLogs, currentEpoch, epochGenesis, epochDuration, treasuryShareBps] = await Promise.all([
+      contract.earningsOf(operatorAddress),
+      contract.queryFilter(contract.filters.OperatorRewarded(undefined, operatorAddress), this.fromBlock),
+      contract.currentEpoch(),
+      contract.epochGenesis(),
+      contract.EPOCH_DURATION(),
+      contract.treasuryShareBps()
+    ]);
+
+    const balances = await Promise.all(
+      tokens.map(async (address, index): Promise<OperatorBalance> => {
+        if (address === ethers.ZeroAddress) {
+          return { token: address, symbol: 'ETH', decimals: 18, claimable: amounts[index] };
+        }
+        const token = this.tokenContract(address);
+        const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+        return { token: address, symbol, decimals: Number(decimals), claimable: amounts[index] };
+      })
+    );
+
+    const rewards = rewardLogs
+      .map((log): EpochReward => ({
+        epoch: Number(log.args.epoch),
+        nodeAddress: log.args.nodeAddress,
+        token: log.args.token,
+        amount: log.args.amount,
+        transactionHash: log.transactionHash
+      }))
+      .reverse();
+
+    return {
+      balances,
+      rewards,
+      currentEpoch: Number(currentEpoch),
+      currentEpochEndsAt: Number(epochGenesis + (currentEpoch + BigInt(1)) * epochDuration) * 1000,
+      treasuryShareBps: Number(treasuryShareBps)
+    };
+  }
+
+  // Pulls the caller's settled earnings in one currency; pass ZeroAddress for ETH
+  async claimEarnings(tokenAddress: string): Promise<ContractTransactionResponse> {
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+    const gasEstimate = await this.contract.claimEarnings.estimateGas(tokenAddress);
+    const gasLimit = (gasEstimate * BigInt(120)) / BigInt(100);
+    return this.contract.claimEarnings(tokenAddress, { gasLimit });
+  }
+
+  // The token picked for access, else the latest one minted; 0 when there is none
+  private async renewalTokenId(userAddress: string): Promise<bigint> {
+    const accessToken = await getAccessTokenId(this.contract!, userAddress);
+    return accessToken ?? await this.contract!.userLatestToken(userAddress);
+  }
+
   async isSubscribed(userAddress: string, nodeAddress: string): Promise<boolean> {
     if (!this.contract) {
       throw new Error('Contract not initialized');
@@ -142,21 +458,30 @@ export class SubscriptionService implements ISubscriptionService {
     if (!this.contract) {
       throw new Error('Contract not initialized');
     }
-    const endTime = await this.getSubscriptionEndTime(userAddress, nodeAddress);
-    return endTime - BigInt(30 * 24 * 60 * 60); // Subtract 30 days in seconds
+    // Mint time of the latest token, which is the one cancelSubscription refunds
+    const tokenId = await this.contract.userLatestToken(userAddress);
+    return tokenId === BigInt(0) ? BigInt(0) : await this.contract.subscriptionStart(tokenId);
   }
 
   async checkSubscription(userAddress: string): Promise<boolean> {
     if (!this.contract || !this.signer) {
       throw new Error('Contract not initialized');
     }
-    return await this.contract.hasActiveSubscription(userAddress);
+    return await hasSubscriptionAccess(this.contract, userAddress);
   }
 
   async getRemainingTime(address: string): Promise<number> {
     if (!this.contract || !this.signer) {
       throw new Error('Contract not initialized');
     }
+    const accessToken = await getAccessTokenId(this.contract, address);
+    if (accessToken !== null) {
+      const expiry = Number(await this.contract.getSubscriptionExpiry(accessToken));
+      const remaining = expiry - Math.floor(Date.now() / 1000);
+      if (remaining > 0) {
+        return remaining;
+      }
+    }
     const remainingTime = await this.contract.getRemainingTime(address);
     return Number(remainingTime);
   }
@@ -206,8 +531,8 @@ export class SubscriptionService implements ISubscriptionService {
     }
   }
 
-  async getSubscriptionFee(): Promise<bigint> {
-    return this.getSubscriptionPrice();
+  async getSubscriptionFee(planId: number): Promise<bigint> {
+    return this.getSubscriptionPrice(planId);
   }
 
   async transferSuperAdmin(newSuperAdmin: string): Promise<boolean> {
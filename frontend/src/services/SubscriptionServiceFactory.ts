@@ -1,11 +1,102 @@
 import { ethers, ContractTransactionResponse } from 'ethers';
 import { SubscriptionService } from './SubscriptionService';
 
+// A plan sold by the subscription contract; the ID is its index in getPlans
+export interface SubscriptionPlan {
+  id: number;
+  price: bigint;
+  // Seconds
+  duration: bigint;
+  // 0 means unlimited
+  bandwidthTier: number;
+  active: boolean;
+}
+
+// An ERC-20 the subscription contract accepts. Prices are in the token's smallest unit.
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  // Plan ID -> price; plans missing here are not sold for this token
+  prices: Record<number, bigint>;
+  // EIP-2612 tokens are paid with a signed permit instead of a separate approval
+  supportsPermit: boolean;
+}
+
+export interface TokenHolding {
+  balance: bigint;
+  // What the subscription contract may currently spend
+  allowance: bigint;
+}
+
+// What renewing the user's latest subscription would do, shown before signing
+export interface RenewalQuote {
+  tokenId: bigint;
+  planId: number;
+  // Unix timestamps in seconds
+  currentExpiry: bigint;
+  newExpiry: bigint;
+  price: bigint;
+}
+
+// A subscription NFT held by the user. Times are in milliseconds.
+export interface OwnedSubscription {
+  tokenId: bigint;
+  mintedAt: number | null;
+  expiresAt: number;
+  isActive: boolean;
+  mintTransactionHash: string | null;
+  // Set when the token was minted to someone else and sent to this user
+  transferTransactionHash: string | null;
+  // userLatestToken, the one hasActiveSubscription checks
+  isLatest: boolean;
+  isUsedForAccess: boolean;
+}
+
+// An operator's unclaimed revenue share in one currency; the address is ZeroAddress for ETH
+export interface OperatorBalance {
+  token: string;
+  symbol: string;
+  decimals: number;
+  claimable: bigint;
+}
+
+// One node's share of one settled epoch
+export interface EpochReward {
+  epoch: number;
+  nodeAddress: string;
+  token: string;
+  amount: bigint;
+  transactionHash: string;
+}
+
+export interface OperatorEarnings {
+  balances: OperatorBalance[];
+  // Newest first
+  rewards: EpochReward[];
+  currentEpoch: number;
+  // Milliseconds; the epoch can be settled a day after it ends
+  currentEpochEndsAt: number;
+  // Basis points of each epoch's revenue kept by the treasury
+  treasuryShareBps: number;
+}
+
 export interface ISubscriptionService {
   initialize(): Promise<void>;
-  getSubscriptionPrice(): Promise<bigint>;
-  getSubscriptionFee(): Promise<bigint>;  // Alias for getSubscriptionPrice
-  subscribe(nodeAddress?: string): Promise<ContractTransactionResponse>;
+  getPlans(): Promise<SubscriptionPlan[]>;
+  getSubscriptionPrice(planId: number): Promise<bigint>;
+  getSubscriptionFee(planId: number): Promise<bigint>;  // Alias for getSubscriptionPrice
+  subscribe(planId: number, nodeAddress?: string): Promise<ContractTransactionResponse>;
+  getPaymentTokens(): Promise<PaymentToken[]>;
+  getTokenHolding(tokenAddress: string, userAddress: string): Promise<TokenHolding>;
+  approveToken(tokenAddress: string, amount: bigint): Promise<ContractTransactionResponse>;
+  subscribeWithToken(planId: number, tokenAddress: string): Promise<ContractTransactionResponse>;
+  subscribeWithPermit(planId: number, tokenAddress: string): Promise<ContractTransactionResponse>;
+  getRenewalQuote(userAddress: string, tokenId?: bigint, planId?: number): Promise<RenewalQuote | null>;
+  renew(tokenId?: bigint, planId?: number): Promise<ContractTransactionResponse>;
+  getOwnedSubscriptions(userAddress: string): Promise<OwnedSubscription[]>;
+  getOperatorEarnings(operatorAddress: string): Promise<OperatorEarnings>;
+  claimEarnings(tokenAddress: string): Promise<ContractTransactionResponse>;
   isSubscribed(userAddress: string, nodeAddress: string): Promise<boolean>;
   getSubscriptionEndTime(userAddress: string, nodeAddress: string): Promise<bigint>;
   getSubscriptionStartTime(userAddress: string, nodeAddress: string): Promise<bigint>;
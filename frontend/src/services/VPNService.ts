@@ -1,6 +1,8 @@
 import { ethers } from 'ethers';
 import { getContracts } from '../config/contracts';
-import axios from 'axios';
+import { buildClientConfig, generateKeyPair } from '../utils/wireguard';
+import { NodeAgentClient } from './NodeAgentClient';
+import { apiSessionService } from './ApiSessionService';
 
 interface VPNConfig {
   config: string;
@@ -20,16 +22,6 @@ interface VPNConfig {
   };
 }
 
-type VPNNodeResponse = {
-  config: string;
-  nodeAddress?: string;
-  peer_id?: string;
-  nodeIP: string;
-  qr_code?: string;
-  connection_info?: VPNConfig['connection_info'];
-  subscription?: VPNConfig['subscription'];
-};
-
 export class VPNService {
   private provider: ethers.JsonRpcProvider;
   private vpnNodeUrl: string;
@@ -45,6 +37,12 @@ export class VPNService {
     this.userId = userId;
   }
 
+  // The node agent needs the user's backend session token for peer requests
+  private async agent(): Promise<NodeAgentClient> {
+    const signer = await this.provider.getSigner();
+    return new NodeAgentClient(this.vpnNodeUrl, { authToken: await apiSessionService.getToken(signer) });
+  }
+
   async checkSubscription(userAddress: string): Promise<boolean> {
     try {
       const { subscriptionContract } = getContracts(this.provider);
@@ -74,60 +72,15 @@ export class VPNService {
         userId: this.userId
       });
 
-      let response;
-      let error;
-
-      // Try HTTPS first
-      try {
-        response = await axios.post(`https://${this.vpnNodeUrl}:8000/generate-peer`, {
-          user_id: this.userId
-        }, {
-          headers: { 
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          timeout: 5000 // 5 second timeout for faster fallback
-        });
-      } catch (e) {
-        error = e;
-        console.log('HTTPS attempt failed, trying HTTP...');
-      }
-
-      // If HTTPS failed, try HTTP
-      if (!response) {
-        try {
-          response = await axios.post(`http://${this.vpnNodeUrl}:8000/generate-peer`, {
-            user_id: this.userId
-          }, {
-            headers: { 
-              'Content-Type': 'application/json',
-              'Accept': 'application/json'
-            },
-            timeout: 5000
-          });
-        } catch (e) {
-          error = e;
-          console.log('HTTP attempt also failed');
-        }
-      }
-
-      if (!response) {
-        throw error || new Error('Failed to connect to VPN node');
-      }
-
-      const result = response.data as VPNNodeResponse;
-      
-      // Extract the node address from the response
-      const extractedNodeAddress = result.nodeAddress || result.peer_id || '';
+      // Only the public key is sent; the private key goes straight into the config
+      const keys = await generateKeyPair();
+      const peer = await (await this.agent()).registerPeer(this.userId, keys.publicKey);
       
       // Convert the node response to our VPNConfig format
       const vpnConfig: VPNConfig = {
-        config: result.config,
-        nodeAddress: extractedNodeAddress,
-        nodeIP: result.nodeIP,
-        qr_code: result.qr_code,
-        connection_info: result.connection_info,
-        subscription: result.subscription
+        config: buildClientConfig(keys.privateKey, peer),
+        nodeAddress: peer.peer_id || '',
+        nodeIP: this.vpnNodeUrl
       };
 
       return vpnConfig;
@@ -157,40 +110,7 @@ export class VPNService {
 
   async deletePeer(): Promise<void> {
     try {
-      let response;
-      let error;
-
-      // Try HTTPS first
-      try {
-        response = await axios.post(`https://${this.vpnNodeUrl}:8000/delete-peer`, {
-          user_id: this.userId
-        }, {
-          headers: { 'Content-Type': 'application/json' },
-          timeout: 5000
-        });
-      } catch (e) {
-        error = e;
-        console.log('HTTPS delete attempt failed, trying HTTP...');
-      }
-
-      // If HTTPS failed, try HTTP
-      if (!response) {
-        try {
-          response = await axios.post(`http://${this.vpnNodeUrl}:8000/delete-peer`, {
-            user_id: this.userId
-          }, {
-            headers: { 'Content-Type': 'application/json' },
-            timeout: 5000
-          });
-        } catch (e) {
-          error = e;
-          console.log('HTTP delete attempt also failed');
-        }
-      }
-
-      if (!response || response.status !== 200) {
-        throw error || new Error('Failed to delete peer configuration');
-      }
+      await (await this.agent()).deletePeer(this.userId);
     } catch (error) {
       console.error('Error deleting peer:', error);
       throw error;
@@ -108,7 +108,7 @@ class Web3Service {
         'function getNodeDetails(address) view returns (string, string, uint256, bool, bool, uint256)',
         'function getTopNodes(uint256) view returns (address[], uint256[])',
         'function getActiveNodes() view returns (address[])',
-        'function registerNode(address, string) returns ()',
+        'function registerNode(address, string) payable returns ()',
         'function updateNodeMetrics(address, uint256, uint256, uint256, uint256) returns ()',
         'function canAccessNodes(uint256) view returns (bool)',
         'function vpnSubscriptionContract() view returns (address)'
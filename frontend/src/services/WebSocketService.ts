@@ -1,11 +1,59 @@
+import { StorageService } from './StorageService';
+import {
+    TRAY_ERROR_CODES,
+    TrayErrorObject,
+    TrayMethod,
+    TrayMethods,
+    TrayNotification,
+    TrayRequest,
+    TrayResponse,
+    TrayVersion,
+    TunnelInfo,
+    TunnelStatus
+} from '../types/trayRpc';
+
+const TRAY_URL = 'ws://localhost:8765';
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Methods the tray app answers before the socket is paired or authenticated
+const UNAUTHENTICATED_METHODS: TrayMethod[] = ['version', 'pair', 'authenticate'];
+
+// 'unavailable': the tray app is not running or refused the socket
+// 'unpaired': the tray app is running but this origin has no valid token
+// 'ready': the socket is authenticated and receives status notifications
+export type TrayConnectionState = 'unavailable' | 'unpaired' | 'ready';
+
+type StatusListener = (status: TunnelStatus) => void;
+type ConnectionStateListener = (state: TrayConnectionState) => void;
+
+interface PendingRequest {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+export class TrayRpcError extends Error {
+    constructor(message: string, public readonly code: number, public readonly data?: unknown) {
+        super(message);
+        this.name = 'TrayRpcError';
+    }
+}
+
+// JSON-RPC client for the VPN tray app; see types/trayRpc.ts for the protocol
 export class WebSocketService {
     private static instance: WebSocketService;
     private ws: WebSocket | null = null;
+    private opening: Promise<WebSocket> | null = null;
+    private authenticating: Promise<void> | null = null;
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000; // Start with 1 second delay
-    private messageQueue: string[] = [];
-    private connecting = false;
+    private nextRequestId = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+    private connectionState: TrayConnectionState = 'unavailable';
+    private lastStatus: TunnelStatus | null = null;
+    private statusListeners: Set<StatusListener> = new Set();
+    private connectionStateListeners: Set<ConnectionStateListener> = new Set();
 
     private constructor() {}
 
@@ -16,158 +64,265 @@ export class WebSocketService {
         return WebSocketService.instance;
     }
 
-    private async connect(): Promise<WebSocket> {
+    private setConnectionState(state: TrayConnectionState) {
+        if (this.connectionState === state) return;
+        this.connectionState = state;
+        this.connectionStateListeners.forEach(listener => listener(state));
+    }
+
+    private publishStatus(status: TunnelStatus) {
+        this.lastStatus = status;
+        this.statusListeners.forEach(listener => listener(status));
+    }
+
+    // Opens the socket, sharing one attempt between concurrent callers
+    private open(): Promise<WebSocket> {
         if (this.ws?.readyState === WebSocket.OPEN) {
-            console.log('WebSocket already connected');
-            return this.ws;
+            return Promise.resolve(this.ws);
         }
-
-        if (this.connecting) {
-            console.log('WebSocket connection already in progress...');
-            return new Promise((resolve, reject) => {
-                const checkConnection = setInterval(() => {
-                    if (this.ws?.readyState === WebSocket.OPEN) {
-                        clearInterval(checkConnection);
-                        resolve(this.ws);
-                    }
-                }, 100);
-
-                // Timeout after 5 seconds
-                setTimeout(() => {
-                    clearInterval(checkConnection);
-                    reject(new Error('Connection timeout waiting for existing connection'));
-                }, 5000);
-            });
+        if (this.opening) {
+            return this.opening;
         }
 
-        this.connecting = true;
-        console.log('Attempting to connect to VPN Tray App on ws://localhost:8765...');
+        console.log(`Attempting to connect to VPN Tray App on ${TRAY_URL}...`);
+        this.opening = new Promise<WebSocket>((resolve, reject) => {
+            const ws = new WebSocket(TRAY_URL);
+            let opened = false;
 
-        return new Promise((resolve, reject) => {
-            try {
-                this.ws = new WebSocket('ws://localhost:8765');
-
-                this.ws.onopen = () => {
-                    console.log('✅ WebSocket connected to VPN Tray App');
-                    this.connecting = false;
-                    this.reconnectAttempts = 0;
-                    this.reconnectDelay = 1000;
-                    
-                    // Send any queued messages
-                    while (this.messageQueue.length > 0) {
-                        const message = this.messageQueue.shift();
-                        if (message) {
-                            console.log('Sending queued message:', message);
-                            this.ws?.send(message);
-                        }
-                    }
-                    
-                    resolve(this.ws!);
-                };
-
-                this.ws.onclose = () => {
-                    console.log('❌ WebSocket disconnected from VPN Tray App');
-                    this.connecting = false;
-                    this.ws = null;
-                    
-                    // Attempt to reconnect
-                    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-                        const nextDelay = this.reconnectDelay * (this.reconnectAttempts + 1);
-                        console.log(`Attempting to reconnect in ${nextDelay/1000} seconds... (Attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts})`);
-                        setTimeout(() => {
-                            this.reconnectAttempts++;
-                            this.reconnectDelay *= 2; // Exponential backoff
-                            this.connect().catch(error => {
-                                console.error('Reconnection attempt failed:', error);
-                            });
-                        }, nextDelay);
-                    } else {
-                        console.error('❌ Max reconnection attempts reached. Please check if the VPN Tray App is running.');
-                    }
-                };
-
-                this.ws.onerror = (error) => {
-                    console.error('❌ WebSocket error:', error);
-                    this.connecting = false;
+            ws.onopen = () => {
+                console.log('✅ WebSocket connected to VPN Tray App');
+                opened = true;
+                this.ws = ws;
+                this.opening = null;
+                this.reconnectAttempts = 0;
+                this.reconnectDelay = 1000;
+                resolve(ws);
+            };
+
+            ws.onmessage = (event: MessageEvent) => this.handleMessage(event);
+
+            ws.onerror = (error) => {
+                console.error('❌ WebSocket error:', error);
+            };
+
+            ws.onclose = () => {
+                this.opening = null;
+                if (!opened) {
+                    this.setConnectionState('unavailable');
                     reject(new Error('Failed to connect to VPN Tray App. Please ensure it is running.'));
-                };
+                    this.scheduleReconnect();
+                    return;
+                }
 
-            } catch (error) {
-                console.error('❌ Failed to create WebSocket connection:', error);
-                this.connecting = false;
-                reject(error);
-            }
+                console.log('❌ WebSocket disconnected from VPN Tray App');
+                this.ws = null;
+                this.authenticating = null;
+                this.rejectPending(new Error('VPN Tray App closed the connection'));
+                this.setConnectionState('unavailable');
+                this.scheduleReconnect();
+            };
+        });
+        return this.opening;
+    }
+
+    // Keeps the status stream alive while anything in the UI is listening
+    private scheduleReconnect() {
+        if (this.statusListeners.size === 0 && this.connectionStateListeners.size === 0) return;
+        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+            console.error('❌ Max reconnection attempts reached. Please check if the VPN Tray App is running.');
+            return;
+        }
+
+        const nextDelay = this.reconnectDelay * (this.reconnectAttempts + 1);
+        console.log(`Attempting to reconnect in ${nextDelay/1000} seconds... (Attempt ${this.reconnectAttempts + 1}/${this.maxReconnectAttempts})`);
+        setTimeout(() => {
+            this.reconnectAttempts++;
+            this.reconnectDelay *= 2; // Exponential backoff
+            this.watch();
+        }, nextDelay);
+    }
+
+    private rejectPending(error: Error) {
+        this.pending.forEach(request => {
+            clearTimeout(request.timer);
+            request.reject(error);
         });
+        this.pending.clear();
     }
 
-    public async sendMessage(message: any): Promise<any> {
+    private handleMessage(event: MessageEvent) {
+        let message: TrayResponse | TrayNotification;
         try {
-            console.log('📤 Sending message to VPN Tray App:', message);
-            const ws = await this.connect();
-            
-            return new Promise((resolve, reject) => {
-                const messageStr = JSON.stringify(message);
-                
-                // Set up one-time message handler
-                const messageHandler = (event: MessageEvent) => {
-                    try {
-                        const response = JSON.parse(event.data);
-                        console.log('📥 Received response from VPN Tray App:', response);
-                        ws.removeEventListener('message', messageHandler);
-                        
-                        if (response.status === 'error') {
-                            reject(new Error(response.message));
-                        } else {
-                            resolve(response);
-                        }
-                    } catch (error) {
-                        console.error('❌ Error processing response:', error);
-                        reject(error);
-                    }
-                };
-                
-                ws.addEventListener('message', messageHandler);
-                
-                // Send the message or queue it if not connected
-                if (ws.readyState === WebSocket.OPEN) {
-                    console.log('📤 Sending message immediately:', messageStr);
-                    ws.send(messageStr);
-                } else {
-                    console.log('⏳ Queueing message for later:', messageStr);
-                    this.messageQueue.push(messageStr);
-                }
-                
-                // Timeout after 30 seconds
-                setTimeout(() => {
-                    ws.removeEventListener('message', messageHandler);
-                    reject(new Error('Request timeout - no response from VPN Tray App after 30 seconds'));
-                }, 30000);
+            message = JSON.parse(event.data);
+        } catch (error) {
+            console.error('❌ Ignoring malformed message from VPN Tray App:', event.data);
+            return;
+        }
+
+        if ('id' in message && typeof message.id === 'number') {
+            const request = this.pending.get(message.id);
+            if (!request) return;
+            this.pending.delete(message.id);
+            clearTimeout(request.timer);
+
+            if ('error' in message) {
+                const { code, message: errorMessage, data }: TrayErrorObject = message.error;
+                request.reject(new TrayRpcError(errorMessage, code, data));
+            } else {
+                request.resolve(message.result);
+            }
+            return;
+        }
+
+        if ('method' in message && message.method === 'status') {
+            console.log('📥 Tunnel status from VPN Tray App:', message.params);
+            this.publishStatus(message.params);
+        }
+    }
+
+    private send<M extends TrayMethod>(
+        ws: WebSocket,
+        method: M,
+        params: TrayMethods[M]['params']
+    ): Promise<TrayMethods[M]['result']> {
+        const id = this.nextRequestId++;
+        const request: TrayRequest<M> = { jsonrpc: '2.0', id, method, params };
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`Request timeout - no response to ${method} from VPN Tray App after ${REQUEST_TIMEOUT_MS / 1000} seconds`));
+            }, REQUEST_TIMEOUT_MS);
+
+            this.pending.set(id, { resolve, reject, timer });
+            console.log('📤 Sending request to VPN Tray App:', { id, method });
+            ws.send(JSON.stringify(request));
+        });
+    }
+
+    // Opens the socket and authenticates it with the stored pairing token
+    private async session(): Promise<WebSocket> {
+        const ws = await this.open();
+        if (this.connectionState === 'ready') {
+            return ws;
+        }
+
+        if (!this.authenticating) {
+            this.authenticating = this.authenticate(ws).finally(() => {
+                this.authenticating = null;
             });
-            
+        }
+        await this.authenticating;
+        return ws;
+    }
+
+    private async authenticate(ws: WebSocket): Promise<void> {
+        const token = StorageService.getTrayToken();
+        if (!token) {
+            this.setConnectionState('unpaired');
+            throw new TrayRpcError('Pair this browser with the VPN Tray App first', TRAY_ERROR_CODES.NOT_PAIRED);
+        }
+
+        try {
+            await this.send(ws, 'authenticate', { token });
+            this.setConnectionState('ready');
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            console.error('❌ Failed to send message:', errorMessage);
-            throw new Error(`Failed to send WebSocket message: ${errorMessage}`);
+            if (error instanceof TrayRpcError && error.code === TRAY_ERROR_CODES.INVALID_TOKEN) {
+                StorageService.clearTrayToken();
+                this.setConnectionState('unpaired');
+            }
+            throw error;
         }
     }
 
-    public async activateVPN(config: string, filename: string): Promise<void> {
-        const message = {
-            command: 'connect',
-            config,
-            filename
+    public async call<M extends TrayMethod>(
+        method: M,
+        params: TrayMethods[M]['params']
+    ): Promise<TrayMethods[M]['result']> {
+        const ws = UNAUTHENTICATED_METHODS.includes(method) ? await this.open() : await this.session();
+        return this.send(ws, method, params);
+    }
+
+    /**
+     * Pairs this origin with the tray app using the one-time code it displays.
+     * The returned token is stored and used to authenticate later sockets.
+     */
+    public async pair(code: string): Promise<void> {
+        const { token } = await this.call('pair', { code: code.trim() });
+        StorageService.saveTrayToken(token);
+        this.setConnectionState('ready');
+        await this.getStatus();
+    }
+
+    public unpair() {
+        StorageService.clearTrayToken();
+        this.setConnectionState('unpaired');
+        this.ws?.close();
+    }
+
+    // Connects and authenticates in the background so status notifications flow
+    public watch() {
+        this.session()
+            .then(() => this.getStatus())
+            .catch(error => {
+                console.log('VPN Tray App is not ready:', error.message);
+            });
+    }
+
+    public onStatus(listener: StatusListener): () => void {
+        this.statusListeners.add(listener);
+        if (this.lastStatus) {
+            listener(this.lastStatus);
+        }
+        return () => {
+            this.statusListeners.delete(listener);
         };
-        
-        await this.sendMessage(message);
     }
 
-    public async deactivateVPN(): Promise<void> {
-        const message = {
-            command: 'disconnect'
+    public onConnectionStateChange(listener: ConnectionStateListener): () => void {
+        this.connectionStateListeners.add(listener);
+        listener(this.connectionState);
+        return () => {
+            this.connectionStateListeners.delete(listener);
         };
-        
-        await this.sendMessage(message);
+    }
+
+    public getConnectionState(): TrayConnectionState {
+        return this.connectionState;
+    }
+
+    public getLastStatus(): TunnelStatus | null {
+        return this.lastStatus;
+    }
+
+    public async getStatus(): Promise<TunnelStatus> {
+        const status = await this.call('status', {});
+        this.publishStatus(status);
+        return status;
+    }
+
+    public listTunnels(): Promise<TunnelInfo[]> {
+        return this.call('listTunnels', {});
+    }
+
+    public getVersion(): Promise<TrayVersion> {
+        return this.call('version', {});
+    }
+
+    public async activateVPN(config: string, name: string): Promise<TunnelStatus> {
+        const status = await this.call('connect', { config, name });
+        this.publishStatus(status);
+        if (status.state === 'error') {
+            throw new Error(status.error || 'VPN Tray App failed to bring up the tunnel');
+        }
+        return status;
+    }
+
+    public async deactivateVPN(): Promise<TunnelStatus> {
+        const status = await this.call('disconnect', {});
+        this.publishStatus(status);
+        return status;
     }
 }
 
-export const webSocketService = WebSocketService.getInstance(); 
\ No newline at end of file
+export const webSocketService = WebSocketService.getInstance();
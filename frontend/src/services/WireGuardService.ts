@@ -1,6 +1,5 @@
-import axios from 'axios';
-import { Buffer } from 'buffer';
-import * as crypto from 'crypto';
+import { buildClientConfig, generateKeyPair } from '../utils/wireguard';
+import { NodeAgentClient, RegisteredPeer } from './NodeAgentClient';
 
 // First, install these packages:
 // npm install wireguard-tools buffer
@@ -96,11 +95,12 @@ export class WireGuardService {
   private ws: WebSocket | null = null;
   private isConnected: boolean = false;
   private currentConfigBlob: Blob | null = null;
+  // Tunnel addresses assigned by each node, keyed by node address and user
+  private clientAddresses: Map<string, string> = new Map();
   
   // Known server details
   private readonly SERVER_PUBLIC_KEY = 'bUe6P3MbDPSihQLfEU3GQZD+IgCd+sPuGd5GN0r2Qi8=';
   private readonly SERVER_PORT = '51820';
-  private readonly CLIENT_IP_PREFIX = '10.8.0.';
 
   constructor() {
     // Don't initialize with any default nodes
@@ -112,57 +112,31 @@ export class WireGuardService {
     this.nodes.set(node.address.toLowerCase(), node);
   }
 
-  private generateKeyPair(): { privateKey: string; publicKey: string } {
-    // Generate a new private key
-    const privateKey = crypto.randomBytes(32);
-    
-    // Convert it to base64
-    const privateKeyBase64 = privateKey.toString('base64');
-    
-    // Generate the corresponding public key using the private key
-    const publicKey = crypto.createHash('sha256').update(privateKeyBase64).digest();
-    const publicKeyBase64 = publicKey.toString('base64');
-    
-    return {
-      privateKey: privateKeyBase64,
-      publicKey: publicKeyBase64
-    };
-  }
-
-  private generateClientIP(userId: string): string {
-    // Generate a deterministic number between 2 and 254 based on the userId
-    const hash = crypto.createHash('sha256').update(userId).digest();
-    const number = (hash[0] + hash[1] * 256) % 253 + 2; // Ensures number between 2 and 254
-    return `${this.CLIENT_IP_PREFIX}${number}`;
+  private clientAddressKey(nodeAddress: string, userId: string): string {
+    return `${nodeAddress.toLowerCase()}:${userId.toLowerCase()}`;
   }
 
-  private async registerPeerWithNode(node: VPNNode, publicKey: string, clientIP: string, userId: string): Promise<boolean> {
+  // Registers only the public key; the node assigns the tunnel address and
+  // returns its own key and endpoint. authToken is the user's backend session token.
+  private async registerPeerWithNode(
+    node: VPNNode,
+    publicKey: string,
+    userId: string,
+    authToken: string
+  ): Promise<RegisteredPeer> {
     try {
-      // Use the node's IP and API port for the request
-      const nodeUrl = `http://${node.ipAddress}:${node.apiPort || 8000}`;
-      console.log(`Attempting to register peer with node at ${nodeUrl}`);
-
-      const response = await axios.post(`${nodeUrl}/generate-peer`, {
-        user_id: userId
-      }, {
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (response.status === 200 && response.data.config) {
-        console.log('Peer registration successful:', response.data);
-        return true;
-      }
-      
-      throw new Error('Failed to register peer');
+      console.log(`Attempting to register peer with node at ${node.ipAddress}`);
+      const agent = new NodeAgentClient(node.ipAddress, { port: node.apiPort, authToken });
+      const peer = await agent.registerPeer(userId, publicKey);
+      console.log('Peer registration successful:', peer.peer_id);
+      return peer;
     } catch (error) {
       console.error('Error in registerPeerWithNode:', error);
       throw error;
     }
   }
 
-  async connectToVPN(nodeAddress: string, userAddress: string, userId: string): Promise<VPNConfig> {
+  async connectToVPN(nodeAddress: string, userAddress: string, userId: string, authToken: string): Promise<VPNConfig> {
     try {
       console.log('Nodes in WireGuardService:', Array.from(this.nodes.entries()));
       
@@ -175,29 +149,20 @@ export class WireGuardService {
         throw new Error(`VPN node not found for address: ${nodeAddress}`);
       }
 
-      // Generate key pair and client IP
-      const keys = this.generateKeyPair();
-      const clientIP = this.generateClientIP(userId);
+      // The private key stays on this device and only goes into the config
+      const keys = await generateKeyPair();
 
-      // Register the peer with the VPN node
+      // Register the peer with the VPN node, which assigns its tunnel address
       console.log('Registering peer with VPN node...');
-      const registered = await this.registerPeerWithNode(node, keys.publicKey, clientIP, userId);
-
-      if (!registered) {
-        throw new Error('Failed to register peer with VPN node');
-      }
-
-      // Generate WireGuard configuration using node's IP and WireGuard port
-      const config = `[Interface]
-PrivateKey = ${keys.privateKey}
-Address = ${clientIP}/24
-DNS = 8.8.8.8, 8.8.4.4
-
-[Peer]
-PublicKey = ${node.publicKey}
-AllowedIPs = 0.0.0.0/0
-Endpoint = ${node.ipAddress}:${node.wireguardPort || 51820}
-PersistentKeepalive = 25`;
+      const peer = await this.registerPeerWithNode(node, keys.publicKey, userId, authToken);
+      this.clientAddresses.set(this.clientAddressKey(node.address, userId), peer.address);
+
+      // Fall back to the registry's details if the node left them out
+      const config = buildClientConfig(keys.privateKey, {
+        ...peer,
+        server_public_key: peer.server_public_key || node.publicKey,
+        endpoint: peer.endpoint || `${node.ipAddress}:${node.wireguardPort || 51820}`
+      });
 
       return {
         config,
@@ -261,6 +226,7 @@ PersistentKeepalive = 25`;
         this.ws = null;
       }
 
+      this.clientAddresses.delete(this.clientAddressKey(nodeAddress, userId));
       this.isConnected = false;
     } catch (error) {
       console.error('Error disconnecting from VPN:', error);
@@ -277,7 +243,7 @@ PersistentKeepalive = 25`;
 
       return {
         connected: this.isConnected,
-        client_ip: this.generateClientIP(userId),
+        client_ip: this.clientAddresses.get(this.clientAddressKey(nodeAddress, userId)),
         subscription: {
           is_active: true,
           expiry_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
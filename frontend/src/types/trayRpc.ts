@@ -0,0 +1,103 @@
+/**
+ * Protocol between the web UI and the VPN tray app on ws://localhost:8765.
+ *
+ * Messages are JSON-RPC 2.0. Every request carries an `id` that the tray app
+ * echoes in its response, so concurrent calls never see each other's replies.
+ * Messages without an `id` are notifications pushed by the tray app.
+ *
+ * A socket starts unauthenticated and may only call `version`, `pair` and
+ * `authenticate`:
+ * - `pair` takes the one-time code the tray app displays. The tray app binds
+ *   the socket's Origin header to a new token, returns it, and treats the
+ *   socket as authenticated.
+ * - `authenticate` presents that token on later sockets. The tray app only
+ *   accepts it from the origin it was issued to.
+ * Any other method on an unauthenticated socket fails with NOT_PAIRED.
+ */
+
+export const TRAY_PROTOCOL_VERSION = '1.0';
+
+export type TunnelState = 'disconnected' | 'connecting' | 'connected' | 'disconnecting' | 'error';
+
+export interface TunnelStatus {
+  state: TunnelState;
+  // Name of the active tunnel, null when none is up
+  tunnel: string | null;
+  address?: string;
+  endpoint?: string;
+  // Unix time of the last handshake with the server
+  latestHandshake?: number | null;
+  rxBytes?: number;
+  txBytes?: number;
+  error?: string;
+}
+
+export interface TunnelInfo {
+  name: string;
+  active: boolean;
+  endpoint?: string;
+}
+
+export interface TrayVersion {
+  app: string;
+  protocol: string;
+  platform: string;
+}
+
+// Parameters and result of each method the tray app implements
+export interface TrayMethods {
+  version: { params: {}; result: TrayVersion };
+  pair: { params: { code: string }; result: { token: string } };
+  authenticate: { params: { token: string }; result: { paired: true } };
+  connect: { params: { config: string; name: string }; result: TunnelStatus };
+  disconnect: { params: { name?: string }; result: TunnelStatus };
+  status: { params: {}; result: TunnelStatus };
+  listTunnels: { params: {}; result: TunnelInfo[] };
+}
+
+export type TrayMethod = keyof TrayMethods;
+
+// Notifications the tray app pushes to authenticated sockets
+export interface TrayNotifications {
+  status: TunnelStatus;
+}
+
+export type TrayNotificationMethod = keyof TrayNotifications;
+
+export interface TrayRequest<M extends TrayMethod = TrayMethod> {
+  jsonrpc: '2.0';
+  id: number;
+  method: M;
+  params: TrayMethods[M]['params'];
+}
+
+export interface TrayErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type TrayResponse =
+  | { jsonrpc: '2.0'; id: number; result: unknown }
+  | { jsonrpc: '2.0'; id: number; error: TrayErrorObject };
+
+export interface TrayNotification<M extends TrayNotificationMethod = TrayNotificationMethod> {
+  jsonrpc: '2.0';
+  method: M;
+  params: TrayNotifications[M];
+}
+
+export const TRAY_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  // The socket has not paired or authenticated
+  NOT_PAIRED: -32001,
+  // Wrong or expired pairing code
+  INVALID_PAIRING_CODE: -32002,
+  // Token unknown or issued to a different origin
+  INVALID_TOKEN: -32003,
+  TUNNEL_FAILED: -32010
+} as const;
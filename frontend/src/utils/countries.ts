@@ -0,0 +1,44 @@
+import worldCountries from '../data/world-countries.json';
+
+interface CountryGeometry {
+  code: string | null;
+  name: string;
+  aliases: string[];
+  // Polygons of rings of [longitude, latitude]; the first ring is the outline, the rest are holes
+  polygons: number[][][][];
+}
+
+export interface CountryShape {
+  code: string;
+  name: string;
+  // SVG path in MAP_VIEWBOX coordinates
+  path: string;
+}
+
+// Equirectangular projection: one unit per degree, Antarctica cropped off
+export const MAP_VIEWBOX = '0 6 360 142';
+
+const project = ([lon, lat]: number[]): string => `${(lon + 180).toFixed(1)},${(90 - lat).toFixed(1)}`;
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\./g, '');
+
+const geometries = (worldCountries as { countries: CountryGeometry[] }).countries.filter(
+  (country): country is CountryGeometry & { code: string } => country.code !== null && country.code !== 'AQ'
+);
+
+export const COUNTRY_SHAPES: CountryShape[] = geometries.map(country => ({
+  code: country.code,
+  name: country.name,
+  path: country.polygons
+    .map(polygon => polygon.map(ring => `M${ring.map(project).join('L')}Z`).join(''))
+    .join('')
+}));
+
+const byName = new Map<string, CountryShape>();
+geometries.forEach((country, index) => {
+  [country.code, country.name, ...country.aliases].forEach(key => byName.set(normalize(key), COUNTRY_SHAPES[index]));
+});
+
+// Node countries are typed in by operators, so accept ISO codes and the usual names
+export const findCountry = (value?: string | null): CountryShape | null =>
+  value ? byName.get(normalize(value)) || null : null;
@@ -0,0 +1,48 @@
+import { ethers } from 'ethers';
+import { VPNSubscription } from '../contracts/typechain/VPNSubscription';
+import { StorageService } from '../services/StorageService';
+
+// The token picked on the My subscriptions page, as long as the user still owns it
+export const getAccessTokenId = async (contract: VPNSubscription, userAddress: string): Promise<bigint | null> => {
+  const picked = StorageService.getAccessToken(userAddress);
+  if (!picked) return null;
+
+  try {
+    const owner = await contract.ownerOf(picked);
+    return owner.toLowerCase() === userAddress.toLowerCase() ? BigInt(picked) : null;
+  } catch (error) {
+    // ownerOf reverts for burned tokens
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// hasActiveSubscription only looks at the user's latest mint, so a picked token
+// (e.g. one received by transfer) is checked first
+export const hasSubscriptionAccess = async (contract: VPNSubscription, userAddress: string): Promise<boolean> => {
+  const tokenId = await getAccessTokenId(contract, userAddress);
+  if (tokenId !== null && (await contract.isSubscriptionActive(tokenId))) {
+    return true;
+  }
+  return contract.hasActiveSubscription(userAddress);
+};
+
+const DAY = 24 * 60 * 60;
+
+// Plan durations are in seconds; owners normally pick whole days
+export const formatPlanDuration = (seconds: bigint): string => {
+  const days = Number(seconds) / DAY;
+  if (days >= 365 && days % 365 === 0) {
+    return days === 365 ? '1 year' : `${days / 365} years`;
+  }
+  if (days >= 1 && Number.isInteger(days)) {
+    return days === 1 ? '1 day' : `${days} days`;
+  }
+  const hours = Math.round(Number(seconds) / 3600);
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+};
+
+export const formatBandwidthTier = (tier: number): string =>
+  tier === 0 ? 'Unlimited bandwidth' : `Bandwidth tier ${tier}`;
@@ -0,0 +1,70 @@
+import { derivePublicKey, generateKeyPair } from './wireguard';
+
+const fromHex = (hex: string): Uint8Array => Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16));
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...Array.from(bytes)));
+
+// RFC 7748, section 6.1
+const ALICE_PRIVATE = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const ALICE_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+const BOB_PRIVATE = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb';
+const BOB_PUBLIC = 'de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f';
+
+describe('X25519 fallback', () => {
+  test('derives the public keys of the RFC 7748 Diffie-Hellman example', () => {
+    expect(toHex(derivePublicKey(fromHex(ALICE_PRIVATE)))).toBe(ALICE_PUBLIC);
+    expect(toHex(derivePublicKey(fromHex(BOB_PRIVATE)))).toBe(BOB_PUBLIC);
+  });
+
+  test('matches the first iteration of the RFC 7748 iterated test', () => {
+    // k = u = 9
+    const nine = new Uint8Array(32);
+    nine[0] = 9;
+
+    expect(toHex(derivePublicKey(nine))).toBe('422c8e7a6227d7bca1350b3e2bb7279f7897b87bb6854b783c60e80311ae3079');
+  });
+
+  test('clamps the scalar, so unclamped bits do not change the key', () => {
+    const unclamped = fromHex(ALICE_PRIVATE);
+    unclamped[0] |= 7;
+    unclamped[31] |= 128;
+
+    expect(toHex(derivePublicKey(unclamped))).toBe(ALICE_PUBLIC);
+  });
+});
+
+describe('generateKeyPair', () => {
+  const original = Object.getOwnPropertyDescriptor(window, 'crypto');
+
+  afterEach(() => {
+    if (original) {
+      Object.defineProperty(window, 'crypto', original);
+    } else {
+      delete (window as { crypto?: Crypto }).crypto;
+    }
+  });
+
+  test('falls back to the built-in ladder where WebCrypto has no X25519', async () => {
+    Object.defineProperty(window, 'crypto', {
+      configurable: true,
+      value: {
+        getRandomValues: (bytes: Uint8Array) => {
+          bytes.set(fromHex(ALICE_PRIVATE));
+          return bytes;
+        },
+        subtle: {
+          generateKey: () => Promise.reject(new DOMException('Unrecognized name', 'NotSupportedError'))
+        }
+      }
+    });
+
+    const { privateKey, publicKey } = await generateKeyPair();
+
+    // The private key is stored clamped, as `wg genkey` prints it
+    const clamped = fromHex(ALICE_PRIVATE);
+    clamped[0] &= 248;
+    clamped[31] = (clamped[31] & 127) | 64;
+    expect(privateKey).toBe(toBase64(clamped));
+    expect(publicKey).toBe(toBase64(fromHex(ALICE_PUBLIC)));
+  });
+});
@@ -0,0 +1,157 @@
+import { RegisteredPeer } from '../services/NodeAgentClient';
+
+export interface WireGuardKeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
+const KEY_LENGTH = 32;
+
+// Curve25519 field prime 2^255 - 19 and the ladder constant (A - 2) / 4
+const P = (BigInt(1) << BigInt(255)) - BigInt(19);
+const A24 = BigInt(121665);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode.apply(null, Array.from(bytes)));
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Same clamping `wg genkey` applies, so keys look like the ones WireGuard makes
+const clamp = (scalar: Uint8Array): Uint8Array => {
+  const clamped = scalar.slice();
+  clamped[0] &= 248;
+  clamped[31] &= 127;
+  clamped[31] |= 64;
+  return clamped;
+};
+
+const mod = (value: bigint): bigint => {
+  const result = value % P;
+  return result >= ZERO ? result : result + P;
+};
+
+const modPow = (base: bigint, exponent: bigint): bigint => {
+  let result = ONE;
+  let b = mod(base);
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) result = mod(result * b);
+    b = mod(b * b);
+    e >>= ONE;
+  }
+  return result;
+};
+
+const decodeLittleEndian = (bytes: Uint8Array): bigint =>
+  bytes.reduceRight((value, byte) => (value << BigInt(8)) + BigInt(byte), ZERO);
+
+const encodeLittleEndian = (value: bigint): Uint8Array => {
+  const bytes = new Uint8Array(KEY_LENGTH);
+  let v = value;
+  for (let i = 0; i < KEY_LENGTH; i++) {
+    bytes[i] = Number(v & BigInt(255));
+    v >>= BigInt(8);
+  }
+  return bytes;
+};
+
+// X25519(scalar, 9) with the Montgomery ladder from RFC 7748, section 5.
+// Only used where WebCrypto has no X25519 support.
+export const derivePublicKey = (privateKey: Uint8Array): Uint8Array => {
+  const k = decodeLittleEndian(clamp(privateKey));
+  const x1 = BigInt(9);
+  let x2 = ONE;
+  let z2 = ZERO;
+  let x3 = x1;
+  let z3 = ONE;
+  let swap = ZERO;
+
+  for (let t = 254; t >= 0; t--) {
+    const bit = (k >> BigInt(t)) & ONE;
+    swap ^= bit;
+    if (swap) {
+      [x2, x3] = [x3, x2];
+      [z2, z3] = [z3, z2];
+    }
+    swap = bit;
+
+    const a = x2 + z2;
+    const aa = mod(a * a);
+    const b = x2 - z2;
+    const bb = mod(b * b);
+    const e = aa - bb;
+    const da = mod((x3 - z3) * a);
+    const cb = mod((x3 + z3) * b);
+    x3 = mod((da + cb) * (da + cb));
+    z3 = mod(x1 * mod((da - cb) * (da - cb)));
+    x2 = mod(aa * bb);
+    z2 = mod(e * (aa + A24 * e));
+  }
+  if (swap) {
+    [x2, x3] = [x3, x2];
+    [z2, z3] = [z3, z2];
+  }
+
+  return encodeLittleEndian(mod(x2 * modPow(z2, P - BigInt(2))));
+};
+
+const generateWithWebCrypto = async (): Promise<WireGuardKeyPair> => {
+  const keyPair = (await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits'])) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  // The raw private scalar is only exposed through JWK
+  const { d } = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+  if (!d) {
+    throw new Error('X25519 private key could not be exported');
+  }
+
+  return {
+    privateKey: toBase64(clamp(fromBase64Url(d))),
+    publicKey: toBase64(publicKey)
+  };
+};
+
+const generateWithFallback = (): WireGuardKeyPair => {
+  const privateKey = clamp(crypto.getRandomValues(new Uint8Array(KEY_LENGTH)));
+  return {
+    privateKey: toBase64(privateKey),
+    publicKey: toBase64(derivePublicKey(privateKey))
+  };
+};
+
+/**
+ * Generates a WireGuard (X25519) keypair on this device. The private key is
+ * never sent anywhere; only the public key is registered with a node.
+ */
+export const generateKeyPair = async (): Promise<WireGuardKeyPair> => {
+  try {
+    return await generateWithWebCrypto();
+  } catch (error) {
+    // Browsers without X25519 in WebCrypto reject the algorithm name
+    return generateWithFallback();
+  }
+};
+
+/**
+ * Builds the client config around a locally generated private key and the
+ * details the node returned from /register-peer.
+ */
+export const buildClientConfig = (privateKey: string, peer: RegisteredPeer): string => {
+  const dns = peer.dns && peer.dns.length > 0 ? peer.dns : ['8.8.8.8', '8.8.4.4'];
+  const allowedIPs = peer.allowed_ips && peer.allowed_ips.length > 0 ? peer.allowed_ips : ['0.0.0.0/0'];
+
+  return `[Interface]
+PrivateKey = ${privateKey}
+Address = ${peer.address}
+DNS = ${dns.join(', ')}
+
+[Peer]
+PublicKey = ${peer.server_public_key}
+AllowedIPs = ${allowedIPs.join(', ')}
+Endpoint = ${peer.endpoint}
+PersistentKeepalive = 25`;
+};
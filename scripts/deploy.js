@@ -19,6 +19,7 @@ async function main() {
   const vpnSubscription = await VPNSubscription.deploy();
   await vpnSubscription.waitForDeployment();
   const vpnSubscriptionAddress = await vpnSubscription.getAddress();
+  const deploymentBlock = (await vpnSubscription.deploymentTransaction().wait()).blockNumber;
   console.log("VPNSubscription deployed to:", vpnSubscriptionAddress);
 
   // Deploy VPNRegistry with VPNSubscription address
@@ -28,9 +29,27 @@ async function main() {
   const vpnRegistryAddress = await vpnRegistry.getAddress();
   console.log("VPNRegistry deployed to:", vpnRegistryAddress);
 
+  // Operators' revenue share is weighted by their registry score; the treasury keeps 20%
+  await (await vpnSubscription.setRevenueSharing(vpnRegistryAddress, 2000)).wait();
+  console.log("Revenue sharing configured");
+
   console.log("\nDeployment complete! Contract addresses:");
   console.log("VPNSubscription:", vpnSubscriptionAddress);
   console.log("VPNRegistry:", vpnRegistryAddress);
+  // The frontend and the indexer scan events from here rather than from genesis
+  console.log("Deployment block:", deploymentBlock);
+
+  // The ABIs change with the contracts, so every deployment needs these updated
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const suffix = chainId === 1n ? "MAINNET" : "SEPOLIA";
+  console.log("\nSet in the frontend environment (render.yaml or frontend/.env):");
+  console.log(`REACT_APP_VPN_REGISTRY_${suffix}=${vpnRegistryAddress}`);
+  console.log(`REACT_APP_VPN_SUBSCRIPTION_${suffix}=${vpnSubscriptionAddress}`);
+  console.log(`REACT_APP_DEPLOYMENT_BLOCK_${suffix}=${deploymentBlock}`);
+  console.log("\nSet in backend/.env:");
+  console.log(`VPN_REGISTRY_ADDRESS=${vpnRegistryAddress}`);
+  console.log(`VPN_SUBSCRIPTION_ADDRESS=${vpnSubscriptionAddress}`);
+  console.log(`INDEXER_START_BLOCK=${deploymentBlock}`);
 }
 
 main()
@@ -11,14 +11,17 @@ describe("VPNRegistry", function () {
     // Test node data
     const testNodeAddress = "0x1234567890123456789012345678901234567890";
     const testIpAddress = "192.168.1.1";
+    const stake = ethers.parseEther("0.01");
 
     beforeEach(async function () {
         // Get signers (accounts)
         [owner, addr1, addr2, ...addrs] = await ethers.getSigners();
 
         // Deploy the contract
+        const VPNSubscription = await ethers.getContractFactory("VPNSubscription");
+        const vpnSubscription = await VPNSubscription.deploy();
         const VPNRegistry = await ethers.getContractFactory("VPNRegistry");
-        vpnRegistry = await VPNRegistry.deploy();
+        vpnRegistry = await VPNRegistry.deploy(await vpnSubscription.getAddress());
         const address = await vpnRegistry.getAddress();
         
         // Get contract instance at deployed address
@@ -33,7 +36,7 @@ describe("VPNRegistry", function () {
 
     describe("Node Registration", function () {
         it("Should allow registering a new node", async function () {
-            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress);
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
             
             const nodeDetails = await vpnRegistry.getNodeDetails(testNodeAddress);
             expect(nodeDetails[0]).to.equal(testIpAddress); // IP address
@@ -41,28 +44,28 @@ describe("VPNRegistry", function () {
         });
 
         it("Should emit NodeRegistered event", async function () {
-            await expect(vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress))
+            await expect(vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake }))
                 .to.emit(vpnRegistry, "NodeRegistered")
                 .withArgs(testNodeAddress, testIpAddress, addr1.address);
         });
 
         it("Should not allow registering the same node twice", async function () {
-            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress);
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
             await expect(
-                vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress)
+                vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake })
             ).to.be.revertedWith("Node already registered");
         });
 
         it("Should not allow empty IP address", async function () {
             await expect(
-                vpnRegistry.connect(addr1).registerNode(testNodeAddress, "")
+                vpnRegistry.connect(addr1).registerNode(testNodeAddress, "", { value: stake })
             ).to.be.revertedWith("IP address cannot be empty");
         });
     });
 
     describe("Node Approval", function () {
         beforeEach(async function () {
-            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress);
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
         });
 
         it("Should allow admin to approve node", async function () {
@@ -94,7 +97,7 @@ describe("VPNRegistry", function () {
 
     describe("Node Deactivation", function () {
         beforeEach(async function () {
-            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress);
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
             await vpnRegistry.connect(owner).approveNode(testNodeAddress);
         });
 
@@ -125,7 +128,7 @@ describe("VPNRegistry", function () {
 
     describe("Node Reactivation", function () {
         beforeEach(async function () {
-            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress);
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
             await vpnRegistry.connect(owner).approveNode(testNodeAddress);
             await vpnRegistry.connect(owner).deactivateNode(testNodeAddress);
         });
@@ -174,7 +177,7 @@ describe("VPNRegistry", function () {
         beforeEach(async function () {
             // Register and approve all test nodes
             for (const node of testNodes) {
-                await vpnRegistry.connect(addr1).registerNode(node.address, node.ip);
+                await vpnRegistry.connect(addr1).registerNode(node.address, node.ip, { value: stake });
                 await vpnRegistry.connect(owner).approveNode(node.address);
                 await vpnRegistry.connect(owner).updateNodeMetrics(
                     node.address,
@@ -282,4 +285,135 @@ describe("VPNRegistry", function () {
             ).to.be.revertedWith("Reliability must be <= 100");
         });
     });
-}); 
\ No newline at end of file
+
+    describe("Staking", function () {
+        const DAY = 24 * 60 * 60;
+
+        async function increaseTime(seconds) {
+            await ethers.provider.send("evm_increaseTime", [seconds]);
+            await ethers.provider.send("evm_mine", []);
+        }
+
+        beforeEach(async function () {
+            await vpnRegistry.connect(addr1).registerNode(testNodeAddress, testIpAddress, { value: stake });
+            await vpnRegistry.connect(owner).approveNode(testNodeAddress);
+        });
+
+        it("Should require the minimum stake to register", async function () {
+            const otherNode = "0x9876543210987654321098765432109876543210";
+            await expect(
+                vpnRegistry.connect(addr2).registerNode(otherNode, "10.0.0.1", { value: stake - BigInt(1) })
+            ).to.be.revertedWith("Insufficient stake");
+        });
+
+        it("Should lock the stake sent at registration", async function () {
+            expect(await vpnRegistry.nodeStake(testNodeAddress)).to.equal(stake);
+            await expect(vpnRegistry.connect(addr1).addStake(testNodeAddress, { value: stake }))
+                .to.emit(vpnRegistry, "StakeAdded")
+                .withArgs(testNodeAddress, stake, stake * BigInt(2));
+        });
+
+        it("Should only release the stake after deactivation and unbonding", async function () {
+            await expect(
+                vpnRegistry.connect(addr1).withdrawStake(testNodeAddress)
+            ).to.be.revertedWith("Node must be deactivated first");
+
+            await vpnRegistry.connect(addr1).deactivateNode(testNodeAddress);
+            await expect(
+                vpnRegistry.connect(addr1).withdrawStake(testNodeAddress)
+            ).to.be.revertedWith("Stake is still unbonding");
+
+            await increaseTime(7 * DAY);
+            await expect(
+                vpnRegistry.connect(addr2).withdrawStake(testNodeAddress)
+            ).to.be.revertedWith("Only node owner can withdraw stake");
+            await expect(
+                vpnRegistry.connect(addr1).withdrawStake(testNodeAddress)
+            ).to.changeEtherBalances([addr1, vpnRegistry], [stake, -stake]);
+            expect(await vpnRegistry.nodeStake(testNodeAddress)).to.equal(0);
+        });
+
+        it("Should not re-approve a node whose stake was withdrawn", async function () {
+            await vpnRegistry.connect(addr1).deactivateNode(testNodeAddress);
+            await increaseTime(7 * DAY);
+            await vpnRegistry.connect(addr1).withdrawStake(testNodeAddress);
+
+            await expect(
+                vpnRegistry.connect(owner).approveNode(testNodeAddress)
+            ).to.be.revertedWith("Insufficient stake");
+        });
+
+        it("Should only slash after the dispute window", async function () {
+            const amount = stake / BigInt(4);
+            await expect(vpnRegistry.connect(owner).proposeSlash(testNodeAddress, amount, "Logged user traffic"))
+                .to.emit(vpnRegistry, "SlashProposed")
+                .withArgs(0, testNodeAddress, amount, "Logged user traffic");
+
+            await expect(
+                vpnRegistry.connect(owner).executeSlash(0)
+            ).to.be.revertedWith("Dispute window still open");
+
+            await increaseTime(3 * DAY);
+            await expect(vpnRegistry.connect(owner).executeSlash(0))
+                .to.emit(vpnRegistry, "NodeSlashed")
+                .withArgs(0, testNodeAddress, amount);
+            expect(await vpnRegistry.nodeStake(testNodeAddress)).to.equal(stake - amount);
+            expect(await vpnRegistry.slashedFunds()).to.equal(amount);
+
+            const slash = await vpnRegistry.slashes(0);
+            expect(slash.reason).to.equal("Logged user traffic");
+            expect(slash.status).to.equal(1); // Executed
+        });
+
+        it("Should let the operator dispute within the window", async function () {
+            await vpnRegistry.connect(owner).proposeSlash(testNodeAddress, stake, "Downtime");
+            await expect(vpnRegistry.connect(addr1).disputeSlash(0, "Provider outage"))
+                .to.emit(vpnRegistry, "SlashDisputed")
+                .withArgs(0, "Provider outage");
+            await expect(
+                vpnRegistry.connect(addr2).disputeSlash(0, "Not mine")
+            ).to.be.revertedWith("Only node owner can dispute");
+
+            await increaseTime(3 * DAY);
+            await expect(
+                vpnRegistry.connect(addr1).disputeSlash(0, "Too late")
+            ).to.be.revertedWith("Dispute window closed");
+        });
+
+        it("Should block withdrawal while a slash is pending", async function () {
+            await vpnRegistry.connect(owner).proposeSlash(testNodeAddress, stake, "Downtime");
+            await vpnRegistry.connect(addr1).deactivateNode(testNodeAddress);
+            await increaseTime(7 * DAY);
+
+            await expect(
+                vpnRegistry.connect(addr1).withdrawStake(testNodeAddress)
+            ).to.be.revertedWith("Slash pending");
+
+            await expect(vpnRegistry.connect(owner).cancelSlash(0))
+                .to.emit(vpnRegistry, "SlashCancelled")
+                .withArgs(0);
+            await vpnRegistry.connect(addr1).withdrawStake(testNodeAddress);
+        });
+
+        it("Should validate slash proposals", async function () {
+            await expect(
+                vpnRegistry.connect(addr1).proposeSlash(testNodeAddress, stake, "Downtime")
+            ).to.be.revertedWith("Only admin can perform this action");
+            await expect(
+                vpnRegistry.connect(owner).proposeSlash(testNodeAddress, stake + BigInt(1), "Downtime")
+            ).to.be.revertedWith("Amount exceeds stake");
+            await expect(
+                vpnRegistry.connect(owner).proposeSlash(testNodeAddress, stake, "")
+            ).to.be.revertedWith("Reason cannot be empty");
+        });
+
+        it("Should let the super admin change the staking parameters", async function () {
+            await expect(vpnRegistry.connect(owner).setStakingParameters(stake * BigInt(2), DAY, 2 * DAY))
+                .to.emit(vpnRegistry, "StakingParametersUpdated")
+                .withArgs(stake * BigInt(2), DAY, 2 * DAY);
+            await expect(
+                vpnRegistry.connect(addr1).setStakingParameters(0, 0, 0)
+            ).to.be.revertedWith("Only super admin can perform this action");
+        });
+    });
+});
@@ -0,0 +1,511 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("VPNSubscription", function () {
+    let vpnSubscription;
+    let owner;
+    let addr1;
+    let addr2;
+
+    const DAY = 24 * 60 * 60;
+    const defaultPrice = ethers.parseEther("0.00001");
+    const yearlyPrice = ethers.parseEther("0.0001");
+
+    async function latestTimestamp() {
+        return (await ethers.provider.getBlock("latest")).timestamp;
+    }
+
+    async function increaseTime(seconds) {
+        await ethers.provider.send("evm_increaseTime", [seconds]);
+        await ethers.provider.send("evm_mine", []);
+    }
+
+    beforeEach(async function () {
+        [owner, addr1, addr2] = await ethers.getSigners();
+
+        const VPNSubscription = await ethers.getContractFactory("VPNSubscription");
+        vpnSubscription = await VPNSubscription.deploy();
+        await vpnSubscription.waitForDeployment();
+    });
+
+    describe("Plans", function () {
+        it("Should start with the default 30 day plan", async function () {
+            expect(await vpnSubscription.planCount()).to.equal(1);
+
+            const plan = await vpnSubscription.getPlan(0);
+            expect(plan.price).to.equal(defaultPrice);
+            expect(plan.duration).to.equal(30 * DAY);
+            expect(plan.bandwidthTier).to.equal(0);
+            expect(plan.active).to.equal(true);
+        });
+
+        it("Should let the owner add a plan", async function () {
+            await expect(vpnSubscription.addPlan(yearlyPrice, 365 * DAY, 2))
+                .to.emit(vpnSubscription, "PlanAdded")
+                .withArgs(1, yearlyPrice, 365 * DAY, 2);
+
+            const plans = await vpnSubscription.getPlans();
+            expect(plans.length).to.equal(2);
+            expect(plans[1].duration).to.equal(365 * DAY);
+            expect(plans[1].bandwidthTier).to.equal(2);
+        });
+
+        it("Should let the owner update and deactivate a plan", async function () {
+            await expect(vpnSubscription.updatePlan(0, yearlyPrice, 7 * DAY, 1, false))
+                .to.emit(vpnSubscription, "PlanUpdated")
+                .withArgs(0, yearlyPrice, 7 * DAY, 1, false);
+
+            const plan = await vpnSubscription.getPlan(0);
+            expect(plan.price).to.equal(yearlyPrice);
+            expect(plan.active).to.equal(false);
+        });
+
+        it("Should not let others manage plans", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).addPlan(yearlyPrice, 365 * DAY, 0)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+            await expect(
+                vpnSubscription.connect(addr1).updatePlan(0, 0, 30 * DAY, 0, true)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+
+        it("Should reject plans without a duration", async function () {
+            await expect(
+                vpnSubscription.addPlan(yearlyPrice, 0, 0)
+            ).to.be.revertedWith("Duration must be positive");
+            await expect(
+                vpnSubscription.updatePlan(0, yearlyPrice, 0, 0, true)
+            ).to.be.revertedWith("Duration must be positive");
+        });
+
+        it("Should reject unknown plan IDs", async function () {
+            await expect(vpnSubscription.getPlan(5)).to.be.revertedWith("Plan does not exist");
+            await expect(
+                vpnSubscription.updatePlan(5, yearlyPrice, DAY, 0, true)
+            ).to.be.revertedWith("Plan does not exist");
+        });
+    });
+
+    describe("Subscribing", function () {
+        beforeEach(async function () {
+            await vpnSubscription.addPlan(yearlyPrice, 365 * DAY, 0);
+        });
+
+        it("Should mint a subscription for the chosen plan", async function () {
+            await vpnSubscription.connect(addr1).subscribe(1, { value: yearlyPrice });
+            const startedAt = await latestTimestamp();
+
+            const tokenId = await vpnSubscription.userLatestToken(addr1.address);
+            expect(await vpnSubscription.ownerOf(tokenId)).to.equal(addr1.address);
+            expect(await vpnSubscription.subscriptionPlan(tokenId)).to.equal(1);
+            expect(await vpnSubscription.subscriptionStart(tokenId)).to.equal(startedAt);
+            expect(await vpnSubscription.getSubscriptionExpiry(tokenId)).to.equal(startedAt + 365 * DAY);
+            expect(await vpnSubscription.hasActiveSubscription(addr1.address)).to.equal(true);
+        });
+
+        it("Should require the plan price", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).subscribe(1, { value: defaultPrice })
+            ).to.be.revertedWith("Insufficient payment");
+        });
+
+        it("Should not sell inactive plans", async function () {
+            await vpnSubscription.updatePlan(1, yearlyPrice, 365 * DAY, 0, false);
+            await expect(
+                vpnSubscription.connect(addr1).subscribe(1, { value: yearlyPrice })
+            ).to.be.revertedWith("Plan is not available");
+        });
+
+        it("Should keep the expiry of existing subscriptions when a plan changes", async function () {
+            await vpnSubscription.connect(addr1).subscribe(0, { value: defaultPrice });
+            const tokenId = await vpnSubscription.userLatestToken(addr1.address);
+            const expiry = await vpnSubscription.getSubscriptionExpiry(tokenId);
+
+            await vpnSubscription.updatePlan(0, defaultPrice, 60 * DAY, 0, true);
+            expect(await vpnSubscription.getSubscriptionExpiry(tokenId)).to.equal(expiry);
+        });
+    });
+
+    describe("Renewal", function () {
+        let tokenId;
+
+        beforeEach(async function () {
+            await vpnSubscription.addPlan(yearlyPrice, 365 * DAY, 0);
+            await vpnSubscription.connect(addr1).subscribe(0, { value: defaultPrice });
+            tokenId = await vpnSubscription.userLatestToken(addr1.address);
+        });
+
+        it("Should extend from the current expiry with the chosen plan", async function () {
+            const expiry = await vpnSubscription.getSubscriptionExpiry(tokenId);
+
+            await vpnSubscription.connect(addr1).renew(tokenId, 1, { value: yearlyPrice });
+            expect(await vpnSubscription.getSubscriptionExpiry(tokenId)).to.equal(expiry + BigInt(365 * DAY));
+            expect(await vpnSubscription.subscriptionPlan(tokenId)).to.equal(1);
+        });
+
+        it("Should extend a lapsed subscription from now", async function () {
+            await increaseTime(31 * DAY);
+
+            await vpnSubscription.connect(addr1).renew(tokenId, 0, { value: defaultPrice });
+            expect(await vpnSubscription.getSubscriptionExpiry(tokenId)).to.equal(
+                (await latestTimestamp()) + 30 * DAY
+            );
+        });
+
+        it("Should only let the owner renew", async function () {
+            await expect(
+                vpnSubscription.connect(addr2).renew(tokenId, 0, { value: defaultPrice })
+            ).to.be.revertedWith("Not subscription owner");
+        });
+
+        it("Should require the price of the renewal plan", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).renew(tokenId, 1, { value: defaultPrice })
+            ).to.be.revertedWith("Insufficient payment");
+        });
+    });
+
+    describe("Cancellation", function () {
+        let tokenId;
+
+        beforeEach(async function () {
+            await vpnSubscription.addPlan(yearlyPrice, 365 * DAY, 0);
+            await vpnSubscription.connect(addr1).subscribe(1, { value: yearlyPrice });
+            tokenId = await vpnSubscription.userLatestToken(addr1.address);
+        });
+
+        it("Should refund the plan price within 24 hours", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).cancelSubscription()
+            ).to.changeEtherBalances([addr1, vpnSubscription], [yearlyPrice, -yearlyPrice]);
+            expect(await vpnSubscription.hasActiveSubscription(addr1.address)).to.equal(false);
+        });
+
+        it("Should refuse after 24 hours", async function () {
+            await increaseTime(DAY + 1);
+            await expect(
+                vpnSubscription.connect(addr1).cancelSubscription()
+            ).to.be.revertedWith("Cancellation period expired");
+        });
+
+        it("Should refuse once the subscription was renewed, so the renewal is not lost", async function () {
+            await vpnSubscription.connect(addr1).renew(tokenId, 0, { value: defaultPrice });
+
+            await expect(
+                vpnSubscription.connect(addr1).cancelSubscription()
+            ).to.be.revertedWith("Renewed subscriptions cannot be cancelled");
+            expect(await vpnSubscription.ownerOf(tokenId)).to.equal(addr1.address);
+        });
+
+        it("Should not pay a second refund to a subscriber that re-enters from the first", async function () {
+            const ReentrantSubscriber = await ethers.getContractFactory("ReentrantSubscriber");
+            const subscriber = await ReentrantSubscriber.deploy(await vpnSubscription.getAddress());
+            await subscriber.subscribe(1, { value: yearlyPrice });
+
+            // The nested cancel is rejected, which fails the refund transfer and the whole cancel
+            await expect(subscriber.cancel()).to.be.revertedWith("Refund transfer failed");
+            expect(await ethers.provider.getBalance(await vpnSubscription.getAddress())).to.equal(yearlyPrice * 2n);
+            expect(await vpnSubscription.hasActiveSubscription(await subscriber.getAddress())).to.equal(true);
+        });
+    });
+
+    describe("ERC-20 payments", function () {
+        let usdc;
+        const monthlyUsdc = ethers.parseUnits("5", 6);
+
+        async function signPermit(signer, value, deadline) {
+            const nonce = await usdc.nonces(signer.address);
+            const { chainId } = await ethers.provider.getNetwork();
+            const signature = await signer.signTypedData(
+                {
+                    name: "USD Coin",
+                    version: "1",
+                    chainId,
+                    verifyingContract: await usdc.getAddress()
+                },
+                {
+                    Permit: [
+                        { name: "owner", type: "address" },
+                        { name: "spender", type: "address" },
+                        { name: "value", type: "uint256" },
+                        { name: "nonce", type: "uint256" },
+                        { name: "deadline", type: "uint256" }
+                    ]
+                },
+                {
+                    owner: signer.address,
+                    spender: await vpnSubscription.getAddress(),
+                    value,
+                    nonce,
+                    deadline
+                }
+            );
+            return ethers.Signature.from(signature);
+        }
+
+        beforeEach(async function () {
+            const MockERC20 = await ethers.getContractFactory("MockERC20");
+            usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+            await usdc.waitForDeployment();
+            await usdc.mint(addr1.address, ethers.parseUnits("100", 6));
+
+            await vpnSubscription.setPaymentToken(await usdc.getAddress(), true);
+            await vpnSubscription.setPlanTokenPrice(0, await usdc.getAddress(), monthlyUsdc);
+        });
+
+        it("Should manage the token allowlist", async function () {
+            const token = await usdc.getAddress();
+            expect(await vpnSubscription.getPaymentTokens()).to.deep.equal([token]);
+
+            await expect(vpnSubscription.setPaymentToken(token, false))
+                .to.emit(vpnSubscription, "PaymentTokenUpdated")
+                .withArgs(token, false);
+            expect(await vpnSubscription.getPaymentTokens()).to.deep.equal([]);
+
+            // Accepting it again must not list it twice
+            await vpnSubscription.setPaymentToken(token, true);
+            expect(await vpnSubscription.getPaymentTokens()).to.deep.equal([token]);
+        });
+
+        it("Should only let the owner set token prices", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).setPlanTokenPrice(0, await usdc.getAddress(), 1)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+            await expect(
+                vpnSubscription.setPlanTokenPrice(0, addr2.address, 1)
+            ).to.be.revertedWith("Token not accepted");
+        });
+
+        it("Should subscribe after an approval", async function () {
+            const token = await usdc.getAddress();
+            await usdc.connect(addr1).approve(await vpnSubscription.getAddress(), monthlyUsdc);
+
+            await expect(
+                vpnSubscription.connect(addr1).subscribeWithToken(0, token)
+            ).to.changeTokenBalances(usdc, [addr1, vpnSubscription], [-monthlyUsdc, monthlyUsdc]);
+            expect(await vpnSubscription.hasActiveSubscription(addr1.address)).to.equal(true);
+        });
+
+        it("Should not subscribe without an allowance", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).subscribeWithToken(0, await usdc.getAddress())
+            ).to.be.revertedWith("ERC20: insufficient allowance");
+        });
+
+        it("Should not take tokens that are not accepted or priced", async function () {
+            await vpnSubscription.addPlan(yearlyPrice, 365 * DAY, 0);
+            await expect(
+                vpnSubscription.connect(addr1).subscribeWithToken(1, await usdc.getAddress())
+            ).to.be.revertedWith("Plan not sold for this token");
+
+            await vpnSubscription.setPaymentToken(await usdc.getAddress(), false);
+            await expect(
+                vpnSubscription.connect(addr1).subscribeWithToken(0, await usdc.getAddress())
+            ).to.be.revertedWith("Token not accepted");
+        });
+
+        it("Should subscribe with a permit in one transaction", async function () {
+            const deadline = (await latestTimestamp()) + 3600;
+            const { v, r, s } = await signPermit(addr1, monthlyUsdc, deadline);
+
+            await vpnSubscription.connect(addr1).subscribeWithPermit(0, await usdc.getAddress(), deadline, v, r, s);
+            expect(await usdc.balanceOf(await vpnSubscription.getAddress())).to.equal(monthlyUsdc);
+            expect(await vpnSubscription.hasActiveSubscription(addr1.address)).to.equal(true);
+        });
+
+        it("Should still subscribe when the permit was already used", async function () {
+            const token = await usdc.getAddress();
+            const deadline = (await latestTimestamp()) + 3600;
+            const { v, r, s } = await signPermit(addr1, monthlyUsdc, deadline);
+            await usdc.permit(addr1.address, await vpnSubscription.getAddress(), monthlyUsdc, deadline, v, r, s);
+
+            await vpnSubscription.connect(addr1).subscribeWithPermit(0, token, deadline, v, r, s);
+            expect(await vpnSubscription.hasActiveSubscription(addr1.address)).to.equal(true);
+        });
+
+        it("Should reject a permit signed by someone else", async function () {
+            const deadline = (await latestTimestamp()) + 3600;
+            const { v, r, s } = await signPermit(addr2, monthlyUsdc, deadline);
+
+            await expect(
+                vpnSubscription.connect(addr1).subscribeWithPermit(0, await usdc.getAddress(), deadline, v, r, s)
+            ).to.be.revertedWith("Permit failed");
+        });
+
+        it("Should renew with tokens", async function () {
+            const token = await usdc.getAddress();
+            await usdc.connect(addr1).approve(await vpnSubscription.getAddress(), monthlyUsdc * BigInt(2));
+            await vpnSubscription.connect(addr1).subscribeWithToken(0, token);
+            const tokenId = await vpnSubscription.userLatestToken(addr1.address);
+            const expiry = await vpnSubscription.getSubscriptionExpiry(tokenId);
+
+            await vpnSubscription.connect(addr1).renewWithToken(tokenId, 0, token);
+            expect(await vpnSubscription.getSubscriptionExpiry(tokenId)).to.equal(expiry + BigInt(30 * DAY));
+        });
+
+        it("Should refund cancellations in the token paid", async function () {
+            await usdc.connect(addr1).approve(await vpnSubscription.getAddress(), monthlyUsdc);
+            await vpnSubscription.connect(addr1).subscribeWithToken(0, await usdc.getAddress());
+
+            await expect(
+                vpnSubscription.connect(addr1).cancelSubscription()
+            ).to.changeTokenBalances(usdc, [addr1, vpnSubscription], [monthlyUsdc, -monthlyUsdc]);
+        });
+
+        it("Should let the owner withdraw token revenue", async function () {
+            await usdc.connect(addr1).approve(await vpnSubscription.getAddress(), monthlyUsdc);
+            await vpnSubscription.connect(addr1).subscribeWithToken(0, await usdc.getAddress());
+            await increaseTime(8 * DAY);
+            await vpnSubscription.settleEpoch(0, [], []);
+
+            await expect(
+                vpnSubscription.withdrawTokens(await usdc.getAddress())
+            ).to.changeTokenBalances(usdc, [owner, vpnSubscription], [monthlyUsdc, -monthlyUsdc]);
+            await expect(
+                vpnSubscription.connect(addr1).withdrawTokens(await usdc.getAddress())
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+    });
+
+    describe("Revenue sharing", function () {
+        let vpnRegistry;
+        let operator1;
+        let operator2;
+        const node1 = "0x1111111111111111111111111111111111111111";
+        const node2 = "0x2222222222222222222222222222222222222222";
+
+        beforeEach(async function () {
+            const signers = await ethers.getSigners();
+            [operator1, operator2] = signers.slice(3, 5);
+
+            const VPNRegistry = await ethers.getContractFactory("VPNRegistry");
+            vpnRegistry = await VPNRegistry.deploy(await vpnSubscription.getAddress());
+            await vpnRegistry.waitForDeployment();
+
+            const stake = await vpnRegistry.minimumStake();
+            await vpnRegistry.connect(operator1).registerNode(node1, "10.0.0.1", { value: stake });
+            await vpnRegistry.connect(operator2).registerNode(node2, "10.0.0.2", { value: stake });
+            // Scores of 100 and 75
+            await vpnRegistry.updateNodeMetrics(node1, 0, 1000, 100, 100);
+            await vpnRegistry.updateNodeMetrics(node2, 0, 0, 100, 100);
+
+            await vpnSubscription.setRevenueSharing(await vpnRegistry.getAddress(), 2000);
+            await vpnSubscription.connect(addr1).subscribe(0, { value: defaultPrice });
+        });
+
+        it("Should book payments to the epoch they were made in", async function () {
+            expect(await vpnSubscription.currentEpoch()).to.equal(0);
+            expect(await vpnSubscription.epochRevenue(0, ethers.ZeroAddress)).to.equal(defaultPrice);
+
+            await increaseTime(7 * DAY);
+            const tokenId = await vpnSubscription.userLatestToken(addr1.address);
+            await vpnSubscription.connect(addr1).renew(tokenId, 0, { value: defaultPrice });
+            expect(await vpnSubscription.epochRevenue(1, ethers.ZeroAddress)).to.equal(defaultPrice);
+        });
+
+        it("Should remove refunded payments from the epoch revenue", async function () {
+            await vpnSubscription.connect(addr1).cancelSubscription();
+            expect(await vpnSubscription.epochRevenue(0, ethers.ZeroAddress)).to.equal(0);
+        });
+
+        it("Should only settle once the epoch and settlement delay have passed", async function () {
+            await increaseTime(7 * DAY);
+            await expect(
+                vpnSubscription.settleEpoch(0, [node1], [1])
+            ).to.be.revertedWith("Epoch not ready for settlement");
+
+            await increaseTime(DAY);
+            await vpnSubscription.settleEpoch(0, [node1], [1]);
+            await expect(
+                vpnSubscription.settleEpoch(0, [node1], [1])
+            ).to.be.revertedWith("Epoch already settled");
+        });
+
+        it("Should split revenue by score and served sessions", async function () {
+            await increaseTime(8 * DAY);
+
+            // 100 * 3 and 75 * 4 give both nodes the same weight
+            const operatorShare = (defaultPrice * BigInt(8000)) / BigInt(10000) / BigInt(2);
+            await expect(vpnSubscription.settleEpoch(0, [node1, node2], [3, 4]))
+                .to.emit(vpnSubscription, "OperatorRewarded")
+                .withArgs(0, operator1.address, node1, ethers.ZeroAddress, operatorShare)
+                .and.to.emit(vpnSubscription, "EpochSettled")
+                .withArgs(0, 600);
+
+            expect(await vpnSubscription.earnings(operator1.address, ethers.ZeroAddress)).to.equal(operatorShare);
+            expect(await vpnSubscription.earnings(operator2.address, ethers.ZeroAddress)).to.equal(operatorShare);
+            expect(await vpnSubscription.treasuryBalance(ethers.ZeroAddress)).to.equal(defaultPrice - operatorShare * BigInt(2));
+        });
+
+        it("Should reject node lists that are not strictly ascending", async function () {
+            await increaseTime(8 * DAY);
+
+            await expect(
+                vpnSubscription.settleEpoch(0, [node1, node1], [1, 1])
+            ).to.be.revertedWith("Node addresses not ascending");
+            await expect(
+                vpnSubscription.settleEpoch(0, [node2, node1], [1, 1])
+            ).to.be.revertedWith("Node addresses not ascending");
+        });
+
+        it("Should reject nodes the registry reports without an operator", async function () {
+            const MockNodeRegistry = await ethers.getContractFactory("MockNodeRegistry");
+            const mockRegistry = await MockNodeRegistry.deploy();
+            await vpnSubscription.setRevenueSharing(await mockRegistry.getAddress(), 2000);
+            await increaseTime(8 * DAY);
+
+            await expect(
+                vpnSubscription.settleEpoch(0, [node1], [1])
+            ).to.be.revertedWith("Node has no operator");
+        });
+
+        it("Should give the treasury everything when no node served", async function () {
+            await increaseTime(8 * DAY);
+            await vpnSubscription.settleEpoch(0, [node1], [0]);
+
+            expect(await vpnSubscription.earnings(operator1.address, ethers.ZeroAddress)).to.equal(0);
+            expect(await vpnSubscription.treasuryBalance(ethers.ZeroAddress)).to.equal(defaultPrice);
+        });
+
+        it("Should let operators claim their earnings", async function () {
+            await increaseTime(8 * DAY);
+            await vpnSubscription.settleEpoch(0, [node1], [1]);
+            const operatorShare = (defaultPrice * BigInt(8000)) / BigInt(10000);
+
+            const [tokens, amounts] = await vpnSubscription.earningsOf(operator1.address);
+            expect(tokens).to.deep.equal([ethers.ZeroAddress]);
+            expect(amounts).to.deep.equal([operatorShare]);
+
+            await expect(
+                vpnSubscription.connect(operator1).claimEarnings(ethers.ZeroAddress)
+            ).to.changeEtherBalances([operator1, vpnSubscription], [operatorShare, -operatorShare]);
+            await expect(
+                vpnSubscription.connect(operator1).claimEarnings(ethers.ZeroAddress)
+            ).to.be.revertedWith("Nothing to claim");
+        });
+
+        it("Should only let the owner withdraw the treasury share", async function () {
+            await increaseTime(8 * DAY);
+            await vpnSubscription.settleEpoch(0, [node1], [1]);
+            const treasuryShare = await vpnSubscription.treasuryBalance(ethers.ZeroAddress);
+
+            await expect(
+                vpnSubscription.withdrawFunds()
+            ).to.changeEtherBalances([owner, vpnSubscription], [treasuryShare, -treasuryShare]);
+        });
+
+        it("Should only let the owner configure and settle", async function () {
+            await expect(
+                vpnSubscription.connect(addr1).setRevenueSharing(await vpnRegistry.getAddress(), 0)
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+            await expect(
+                vpnSubscription.setRevenueSharing(await vpnRegistry.getAddress(), 10001)
+            ).to.be.revertedWith("Share exceeds 100%");
+
+            await increaseTime(8 * DAY);
+            await expect(
+                vpnSubscription.connect(addr1).settleEpoch(0, [node1], [1])
+            ).to.be.revertedWith("Ownable: caller is not the owner");
+        });
+    });
+});
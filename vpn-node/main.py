@@ -1,15 +1,24 @@
-from fastapi import FastAPI, HTTPException
+from fastapi import FastAPI, Header, HTTPException, Query
+from fastapi.responses import PlainTextResponse, StreamingResponse
 from fastapi.middleware.cors import CORSMiddleware
 from pydantic import BaseModel
 import os
 import subprocess
 from pathlib import Path
 import uuid
-from typing import Dict
+from typing import Dict, List, Optional
+import base64
+import binascii
+import hashlib
+import hmac
 import json
 import datetime
+import time
 
-app = FastAPI()
+# Version of the HTTP contract described in openapi.yaml
+API_VERSION = "2.0.0"
+
+app = FastAPI(title="dVPN node agent", version=API_VERSION)
 
 # CORS configuration
 app.add_middleware(
@@ -27,9 +36,26 @@ SERVER_PRIVATE_KEY_PATH = WG_CONFIG_DIR / "private.key"
 SERVER_PUBLIC_KEY_PATH = WG_CONFIG_DIR / "public.key"
 PEERS_FILE = WG_CONFIG_DIR / "peers.json"
 
+# A peer counts as connected while its last handshake is this recent
+HANDSHAKE_TIMEOUT = 180
+
+# Bounds for /speedtest so a probe cannot pull unlimited traffic through the node
+SPEEDTEST_DEFAULT_BYTES = 1024 * 1024
+SPEEDTEST_MAX_BYTES = 8 * 1024 * 1024
+SPEEDTEST_CHUNK_BYTES = 64 * 1024
+
+# The backend's JWT_SECRET. Requests that act on a user's peer must carry a
+# session token the backend signed with it, and may only act on the token's
+# own address unless the token belongs to an admin.
+SESSION_SECRET = os.getenv("JWT_SECRET")
+
 class PeerRequest(BaseModel):
     user_id: str
 
+class RegisterPeerRequest(BaseModel):
+    user_id: str
+    public_key: str
+
 def load_peers() -> Dict:
     if PEERS_FILE.exists():
         with open(PEERS_FILE, 'r') as f:
@@ -46,23 +72,117 @@ def generate_keys():
                               capture_output=True).stdout.decode().strip()
     return private_key, public_key
 
-@app.post("/generate-peer")
-async def generate_peer(request: PeerRequest):
+def is_valid_public_key(key: str) -> bool:
+    # WireGuard keys are 32 raw bytes, base64-encoded
+    try:
+        return len(base64.b64decode(key, validate=True)) == 32
+    except (binascii.Error, ValueError):
+        return False
+
+def b64url_decode(segment: str) -> bytes:
+    return base64.urlsafe_b64decode(segment + "=" * (-len(segment) % 4))
+
+def verify_session_token(token: str) -> Dict:
+    """Returns the claims of an HS256 backend session token, or raises 401."""
+    try:
+        header_b64, payload_b64, signature_b64 = token.split(".")
+        header = json.loads(b64url_decode(header_b64))
+        claims = json.loads(b64url_decode(payload_b64))
+        signature = b64url_decode(signature_b64)
+    except (ValueError, binascii.Error):
+        raise HTTPException(status_code=401, detail="Invalid session token")
+
+    expected = hmac.new(SESSION_SECRET.encode(), f"{header_b64}.{payload_b64}".encode(),
+                        hashlib.sha256).digest()
+    if header.get("alg") != "HS256" or not hmac.compare_digest(signature, expected):
+        raise HTTPException(status_code=401, detail="Invalid session token")
+    if not isinstance(claims.get("address"), str) or claims.get("exp", 0) < time.time():
+        raise HTTPException(status_code=401, detail="Session token expired")
+    return claims
+
+def authorize_user(authorization: Optional[str], user_id: str) -> str:
+    """Checks the bearer token may act on user_id and returns the peer key for it."""
+    if not SESSION_SECRET:
+        raise HTTPException(status_code=503, detail="Peer requests are disabled: JWT_SECRET is not set")
+    if not authorization or not authorization.startswith("Bearer "):
+        raise HTTPException(status_code=401, detail="No session token provided")
+
+    claims = verify_session_token(authorization[len("Bearer "):])
+    # Addresses are compared case-insensitively, so peers are keyed in lowercase
+    if not claims.get("isAdmin") and user_id.lower() != claims["address"].lower():
+        raise HTTPException(status_code=403, detail="Session token does not belong to this user")
+    return user_id.lower()
+
+def allocate_ip(peers: Dict) -> str:
+    # Peers live in 10.0.0.0/24; 10.0.0.1 is the server
+    used_ips = set(peer['ip'] for peer in peers.values())
+    for i in range(2, 255):
+        ip = f"10.0.0.{i}"
+        if ip not in used_ips:
+            return ip
+    raise HTTPException(status_code=503, detail="No available IP addresses")
+
+@app.post("/register-peer")
+async def register_peer(request: RegisterPeerRequest, authorization: Optional[str] = Header(None)):
+    """Adds a peer from the client's own public key.
+
+    The client generates its keypair locally and keeps the private key, so the
+    response only carries what it needs to build its config around it.
+    """
+    user_id = authorize_user(authorization, request.user_id)
+    if not is_valid_public_key(request.public_key):
+        raise HTTPException(status_code=400, detail="Invalid WireGuard public key")
+
+    try:
+        peers = load_peers()
+
+        # Reconnecting replaces the user's previous key but keeps the address
+        existing = peers.get(user_id)
+        if existing:
+            peer_ip = existing["ip"]
+            if existing["public_key"] != request.public_key:
+                subprocess.run(["wg", "set", WG_INTERFACE, "peer", existing["public_key"], "remove"])
+        else:
+            peer_ip = allocate_ip(peers)
+
+        peer_id = existing["id"] if existing else str(uuid.uuid4())
+        peers[user_id] = {
+            "id": peer_id,
+            "public_key": request.public_key,
+            "ip": peer_ip,
+            "created_at": str(datetime.datetime.now())
+        }
+        save_peers(peers)
+
+        subprocess.run(["wg", "set", WG_INTERFACE, "peer", request.public_key,
+                       "allowed-ips", f"{peer_ip}/32"], check=True)
+
+        return {
+            "peer_id": peer_id,
+            "address": f"{peer_ip}/32",
+            "server_public_key": os.getenv('SERVER_PUBLIC_KEY'),
+            "endpoint": f"{os.getenv('SERVER_ENDPOINT')}:51820",
+            "dns": ["8.8.8.8", "8.8.4.4"],
+            "allowed_ips": ["0.0.0.0/0"]
+        }
+
+    except HTTPException:
+        raise
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+# Kept for clients that predate /register-peer; the private key is generated
+# here and returned in the config
+@app.post("/generate-peer", deprecated=True)
+async def generate_peer(request: PeerRequest, authorization: Optional[str] = Header(None)):
+    user_id = authorize_user(authorization, request.user_id)
     try:
         peers = load_peers()
         
         # Generate WireGuard keys for the new peer
         private_key, public_key = generate_keys()
         
-        # Generate unique IP for the peer (assuming 10.0.0.0/24 network)
-        used_ips = set(peer['ip'] for peer in peers.values())
-        for i in range(2, 255):
-            ip = f"10.0.0.{i}"
-            if ip not in used_ips:
-                peer_ip = ip
-                break
-        else:
-            raise HTTPException(status_code=500, detail="No available IP addresses")
+        peer_ip = allocate_ip(peers)
 
         # Create peer configuration
         peer_config = f"""[Interface]
@@ -79,7 +199,7 @@ PersistentKeepalive = 25
 
         # Save peer information
         peer_id = str(uuid.uuid4())
-        peers[request.user_id] = {
+        peers[user_id] = {
             "id": peer_id,
             "public_key": public_key,
             "ip": peer_ip,
@@ -96,36 +216,152 @@ PersistentKeepalive = 25
             "peer_id": peer_id
         }
 
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
 @app.post("/delete-peer")
-async def delete_peer(request: PeerRequest):
+async def delete_peer(request: PeerRequest, authorization: Optional[str] = Header(None)):
+    user_id = authorize_user(authorization, request.user_id)
     try:
         peers = load_peers()
         
         # Check if the peer exists
-        if request.user_id not in peers:
+        if user_id not in peers:
             raise HTTPException(status_code=404, detail="Peer not found")
             
-        peer = peers[request.user_id]
+        peer = peers[user_id]
         public_key = peer["public_key"]
         
         # Remove peer from WireGuard
         subprocess.run(["wg", "set", WG_INTERFACE, "peer", public_key, "remove"])
         
         # Remove peer from our records
-        del peers[request.user_id]
+        del peers[user_id]
         save_peers(peers)
         
         return {"status": "success", "message": "Peer deleted successfully"}
         
+    except HTTPException:
+        raise
     except Exception as e:
         raise HTTPException(status_code=500, detail=str(e))
 
+def wg_dump() -> Dict:
+    output = subprocess.run(["wg", "show", WG_INTERFACE, "dump"],
+                            capture_output=True, check=True).stdout.decode()
+    lines = [line.split("\t") for line in output.strip().splitlines()]
+    # The first line describes the interface, every other line is a peer
+    interface, peer_lines = lines[0], lines[1:]
+    peers = {}
+    for fields in peer_lines:
+        peers[fields[0]] = {
+            "endpoint": None if fields[2] == "(none)" else fields[2],
+            "latest_handshake": int(fields[4]) or None,
+            "rx_bytes": int(fields[5]),
+            "tx_bytes": int(fields[6])
+        }
+    return {
+        "public_key": interface[1],
+        "listen_port": int(interface[2]),
+        "peers": peers
+    }
+
+def is_connected(peer: Dict) -> bool:
+    handshake = peer["latest_handshake"]
+    return handshake is not None and time.time() - handshake < HANDSHAKE_TIMEOUT
+
+def read_meminfo() -> Dict:
+    values = {}
+    with open("/proc/meminfo") as f:
+        for line in f:
+            key, value = line.split(":", 1)
+            values[key] = int(value.split()[0]) * 1024
+    return values
+
 @app.get("/health")
 async def health_check():
-    return {"status": "healthy"}
+    return {"status": "healthy", "version": API_VERSION}
+
+@app.get("/ping", response_class=PlainTextResponse)
+async def ping():
+    return "pong"
+
+@app.get("/speedtest")
+async def speedtest(size: int = Query(SPEEDTEST_DEFAULT_BYTES, ge=1, le=SPEEDTEST_MAX_BYTES)):
+    def chunks():
+        remaining = size
+        while remaining > 0:
+            chunk = min(SPEEDTEST_CHUNK_BYTES, remaining)
+            # Random bytes so compression on the path cannot inflate the result
+            yield os.urandom(chunk)
+            remaining -= chunk
+
+    return StreamingResponse(
+        chunks(),
+        media_type="application/octet-stream",
+        headers={"Content-Length": str(size), "Cache-Control": "no-store"}
+    )
+
+@app.get("/status")
+async def status(user_id: Optional[str] = None, authorization: Optional[str] = Header(None)):
+    # Interface totals are public; one user's peer needs that user's session
+    if user_id is not None:
+        user_id = authorize_user(authorization, user_id)
+
+    try:
+        dump = wg_dump()
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+    result = {
+        "interface": WG_INTERFACE,
+        "public_key": dump["public_key"],
+        "listen_port": dump["listen_port"],
+        "peer_count": len(dump["peers"]),
+        "connected_peers": sum(1 for peer in dump["peers"].values() if is_connected(peer))
+    }
+
+    if user_id is not None:
+        record = load_peers().get(user_id)
+        peer = record and dump["peers"].get(record["public_key"])
+        if not peer:
+            raise HTTPException(status_code=404, detail="Peer not found")
+        result["peer"] = {
+            "user_id": user_id,
+            "public_key": record["public_key"],
+            "address": f"{record['ip']}/32",
+            "connected": is_connected(peer),
+            **peer
+        }
+
+    return result
+
+@app.get("/metrics")
+async def metrics():
+    try:
+        dump = wg_dump()
+        meminfo = read_meminfo()
+        with open("/proc/uptime") as f:
+            uptime = float(f.read().split()[0])
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+    peers: List[Dict] = list(dump["peers"].values())
+    return {
+        "timestamp": int(time.time()),
+        "uptime_seconds": int(uptime),
+        "load_average": list(os.getloadavg()),
+        "memory": {
+            "total_bytes": meminfo.get("MemTotal", 0),
+            "available_bytes": meminfo.get("MemAvailable", 0)
+        },
+        "peer_count": len(peers),
+        "connected_peers": sum(1 for peer in peers if is_connected(peer)),
+        "rx_bytes": sum(peer["rx_bytes"] for peer in peers),
+        "tx_bytes": sum(peer["tx_bytes"] for peer in peers)
+    }
 
 if __name__ == "__main__":
     import uvicorn